@@ -0,0 +1,215 @@
+'use client';
+
+import { Suspense, useEffect } from 'react';
+import dynamic from 'next/dynamic';
+import { useXRPreviewStore } from '../stores/XRPreviewStore';
+import { useRoomDesignerStore } from '../stores/RoomDesignerStore';
+import { useGalleryStore } from '../stores/MockStore';
+import { useOrderStore } from '../stores/OrderStore';
+import { useUrlStateSync } from '../hooks/useUrlStateSync';
+import { useCartSync } from '../hooks/useCartSync';
+import { ProductPagePreview } from '../components/ui/ProductPagePreview';
+import type { Product } from '../lib/types';
+
+// Dynamically import the 3D gallery to avoid SSR issues
+const ImmersiveGallery = dynamic(
+  () => import('../components/canvas/ImmersiveGallery'),
+  { 
+    ssr: false,
+    loading: () => <LoadingScreen />
+  }
+);
+
+// Dynamically import XR preview modes
+const ARPreviewMode = dynamic(
+  () => import('../components/canvas/ARPreviewMode'),
+  { ssr: false }
+);
+
+const VRPreviewMode = dynamic(
+  () => import('../components/canvas/VRPreviewMode'),
+  { ssr: false }
+);
+
+// Dynamically import the room designer
+const RoomDesigner = dynamic(
+  () => import('../components/room-designer/RoomDesigner'),
+  { ssr: false }
+);
+
+// Dynamically import device info display
+const DeviceInfoDisplay = dynamic(
+  () => import('../components/ui/DeviceInfoDisplay'),
+  { ssr: false }
+);
+
+// Dynamically import commerce UI components
+const ProductDetailModal = dynamic(
+  () => import('../components/ui/ProductDetailModal'),
+  { ssr: false }
+);
+
+const CartPanel = dynamic(
+  () => import('../components/ui/CartPanel'),
+  { ssr: false }
+);
+
+const CartButton = dynamic(
+  () => import('../components/ui/CartButton'),
+  { ssr: false }
+);
+
+const WishlistButton = dynamic(
+  () => import('../components/ui/WishlistButton'),
+  { ssr: false }
+);
+
+const CollectionsButton = dynamic(
+  () => import('../components/ui/CollectionsButton'),
+  { ssr: false }
+);
+
+const WishlistPanel = dynamic(
+  () => import('../components/ui/WishlistPanel'),
+  { ssr: false }
+);
+
+const LocaleSelector = dynamic(
+  () => import('../components/ui/LocaleSelector'),
+  { ssr: false }
+);
+
+const RoomDesignerButton = dynamic(
+  () => import('../components/ui/RoomDesignerButton'),
+  { ssr: false }
+);
+
+const OrdersButton = dynamic(
+  () => import('../components/ui/OrdersButton'),
+  { ssr: false }
+);
+
+const OrderHistoryPanel = dynamic(
+  () => import('../components/ui/OrderHistoryPanel'),
+  { ssr: false }
+);
+
+const FilterMenu = dynamic(
+  () => import('../components/ui/FilterMenu'),
+  { ssr: false }
+);
+
+const SearchOverlay = dynamic(
+  () => import('../components/ui/SearchOverlay'),
+  { ssr: false }
+);
+
+const CheckoutFlow = dynamic(
+  () => import('../components/ui/CheckoutFlow'),
+  { ssr: false }
+);
+
+const SavedItemsNotice = dynamic(
+  () => import('../components/ui/SavedItemsNotice'),
+  { ssr: false }
+);
+
+// Loading screen component
+function LoadingScreen() {
+  return (
+    <div className="flex h-screen w-screen items-center justify-center bg-black">
+      <div className="text-center">
+        <div className="mb-4 h-12 w-12 mx-auto animate-spin rounded-full border-4 border-white/20 border-t-white"></div>
+        <p className="text-white/70 text-lg">Loading Virtual Studio...</p>
+      </div>
+    </div>
+  );
+}
+
+// XR Preview Mode Wrapper
+function XRPreviewOverlay() {
+  const { isActive, mode } = useXRPreviewStore();
+
+  if (!isActive || !mode) {
+    return null;
+  }
+
+  return mode === 'ar' ? <ARPreviewMode /> : <VRPreviewMode />;
+}
+
+// Room Designer Wrapper
+function RoomDesignerOverlay() {
+  const isOpen = useRoomDesignerStore((state) => state.isOpen);
+  return isOpen ? <RoomDesigner /> : null;
+}
+
+interface StudioAppProps {
+  /** Server-loaded product shown until the catalog is ready (product pages) */
+  initialProduct?: Product;
+}
+
+/**
+ * The studio shell shared by every route (`/`, `/product/[id]`). Routes only
+ * differ in the URL, which restores the product, filters and XR preview.
+ */
+export default function StudioApp({ initialProduct }: StudioAppProps) {
+  const loadCatalog = useGalleryStore((state) => state.loadCatalog);
+  const isCatalogReady = useGalleryStore((state) => state.catalogStatus === 'ready');
+
+  // Load the product catalog from the active provider
+  useEffect(() => {
+    loadCatalog();
+  }, [loadCatalog]);
+
+  // Retry orders that couldn't reach the backend on a previous visit
+  useEffect(() => {
+    useOrderStore.getState().syncOrders();
+  }, []);
+
+  useUrlStateSync();
+  useCartSync();
+
+  return (
+    <main className="relative h-screen w-screen overflow-hidden bg-black">
+      <Suspense fallback={<LoadingScreen />}>
+        <ImmersiveGallery />
+      </Suspense>
+
+      {/* Server-rendered product summary, replaced by the HUD once the catalog loads */}
+      {initialProduct && !isCatalogReady && <ProductPagePreview product={initialProduct} />}
+      
+      {/* Header Actions - Top Right Corner */}
+      <div className="absolute top-4 right-4 z-10 pointer-events-auto flex items-center gap-2">
+        <LocaleSelector />
+        <RoomDesignerButton />
+        <OrdersButton />
+        <CollectionsButton />
+        <WishlistButton />
+        <CartButton />
+      </div>
+      
+      {/* Device Info Display - Top Left Corner */}
+      <div className="absolute top-4 left-4 z-10 pointer-events-auto">
+        <DeviceInfoDisplay />
+      </div>
+      
+      {/* Catalog Filter Menu & Search */}
+      <FilterMenu />
+      <SearchOverlay />
+
+      {/* XR Preview Mode Overlay */}
+      <XRPreviewOverlay />
+
+      {/* Virtual Room Designer */}
+      <RoomDesignerOverlay />
+
+      {/* Commerce Modals */}
+      <ProductDetailModal />
+      <CartPanel />
+      <CheckoutFlow />
+      <OrderHistoryPanel />
+      <WishlistPanel />
+      <SavedItemsNotice />
+    </main>
+  );
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { getCart, isCartSnapshot, isValidCartId, saveCart } from '../../../../lib/server/carts';
+import { jsonError, readJsonBody, withErrorHandling } from '../../../../lib/server/http';
+
+export const dynamic = 'force-dynamic';
+
+interface CartRouteContext {
+  params: { id: string };
+}
+
+/**
+ * GET /api/carts/:id → ServerCart, or 404 if the cart was never saved
+ */
+export function GET(_request: Request, { params }: CartRouteContext) {
+  return withErrorHandling(async () => {
+    if (!isValidCartId(params.id)) {
+      return jsonError(400, 'invalid_request', 'Invalid cart id');
+    }
+    const cart = await getCart(params.id);
+    if (!cart) {
+      return jsonError(404, 'not_found', 'Cart not found');
+    }
+    return NextResponse.json(cart);
+  });
+}
+
+/**
+ * PUT /api/carts/:id with a CartSnapshot → the saved ServerCart (new revision)
+ */
+export function PUT(request: Request, { params }: CartRouteContext) {
+  return withErrorHandling(async () => {
+    if (!isValidCartId(params.id)) {
+      return jsonError(400, 'invalid_request', 'Invalid cart id');
+    }
+    const body = await readJsonBody(request);
+    if (!isCartSnapshot(body)) {
+      return jsonError(400, 'invalid_request', 'Expected a cart with lines, shippingCountry, promoCode, currency and exchangeRate');
+    }
+    return NextResponse.json(await saveCart(params.id, body));
+  });
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { getServerCatalog } from '../../../../../lib/server/catalog';
+import { jsonError, withErrorHandling } from '../../../../../lib/server/http';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/catalog/products/:id → Product, or 404
+ */
+export function GET(_request: Request, { params }: { params: { id: string } }) {
+  return withErrorHandling(async () => {
+    const product = await getServerCatalog().getProduct(params.id);
+    if (!product) {
+      return jsonError(404, 'not_found', `No product with id ${params.id}`);
+    }
+    return NextResponse.json(product);
+  });
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { CATALOG_CONFIG } from '../../../../lib/constants';
+import { getServerCatalog } from '../../../../lib/server/catalog';
+import { withErrorHandling } from '../../../../lib/server/http';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/catalog/products            → Product[]
+ * GET /api/catalog/products?q=term     → Product[] matching the query
+ * GET /api/catalog/products?page=1     → CatalogPage (optional pageSize)
+ *
+ * Same contract as `createRestCatalogProvider`, so the client can use
+ * NEXT_PUBLIC_CATALOG_URL=/api/catalog.
+ */
+export function GET(request: Request) {
+  return withErrorHandling(async () => {
+    const { searchParams } = new URL(request.url);
+    const catalog = getServerCatalog();
+
+    const query = searchParams.get('q');
+    if (query !== null) {
+      return NextResponse.json(await catalog.searchProducts(query));
+    }
+
+    const page = Number(searchParams.get('page'));
+    if (page > 0) {
+      const pageSize = Number(searchParams.get('pageSize')) || CATALOG_CONFIG.defaultPageSize;
+      return NextResponse.json(await catalog.getPage({ page, pageSize }));
+    }
+
+    return NextResponse.json(await catalog.listProducts());
+  });
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { getHandoff, isValidHandoffCode } from '../../../../lib/server/handoffs';
+import { jsonError, withErrorHandling } from '../../../../lib/server/http';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/handoffs/:code → HandoffPayload, or 404 once the code has expired
+ */
+export function GET(_request: Request, { params }: { params: { code: string } }) {
+  return withErrorHandling(async () => {
+    if (!isValidHandoffCode(params.code)) {
+      return jsonError(400, 'invalid_request', 'Invalid pairing code');
+    }
+    const handoff = await getHandoff(params.code);
+    if (!handoff) {
+      return jsonError(404, 'not_found', 'That pairing code has expired or does not exist');
+    }
+    return NextResponse.json(handoff);
+  });
+}
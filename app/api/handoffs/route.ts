@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { createHandoff, parseHandoffPayload } from '../../../lib/server/handoffs';
+import { jsonError, readJsonBody, withErrorHandling } from '../../../lib/server/http';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/handoffs with a HandoffPayload → 201 HandoffTicket (pairing code + expiry)
+ */
+export function POST(request: Request) {
+  return withErrorHandling(async () => {
+    const payload = parseHandoffPayload(await readJsonBody(request));
+    if (!payload) {
+      return jsonError(400, 'invalid_request', 'Expected a handoff with cartId, cartRevision, cart, wishlist and productId');
+    }
+    return NextResponse.json(await createHandoff(payload), { status: 201 });
+  });
+}
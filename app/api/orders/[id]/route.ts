@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { jsonError, withErrorHandling } from '../../../../lib/server/http';
+import { findOrder } from '../../../../lib/server/orders';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/orders/:id?email=... → Order, or 404 when the id and email don't match
+ */
+export function GET(request: Request, { params }: { params: { id: string } }) {
+  return withErrorHandling(async () => {
+    const email = new URL(request.url).searchParams.get('email');
+    if (!email) {
+      return jsonError(400, 'invalid_request', 'The email used for the order is required');
+    }
+    const order = await findOrder(params.id, email);
+    if (!order) {
+      return jsonError(404, 'not_found', 'No order found for that id and email');
+    }
+    return NextResponse.json(order);
+  });
+}
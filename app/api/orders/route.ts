@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { jsonError, readJsonBody, withErrorHandling } from '../../../lib/server/http';
+import { submitOrder } from '../../../lib/server/orders';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/orders with an Order → the stored Order
+ *
+ * Prices are recomputed from the catalog; a total that doesn't match is a
+ * 409. Re-submitting an existing order id with its email returns it with 200
+ * instead of 201; with any other email it's a 409 without the order.
+ */
+export function POST(request: Request) {
+  return withErrorHandling(async () => {
+    const result = await submitOrder(await readJsonBody(request));
+    if (!result.ok) {
+      return jsonError(result.code === 'invalid_request' ? 400 : 409, result.code, result.error);
+    }
+    return NextResponse.json(result.order, { status: result.created ? 201 : 200 });
+  });
+}
@@ -1,7 +1,9 @@
 import type { Metadata, Viewport } from 'next';
+import { SITE_CONFIG } from '../lib/constants';
 import './globals.css';
 
 export const metadata: Metadata = {
+  metadataBase: new URL(SITE_CONFIG.url),
   title: 'Virtual Studio - WebXR Spatial Commerce',
   description: 'Experience furniture and art in immersive 3D environments with AR support',
   keywords: ['WebXR', 'AR', 'VR', '3D', 'commerce', 'furniture', 'art', 'immersive'],
@@ -0,0 +1,63 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { getServerCatalog } from '../../../lib/server/catalog';
+import { getProductJsonLd, getProductMetadata, serializeJsonLd } from '../../../lib/productMetadata';
+import type { Product } from '../../../lib/types';
+import StudioApp from '../../StudioApp';
+
+interface ProductPageProps {
+  params: { id: string };
+}
+
+/**
+ * Look up the product for the page. A catalog outage still renders the
+ * studio (which retries client-side); only a confirmed miss is a 404.
+ */
+async function loadProduct(id: string): Promise<Product | null | undefined> {
+  try {
+    return await getServerCatalog().getProduct(id);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Pre-render every product known at build time; others render on request
+ */
+export async function generateStaticParams(): Promise<ProductPageProps['params'][]> {
+  try {
+    const products = await getServerCatalog().listProducts();
+    return products.map((product) => ({ id: product.id }));
+  } catch {
+    return [];
+  }
+}
+
+export async function generateMetadata({ params }: ProductPageProps): Promise<Metadata> {
+  const product = await loadProduct(params.id);
+  return product ? getProductMetadata(product) : {};
+}
+
+/**
+ * Deep link to a product (`/product/art-002`). The product summary and
+ * structured data are rendered on the server for link previews and search,
+ * then the studio hydrates and opens the same product in the 3D gallery.
+ */
+export default async function ProductPage({ params }: ProductPageProps) {
+  const product = await loadProduct(params.id);
+  if (product === null) {
+    notFound();
+  }
+
+  return (
+    <>
+      {product && (
+        <script
+          type="application/ld+json"
+          dangerouslySetInnerHTML={{ __html: serializeJsonLd(getProductJsonLd(product)) }}
+        />
+      )}
+      <StudioApp initialProduct={product} />
+    </>
+  );
+}
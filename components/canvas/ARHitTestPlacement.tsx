@@ -0,0 +1,118 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useThree } from '@react-three/fiber';
+import { useXR, useXRHitTest } from '@react-three/xr';
+import * as THREE from 'three';
+import { useXRPreviewStore } from '../../stores/XRPreviewStore';
+import { XR_PREVIEW_CONFIG } from '../../lib/constants';
+import { classifySurface, getARPlacement, getHitNormal } from '../../lib/arPlacement';
+import { snapToRoom } from '../../lib/roomModel';
+import { getPlacementRule } from '../../lib/productTypes';
+import type { PlacementSurface } from '../../lib/productTypes';
+import type { Product } from '../../lib/types';
+
+const RETICLE_VALID_COLOR = '#ffffff';
+const RETICLE_INVALID_COLOR = '#f87171';
+
+// Reused every frame to avoid allocations in the hit-test callback
+const hitMatrix = new THREE.Matrix4();
+const hitNormal = new THREE.Vector3();
+const hitScale = new THREE.Vector3();
+const viewerPosition = new THREE.Vector3();
+
+interface ARHitTestPlacementProps {
+  product: Product;
+}
+
+/**
+ * Reticle driven by WebXR hit testing from the viewer (screen center on
+ * phones, gaze on headsets). Selecting (screen tap or controller trigger)
+ * places the active staged product on the surface under the reticle via the
+ * XR preview store, except while a gesture is moving it (see
+ * `ARManipulator`). With a room model from plane detection, the spot snaps
+ * to the real floor and walls.
+ *
+ * The reticle turns red over surfaces the product can't go on, e.g. a wall
+ * for a table or the floor for a framed print.
+ */
+export function ARHitTestPlacement({ product }: ARHitTestPlacementProps) {
+  const reticleRef = useRef<THREE.Group>(null);
+  const materialRef = useRef<THREE.MeshBasicMaterial>(null);
+  const lastHit = useRef(new THREE.Matrix4());
+  const hasHit = useRef(false);
+  const targetSurface = useRef<PlacementSurface | null>(null);
+  // The local-floor origin until a real floor is seen
+  const floorY = useRef(0);
+
+  const camera = useThree((state) => state.camera);
+  const session = useXR((xr) => xr.session);
+  const setARPlacement = useXRPreviewStore((state) => state.setARPlacement);
+  const setARTargetSurface = useXRPreviewStore((state) => state.setARTargetSurface);
+  const requiredSurface = getPlacementRule(product).surface;
+
+  useXRHitTest((results, getWorldMatrix) => {
+    const reticle = reticleRef.current;
+    if (!reticle) return;
+
+    const found = results.length > 0 && getWorldMatrix(hitMatrix, results[0]);
+    const surface = found ? classifySurface(getHitNormal(hitMatrix, hitNormal)) : null;
+
+    hasHit.current = found;
+    reticle.visible = found;
+    if (found) {
+      lastHit.current.copy(hitMatrix);
+      hitMatrix.decompose(reticle.position, reticle.quaternion, hitScale);
+      if (surface === 'floor') {
+        floorY.current = reticle.position.y;
+      }
+      materialRef.current?.color.set(surface === requiredSurface ? RETICLE_VALID_COLOR : RETICLE_INVALID_COLOR);
+    }
+
+    // Only tell the store when it changes; this runs every frame
+    if (surface !== targetSurface.current) {
+      targetSurface.current = surface;
+      setARTargetSurface(surface);
+    }
+  }, 'viewer');
+
+  useEffect(() => {
+    if (!session) return;
+
+    const handleSelect = () => {
+      // The select that ends a drag or pinch isn't a request to move the product
+      if (!hasHit.current || useXRPreviewStore.getState().isManipulating) return;
+      camera.getWorldPosition(viewerPosition);
+      const room = useXRPreviewStore.getState().arRoom;
+      const placement = getARPlacement(product, lastHit.current, viewerPosition, room?.floorY ?? floorY.current);
+      if (placement) {
+        setARPlacement(product.id, room ? snapToRoom(placement, product, room) : placement);
+      }
+    };
+
+    session.addEventListener('select', handleSelect);
+    return () => session.removeEventListener('select', handleSelect);
+  }, [session, camera, product, setARPlacement]);
+
+  useEffect(() => () => setARTargetSurface(null), [setARTargetSurface]);
+
+  const radius = XR_PREVIEW_CONFIG.ar.placement.reticleRadius;
+
+  return (
+    <group ref={reticleRef} visible={false}>
+      {/* Ring lies in the surface plane; the hit pose's +Y is the surface normal */}
+      <mesh rotation={[-Math.PI / 2, 0, 0]} renderOrder={1}>
+        <ringGeometry args={[radius * 0.75, radius, 32]} />
+        <meshBasicMaterial
+          ref={materialRef}
+          color={RETICLE_VALID_COLOR}
+          transparent
+          opacity={0.85}
+          depthTest={false}
+        />
+      </mesh>
+    </group>
+  );
+}
+
+export default ARHitTestPlacement;
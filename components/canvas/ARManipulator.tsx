@@ -0,0 +1,330 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useThree } from '@react-three/fiber';
+import { XRDomOverlay } from '@react-three/xr';
+import * as THREE from 'three';
+import { useXRPreviewStore } from '../../stores/XRPreviewStore';
+import { useManipulationLock } from '../../hooks/useManipulationLock';
+import { useXRGrab } from '../../hooks/useXRGrab';
+import { XR_PREVIEW_CONFIG } from '../../lib/constants';
+import {
+  DEFAULT_PRODUCT_ADJUSTMENT,
+  getAngleDelta,
+  getSurfaceNormal,
+  isProductAdjusted,
+  measurePointerPair,
+} from '../../lib/xrManipulation';
+import type { ARPlacement } from '../../lib/arPlacement';
+
+interface ARManipulatorProps {
+  productId: string;
+  placement: ARPlacement;
+  /** The staged product gestures and grabs act on */
+  isActive: boolean;
+  children: React.ReactNode;
+}
+
+/**
+ * Applies the shopper's move, turn and scale to a placed AR product.
+ *
+ * - Touch (phones): drag to move along the surface, pinch to scale and
+ *   twist to turn, on the DOM overlay (see `ARTouchOverlay`) with a reset
+ *   button (and a room scan toggle once planes are detected)
+ * - Controllers and hands: squeeze or make a fist to grab (see `useXRGrab`)
+ *
+ * Only the active staged product responds; selecting another one makes it
+ * active. Wall items only slide and scale so they keep hanging flush. Scale
+ * is clamped to `XR_PREVIEW_CONFIG.ar.minScale`/`maxScale`.
+ */
+export function ARManipulator({ productId, placement, isActive, children }: ARManipulatorProps) {
+  const adjustment = useXRPreviewStore(
+    (state) =>
+      state.stagedProducts.find((item) => item.product.id === productId)?.adjustment ?? DEFAULT_PRODUCT_ADJUSTMENT
+  );
+  const setActiveProduct = useXRPreviewStore((state) => state.setActiveProduct);
+  const lock = useManipulationLock();
+
+  const [x, y, z] = placement.position;
+  const [offsetX, offsetY, offsetZ] = adjustment.offset;
+
+  return (
+    <>
+      <group
+        position={[x + offsetX, y + offsetY, z + offsetZ]}
+        rotation={[0, placement.rotationY + adjustment.rotationY, 0]}
+        scale={adjustment.scale}
+        // The select that picks another product shouldn't also re-place the active one
+        onPointerDown={isActive ? undefined : lock.begin}
+        onPointerUp={isActive ? undefined : lock.end}
+        onClick={isActive ? undefined : () => setActiveProduct(productId)}
+      >
+        {children}
+      </group>
+      {isActive && <ActiveProductGrab productId={productId} placement={placement} />}
+    </>
+  );
+}
+
+/**
+ * Grabs for the active product only, so one squeeze never moves two products
+ */
+function ActiveProductGrab({ productId, placement }: { productId: string; placement: ARPlacement }) {
+  const adjustProduct = useXRPreviewStore((state) => state.adjustProduct);
+  useXRGrab((change) => adjustProduct(productId, change, placement.surface, placement.rotationY));
+  return null;
+}
+
+interface ARTouchOverlayProps {
+  /** Active product and where it stands, or null while it isn't placed yet */
+  productId: string | null;
+  placement: ARPlacement | null;
+  /** Extra controls shown along the top, e.g. the staging tray */
+  children?: React.ReactNode;
+}
+
+/**
+ * The session's DOM overlay (phones): touch gestures for the active product
+ * plus any extra controls. Browsers allow one overlay, so everything shown
+ * over the camera feed goes through here.
+ */
+export function ARTouchOverlay({ productId, placement, children }: ARTouchOverlayProps) {
+  const camera = useThree((state) => state.camera);
+  const topRef = useRef<HTMLDivElement>(null);
+  usePreventXRSelect(topRef);
+
+  return (
+    <XRDomOverlay className="fixed inset-0">
+      {productId && placement && <ARGestureLayer productId={productId} placement={placement} camera={camera} />}
+      {children && (
+        <div ref={topRef} className="absolute top-4 left-4 right-16">
+          {children}
+        </div>
+      )}
+    </XRDomOverlay>
+  );
+}
+
+/**
+ * Taps on overlay controls are button presses, not placements
+ */
+function usePreventXRSelect(ref: React.RefObject<HTMLElement>) {
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    const handleBeforeSelect = (event: Event) => event.preventDefault();
+    element.addEventListener('beforexrselect', handleBeforeSelect);
+    return () => element.removeEventListener('beforexrselect', handleBeforeSelect);
+  });
+}
+
+// ============================================
+// Touch Gestures (DOM overlay)
+// ============================================
+
+interface TouchPoint {
+  x: number;
+  y: number;
+}
+
+// Reused across touch moves
+const raycaster = new THREE.Raycaster();
+const pointerNdc = new THREE.Vector2();
+const dragPlane = new THREE.Plane();
+const dragNormal = new THREE.Vector3();
+const dragOrigin = new THREE.Vector3();
+const dragHit = new THREE.Vector3();
+const dragMove = new THREE.Vector3();
+
+interface ARGestureLayerProps {
+  productId: string;
+  placement: ARPlacement;
+  camera: THREE.Camera;
+}
+
+/**
+ * Full-screen touch layer shown over the camera feed while presenting on a
+ * phone. Taps still reach the session as selects, so tapping a surface moves
+ * the product there; drags and multi-touch hold the manipulation lock so the
+ * select that ends them doesn't.
+ */
+function ARGestureLayer({ productId, placement, camera }: ARGestureLayerProps) {
+  const controlsRef = useRef<HTMLDivElement>(null);
+  const touches = useRef(new Map<number, TouchPoint>());
+  const dragStart = useRef<TouchPoint | null>(null);
+  const isDragging = useRef(false);
+  // Set once a touch becomes a drag or pinch, until all fingers lift
+  const isGesturing = useRef(false);
+  const lastDragHit = useRef<THREE.Vector3 | null>(null);
+
+  const adjustment = useXRPreviewStore(
+    (state) =>
+      state.stagedProducts.find((item) => item.product.id === productId)?.adjustment ?? DEFAULT_PRODUCT_ADJUSTMENT
+  );
+  const adjustProduct = useXRPreviewStore((state) => state.adjustProduct);
+  const resetProductAdjustment = useXRPreviewStore((state) => state.resetProductAdjustment);
+  const hasRoomScan = useXRPreviewStore((state) => (state.arRoom?.surfaces.length ?? 0) > 0);
+  const showRoomScan = useXRPreviewStore((state) => state.showRoomScan);
+  const toggleRoomScan = useXRPreviewStore((state) => state.toggleRoomScan);
+  const lock = useManipulationLock();
+  const { dragThreshold } = XR_PREVIEW_CONFIG.ar.manipulation;
+
+  usePreventXRSelect(controlsRef);
+
+  const beginGesture = () => {
+    isGesturing.current = true;
+    lock.begin();
+  };
+
+  /**
+   * Where a screen point's ray meets the plane the product moves in
+   */
+  const projectToSurface = (point: TouchPoint): THREE.Vector3 | null => {
+    // Read fresh: several moves can land between renders
+    const current =
+      useXRPreviewStore.getState().stagedProducts.find((item) => item.product.id === productId)?.adjustment ??
+      adjustment;
+    const [x, y, z] = placement.position;
+    dragOrigin.set(x + current.offset[0], y + current.offset[1], z + current.offset[2]);
+    getSurfaceNormal(placement.surface, placement.rotationY + current.rotationY, dragNormal);
+    dragPlane.setFromNormalAndCoplanarPoint(dragNormal, dragOrigin);
+
+    pointerNdc.set((point.x / window.innerWidth) * 2 - 1, -(point.y / window.innerHeight) * 2 + 1);
+    raycaster.setFromCamera(pointerNdc, camera);
+    return raycaster.ray.intersectPlane(dragPlane, dragHit);
+  };
+
+  const getPair = (): [TouchPoint, TouchPoint] | null => {
+    const points: TouchPoint[] = [];
+    touches.current.forEach((point) => points.push(point));
+    return points.length >= 2 ? [points[0], points[1]] : null;
+  };
+
+  const handleTouchStart = (event: React.TouchEvent) => {
+    for (const touch of Array.from(event.changedTouches)) {
+      touches.current.set(touch.identifier, { x: touch.clientX, y: touch.clientY });
+    }
+
+    if (touches.current.size === 1) {
+      const [touch] = Array.from(event.changedTouches);
+      dragStart.current = { x: touch.clientX, y: touch.clientY };
+      isDragging.current = false;
+      lastDragHit.current = null;
+    } else {
+      // A second finger turns any drag into a pinch/twist
+      dragStart.current = null;
+      isDragging.current = false;
+      beginGesture();
+    }
+  };
+
+  const handleTouchMove = (event: React.TouchEvent) => {
+    const before = getPair();
+    for (const touch of Array.from(event.changedTouches)) {
+      if (touches.current.has(touch.identifier)) {
+        touches.current.set(touch.identifier, { x: touch.clientX, y: touch.clientY });
+      }
+    }
+
+    const after = getPair();
+    if (before && after) {
+      const from = measurePointerPair(before[0], before[1]);
+      const to = measurePointerPair(after[0], after[1]);
+      adjustProduct(
+        productId,
+        {
+          scaleBy: from.distance > 0 ? to.distance / from.distance : 1,
+          // Clockwise on screen is clockwise seen from above
+          rotateY: -getAngleDelta(from.angle, to.angle),
+        },
+        placement.surface,
+        placement.rotationY
+      );
+      return;
+    }
+
+    const start = dragStart.current;
+    const [touch] = Array.from(event.changedTouches);
+    if (!start || !touch) return;
+    const point = { x: touch.clientX, y: touch.clientY };
+
+    if (!isDragging.current) {
+      if (Math.hypot(point.x - start.x, point.y - start.y) < dragThreshold) return;
+      isDragging.current = true;
+      beginGesture();
+      lastDragHit.current = projectToSurface(start)?.clone() ?? null;
+    }
+
+    const hit = projectToSurface(point);
+    if (!hit) return;
+    if (lastDragHit.current) {
+      adjustProduct(
+        productId,
+        { move: dragMove.subVectors(hit, lastDragHit.current) },
+        placement.surface,
+        placement.rotationY
+      );
+    }
+    // Moves stay in the drag plane, so this hit is still on it after the move
+    lastDragHit.current = hit.clone();
+  };
+
+  const handleTouchEnd = (event: React.TouchEvent) => {
+    for (const touch of Array.from(event.changedTouches)) {
+      touches.current.delete(touch.identifier);
+    }
+    dragStart.current = null;
+    lastDragHit.current = null;
+
+    if (touches.current.size === 0 && isGesturing.current) {
+      isDragging.current = false;
+      isGesturing.current = false;
+      // Held briefly so the select the lifted finger fires is ignored
+      lock.end();
+    }
+  };
+
+  const isWall = placement.surface === 'wall';
+  const isAdjusted = isProductAdjusted(adjustment);
+
+  return (
+    <>
+      <div
+        className="absolute inset-0 touch-none"
+        onTouchStart={handleTouchStart}
+        onTouchMove={handleTouchMove}
+        onTouchEnd={handleTouchEnd}
+        onTouchCancel={handleTouchEnd}
+      />
+      <div
+        ref={controlsRef}
+        className="absolute bottom-6 left-1/2 -translate-x-1/2 glass-dark rounded-full flex items-center gap-3 pl-4 pr-1 py-1"
+      >
+        <span className="text-xs text-white/70">
+          {isWall ? 'Drag to slide • Pinch to resize' : 'Drag to move • Pinch to resize • Twist to turn'}
+        </span>
+        <span className="text-xs text-white tabular-nums">{Math.round(adjustment.scale * 100)}%</span>
+        <button
+          onClick={() => resetProductAdjustment(productId)}
+          disabled={!isAdjusted}
+          className="rounded-full px-3 py-1.5 text-xs bg-white/10 text-white hover:bg-white/20 transition-smooth disabled:opacity-40"
+        >
+          Reset
+        </button>
+        {hasRoomScan && (
+          <button
+            onClick={toggleRoomScan}
+            aria-pressed={showRoomScan}
+            className={`rounded-full px-3 py-1.5 text-xs text-white transition-smooth ${
+              showRoomScan ? 'bg-blue-500/60 hover:bg-blue-500/70' : 'bg-white/10 hover:bg-white/20'
+            }`}
+          >
+            Room
+          </button>
+        )}
+      </div>
+    </>
+  );
+}
+
+export default ARManipulator;
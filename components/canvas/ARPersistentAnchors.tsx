@@ -0,0 +1,191 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { useRequestXRAnchor, useXR } from '@react-three/xr';
+import * as THREE from 'three';
+import { useXRPreviewStore } from '../../stores/XRPreviewStore';
+import { useARAnchorStore } from '../../stores/ARAnchorStore';
+import { XR_PREVIEW_CONFIG } from '../../lib/constants';
+import { getAnchorPlacement, getPlacementPose, supportsPersistentAnchors } from '../../lib/arAnchors';
+import type { SavedPlacement } from '../../lib/arAnchors';
+import { DEFAULT_PRODUCT_ADJUSTMENT } from '../../lib/xrManipulation';
+import type { ProductAdjustment } from '../../lib/xrManipulation';
+import { getPlacementRule } from '../../lib/productTypes';
+import type { ARPlacement } from '../../lib/arPlacement';
+import type { StagedProduct } from '../../lib/xrStaging';
+
+interface PendingRestore {
+  anchor: XRAnchor;
+  saved: SavedPlacement;
+  /** Placement when the restore started; a new one means the shopper placed it by hand */
+  placementBefore: ARPlacement | null;
+}
+
+function getPlacementKey(placement: ARPlacement, adjustment: ProductAdjustment): string {
+  return JSON.stringify([placement.position, placement.rotationY, adjustment]);
+}
+
+/**
+ * Keeps AR placements across sessions with WebXR persistent anchors:
+ *
+ * - Once a staged product has been placed and left alone for
+ *   `XR_PREVIEW_CONFIG.ar.anchors.saveDelay`, it's anchored and the handle
+ *   saved in `useARAnchorStore` (one placement per product)
+ * - Entering AR, or staging a product, restores its saved placement as soon
+ *   as the device finds the anchor in the room
+ * - Anchors forgotten outside a session are deleted from the device
+ *
+ * Renders nothing, and does nothing on browsers without persistent anchors.
+ */
+export function ARPersistentAnchors() {
+  const session = useXR((xr) => xr.session);
+  const canPersist = supportsPersistentAnchors(session);
+  const stagedProducts = useXRPreviewStore((state) => state.stagedProducts);
+  const pendingDeletes = useARAnchorStore((state) => state.pendingDeletes);
+  const markAnchorsDeleted = useARAnchorStore((state) => state.markAnchorsDeleted);
+
+  // Delete anchors the shopper forgot or that were replaced
+  useEffect(() => {
+    if (!canPersist || !session?.deletePersistentAnchor || pendingDeletes.length === 0) return;
+    const deleteAnchor = session.deletePersistentAnchor.bind(session);
+    const ids = pendingDeletes.slice();
+    // Unknown handles reject; either way the device no longer holds them
+    void Promise.allSettled(ids.map((id) => deleteAnchor(id))).then(() => markAnchorsDeleted(ids));
+  }, [canPersist, session, pendingDeletes, markAnchorsDeleted]);
+
+  if (!canPersist || !session) return null;
+
+  return (
+    <>
+      {stagedProducts.map((staged) => (
+        <StagedProductAnchor key={staged.product.id} session={session} staged={staged} />
+      ))}
+    </>
+  );
+}
+
+/**
+ * Placement the store currently has for a staged product
+ */
+function getCurrentPlacement(productId: string): ARPlacement | null {
+  const staged = useXRPreviewStore.getState().stagedProducts.find((item) => item.product.id === productId);
+  return staged?.placement ?? null;
+}
+
+/**
+ * Restores and saves one staged product's anchor
+ */
+function StagedProductAnchor({ session, staged }: { session: XRSession; staged: StagedProduct }) {
+  const referenceSpace = useXR((xr) => xr.originReferenceSpace);
+  const requestAnchor = useRequestXRAnchor();
+  const isManipulating = useXRPreviewStore((state) => state.isManipulating);
+  const restoreARPlacement = useXRPreviewStore((state) => state.restoreARPlacement);
+  const savePlacement = useARAnchorStore((state) => state.savePlacement);
+
+  const pendingRestore = useRef<PendingRestore | null>(null);
+  // The placement last saved or restored, so it isn't anchored again
+  const lastSavedKey = useRef<string | null>(null);
+
+  const { product, variantId, placement, adjustment } = staged;
+  const productId = product.id;
+  const surface = getPlacementRule(product).surface;
+
+  // Look for the product's saved anchor in this room
+  useEffect(() => {
+    if (!session.restorePersistentAnchor) return;
+    const saved = useARAnchorStore.getState().getPlacementForProduct(productId);
+    if (!saved || saved.surface !== surface) return;
+
+    let cancelled = false;
+    const placementBefore = getCurrentPlacement(productId);
+    session
+      .restorePersistentAnchor(saved.id)
+      .then((anchor) => {
+        if (cancelled) {
+          anchor.delete();
+          return;
+        }
+        pendingRestore.current = { anchor, saved, placementBefore };
+      })
+      .catch(() => {
+        // Saved in another room, or cleared on the device
+      });
+
+    return () => {
+      cancelled = true;
+      pendingRestore.current?.anchor.delete();
+      pendingRestore.current = null;
+    };
+  }, [session, productId, surface]);
+
+  // Apply a restored anchor once the device has located it
+  useFrame((_state, _delta, frame?: XRFrame) => {
+    const pending = pendingRestore.current;
+    if (!pending || !frame || !referenceSpace) return;
+
+    if (getCurrentPlacement(productId) !== pending.placementBefore) {
+      pending.anchor.delete();
+      pendingRestore.current = null;
+      return;
+    }
+
+    const pose = frame.getPose(pending.anchor.anchorSpace, referenceSpace);
+    if (!pose) return;
+
+    const restored = getAnchorPlacement(pose, pending.saved.surface);
+    lastSavedKey.current = getPlacementKey(restored, { ...DEFAULT_PRODUCT_ADJUSTMENT, scale: pending.saved.scale });
+    restoreARPlacement(productId, restored, pending.saved.scale);
+    pending.anchor.delete();
+    pendingRestore.current = null;
+  });
+
+  // Anchor the placement once the shopper stops moving it
+  useEffect(() => {
+    if (!placement || isManipulating) return;
+    const key = getPlacementKey(placement, adjustment);
+    if (key === lastSavedKey.current) return;
+
+    const timer = setTimeout(() => {
+      // Don't overwrite a saved spot that's still being looked for
+      if (pendingRestore.current) return;
+      lastSavedKey.current = key;
+
+      const worldPosition = new THREE.Vector3();
+      const worldQuaternion = new THREE.Quaternion();
+      getPlacementPose(placement, adjustment, worldPosition, worldQuaternion);
+
+      requestAnchor({ relativeTo: 'world', worldPosition, worldQuaternion })
+        .then(async (anchor) => {
+          if (!anchor) return;
+          try {
+            const id = await anchor.requestPersistentHandle?.();
+            if (id) {
+              savePlacement({
+                id,
+                productId,
+                variantId,
+                productName: product.name,
+                surface: placement.surface,
+                scale: adjustment.scale,
+                savedAt: Date.now(),
+              });
+            }
+          } finally {
+            // The device keeps the persistent anchor; this session no longer needs to track it
+            anchor.delete();
+          }
+        })
+        .catch(() => {
+          // Try again the next time the product moves
+          lastSavedKey.current = null;
+        });
+    }, XR_PREVIEW_CONFIG.ar.anchors.saveDelay);
+
+    return () => clearTimeout(timer);
+  }, [placement, adjustment, isManipulating, requestAnchor, savePlacement, productId, variantId, product.name]);
+
+  return null;
+}
+
+export default ARPersistentAnchors;
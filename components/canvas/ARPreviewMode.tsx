@@ -1,6 +1,6 @@
 'use client';
 
-import { useRef, Suspense, useMemo } from 'react';
+import { useRef, useState, useEffect, Suspense, useMemo, useSyncExternalStore } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { 
   OrbitControls, 
@@ -9,11 +9,29 @@ import {
   PresentationControls,
 } from '@react-three/drei';
 import { XR, createXRStore, useXR } from '@react-three/xr';
+import type { XRStoreOptions } from '@react-three/xr';
 import * as THREE from 'three';
 import { useXRPreviewStore } from '../../stores/XRPreviewStore';
-import { isArtProduct, isTableProduct, type Product } from '../../lib/types';
-import ProceduralFrame from '../canvas/ProceduralFrame';
-import ModelViewer from '../canvas/ModelViewer';
+import { useDeviceCapabilitiesStore } from '../../stores/DeviceCapabilitiesStore';
+import { usePriceFormatter } from '../../hooks/usePriceFormatter';
+import { KNOWN_DEVICE_PROFILES } from '../../lib/constants';
+import { getFallbackARPlacement } from '../../lib/arPlacement';
+import { snapToRoom } from '../../lib/roomModel';
+import { DEFAULT_PRODUCT_ADJUSTMENT } from '../../lib/xrManipulation';
+import { getStagedRowOffsets } from '../../lib/xrStaging';
+import { getPlacementRule, isShownAtRealSize } from '../../lib/productTypes';
+import type { PlacementSurface } from '../../lib/productTypes';
+import type { Product } from '../../lib/types';
+import ProductRenderer from '../canvas/ProductRenderer';
+import { ARHitTestPlacement } from './ARHitTestPlacement';
+import { ARManipulator, ARTouchOverlay } from './ARManipulator';
+import { ARRoomModel } from './ARRoomModel';
+import { ARPersistentAnchors } from './ARPersistentAnchors';
+import { WristMenu } from './WristMenu';
+import { DimensionOverlay } from './DimensionOverlay';
+import { MeasurementControls } from '../ui/MeasurementControls';
+import { SavedPlacementsList } from '../ui/SavedPlacementsList';
+import { StagingTray } from '../ui/StagingTray';
 
 /**
  * AR Preview Mode Component
@@ -23,17 +41,43 @@ import ModelViewer from '../canvas/ModelViewer';
  * 
  * Features:
  * - Transparent/passthrough background (no camera processing needed)
- * - Product rotation and scaling controls
- * - Touch/gesture interaction for manipulation
+ * - Hit-test reticle: tap/select places the product on the floor, or flush
+ *   on a wall for wall art (fixed spot ahead when hit testing is unavailable)
+ * - True-scale models and an optional dimension overlay
+ * - Drag, pinch and twist (or controller/hand grabs) to move, scale and
+ *   turn the placed product, with a reset
+ * - Hand tracking: pinch to place, fist to grab, wrist menu
+ * - Room model from plane/mesh detection: snapping to the real floor and
+ *   walls, a scan overlay, and occlusion behind real objects
+ * - Placements saved with persistent anchors and restored next session,
+ *   with a list of saved spots to manage
+ * - Several products staged side by side, each placed and adjusted on its
+ *   own, with a running total to send to the cart
  * - Exit button to return to gallery
  */
 export function ARPreviewMode() {
-  const { selectedProduct, exitPreview } = useXRPreviewStore();
+  const { selectedProduct, exitPreview, arTargetSurface } = useXRPreviewStore();
+  const isPlaced = useXRPreviewStore((state) => state.getActiveStagedProduct()?.placement != null);
+  const { formatPrice } = usePriceFormatter();
+  const supportsHandTracking = useDeviceCapabilitiesStore((state) => state.xr.supportsHandTracking);
   
-  // Create XR store for AR session
-  const xrStore = useMemo(() => createXRStore({
+  // Create XR store for AR session once: recreating it would end a
+  // running session. The store reads its options on every session request,
+  // so hands are requested where the device has them once that's known
+  // (the library leaves them off on Vision Pro by default).
+  const [xrOptions] = useState<XRStoreOptions>(() => ({
     emulate: false,
-  }), []);
+    handTracking: supportsHandTracking || undefined,
+  }));
+  const [xrStore] = useState(() => createXRStore(xrOptions));
+  useEffect(() => {
+    xrOptions.handTracking = supportsHandTracking || undefined;
+  }, [xrOptions, supportsHandTracking]);
+  const isPresenting = useSyncExternalStore(
+    xrStore.subscribe,
+    () => xrStore.getState().session != null,
+    () => false
+  );
 
   if (!selectedProduct) {
     return null;
@@ -58,7 +102,7 @@ export function ARPreviewMode() {
       >
         <XR store={xrStore}>
           <Suspense fallback={null}>
-            <ARScene product={selectedProduct} />
+            <ARScene />
           </Suspense>
         </XR>
       </Canvas>
@@ -87,12 +131,32 @@ export function ARPreviewMode() {
             </p>
             <div className="flex items-center justify-between">
               <span className="text-green-400 font-bold">
-                ${selectedProduct.price.toLocaleString()}
+                {formatPrice(selectedProduct.price)}
               </span>
               <div className="text-xs text-white/50">
-                Pinch to scale • Drag to rotate
+                {isPresenting
+                  ? getPlacementHint(selectedProduct, arTargetSurface, isPlaced)
+                  : 'Pinch to scale • Drag to rotate'}
               </div>
             </div>
+            {supportsHandTracking && !isPresenting && (
+              <p className="mt-2 text-xs text-white/50">
+                Hands: pinch to place • make a fist to grab • turn your left palm up for the menu
+              </p>
+            )}
+            <div className="mt-3">
+              <MeasurementControls product={selectedProduct} />
+            </div>
+            {!isPresenting && (
+              <>
+                <div className="mt-3">
+                  <StagingTray />
+                </div>
+                <div className="mt-3">
+                  <SavedPlacementsList />
+                </div>
+              </>
+            )}
           </div>
         </div>
 
@@ -112,19 +176,46 @@ export function ARPreviewMode() {
 
 /**
  * AR Scene Content
+ *
+ * Staged products stand side by side until each is placed; only the active
+ * one follows the reticle and touch gestures.
  */
-interface ARSceneProps {
-  product: Product | null;
-}
-
-function ARScene({ product }: ARSceneProps) {
+function ARScene() {
   const groupRef = useRef<THREE.Group>(null);
   // Check if XR session is active
   const session = useXR((xr) => xr.session);
   const isPresenting = session != null;
+  const stagedProducts = useXRPreviewStore((state) => state.stagedProducts);
+  const product = useXRPreviewStore((state) => state.selectedProduct);
+  const supportsHitTest = useDeviceCapabilitiesStore((state) => state.xr.supportsHitTest);
+  // Browsers that report enabled features tell us whether hit testing was granted
+  const canHitTest = supportsHitTest && (session?.enabledFeatures?.includes('hit-test') ?? true);
+  const canCaptureRoom = useDeviceCapabilitiesStore(
+    (state) => state.knownDevice !== 'unknown' && KNOWN_DEVICE_PROFILES[state.knownDevice].supportsRoomScan
+  );
+  const room = useXRPreviewStore((state) => state.arRoom);
+  const offsets = useMemo(
+    () => getStagedRowOffsets(stagedProducts.map((item) => item.product)),
+    [stagedProducts]
+  );
+  // Without hit testing, each product goes in a row ahead of the user, still
+  // dropping onto a detected floor
+  const fallbackPlacements = useMemo(() => {
+    return stagedProducts.map((item, index) => {
+      if (canHitTest) return null;
+      const ahead = getFallbackARPlacement(item.product);
+      const [x, y, z] = ahead.position;
+      const inRow = { ...ahead, position: [x + offsets[index], y, z] as typeof ahead.position };
+      return room ? snapToRoom(inRow, item.product, room) : inRow;
+    });
+  }, [stagedProducts, offsets, canHitTest, room]);
 
   if (!product) return null;
 
+  const basePlacements = stagedProducts.map((item, index) => item.placement ?? fallbackPlacements[index]);
+  const activeIndex = stagedProducts.findIndex((item) => item.product.id === product.id);
+  const activePlacement = basePlacements[activeIndex] ?? null;
+
   return (
     <>
       {/* Soft ambient lighting */}
@@ -140,7 +231,7 @@ function ARScene({ product }: ARSceneProps) {
         <Environment preset="city" />
       )}
 
-      {/* Product with presentation controls for non-XR mode */}
+      {/* Products with presentation controls for non-XR mode */}
       {!isPresenting ? (
         <PresentationControls
           global
@@ -151,19 +242,51 @@ function ARScene({ product }: ARSceneProps) {
           azimuth={[-Math.PI / 1.4, Math.PI / 2]}
         >
           <group ref={groupRef}>
-            <ProductDisplay product={product} />
+            {stagedProducts.map((item, index) => (
+              <group key={item.product.id} position={[offsets[index], 0, 0]}>
+                <ProductDisplay product={item.product} scale={item.adjustment.scale} />
+              </group>
+            ))}
           </group>
         </PresentationControls>
       ) : (
-        // In XR mode, product is placed in front of user
-        <group 
-          ref={groupRef}
-          position={[0, 0, -1.5]} // 1.5m in front
-        >
-          <ProductDisplay product={product} />
-        </group>
+        // Placed on a real surface with the hit-test reticle, or ahead of
+        // the user without hit testing; gestures adjust them from there
+        stagedProducts.map((item, index) => {
+          const placement = basePlacements[index];
+          if (!placement) return null;
+          return (
+            <ARManipulator
+              key={item.product.id}
+              productId={item.product.id}
+              placement={placement}
+              isActive={index === activeIndex}
+            >
+              <ProductDisplay product={item.product} scale={item.adjustment.scale} />
+            </ARManipulator>
+          );
+        })
       )}
 
+      {/* Reticle for choosing (or moving to) a spot on a real surface */}
+      {isPresenting && canHitTest && <ARHitTestPlacement product={product} />}
+
+      {/* Detected floor, walls and furniture: snapping, scan overlay, occlusion */}
+      {isPresenting && <ARRoomModel canCaptureRoom={canCaptureRoom} />}
+
+      {/* Saves placements and restores them in later sessions */}
+      {isPresenting && <ARPersistentAnchors />}
+
+      {/* Touch gestures for the active product, and the staging tray */}
+      {isPresenting && (
+        <ARTouchOverlay productId={activePlacement ? product.id : null} placement={activePlacement}>
+          <StagingTray />
+        </ARTouchOverlay>
+      )}
+
+      {/* Palm-up menu for hand-tracking users */}
+      {isPresenting && <WristMenu product={product} />}
+
       {/* Contact shadow for grounding (non-XR only) */}
       {!isPresenting && (
         <ContactShadows
@@ -189,34 +312,47 @@ function ARScene({ product }: ARSceneProps) {
   );
 }
 
+/**
+ * Overlay hint for hit-test placement while presenting
+ */
+function getPlacementHint(
+  product: Product,
+  targetSurface: PlacementSurface | null,
+  isPlaced: boolean
+): string {
+  const required = getPlacementRule(product).surface;
+  if (targetSurface === required) {
+    return isPlaced ? 'Tap to move here' : 'Tap to place';
+  }
+  if (targetSurface) {
+    return required === 'wall' ? 'Point at a wall to hang this piece' : 'Point at the floor to place this piece';
+  }
+  return isPlaced ? 'Point at a surface to move it' : `Move slowly to find the ${required}`;
+}
+
 /**
  * Product Display Component
  */
 interface ProductDisplayProps {
   product: Product;
+  /** Scale from the shopper's gestures */
+  scale: number;
 }
 
-function ProductDisplay({ product }: ProductDisplayProps) {
-  if (isArtProduct(product)) {
-    return (
-      <ProceduralFrame
-        imageUri={product.imageUri}
-        frameColor={product.frameColor}
-        dimensions={product.dimensions}
-      />
-    );
-  }
+function ProductDisplay({ product, scale }: ProductDisplayProps) {
+  const isTrueScale = useXRPreviewStore((state) => state.isTrueScale);
+  const showDimensions = useXRPreviewStore((state) => state.showDimensions);
+  // A pinch-resized product no longer matches its measurements
+  const isResized = scale !== DEFAULT_PRODUCT_ADJUSTMENT.scale;
 
-  if (isTableProduct(product)) {
-    return (
-      <ModelViewer
-        modelUri={product.modelUri}
-        scale={product.scale}
-      />
-    );
-  }
-
-  return null;
+  return (
+    <>
+      <ProductRenderer product={product} trueScale={isTrueScale} />
+      {showDimensions && !isResized && isShownAtRealSize(product, isTrueScale) && (
+        <DimensionOverlay product={product} />
+      )}
+    </>
+  );
 }
 
 // Close Icon SVG
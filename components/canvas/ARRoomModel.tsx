@@ -0,0 +1,130 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { XRMeshModel, XRPlaneModel, XRSpace, useXR, useXRMeshes, useXRPlanes } from '@react-three/xr';
+import * as THREE from 'three';
+import { useXRPreviewStore } from '../../stores/XRPreviewStore';
+import { XR_PREVIEW_CONFIG } from '../../lib/constants';
+import { createRoomModel, createRoomSurface } from '../../lib/roomModel';
+import type { RoomSurface, RoomSurfaceKind } from '../../lib/roomModel';
+
+const SCAN_COLORS: Record<RoomSurfaceKind, string> = {
+  floor: '#4ade80',
+  wall: '#60a5fa',
+  ceiling: '#a78bfa',
+  furniture: '#fbbf24',
+};
+const SCAN_OPACITY = 0.18;
+
+// Reused when reading plane poses
+const planeMatrix = new THREE.Matrix4();
+
+interface ARRoomModelProps {
+  /** The device can run its own room scan (e.g. Quest room setup) */
+  canCaptureRoom: boolean;
+}
+
+/**
+ * Room awareness from WebXR plane and mesh detection:
+ *
+ * - Keeps `useXRPreviewStore().arRoom` in sync with the detected planes, for
+ *   snapping placements to the real floor and walls
+ * - Draws the detected floor, walls and furniture while `showRoomScan` is on
+ * - Renders every detected plane and mesh depth-only, so the product is
+ *   hidden behind real walls and furniture
+ * - Asks devices that can scan a room to do so when nothing is detected
+ *
+ * Renders nothing on browsers without plane or mesh detection.
+ */
+export function ARRoomModel({ canCaptureRoom }: ARRoomModelProps) {
+  const planes = useXRPlanes();
+  const meshes = useXRMeshes();
+  const session = useXR((xr) => xr.session);
+  const referenceSpace = useXR((xr) => xr.originReferenceSpace);
+  const showRoomScan = useXRPreviewStore((state) => state.showRoomScan);
+  const roomSurfaces = useXRPreviewStore((state) => state.arRoom?.surfaces);
+  const setARRoom = useXRPreviewStore((state) => state.setARRoom);
+  const lastSignature = useRef<string | null>(null);
+  const hasRequestedCapture = useRef(false);
+
+  useFrame((_state, _delta, frame?: XRFrame) => {
+    if (!frame || !referenceSpace) return;
+
+    // Rebuild only when a plane is added, removed or updated
+    let latestChange = 0;
+    for (const plane of planes) {
+      latestChange = Math.max(latestChange, plane.lastChangedTime);
+    }
+    const signature = `${planes.length}:${latestChange}`;
+    if (signature === lastSignature.current) return;
+
+    const surfaces: RoomSurface[] = [];
+    for (const plane of planes) {
+      const pose = frame.getPose(plane.planeSpace, referenceSpace);
+      // Try again next frame rather than build a room with a plane missing
+      if (!pose) return;
+      surfaces.push(createRoomSurface(plane, planeMatrix.fromArray(pose.transform.matrix)));
+    }
+    lastSignature.current = signature;
+    setARRoom(surfaces.length > 0 ? createRoomModel(surfaces) : null);
+  });
+
+  useEffect(() => () => setARRoom(null), [setARRoom]);
+
+  // Room capture can only be started once per session
+  const hasDetections = planes.length > 0 || meshes.length > 0;
+  useEffect(() => {
+    if (!canCaptureRoom || hasDetections || hasRequestedCapture.current || !session?.initiateRoomCapture) return;
+    const timer = setTimeout(() => {
+      hasRequestedCapture.current = true;
+      session.initiateRoomCapture?.().catch(() => {
+        // Declined or unsupported: placement still works from hit tests
+      });
+    }, XR_PREVIEW_CONFIG.ar.room.roomCaptureDelay);
+    return () => clearTimeout(timer);
+  }, [canCaptureRoom, hasDetections, session]);
+
+  return (
+    <>
+      {planes.map((plane, index) => (
+        <XRSpace key={index} space={plane.planeSpace}>
+          <XRPlaneModel plane={plane} renderOrder={-1}>
+            <OccluderMaterial />
+          </XRPlaneModel>
+          {/* Surfaces line up with planes by index once the room is rebuilt */}
+          {showRoomScan && roomSurfaces?.[index] && (
+            <XRPlaneModel plane={plane}>
+              <meshBasicMaterial
+                color={SCAN_COLORS[roomSurfaces[index].kind]}
+                transparent
+                opacity={SCAN_OPACITY}
+                depthWrite={false}
+                side={THREE.DoubleSide}
+              />
+            </XRPlaneModel>
+          )}
+        </XRSpace>
+      ))}
+      {meshes.map((mesh, index) => (
+        <XRSpace key={index} space={mesh.meshSpace}>
+          <XRMeshModel mesh={mesh} renderOrder={-1}>
+            <OccluderMaterial />
+          </XRMeshModel>
+        </XRSpace>
+      ))}
+    </>
+  );
+}
+
+/**
+ * Depth-only rendering of a real surface. It draws first and writes depth
+ * but no color, so the camera feed shows through while anything virtual
+ * behind it is hidden. The polygon offset keeps products standing on or
+ * hanging against the surface from being clipped by it.
+ */
+function OccluderMaterial() {
+  return <meshBasicMaterial colorWrite={false} polygonOffset polygonOffsetFactor={1} polygonOffsetUnits={1} />;
+}
+
+export default ARRoomModel;
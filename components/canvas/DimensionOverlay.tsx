@@ -0,0 +1,116 @@
+'use client';
+
+import { useEffect, useMemo } from 'react';
+import { Line } from '@react-three/drei';
+import { useMeasurementFormatter } from '../../hooks/useMeasurementFormatter';
+import { createLabelTexture } from '../../lib/labelTexture';
+import { getPlacementRule, getProductDimensions } from '../../lib/productTypes';
+import type { Product } from '../../lib/types';
+
+type Point = [number, number, number];
+
+// Gap between the product and its measurement lines (meters)
+const MARGIN = 0.05;
+// Length of the end ticks on each line
+const TICK = 0.04;
+// Sizes thinner than this (e.g. a rug's height) aren't worth a line
+const MIN_MEASURED = 0.05;
+// Label height in world space; width follows the text
+const LABEL_HEIGHT = 0.06;
+const LINE_COLOR = '#ffffff';
+
+interface DimensionOverlayProps {
+  product: Product;
+}
+
+/**
+ * Width, depth and height lines with labels around a product drawn at its
+ * real size, in the shopper's units. Rendered in the product's own frame:
+ * floor items stand on the origin, wall items are centered on it.
+ *
+ * Labels are canvas-textured sprites rather than DOM or font-loading text,
+ * so they render inside headset sessions and without network access.
+ */
+export function DimensionOverlay({ product }: DimensionOverlayProps) {
+  const { formatLength } = useMeasurementFormatter();
+  const dimensions = getProductDimensions(product);
+  if (!dimensions) return null;
+
+  const { width, height } = dimensions;
+  const depth = dimensions.depth ?? 0;
+  const isWall = getPlacementRule(product).surface === 'wall';
+  const bottom = isWall ? -height / 2 : 0;
+  const front = depth / 2 + MARGIN;
+  const side = width / 2 + MARGIN;
+  // Floor items measure along the floor; wall items just below the frame
+  const widthY = isWall ? bottom - MARGIN : 0.005;
+
+  return (
+    <group>
+      <MeasurementLine
+        start={[-width / 2, widthY, front]}
+        end={[width / 2, widthY, front]}
+        tickAxis={[0, 1, 0]}
+        label={formatLength(width)}
+        labelPosition={[0, widthY + (isWall ? -LABEL_HEIGHT : LABEL_HEIGHT), front]}
+      />
+      {height >= MIN_MEASURED && (
+        <MeasurementLine
+          start={[side, bottom, depth / 2]}
+          end={[side, bottom + height, depth / 2]}
+          tickAxis={[1, 0, 0]}
+          label={formatLength(height)}
+          labelPosition={[side + MARGIN * 2, bottom + height / 2, depth / 2]}
+        />
+      )}
+      {depth >= MIN_MEASURED && (
+        <MeasurementLine
+          start={[side, 0.005, -depth / 2]}
+          end={[side, 0.005, depth / 2]}
+          tickAxis={[1, 0, 0]}
+          label={formatLength(depth)}
+          labelPosition={[side + MARGIN * 2, LABEL_HEIGHT, 0]}
+        />
+      )}
+    </group>
+  );
+}
+
+interface MeasurementLineProps {
+  start: Point;
+  end: Point;
+  /** Direction the end ticks are drawn along */
+  tickAxis: Point;
+  label: string;
+  labelPosition: Point;
+}
+
+function MeasurementLine({ start, end, tickAxis, label, labelPosition }: MeasurementLineProps) {
+  const tick = (point: Point, sign: number): Point => [
+    point[0] + tickAxis[0] * TICK * sign,
+    point[1] + tickAxis[1] * TICK * sign,
+    point[2] + tickAxis[2] * TICK * sign,
+  ];
+  // Segment pairs: the measured span, then a tick across each end
+  const points = [start, end, tick(start, -1), tick(start, 1), tick(end, -1), tick(end, 1)];
+
+  return (
+    <>
+      <Line points={points} segments color={LINE_COLOR} lineWidth={2} depthTest={false} renderOrder={2} />
+      <MeasurementLabel text={label} position={labelPosition} />
+    </>
+  );
+}
+
+function MeasurementLabel({ text, position }: { text: string; position: Point }) {
+  const { texture, aspect } = useMemo(() => createLabelTexture(text), [text]);
+  useEffect(() => () => texture.dispose(), [texture]);
+
+  return (
+    <sprite position={position} scale={[LABEL_HEIGHT * aspect, LABEL_HEIGHT, 1]} renderOrder={3}>
+      <spriteMaterial map={texture} transparent depthTest={false} />
+    </sprite>
+  );
+}
+
+export default DimensionOverlay;
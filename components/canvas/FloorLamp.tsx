@@ -0,0 +1,93 @@
+'use client';
+
+import { useMemo } from 'react';
+import { MeshStandardMaterial, DoubleSide } from 'three';
+
+interface FloorLampProps {
+  shadeColor: string;
+  lightColor: string;
+  intensity: number;
+  dimensions: {
+    width: number;
+    height: number;
+  };
+}
+
+/**
+ * Procedural floor lamp that emits real light into the scene.
+ * The origin sits at the base so the lamp stands on the floor.
+ */
+export function FloorLamp({
+  shadeColor,
+  lightColor,
+  intensity,
+  dimensions,
+}: FloorLampProps) {
+  const { width, height } = dimensions;
+  const shadeRadius = width / 2;
+  const shadeHeight = Math.min(0.35, height * 0.25);
+  const stemHeight = height - shadeHeight;
+  const bulbHeight = stemHeight + shadeHeight * 0.4;
+
+  const metalMaterial = useMemo(() => {
+    return new MeshStandardMaterial({
+      color: '#b08d57',
+      roughness: 0.35,
+      metalness: 0.8,
+    });
+  }, []);
+
+  // Translucent shade that glows with the bulb's color
+  const shadeMaterial = useMemo(() => {
+    return new MeshStandardMaterial({
+      color: shadeColor,
+      emissive: lightColor,
+      emissiveIntensity: 0.35,
+      roughness: 0.9,
+      transparent: true,
+      opacity: 0.9,
+      side: DoubleSide,
+    });
+  }, [shadeColor, lightColor]);
+
+  return (
+    <group>
+      {/* Base */}
+      <mesh position={[0, 0.015, 0]} castShadow receiveShadow>
+        <cylinderGeometry args={[shadeRadius * 0.6, shadeRadius * 0.65, 0.03, 32]} />
+        <primitive object={metalMaterial} attach="material" />
+      </mesh>
+
+      {/* Stem */}
+      <mesh position={[0, stemHeight / 2, 0]} castShadow>
+        <cylinderGeometry args={[0.012, 0.012, stemHeight, 12]} />
+        <primitive object={metalMaterial} attach="material" />
+      </mesh>
+
+      {/* Shade (open drum) */}
+      <mesh position={[0, stemHeight + shadeHeight / 2, 0]}>
+        <cylinderGeometry args={[shadeRadius * 0.85, shadeRadius, shadeHeight, 32, 1, true]} />
+        <primitive object={shadeMaterial} attach="material" />
+      </mesh>
+
+      {/* Bulb */}
+      <mesh position={[0, bulbHeight, 0]}>
+        <sphereGeometry args={[0.04, 16, 16]} />
+        <meshBasicMaterial color={lightColor} />
+      </mesh>
+
+      {/* Emitted light */}
+      <pointLight
+        position={[0, bulbHeight, 0]}
+        color={lightColor}
+        intensity={intensity}
+        distance={6}
+        decay={2}
+        castShadow
+        shadow-mapSize={[512, 512]}
+      />
+    </group>
+  );
+}
+
+export default FloorLamp;
@@ -12,16 +12,20 @@ import { Suspense, useState, useCallback } from 'react';
 import { GALLERY_CONFIG } from '../../lib/constants';
 import { useGalleryStore } from '../../stores/MockStore';
 import { useGalleryNavigation } from '../../hooks/useGalleryNavigation';
-import { isArtProduct } from '../../lib/types';
-import ProceduralFrame from './ProceduralFrame';
-import ModelViewer from './ModelViewer';
+import { applyVariant } from '../../lib/variants';
+import { getPlacementRule } from '../../lib/productTypes';
+import ProductRenderer from './ProductRenderer';
 import GalleryFloor from './GalleryFloor';
 import ProductSpotlight from './ProductSpotlight';
 import ProductHUD from '../ui/ProductHUD';
 import NavigationHint from '../ui/NavigationHint';
 
 function Scene() {
-  const { currentProduct } = useGalleryStore();
+  const { currentProduct, selectedVariants } = useGalleryStore();
+  const displayedProduct = currentProduct
+    ? applyVariant(currentProduct, selectedVariants[currentProduct.id])
+    : null;
+  const placement = displayedProduct ? getPlacementRule(displayedProduct) : null;
   const [perfTier, setPerfTier] = useState<'high' | 'medium' | 'low'>('high');
 
   const handlePerformanceChange = useCallback((factor: number) => {
@@ -51,23 +55,13 @@ function Scene() {
       {/* Gallery floor */}
       <GalleryFloor />
 
-      {/* Current product display */}
-      {currentProduct && (
-        <group position={[0, GALLERY_CONFIG.display.artHeight, 0]}>
-          {isArtProduct(currentProduct) ? (
-            <ProceduralFrame
-              key={currentProduct.id}
-              imageUri={currentProduct.imageUri}
-              frameColor={currentProduct.frameColor}
-              dimensions={currentProduct.dimensions}
-            />
-          ) : (
-            <ModelViewer
-              key={currentProduct.id}
-              modelUri={currentProduct.modelUri}
-              scale={currentProduct.scale}
-            />
-          )}
+      {/* Current product display - re-renders live as the variant changes */}
+      {displayedProduct && placement && (
+        <group
+          position={[0, placement.galleryHeight, 0]}
+          rotation={[placement.galleryTilt, 0, 0]}
+        >
+          <ProductRenderer key={displayedProduct.id} product={displayedProduct} />
         </group>
       )}
 
@@ -1,15 +1,23 @@
 'use client';
 
-import { useRef, useEffect, useState } from 'react';
+import { useRef, useEffect, useState, useMemo } from 'react';
 import { useLoader, useFrame } from '@react-three/fiber';
 import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
 import { Center, useProgress } from '@react-three/drei';
-import type { Group } from 'three';
-import { Box3 as ThreeBox3, Vector3 as ThreeVector3 } from 'three';
+import type { Group, Material, Mesh } from 'three';
+import { Box3 as ThreeBox3, Color as ThreeColor, Vector3 as ThreeVector3 } from 'three';
+import type { ModelDimensions } from '../../lib/types';
 
 interface ModelViewerProps {
   modelUri: string;
   scale?: number;
+  /**
+   * Real-world size in meters. When set the model is drawn at that size
+   * (ignoring `scale`) and stands on the origin instead of being centered on it.
+   */
+  dimensions?: ModelDimensions;
+  /** Optional tint for the model's materials, e.g. a wood species variant */
+  materialColor?: string;
   autoRotate?: boolean;
   rotateSpeed?: number;
 }
@@ -20,6 +28,8 @@ interface ModelViewerProps {
 export function ModelViewer({
   modelUri,
   scale = 1,
+  dimensions,
+  materialColor,
   autoRotate = true,
   rotateSpeed = 0.3,
 }: ModelViewerProps) {
@@ -36,12 +46,55 @@ export function ModelViewer({
       const size = new ThreeVector3();
       box.getSize(size);
 
+      if (dimensions) {
+        // True scale: fit inside the catalog box without distorting the
+        // model, so a loosely modelled asset never looks bigger than the piece
+        const ratios = [
+          size.x > 0 ? dimensions.width / size.x : Infinity,
+          size.y > 0 ? dimensions.height / size.y : Infinity,
+          size.z > 0 ? dimensions.depth / size.z : Infinity,
+        ];
+        const fit = Math.min(...ratios);
+        setNormalizedScale(Number.isFinite(fit) ? fit : 1);
+        return;
+      }
+
       // Calculate scale to fit model in a 1x1x1 unit box, then apply user scale
       const maxDimension = Math.max(size.x, size.y, size.z);
       const normalScale = maxDimension > 0 ? (1 / maxDimension) * scale : scale;
       setNormalizedScale(normalScale);
     }
-  }, [gltf.scene, scale]);
+  }, [gltf.scene, scale, dimensions]);
+
+  // Clone per instance so tinting never touches the cached GLTF materials
+  const { model, tintedMaterials } = useMemo(() => {
+    const clone = gltf.scene.clone();
+    const tinted: Material[] = [];
+    if (materialColor) {
+      const tint = (material: Material) => {
+        const copy = material.clone();
+        if ('color' in copy && copy.color instanceof ThreeColor) {
+          copy.color.set(materialColor);
+        }
+        tinted.push(copy);
+        return copy;
+      };
+      clone.traverse((child) => {
+        const mesh = child as Mesh;
+        if (mesh.isMesh) {
+          mesh.material = Array.isArray(mesh.material) ? mesh.material.map(tint) : tint(mesh.material);
+        }
+      });
+    }
+    return { model: clone, tintedMaterials: tinted };
+  }, [gltf.scene, materialColor]);
+
+  // Free the tinted copies when the variant or model changes, or on unmount
+  useEffect(() => {
+    return () => {
+      tintedMaterials.forEach((material) => material.dispose());
+    };
+  }, [tintedMaterials]);
 
   // Auto-rotate animation
   useFrame((state, delta) => {
@@ -52,9 +105,10 @@ export function ModelViewer({
 
   return (
     <group ref={groupRef}>
-      <Center>
+      {/* `top` lifts a true-scale model so its base rests on the floor; re-center once the scale is known */}
+      <Center top={dimensions !== undefined} cacheKey={normalizedScale}>
         <primitive
-          object={gltf.scene.clone()}
+          object={model}
           scale={[normalizedScale, normalizedScale, normalizedScale]}
         />
       </Center>
@@ -0,0 +1,46 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useLoader } from '@react-three/fiber';
+import { TextureLoader, MeshStandardMaterial, SRGBColorSpace } from 'three';
+
+interface ProceduralRugProps {
+  textureUri: string;
+  dimensions: {
+    width: number;
+    depth: number;
+  };
+  pileHeight?: number;
+}
+
+/**
+ * Floor rug rendered as a thin textured slab lying on the XZ plane.
+ * The origin sits on the underside so the rug rests directly on the floor.
+ */
+export function ProceduralRug({
+  textureUri,
+  dimensions,
+  pileHeight = 0.01,
+}: ProceduralRugProps) {
+  const texture = useLoader(TextureLoader, textureUri);
+
+  const rugMaterial = useMemo(() => {
+    texture.colorSpace = SRGBColorSpace;
+    return new MeshStandardMaterial({
+      map: texture,
+      roughness: 1,
+      metalness: 0,
+    });
+  }, [texture]);
+
+  const { width, depth } = dimensions;
+
+  return (
+    <mesh position={[0, pileHeight / 2, 0]} receiveShadow>
+      <boxGeometry args={[width, pileHeight, depth]} />
+      <primitive object={rugMaterial} attach="material" />
+    </mesh>
+  );
+}
+
+export default ProceduralRug;
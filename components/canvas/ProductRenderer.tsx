@@ -0,0 +1,119 @@
+'use client';
+
+import type { ComponentType } from 'react';
+import type {
+  Product,
+  ProductType,
+  ArtProduct,
+  TableProduct,
+  RugProduct,
+  LightingProduct,
+  SculptureProduct,
+  MirrorProduct,
+} from '../../lib/types';
+import ProceduralFrame from './ProceduralFrame';
+import ModelViewer from './ModelViewer';
+import ProceduralRug from './ProceduralRug';
+import FloorLamp from './FloorLamp';
+import WallMirror from './WallMirror';
+
+type RendererProps<T extends Product> = {
+  product: T;
+  /** Draw normalized 3D models at their catalog dimensions (AR/VR previews) */
+  trueScale?: boolean;
+};
+
+type ProductRendererRegistry = {
+  [K in ProductType]: ComponentType<RendererProps<Extract<Product, { type: K }>>>;
+};
+
+function ArtRenderer({ product }: RendererProps<ArtProduct>) {
+  return (
+    <ProceduralFrame
+      imageUri={product.imageUri}
+      frameColor={product.frameColor}
+      dimensions={product.dimensions}
+    />
+  );
+}
+
+function TableRenderer({ product, trueScale }: RendererProps<TableProduct>) {
+  const dimensions = trueScale ? product.dimensions : undefined;
+  return (
+    <ModelViewer
+      modelUri={product.modelUri}
+      scale={product.scale}
+      dimensions={dimensions}
+      materialColor={product.materialColor}
+      autoRotate={!dimensions}
+    />
+  );
+}
+
+function RugRenderer({ product }: RendererProps<RugProduct>) {
+  return <ProceduralRug textureUri={product.textureUri} dimensions={product.dimensions} />;
+}
+
+function LightingRenderer({ product }: RendererProps<LightingProduct>) {
+  return (
+    <FloorLamp
+      shadeColor={product.shadeColor}
+      lightColor={product.lightColor}
+      intensity={product.intensity}
+      dimensions={product.dimensions}
+    />
+  );
+}
+
+function SculptureRenderer({ product, trueScale }: RendererProps<SculptureProduct>) {
+  const dimensions = trueScale ? product.dimensions : undefined;
+  return (
+    <ModelViewer
+      modelUri={product.modelUri}
+      scale={product.scale}
+      dimensions={dimensions}
+      materialColor={product.materialColor}
+      autoRotate={!dimensions}
+      rotateSpeed={0.15}
+    />
+  );
+}
+
+function MirrorRenderer({ product }: RendererProps<MirrorProduct>) {
+  return (
+    <WallMirror
+      shape={product.shape}
+      frameColor={product.frameColor}
+      dimensions={product.dimensions}
+    />
+  );
+}
+
+/**
+ * 3D renderer for each product type. Placement (wall vs floor, gallery height)
+ * lives in `lib/productTypes.ts`; renderers only draw the product at the origin.
+ */
+export const PRODUCT_RENDERERS: ProductRendererRegistry = {
+  art: ArtRenderer,
+  table: TableRenderer,
+  rug: RugRenderer,
+  lighting: LightingRenderer,
+  sculpture: SculptureRenderer,
+  mirror: MirrorRenderer,
+};
+
+interface ProductRendererProps {
+  product: Product;
+  /** Draw normalized 3D models at their catalog dimensions (see `supportsTrueScale`) */
+  trueScale?: boolean;
+}
+
+/**
+ * Render any product with the renderer registered for its type
+ */
+export function ProductRenderer({ product, trueScale = false }: ProductRendererProps) {
+  const Renderer = PRODUCT_RENDERERS[product.type] as ComponentType<RendererProps<Product>>;
+  return <Renderer product={product} trueScale={trueScale} />;
+}
+
+export default ProductRenderer;
@@ -1,20 +1,32 @@
 'use client';
 
-import { useRef, useState, Suspense, useMemo } from 'react';
+import { useRef, useState, useEffect, Suspense, useMemo } from 'react';
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
 import { 
   OrbitControls, 
   Environment,
-  Grid,
-  Float,
 } from '@react-three/drei';
 import { XR, createXRStore, useXR } from '@react-three/xr';
+import type { XRStoreOptions } from '@react-three/xr';
 import * as THREE from 'three';
 import { useXRPreviewStore } from '../../stores/XRPreviewStore';
+import { useDeviceCapabilitiesStore } from '../../stores/DeviceCapabilitiesStore';
+import { usePriceFormatter } from '../../hooks/usePriceFormatter';
+import { useMeasurementFormatter } from '../../hooks/useMeasurementFormatter';
+import { useRoomLayout } from '../../hooks/useRoomLayout';
+import { useXRGrab } from '../../hooks/useXRGrab';
 import { VR_ROOM_TEMPLATES } from '../../lib/constants';
-import { isArtProduct, isTableProduct, type VRRoomTemplate, type Product } from '../../lib/types';
-import ProceduralFrame from '../canvas/ProceduralFrame';
-import ModelViewer from '../canvas/ModelViewer';
+import type { VRRoomTemplate, Product } from '../../lib/types';
+import { getPlacementRule, getRoomPlacement, isShownAtRealSize } from '../../lib/productTypes';
+import { getStagedRowOffsets } from '../../lib/xrStaging';
+import type { StagedProduct } from '../../lib/xrStaging';
+import ProductRenderer from '../canvas/ProductRenderer';
+import { DimensionOverlay } from './DimensionOverlay';
+import { WristMenu } from './WristMenu';
+import { VirtualRoom } from './VirtualRoom';
+import { MeasurementControls } from '../ui/MeasurementControls';
+import { StagingTray } from '../ui/StagingTray';
+import { CustomRoomEditor } from '../ui/CustomRoomEditor';
 
 /**
  * VR Preview Mode Component
@@ -26,8 +38,10 @@ import ModelViewer from '../canvas/ModelViewer';
  * Features:
  * - Selectable room templates (Living Room, Bedroom, Studio, Custom)
  * - Head tracking navigation in VR mode
- * - Product placement in virtual space
- * - Room customization options
+ * - Product placement in virtual space, true to scale with optional dimensions
+ * - Hand tracking: grab (fist or squeeze) to move the product, wrist menu
+ * - Several products staged side by side; grabs move the active one
+ * - Custom rooms: the shopper's own size, doors, windows and finishes
  */
 export function VRPreviewMode() {
   const { 
@@ -37,19 +51,30 @@ export function VRPreviewMode() {
     setVRRoomTemplate,
     isHeadTrackingEnabled,
   } = useXRPreviewStore();
+  const { formatPrice } = usePriceFormatter();
+  const { formatLength } = useMeasurementFormatter();
   const [showRoomSelector, setShowRoomSelector] = useState(false);
+  const [showRoomEditor, setShowRoomEditor] = useState(false);
+  const roomLayout = useRoomLayout(vrRoomTemplate);
+  const supportsHandTracking = useDeviceCapabilitiesStore((state) => state.xr.supportsHandTracking);
   
-  // Create XR store for VR session
-  const xrStore = useMemo(() => createXRStore({
+  // Create XR store for VR session once: recreating it would end a
+  // running session. The store reads its options on every session request,
+  // so hands are requested where the device has them once that's known
+  // (the library leaves them off on Vision Pro by default).
+  const [xrOptions] = useState<XRStoreOptions>(() => ({
     emulate: false,
-  }), []);
+    handTracking: supportsHandTracking || undefined,
+  }));
+  const [xrStore] = useState(() => createXRStore(xrOptions));
+  useEffect(() => {
+    xrOptions.handTracking = supportsHandTracking || undefined;
+  }, [xrOptions, supportsHandTracking]);
 
   if (!selectedProduct) {
     return null;
   }
 
-  const roomConfig = VR_ROOM_TEMPLATES[vrRoomTemplate];
-
   return (
     <div className="fixed inset-0 z-50 bg-gray-900">
       {/* VR Canvas */}
@@ -85,7 +110,7 @@ export function VRPreviewMode() {
               className="glass-dark rounded-xl px-4 py-2 flex items-center gap-2 hover:bg-white/20 transition-smooth"
             >
               <RoomIcon />
-              <span className="text-white text-sm">{roomConfig.name}</span>
+              <span className="text-white text-sm">{roomLayout.name}</span>
               <ChevronIcon isOpen={showRoomSelector} />
             </button>
 
@@ -117,6 +142,16 @@ export function VRPreviewMode() {
                     </div>
                   </button>
                 ))}
+                <button
+                  onClick={() => {
+                    setVRRoomTemplate('custom');
+                    setShowRoomSelector(false);
+                    setShowRoomEditor(true);
+                  }}
+                  className="w-full mt-1 px-3 py-2 rounded-lg text-left text-sm text-blue-300 hover:bg-white/10 transition-smooth"
+                >
+                  Edit custom room…
+                </button>
               </div>
             )}
           </div>
@@ -131,6 +166,13 @@ export function VRPreviewMode() {
           </button>
         </div>
 
+        {/* Custom room editor; the room behind it updates as it's edited */}
+        {showRoomEditor && vrRoomTemplate === 'custom' && (
+          <div className="absolute top-20 right-4 bottom-36 flex flex-col items-end">
+            <CustomRoomEditor onClose={() => setShowRoomEditor(false)} />
+          </div>
+        )}
+
         {/* Bottom Bar - Product Info & VR Button */}
         <div className="absolute bottom-4 left-4 right-4 flex justify-between items-end pointer-events-auto">
           {/* Product Info */}
@@ -143,18 +185,30 @@ export function VRPreviewMode() {
             </p>
             <div className="flex items-center gap-4">
               <span className="text-green-400 font-bold">
-                ${selectedProduct.price.toLocaleString()}
+                {formatPrice(selectedProduct.price)}
               </span>
               <span className="text-xs text-white/50">
-                Room: {roomConfig.dimensions.width.toFixed(1)}m × {roomConfig.dimensions.depth.toFixed(1)}m
+                Room: {formatLength(roomLayout.dimensions.width)} × {formatLength(roomLayout.dimensions.depth)}
               </span>
             </div>
+            <div className="mt-3">
+              <MeasurementControls product={selectedProduct} />
+            </div>
+            <div className="mt-3">
+              <StagingTray />
+            </div>
           </div>
 
           {/* VR Entry Button */}
           <div className="flex flex-col items-end gap-2">
             <div className="text-xs text-white/50 text-right">
               Turn your head to look around
+              {supportsHandTracking && (
+                <>
+                  <br />
+                  Hands: make a fist to move the product • left palm up for the menu
+                </>
+              )}
             </div>
             <button
               onClick={() => xrStore.enterVR()}
@@ -182,7 +236,12 @@ function VRScene({ product, roomTemplate, isHeadTrackingEnabled }: VRSceneProps)
   // Check if XR session is active
   const session = useXR((xr) => xr.session);
   const isPresenting = session != null;
-  const roomConfig = VR_ROOM_TEMPLATES[roomTemplate];
+  const roomLayout = useRoomLayout(roomTemplate);
+  const stagedProducts = useXRPreviewStore((state) => state.stagedProducts);
+  const offsets = useMemo(
+    () => getStagedRowOffsets(stagedProducts.map((item) => item.product)),
+    [stagedProducts]
+  );
 
   if (!product) return null;
 
@@ -202,12 +261,18 @@ function VRScene({ product, roomTemplate, isHeadTrackingEnabled }: VRSceneProps)
       <Environment preset="apartment" />
 
       {/* Virtual Room */}
-      <VirtualRoom dimensions={roomConfig.dimensions} />
-
-      {/* Product Display */}
-      <group position={[0, 0, 0]}>
-        <ProductInRoom product={product} roomDimensions={roomConfig.dimensions} />
-      </group>
+      <VirtualRoom layout={roomLayout} />
+
+      {/* Staged products, side by side */}
+      {stagedProducts.map((item, index) => (
+        <group key={item.product.id} position={[offsets[index], 0, 0]}>
+          <ProductInRoom
+            staged={item}
+            isActive={item.product.id === product.id}
+            roomDimensions={roomLayout.dimensions}
+          />
+        </group>
+      ))}
 
       {/* Camera Controls */}
       {!isPresenting && (
@@ -215,12 +280,15 @@ function VRScene({ product, roomTemplate, isHeadTrackingEnabled }: VRSceneProps)
           enablePan={true}
           enableZoom={true}
           minDistance={1}
-          maxDistance={roomConfig.dimensions.depth * 0.8}
+          maxDistance={roomLayout.dimensions.depth * 0.8}
           maxPolarAngle={Math.PI / 2}
           target={[0, 1, 0]}
         />
       )}
 
+      {/* Palm-up menu for hand-tracking users */}
+      {isPresenting && <WristMenu product={product} showRoomTemplates />}
+
       {/* Head tracking indicator for VR */}
       {isPresenting && isHeadTrackingEnabled && (
         <HeadTrackingIndicator />
@@ -230,180 +298,44 @@ function VRScene({ product, roomTemplate, isHeadTrackingEnabled }: VRSceneProps)
 }
 
 /**
- * Virtual Room Component
+ * Product placed in the room
  */
-interface VirtualRoomProps {
-  dimensions: { width: number; depth: number; height: number };
-}
-
-function VirtualRoom({ dimensions }: VirtualRoomProps) {
-  const { width, depth, height } = dimensions;
-  
-  // Room materials
-  const floorMaterial = useMemo(() => 
-    new THREE.MeshStandardMaterial({ 
-      color: '#8B7355',
-      roughness: 0.8,
-      metalness: 0.1,
-    }), []);
-
-  const wallMaterial = useMemo(() => 
-    new THREE.MeshStandardMaterial({ 
-      color: '#F5F5F5',
-      roughness: 0.9,
-      metalness: 0,
-    }), []);
-
-  const ceilingMaterial = useMemo(() => 
-    new THREE.MeshStandardMaterial({ 
-      color: '#FFFFFF',
-      roughness: 1,
-      metalness: 0,
-    }), []);
-
-  return (
-    <group>
-      {/* Floor */}
-      <mesh 
-        rotation={[-Math.PI / 2, 0, 0]} 
-        position={[0, 0, 0]} 
-        receiveShadow
-        material={floorMaterial}
-      >
-        <planeGeometry args={[width, depth]} />
-      </mesh>
-
-      {/* Ceiling */}
-      <mesh 
-        rotation={[Math.PI / 2, 0, 0]} 
-        position={[0, height, 0]}
-        material={ceilingMaterial}
-      >
-        <planeGeometry args={[width, depth]} />
-      </mesh>
-
-      {/* Back Wall */}
-      <mesh 
-        position={[0, height / 2, -depth / 2]}
-        material={wallMaterial}
-        receiveShadow
-      >
-        <planeGeometry args={[width, height]} />
-      </mesh>
-
-      {/* Front Wall (with opening for entrance feel) */}
-      <mesh 
-        rotation={[0, Math.PI, 0]}
-        position={[0, height / 2, depth / 2]}
-        material={wallMaterial}
-      >
-        <planeGeometry args={[width, height]} />
-      </mesh>
-
-      {/* Left Wall */}
-      <mesh 
-        rotation={[0, Math.PI / 2, 0]}
-        position={[-width / 2, height / 2, 0]}
-        material={wallMaterial}
-        receiveShadow
-      >
-        <planeGeometry args={[depth, height]} />
-      </mesh>
-
-      {/* Right Wall */}
-      <mesh 
-        rotation={[0, -Math.PI / 2, 0]}
-        position={[width / 2, height / 2, 0]}
-        material={wallMaterial}
-        receiveShadow
-      >
-        <planeGeometry args={[depth, height]} />
-      </mesh>
-
-      {/* Baseboard/Skirting */}
-      <Baseboard width={width} depth={depth} height={0.1} />
-
-      {/* Floor Grid for spatial reference */}
-      <Grid
-        position={[0, 0.001, 0]}
-        args={[width, depth]}
-        cellSize={0.5}
-        cellThickness={0.5}
-        cellColor="#999999"
-        sectionSize={1}
-        sectionThickness={1}
-        sectionColor="#666666"
-        fadeDistance={Math.max(width, depth)}
-        fadeStrength={1}
-        followCamera={false}
-        infiniteGrid={false}
-      />
-    </group>
-  );
+interface ProductInRoomProps {
+  staged: StagedProduct;
+  /** The staged product grabs act on; selecting another makes it active */
+  isActive: boolean;
+  roomDimensions: { width: number; depth: number; height: number };
 }
 
-/**
- * Baseboard around room perimeter
- */
-function Baseboard({ width, depth, height }: { width: number; depth: number; height: number }) {
-  const material = useMemo(() => 
-    new THREE.MeshStandardMaterial({ color: '#FFFFFF', roughness: 0.5 }), []);
+function ProductInRoom({ staged, isActive, roomDimensions }: ProductInRoomProps) {
+  const isTrueScale = useXRPreviewStore((state) => state.isTrueScale);
+  const showDimensions = useXRPreviewStore((state) => state.showDimensions);
+  const setActiveProduct = useXRPreviewStore((state) => state.setActiveProduct);
+  const { product, adjustment } = staged;
 
+  // Wall items hang on the back wall, floor items stand in the room center
+  const [x, y, z] = getRoomPlacement(product, roomDimensions);
+  const [offsetX, offsetY, offsetZ] = adjustment.offset;
   return (
-    <group>
-      {/* Back */}
-      <mesh position={[0, height / 2, -depth / 2 + 0.01]} material={material}>
-        <boxGeometry args={[width, height, 0.02]} />
-      </mesh>
-      {/* Left */}
-      <mesh position={[-width / 2 + 0.01, height / 2, 0]} rotation={[0, Math.PI / 2, 0]} material={material}>
-        <boxGeometry args={[depth, height, 0.02]} />
-      </mesh>
-      {/* Right */}
-      <mesh position={[width / 2 - 0.01, height / 2, 0]} rotation={[0, Math.PI / 2, 0]} material={material}>
-        <boxGeometry args={[depth, height, 0.02]} />
-      </mesh>
+    <group
+      position={[x + offsetX, y + offsetY, z + offsetZ]}
+      rotation={[0, adjustment.rotationY, 0]}
+      onClick={isActive ? undefined : () => setActiveProduct(product.id)}
+    >
+      {isActive && <ActiveProductGrab product={product} />}
+      <ProductRenderer product={product} trueScale={isTrueScale} />
+      {showDimensions && isShownAtRealSize(product, isTrueScale) && <DimensionOverlay product={product} />}
     </group>
   );
 }
 
 /**
- * Product placed in the room
+ * Grabs move and turn the active product; it stays true to scale in the room
  */
-interface ProductInRoomProps {
-  product: Product;
-  roomDimensions: { width: number; depth: number; height: number };
-}
-
-function ProductInRoom({ product, roomDimensions }: ProductInRoomProps) {
-  if (isArtProduct(product)) {
-    // Mount art on the back wall
-    const artY = roomDimensions.height * 0.5 + 0.3; // Center + slight offset
-    return (
-      <group position={[0, artY, -roomDimensions.depth / 2 + 0.1]}>
-        <ProceduralFrame
-          imageUri={product.imageUri}
-          frameColor={product.frameColor}
-          dimensions={product.dimensions}
-        />
-      </group>
-    );
-  }
-
-  if (isTableProduct(product)) {
-    // Place furniture on the floor, centered
-    return (
-      <group position={[0, 0, 0]}>
-        <Float speed={0} rotationIntensity={0} floatIntensity={0}>
-          <ModelViewer
-            modelUri={product.modelUri}
-            scale={product.scale}
-          />
-        </Float>
-      </group>
-    );
-  }
-
+function ActiveProductGrab({ product }: { product: Product }) {
+  const adjustProduct = useXRPreviewStore((state) => state.adjustProduct);
+  const surface = getPlacementRule(product).surface;
+  useXRGrab(({ move, rotateY }) => adjustProduct(product.id, { move, rotateY }, surface, 0));
   return null;
 }
 
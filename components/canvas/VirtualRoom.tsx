@@ -0,0 +1,316 @@
+'use client';
+
+import { useEffect, useMemo } from 'react';
+import { Grid } from '@react-three/drei';
+import * as THREE from 'three';
+import type { RoomLayout, RoomOpening } from '../../lib/customRoom';
+import type { RoomWall } from '../../lib/roomDesigner';
+
+const BASEBOARD_HEIGHT = 0.1; // meters
+// Width of the trim around doors and windows (meters)
+const TRIM_WIDTH = 0.06;
+
+/**
+ * Box-shaped room centered on the origin with the floor at y = 0: floor,
+ * ceiling, four walls with their doors and windows, baseboards and a floor
+ * grid. Used by the VR preview and the room designer.
+ */
+interface VirtualRoomProps {
+  layout: RoomLayout;
+}
+
+interface WallSpec {
+  wall: RoomWall;
+  length: number;
+  position: [number, number, number];
+  /** Turns the wall to face into the room */
+  rotationY: number;
+}
+
+export function VirtualRoom({ layout }: VirtualRoomProps) {
+  const { dimensions, openings, floorMaterial: floorFinish, wallMaterial: wallFinish } = layout;
+  const { width, depth, height } = dimensions;
+
+  // Room materials
+  const floorMaterial = useMemo(() =>
+    new THREE.MeshStandardMaterial({
+      color: floorFinish.color,
+      roughness: floorFinish.roughness,
+      metalness: floorFinish.metalness,
+    }), [floorFinish]);
+
+  const wallMaterial = useMemo(() =>
+    new THREE.MeshStandardMaterial({
+      color: wallFinish.color,
+      roughness: wallFinish.roughness,
+      metalness: wallFinish.metalness,
+    }), [wallFinish]);
+
+  const ceilingMaterial = useMemo(() =>
+    new THREE.MeshStandardMaterial({
+      color: '#FFFFFF',
+      roughness: 1,
+      metalness: 0,
+    }), []);
+
+  // Finishes change while a custom room is edited
+  useEffect(() => () => floorMaterial.dispose(), [floorMaterial]);
+  useEffect(() => () => wallMaterial.dispose(), [wallMaterial]);
+
+  const walls: WallSpec[] = [
+    { wall: 'back', length: width, position: [0, 0, -depth / 2], rotationY: 0 },
+    { wall: 'front', length: width, position: [0, 0, depth / 2], rotationY: Math.PI },
+    { wall: 'left', length: depth, position: [-width / 2, 0, 0], rotationY: Math.PI / 2 },
+    { wall: 'right', length: depth, position: [width / 2, 0, 0], rotationY: -Math.PI / 2 },
+  ];
+
+  return (
+    <group>
+      {/* Floor */}
+      <mesh
+        rotation={[-Math.PI / 2, 0, 0]}
+        position={[0, 0, 0]}
+        receiveShadow
+        material={floorMaterial}
+      >
+        <planeGeometry args={[width, depth]} />
+      </mesh>
+
+      {/* Ceiling */}
+      <mesh
+        rotation={[Math.PI / 2, 0, 0]}
+        position={[0, height, 0]}
+        material={ceilingMaterial}
+      >
+        <planeGeometry args={[width, depth]} />
+      </mesh>
+
+      {/* Walls; the front one is the entrance side, left without baseboard or shadows */}
+      {walls.map((spec) => (
+        <Wall
+          key={spec.wall}
+          {...spec}
+          height={height}
+          openings={openings.filter((opening) => opening.wall === spec.wall)}
+          material={wallMaterial}
+          isEntrance={spec.wall === 'front'}
+        />
+      ))}
+
+      {/* Floor Grid for spatial reference */}
+      <Grid
+        position={[0, 0.001, 0]}
+        args={[width, depth]}
+        cellSize={0.5}
+        cellThickness={0.5}
+        cellColor="#999999"
+        sectionSize={1}
+        sectionThickness={1}
+        sectionColor="#666666"
+        fadeDistance={Math.max(width, depth)}
+        fadeStrength={1}
+        followCamera={false}
+        infiniteGrid={false}
+      />
+    </group>
+  );
+}
+
+/**
+ * One wall in its own frame: x along the wall from its middle, y up from
+ * the floor, facing +z into the room. Doors are notched out of the bottom
+ * edge and windows cut as holes.
+ */
+function Wall({
+  length,
+  height,
+  position,
+  rotationY,
+  openings,
+  material,
+  isEntrance,
+}: WallSpec & {
+  height: number;
+  openings: RoomOpening[];
+  material: THREE.Material;
+  isEntrance: boolean;
+}) {
+  const doors = useMemo(
+    () => openings.filter((opening) => opening.kind === 'door').sort((a, b) => a.offset - b.offset),
+    [openings]
+  );
+
+  const shape = useMemo(() => {
+    const outline = new THREE.Shape();
+    outline.moveTo(-length / 2, 0);
+    for (const door of doors) {
+      const left = door.offset - door.width / 2;
+      const right = door.offset + door.width / 2;
+      outline.lineTo(left, 0);
+      outline.lineTo(left, door.height);
+      outline.lineTo(right, door.height);
+      outline.lineTo(right, 0);
+    }
+    outline.lineTo(length / 2, 0);
+    outline.lineTo(length / 2, height);
+    outline.lineTo(-length / 2, height);
+    outline.closePath();
+
+    for (const opening of openings) {
+      if (opening.kind === 'window') {
+        outline.holes.push(createRectPath(opening, 0));
+      }
+    }
+    return outline;
+  }, [length, height, openings, doors]);
+
+  // Baseboard runs between the doors
+  const baseboards = useMemo(() => {
+    const segments: { center: number; length: number }[] = [];
+    let start = -length / 2;
+    for (const door of doors) {
+      const end = door.offset - door.width / 2 - TRIM_WIDTH;
+      if (end > start) {
+        segments.push({ center: (start + end) / 2, length: end - start });
+      }
+      start = door.offset + door.width / 2 + TRIM_WIDTH;
+    }
+    if (length / 2 > start) {
+      segments.push({ center: (start + length / 2) / 2, length: length / 2 - start });
+    }
+    return segments;
+  }, [length, doors]);
+
+  return (
+    <group position={position} rotation={[0, rotationY, 0]}>
+      <mesh material={material} receiveShadow={!isEntrance}>
+        <shapeGeometry args={[shape]} />
+      </mesh>
+
+      {!isEntrance && baseboards.map((segment) => (
+        <mesh key={segment.center} position={[segment.center, BASEBOARD_HEIGHT / 2, 0.01]}>
+          <boxGeometry args={[segment.length, BASEBOARD_HEIGHT, 0.02]} />
+          <meshStandardMaterial color="#FFFFFF" roughness={0.5} />
+        </mesh>
+      ))}
+
+      {openings.map((opening) =>
+        opening.kind === 'door' ? (
+          <Door key={opening.id} opening={opening} />
+        ) : (
+          <Window key={opening.id} opening={opening} />
+        )
+      )}
+    </group>
+  );
+}
+
+/**
+ * A closed door set just behind the wall, with trim around it. Everything
+ * faces into the room so the wall still hides itself from outside.
+ */
+function Door({ opening }: { opening: RoomOpening }) {
+  const { offset, width, height } = opening;
+  const trim = useMemo(() => createTrimShape(opening), [opening]);
+
+  return (
+    <group>
+      <mesh position={[offset, height / 2, -0.04]}>
+        <planeGeometry args={[width, height]} />
+        <meshStandardMaterial color="#6B4F3A" roughness={0.6} />
+      </mesh>
+      {/* Handle */}
+      <mesh position={[offset + width / 2 - 0.08, 1, -0.035]}>
+        <circleGeometry args={[0.03, 16]} />
+        <meshStandardMaterial color="#C0C0C0" roughness={0.3} metalness={0.8} />
+      </mesh>
+      <mesh position={[0, 0, 0.005]}>
+        <shapeGeometry args={[trim]} />
+        <meshStandardMaterial color="#FFFFFF" roughness={0.5} />
+      </mesh>
+    </group>
+  );
+}
+
+/**
+ * A window of daylit glass with a frame, mullions and trim
+ */
+function Window({ opening }: { opening: RoomOpening }) {
+  const { offset, width, height, sillHeight } = opening;
+  const trim = useMemo(() => createTrimShape(opening), [opening]);
+  const centerY = sillHeight + height / 2;
+
+  return (
+    <group>
+      <mesh position={[offset, centerY, -0.03]}>
+        <planeGeometry args={[width, height]} />
+        <meshStandardMaterial color="#D6EBFF" emissive="#A9CDF0" emissiveIntensity={0.6} roughness={0.1} />
+      </mesh>
+      {/* Mullions */}
+      <mesh position={[offset, centerY, -0.02]}>
+        <planeGeometry args={[0.03, height]} />
+        <meshStandardMaterial color="#FFFFFF" roughness={0.5} />
+      </mesh>
+      <mesh position={[offset, centerY, -0.02]}>
+        <planeGeometry args={[width, 0.03]} />
+        <meshStandardMaterial color="#FFFFFF" roughness={0.5} />
+      </mesh>
+      <mesh position={[0, 0, 0.005]}>
+        <shapeGeometry args={[trim]} />
+        <meshStandardMaterial color="#FFFFFF" roughness={0.5} />
+      </mesh>
+    </group>
+  );
+}
+
+/**
+ * Rectangle around an opening, grown by `margin` on every side
+ */
+function createRectPath({ offset, width, height, sillHeight }: RoomOpening, margin: number): THREE.Path {
+  const left = offset - width / 2 - margin;
+  const right = offset + width / 2 + margin;
+  const bottom = sillHeight - margin;
+  const top = sillHeight + height + margin;
+
+  const path = new THREE.Path();
+  path.moveTo(left, bottom);
+  path.lineTo(right, bottom);
+  path.lineTo(right, top);
+  path.lineTo(left, top);
+  path.closePath();
+  return path;
+}
+
+/**
+ * Flat trim framing an opening on the wall; door trim stops at the floor
+ */
+function createTrimShape(opening: RoomOpening): THREE.Shape {
+  const { offset, width, height, sillHeight } = opening;
+  const left = offset - width / 2;
+  const right = offset + width / 2;
+  const top = sillHeight + height;
+  const shape = new THREE.Shape();
+
+  if (opening.kind === 'door') {
+    shape.moveTo(left - TRIM_WIDTH, 0);
+    shape.lineTo(left - TRIM_WIDTH, top + TRIM_WIDTH);
+    shape.lineTo(right + TRIM_WIDTH, top + TRIM_WIDTH);
+    shape.lineTo(right + TRIM_WIDTH, 0);
+    shape.lineTo(right, 0);
+    shape.lineTo(right, top);
+    shape.lineTo(left, top);
+    shape.lineTo(left, 0);
+    shape.closePath();
+    return shape;
+  }
+
+  shape.moveTo(left - TRIM_WIDTH, sillHeight - TRIM_WIDTH);
+  shape.lineTo(right + TRIM_WIDTH, sillHeight - TRIM_WIDTH);
+  shape.lineTo(right + TRIM_WIDTH, top + TRIM_WIDTH);
+  shape.lineTo(left - TRIM_WIDTH, top + TRIM_WIDTH);
+  shape.closePath();
+  shape.holes.push(createRectPath(opening, 0));
+  return shape;
+}
+
+export default VirtualRoom;
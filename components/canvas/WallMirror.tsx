@@ -0,0 +1,85 @@
+'use client';
+
+import { useMemo } from 'react';
+import { MeshReflectorMaterial } from '@react-three/drei';
+import { MeshStandardMaterial } from 'three';
+
+interface WallMirrorProps {
+  shape: 'rectangle' | 'round';
+  frameColor: string;
+  dimensions: {
+    width: number;
+    height: number;
+  };
+  frameThickness?: number;
+  frameDepth?: number;
+}
+
+/**
+ * Framed wall mirror with a live reflection of the scene
+ */
+export function WallMirror({
+  shape,
+  frameColor,
+  dimensions,
+  frameThickness = 0.03,
+  frameDepth = 0.03,
+}: WallMirrorProps) {
+  const frameMaterial = useMemo(() => {
+    return new MeshStandardMaterial({
+      color: frameColor,
+      roughness: 0.3,
+      metalness: 0.7,
+    });
+  }, [frameColor]);
+
+  const { width, height } = dimensions;
+  const ft = frameThickness;
+  const fd = frameDepth;
+
+  const reflector = (
+    <MeshReflectorMaterial
+      resolution={512}
+      mirror={1}
+      mixStrength={1}
+      roughness={0}
+      metalness={0}
+      color="#e8eef0"
+    />
+  );
+
+  if (shape === 'round') {
+    const radius = width / 2;
+    return (
+      <group>
+        <mesh position={[0, 0, fd / 2 + 0.001]}>
+          <circleGeometry args={[radius, 64]} />
+          {reflector}
+        </mesh>
+        <mesh position={[0, 0, fd / 2]}>
+          <torusGeometry args={[radius + ft / 2, ft / 2, 16, 64]} />
+          <primitive object={frameMaterial} attach="material" />
+        </mesh>
+        <mesh position={[0, 0, 0]} rotation={[Math.PI / 2, 0, 0]}>
+          <cylinderGeometry args={[radius, radius, fd, 64]} />
+          <primitive object={frameMaterial} attach="material" />
+        </mesh>
+      </group>
+    );
+  }
+
+  return (
+    <group>
+      <mesh position={[0, 0, fd / 2 + 0.001]}>
+        <planeGeometry args={[width, height]} />
+        {reflector}
+      </mesh>
+      <mesh position={[0, 0, 0]}>
+        <boxGeometry args={[width + ft * 2, height + ft * 2, fd]} />
+        <primitive object={frameMaterial} attach="material" />
+      </mesh>
+    </group>
+  );
+}
+
+export default WallMirror;
@@ -0,0 +1,315 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { useXR, useXRInputSourceState } from '@react-three/xr';
+import * as THREE from 'three';
+import { useXRPreviewStore } from '../../stores/XRPreviewStore';
+import { useARAnchorStore } from '../../stores/ARAnchorStore';
+import { useCartStore, useGalleryStore } from '../../stores/MockStore';
+import { usePriceFormatter } from '../../hooks/usePriceFormatter';
+import { useManipulationLock } from '../../hooks/useManipulationLock';
+import { VR_ROOM_TEMPLATES, XR_PREVIEW_CONFIG } from '../../lib/constants';
+import { createLabelTexture } from '../../lib/labelTexture';
+import { getPalmPose } from '../../lib/handTracking';
+import { isProductAdjusted } from '../../lib/xrManipulation';
+import { getStagedTotal } from '../../lib/xrStaging';
+import { applyVariant } from '../../lib/variants';
+import type { Product, VRRoomTemplate } from '../../lib/types';
+
+// Button height in world space; width follows the label
+const ROW_HEIGHT = 0.03;
+const ROW_GAP = 0.008;
+const BUTTON_GAP = 0.01;
+const MAX_TITLE_LENGTH = 28;
+const ADDED_FEEDBACK_MS = 1500;
+const HOVER_COLOR = '#93c5fd';
+const BUTTON_BACKGROUND = 'rgba(30, 41, 59, 0.9)';
+const LABEL_BACKGROUND = 'rgba(0, 0, 0, 0.65)';
+
+const ROOM_TEMPLATE_IDS = Object.keys(VR_ROOM_TEMPLATES) as VRRoomTemplate[];
+
+// Reused every frame while the left hand is tracked
+const wristPosition = new THREE.Vector3();
+const palmNormal = new THREE.Vector3();
+const headPosition = new THREE.Vector3();
+const toHead = new THREE.Vector3();
+
+interface WristMenuProps {
+  product: Product;
+  /** Offer the VR room template switch */
+  showRoomTemplates?: boolean;
+}
+
+/**
+ * Menu that floats above the left palm when it's turned toward the face,
+ * so hand-tracking users can switch products, step through and buy the
+ * staged ones, add to cart, reset a moved product, show or hide the AR room scan, forget a saved AR spot and (in
+ * VR) change the room without controllers. Buttons respond to a poke or a pinch.
+ *
+ * Renders nothing unless a left hand is tracked.
+ */
+export function WristMenu({ product, showRoomTemplates = false }: WristMenuProps) {
+  const groupRef = useRef<THREE.Group>(null);
+  const isOpenRef = useRef(false);
+  const [isOpen, setIsOpen] = useState(false);
+  const [justAdded, setJustAdded] = useState(false);
+
+  const leftHand = useXRInputSourceState('hand', 'left');
+  const referenceSpace = useXR((xr) => xr.originReferenceSpace);
+  const camera = useThree((state) => state.camera);
+  const lock = useManipulationLock();
+  const { formatPrice } = usePriceFormatter();
+
+  const showProduct = useXRPreviewStore((state) => state.showProduct);
+  const vrRoomTemplate = useXRPreviewStore((state) => state.vrRoomTemplate);
+  const setVRRoomTemplate = useXRPreviewStore((state) => state.setVRRoomTemplate);
+  const stagedProducts = useXRPreviewStore((state) => state.stagedProducts);
+  const setActiveProduct = useXRPreviewStore((state) => state.setActiveProduct);
+  const addStagedToCart = useXRPreviewStore((state) => state.addStagedToCart);
+  const isAdjusted = useXRPreviewStore((state) => {
+    const staged = state.getActiveStagedProduct();
+    return staged ? isProductAdjusted(staged.adjustment) : false;
+  });
+  const resetProductAdjustment = useXRPreviewStore((state) => state.resetProductAdjustment);
+  const hasRoomScan = useXRPreviewStore((state) => (state.arRoom?.surfaces.length ?? 0) > 0);
+  const showRoomScan = useXRPreviewStore((state) => state.showRoomScan);
+  const toggleRoomScan = useXRPreviewStore((state) => state.toggleRoomScan);
+  const savedPlacementId = useARAnchorStore((state) => state.getPlacementForProduct(product.id)?.id);
+  const removePlacement = useARAnchorStore((state) => state.removePlacement);
+  const catalogProduct = useGalleryStore((state) => state.products.find((item) => item.id === product.id));
+  const variantId = useGalleryStore((state) => state.selectedVariants[product.id]);
+  const productCount = useGalleryStore((state) => state.visibleProducts.length);
+  const canAdd = useCartStore((state) => (catalogProduct ? state.canAddItem(catalogProduct, variantId) : false));
+  const addItem = useCartStore((state) => state.addItem);
+
+  useEffect(() => {
+    if (!justAdded) return;
+    const timer = setTimeout(() => setJustAdded(false), ADDED_FEEDBACK_MS);
+    return () => clearTimeout(timer);
+  }, [justAdded]);
+
+  useFrame((_state, _delta, frame?: XRFrame) => {
+    const group = groupRef.current;
+    const hand = leftHand?.inputSource.hand;
+    let facing = false;
+
+    if (frame && hand && referenceSpace && getPalmPose(frame, hand, referenceSpace, wristPosition, palmNormal)) {
+      camera.getWorldPosition(headPosition);
+      toHead.subVectors(headPosition, wristPosition).normalize();
+      const { menuFacingAngle, menuOffset } = XR_PREVIEW_CONFIG.hands;
+      facing = palmNormal.dot(toHead) >= Math.cos(THREE.MathUtils.degToRad(menuFacingAngle));
+
+      if (facing && group) {
+        group.position.copy(wristPosition).addScaledVector(palmNormal, menuOffset);
+        group.lookAt(headPosition);
+      }
+    }
+
+    // Only re-render when the menu opens or closes; this runs every frame
+    if (facing !== isOpenRef.current) {
+      isOpenRef.current = facing;
+      setIsOpen(facing);
+    }
+  });
+
+  const stepProduct = (direction: 1 | -1) => {
+    const { visibleProducts, selectedVariants, goToProductById } = useGalleryStore.getState();
+    if (visibleProducts.length === 0) return;
+    const index = visibleProducts.findIndex((item) => item.id === product.id);
+    const next = visibleProducts[(index + direction + visibleProducts.length) % visibleProducts.length];
+    // Keep the gallery behind the session on the same product
+    goToProductById(next.id);
+    showProduct(applyVariant(next, selectedVariants[next.id]));
+  };
+
+  const handleAddToCart = () => {
+    if (catalogProduct && addItem(catalogProduct, variantId)) {
+      setJustAdded(true);
+    }
+  };
+
+  const stagedIndex = stagedProducts.findIndex((item) => item.product.id === product.id);
+  const cycleStagedProduct = () => {
+    setActiveProduct(stagedProducts[(stagedIndex + 1) % stagedProducts.length].product.id);
+  };
+
+  const handleAddStagedToCart = () => {
+    if (addStagedToCart() > 0) {
+      setJustAdded(true);
+    }
+  };
+
+  const cycleRoomTemplate = () => {
+    const index = ROOM_TEMPLATE_IDS.indexOf(vrRoomTemplate);
+    setVRRoomTemplate(ROOM_TEMPLATE_IDS[(index + 1) % ROOM_TEMPLATE_IDS.length]);
+  };
+
+  const title =
+    product.name.length > MAX_TITLE_LENGTH ? `${product.name.slice(0, MAX_TITLE_LENGTH - 1)}…` : product.name;
+  const cartLabel = justAdded ? 'Added ✓' : canAdd ? `Add to cart · ${formatPrice(product.price)}` : 'Unavailable';
+
+  const rows: { key: string; buttons: MenuButtonProps[] }[] = [
+    { key: 'title', buttons: [{ label: title }] },
+    {
+      key: 'products',
+      buttons: [
+        { label: '‹ Prev', onPress: () => stepProduct(-1), disabled: productCount < 2 },
+        { label: 'Next ›', onPress: () => stepProduct(1), disabled: productCount < 2 },
+      ],
+    },
+    { key: 'cart', buttons: [{ label: cartLabel, onPress: handleAddToCart, disabled: !canAdd || justAdded }] },
+    {
+      key: 'reset',
+      buttons: [{ label: 'Reset position', onPress: () => resetProductAdjustment(product.id), disabled: !isAdjusted }],
+    },
+  ];
+  if (stagedProducts.length > 1) {
+    rows.splice(2, 0, {
+      key: 'staged',
+      buttons: [
+        { label: `Staged ${stagedIndex + 1}/${stagedProducts.length} ›`, onPress: cycleStagedProduct },
+        {
+          label: `Add all · ${formatPrice(getStagedTotal(stagedProducts))}`,
+          onPress: handleAddStagedToCart,
+          disabled: justAdded,
+        },
+      ],
+    });
+  }
+  if (showRoomTemplates) {
+    rows.push({
+      key: 'room',
+      buttons: [{ label: `Room: ${VR_ROOM_TEMPLATES[vrRoomTemplate].name}`, onPress: cycleRoomTemplate }],
+    });
+  } else {
+    if (hasRoomScan) {
+      rows.push({
+        key: 'scan',
+        buttons: [{ label: showRoomScan ? 'Hide room scan' : 'Show room scan', onPress: toggleRoomScan }],
+      });
+    }
+    if (savedPlacementId) {
+      rows.push({
+        key: 'saved',
+        buttons: [{ label: 'Forget saved spot', onPress: () => removePlacement(savedPlacementId) }],
+      });
+    }
+  }
+
+  if (!leftHand) return null;
+
+  const top = ((rows.length - 1) * (ROW_HEIGHT + ROW_GAP)) / 2;
+
+  return (
+    <group ref={groupRef} visible={isOpen}>
+      {isOpen &&
+        rows.map((row, rowIndex) => (
+          <MenuRow
+            key={row.key}
+            buttons={row.buttons}
+            y={top - rowIndex * (ROW_HEIGHT + ROW_GAP)}
+            onPressStart={lock.begin}
+            onPressEnd={lock.end}
+          />
+        ))}
+    </group>
+  );
+}
+
+interface MenuButtonProps {
+  label: string;
+  /** Omitted for plain labels */
+  onPress?: () => void;
+  disabled?: boolean;
+}
+
+interface MenuRowProps {
+  buttons: MenuButtonProps[];
+  y: number;
+  onPressStart: () => void;
+  onPressEnd: () => void;
+}
+
+/**
+ * A row of buttons laid out side by side, centered on the menu
+ */
+function MenuRow({ buttons, y, onPressStart, onPressEnd }: MenuRowProps) {
+  // Rebuild textures only when a label changes, not on every render
+  const textureKey = buttons.map(({ label, onPress }) => `${onPress ? '>' : '-'}${label}`).join('\n');
+  const textures = useMemo(
+    () =>
+      textureKey
+        .split('\n')
+        .map((entry) => createLabelTexture(entry.slice(1), entry[0] === '>' ? BUTTON_BACKGROUND : LABEL_BACKGROUND)),
+    [textureKey]
+  );
+  useEffect(() => () => textures.forEach(({ texture }) => texture.dispose()), [textures]);
+
+  const widths = textures.map(({ aspect }) => ROW_HEIGHT * aspect);
+  const totalWidth = widths.reduce((sum, width) => sum + width, 0) + BUTTON_GAP * (widths.length - 1);
+  let left = -totalWidth / 2;
+
+  return (
+    <group position={[0, y, 0]}>
+      {buttons.map((button, index) => {
+        const x = left + widths[index] / 2;
+        left += widths[index] + BUTTON_GAP;
+        return (
+          <MenuButton
+            key={index}
+            {...button}
+            texture={textures[index].texture}
+            width={widths[index]}
+            x={x}
+            onPressStart={onPressStart}
+            onPressEnd={onPressEnd}
+          />
+        );
+      })}
+    </group>
+  );
+}
+
+function MenuButton({
+  onPress,
+  disabled = false,
+  texture,
+  width,
+  x,
+  onPressStart,
+  onPressEnd,
+}: MenuButtonProps & {
+  texture: THREE.Texture;
+  width: number;
+  x: number;
+  onPressStart: () => void;
+  onPressEnd: () => void;
+}) {
+  const [isHovered, setIsHovered] = useState(false);
+  const isInteractive = onPress !== undefined && !disabled;
+
+  return (
+    <mesh
+      position={[x, 0, 0]}
+      renderOrder={4}
+      onClick={isInteractive ? onPress : undefined}
+      // A pinch on the menu also fires an XR select; don't let it re-place the AR product
+      onPointerDown={isInteractive ? onPressStart : undefined}
+      onPointerUp={isInteractive ? onPressEnd : undefined}
+      onPointerOver={isInteractive ? () => setIsHovered(true) : undefined}
+      onPointerOut={() => setIsHovered(false)}
+    >
+      <planeGeometry args={[width, ROW_HEIGHT]} />
+      <meshBasicMaterial
+        map={texture}
+        color={isHovered && isInteractive ? HOVER_COLOR : '#ffffff'}
+        transparent
+        opacity={disabled ? 0.4 : 1}
+        depthTest={false}
+      />
+    </mesh>
+  );
+}
+
+export default WristMenu;
@@ -1,7 +1,18 @@
 export { ImmersiveGallery } from './ImmersiveGallery';
 export { ProceduralFrame } from './ProceduralFrame';
 export { ModelViewer, ModelLoadingIndicator } from './ModelViewer';
+export { ProceduralRug } from './ProceduralRug';
+export { FloorLamp } from './FloorLamp';
+export { WallMirror } from './WallMirror';
+export { ProductRenderer, PRODUCT_RENDERERS } from './ProductRenderer';
 export { GalleryFloor } from './GalleryFloor';
 export { ProductSpotlight } from './ProductSpotlight';
 export { ARPreviewMode } from './ARPreviewMode';
+export { ARHitTestPlacement } from './ARHitTestPlacement';
+export { ARManipulator, ARTouchOverlay } from './ARManipulator';
+export { ARRoomModel } from './ARRoomModel';
+export { ARPersistentAnchors } from './ARPersistentAnchors';
+export { WristMenu } from './WristMenu';
+export { DimensionOverlay } from './DimensionOverlay';
 export { VRPreviewMode } from './VRPreviewMode';
+export { VirtualRoom } from './VirtualRoom';
@@ -0,0 +1,152 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRoomDesignerStore } from '../../stores/RoomDesignerStore';
+import { useLocaleStore } from '../../stores/LocaleStore';
+import { VR_ROOM_TEMPLATES } from '../../lib/constants';
+
+/**
+ * Name, save and reopen room designs. Designs are kept on this device
+ * (`localStorage` key `virtual-studio-room-designs`); opening another design
+ * asks first when the current one has unsaved changes.
+ */
+export function DesignManager() {
+  const designId = useRoomDesignerStore((state) => state.designId);
+  const designName = useRoomDesignerStore((state) => state.designName);
+  const isDirty = useRoomDesignerStore((state) => state.isDirty);
+  const savedDesigns = useRoomDesignerStore((state) => state.savedDesigns);
+  const saveDesign = useRoomDesignerStore((state) => state.saveDesign);
+  const loadDesign = useRoomDesignerStore((state) => state.loadDesign);
+  const deleteDesign = useRoomDesignerStore((state) => state.deleteDesign);
+  const newDesign = useRoomDesignerStore((state) => state.newDesign);
+  const locale = useLocaleStore((state) => state.locale);
+
+  const [name, setName] = useState(designName);
+  const [isListOpen, setIsListOpen] = useState(false);
+  // Action waiting for the shopper to confirm discarding unsaved changes
+  const [pending, setPending] = useState<{ label: string; run: () => void } | null>(null);
+
+  // Follow the store when another design is opened
+  useEffect(() => {
+    setName(designName);
+  }, [designName]);
+
+  const formatDate = (timestamp: number) => {
+    return new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'short' }).format(timestamp);
+  };
+
+  const confirmIfDirty = (label: string, run: () => void) => {
+    if (isDirty) {
+      setPending({ label, run });
+    } else {
+      run();
+    }
+  };
+
+  const isSaved = savedDesigns.some((design) => design.id === designId);
+
+  return (
+    <div className="text-xs text-white">
+      <div className="flex items-center gap-2">
+        <input
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          maxLength={60}
+          aria-label="Design name"
+          className="flex-1 min-w-0 rounded-lg bg-white/10 px-2 py-1.5 text-sm text-white placeholder-white/40 outline-none focus:ring-1 focus:ring-white/40"
+        />
+        <button
+          onClick={() => saveDesign(name)}
+          disabled={isSaved && !isDirty && name === designName}
+          className="rounded-full px-3 py-1.5 bg-blue-600/60 hover:bg-blue-500/70 transition-smooth disabled:opacity-40"
+        >
+          {isSaved ? 'Save' : 'Save design'}
+        </button>
+        {isSaved && (
+          <button
+            onClick={() => saveDesign(name, true)}
+            className="rounded-full px-3 py-1.5 bg-white/10 hover:bg-white/20 transition-smooth"
+          >
+            Save as new
+          </button>
+        )}
+      </div>
+      <p className="mt-1 text-white/50">{isDirty ? 'Unsaved changes' : isSaved ? 'Saved' : 'Not saved yet'}</p>
+
+      <div className="mt-2 flex items-center gap-3">
+        <button
+          onClick={() => setIsListOpen((open) => !open)}
+          aria-expanded={isListOpen}
+          className="text-white/70 hover:text-white transition-smooth"
+        >
+          My designs ({savedDesigns.length}) {isListOpen ? '▾' : '▸'}
+        </button>
+        <button
+          onClick={() => confirmIfDirty('Start a new design', newDesign)}
+          className="text-white/70 hover:text-white transition-smooth"
+        >
+          New design
+        </button>
+      </div>
+
+      {pending && (
+        <div className="mt-2 rounded-lg bg-yellow-500/10 p-2" role="alertdialog" aria-label="Unsaved changes">
+          <p className="text-yellow-200 mb-1.5">Discard unsaved changes?</p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => {
+                pending.run();
+                setPending(null);
+              }}
+              className="rounded-full px-3 py-1 bg-yellow-600/50 hover:bg-yellow-500/60 transition-smooth"
+            >
+              {pending.label}
+            </button>
+            <button
+              onClick={() => setPending(null)}
+              className="rounded-full px-3 py-1 bg-white/10 hover:bg-white/20 transition-smooth"
+            >
+              Keep editing
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isListOpen && (
+        <ul className="mt-2 max-h-48 overflow-y-auto space-y-1">
+          {savedDesigns.length === 0 && <li className="text-white/50">No saved designs yet</li>}
+          {savedDesigns.map((design) => (
+            <li key={design.id} className="flex items-center gap-2 rounded-lg bg-white/5 px-2 py-1.5">
+              <div className="flex-1 min-w-0">
+                <p className="truncate">{design.name}</p>
+                <p className="text-white/50">
+                  {VR_ROOM_TEMPLATES[design.templateId].name} · {design.items.length} items ·{' '}
+                  {formatDate(design.updatedAt)}
+                </p>
+              </div>
+              {design.id === designId ? (
+                <span className="text-green-400">Open</span>
+              ) : (
+                <button
+                  onClick={() => confirmIfDirty(`Open ${design.name}`, () => loadDesign(design.id))}
+                  className="rounded-full px-2 py-1 bg-white/10 hover:bg-white/20 transition-smooth"
+                >
+                  Open
+                </button>
+              )}
+              <button
+                onClick={() => deleteDesign(design.id)}
+                className="rounded-full px-2 py-1 text-white/60 hover:text-white hover:bg-white/10 transition-smooth"
+                aria-label={`Delete ${design.name}`}
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default DesignManager;
@@ -0,0 +1,102 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useRoomDesignerStore } from '../../stores/RoomDesignerStore';
+import { useGalleryStore } from '../../stores/MockStore';
+import { usePriceFormatter } from '../../hooks/usePriceFormatter';
+import { useRoomLayout } from '../../hooks/useRoomLayout';
+import { ROOM_DESIGNER_CONFIG } from '../../lib/constants';
+import { blocksOpening, collidesWithOthers, getDesignRoom, resolveDesignItems } from '../../lib/roomDesigner';
+
+/**
+ * Turn, scale and remove the selected item. Turns step by
+ * `ROOM_DESIGNER_CONFIG.rotationStep`, or a quarter turn with Shift; wall
+ * items keep facing out from their wall.
+ */
+export function ItemControls() {
+  const { formatPrice } = usePriceFormatter();
+  const templateId = useRoomDesignerStore((state) => state.templateId);
+  const items = useRoomDesignerStore((state) => state.items);
+  const selectedItemId = useRoomDesignerStore((state) => state.selectedItemId);
+  const rotateItem = useRoomDesignerStore((state) => state.rotateItem);
+  const setItemScale = useRoomDesignerStore((state) => state.setItemScale);
+  const removeItem = useRoomDesignerStore((state) => state.removeItem);
+  const beginTransform = useRoomDesignerStore((state) => state.beginTransform);
+  const endTransform = useRoomDesignerStore((state) => state.endTransform);
+  const catalog = useGalleryStore((state) => state.products);
+  const layout = useRoomLayout(templateId);
+
+  const designItems = useMemo(() => resolveDesignItems(items, catalog), [items, catalog]);
+  const selected = designItems.find(({ item }) => item.id === selectedItemId);
+  if (!selected) return null;
+
+  const { item, product } = selected;
+  const { minScale, maxScale, rotationStep, snapRotationStep } = ROOM_DESIGNER_CONFIG;
+  const isColliding = collidesWithOthers(selected, designItems);
+  const isBlocking = blocksOpening(selected, getDesignRoom(layout));
+
+  const rotate = (direction: 1 | -1, snap: boolean) => {
+    rotateItem(item.id, direction * (snap ? snapRotationStep : rotationStep));
+  };
+
+  return (
+    <div className="glass-dark rounded-xl p-3 text-xs text-white w-64">
+      <div className="flex items-start justify-between gap-2 mb-2">
+        <div className="min-w-0">
+          <p className="font-semibold text-sm truncate">{product.name}</p>
+          <p className="text-green-400">{formatPrice(product.price)}</p>
+        </div>
+        <button
+          onClick={() => removeItem(item.id)}
+          className="rounded-full px-2 py-1 text-white/60 hover:text-white hover:bg-white/10 transition-smooth"
+        >
+          Remove
+        </button>
+      </div>
+
+      {isColliding && <p className="text-red-300 mb-2">Overlaps another item. Drag it somewhere free.</p>}
+      {!isColliding && isBlocking && (
+        <p className="text-red-300 mb-2">Blocks a door or window. Drag it somewhere free.</p>
+      )}
+
+      {!item.wall && (
+        <div className="flex items-center gap-2 mb-2">
+          <span className="text-white/70 w-12">Turn</span>
+          <button
+            onClick={(event) => rotate(1, event.shiftKey)}
+            className="rounded-full px-3 py-1 bg-white/10 hover:bg-white/20 transition-smooth"
+            aria-label="Turn left"
+          >
+            ⟲
+          </button>
+          <button
+            onClick={(event) => rotate(-1, event.shiftKey)}
+            className="rounded-full px-3 py-1 bg-white/10 hover:bg-white/20 transition-smooth"
+            aria-label="Turn right"
+          >
+            ⟳
+          </button>
+          <span className="text-white/40">Shift: 90°</span>
+        </div>
+      )}
+
+      <label className="flex items-center gap-2">
+        <span className="text-white/70 w-12">Size</span>
+        <input
+          type="range"
+          min={minScale}
+          max={maxScale}
+          step={0.05}
+          value={item.scale}
+          onPointerDown={beginTransform}
+          onPointerUp={endTransform}
+          onChange={(event) => setItemScale(item.id, Number(event.target.value))}
+          className="flex-1"
+        />
+        <span className="w-10 text-right">{Math.round(item.scale * 100)}%</span>
+      </label>
+    </div>
+  );
+}
+
+export default ItemControls;
@@ -0,0 +1,84 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRoomDesignerStore } from '../../stores/RoomDesignerStore';
+import { useGalleryStore } from '../../stores/MockStore';
+import { usePriceFormatter } from '../../hooks/usePriceFormatter';
+import { ROOM_DESIGNER_CONFIG } from '../../lib/constants';
+import { getPlacementRule, PRODUCT_TYPE_REGISTRY } from '../../lib/productTypes';
+import { applyVariant } from '../../lib/variants';
+import type { Product } from '../../lib/types';
+
+const NOTICE_MS = 2500;
+
+/**
+ * Catalog products to add to the room. Each goes to the nearest free
+ * spot: wall art and mirrors onto a wall, furniture, rugs and lamps onto
+ * the floor. Products use the variant selected in the gallery.
+ */
+export function ItemPalette() {
+  const [notice, setNotice] = useState<string | null>(null);
+  const { formatPrice } = usePriceFormatter();
+  const catalog = useGalleryStore((state) => state.products);
+  const selectedVariants = useGalleryStore((state) => state.selectedVariants);
+  const itemCount = useRoomDesignerStore((state) => state.items.length);
+  const placeProduct = useRoomDesignerStore((state) => state.placeProduct);
+
+  useEffect(() => {
+    if (!notice) return;
+    const timer = setTimeout(() => setNotice(null), NOTICE_MS);
+    return () => clearTimeout(timer);
+  }, [notice]);
+
+  const isFull = itemCount >= ROOM_DESIGNER_CONFIG.maxItems;
+
+  const handleAdd = (product: Product) => {
+    const variantId = selectedVariants[product.id] ?? null;
+    const configured = applyVariant(product, variantId);
+    if (!placeProduct(configured, variantId)) {
+      setNotice(
+        getPlacementRule(configured).surface === 'wall'
+          ? `No free wall space for ${configured.name}`
+          : `No free floor space for ${configured.name}`
+      );
+    }
+  };
+
+  return (
+    <div className="flex flex-col min-h-0">
+      <h3 className="text-white font-semibold mb-2">Add items</h3>
+      {isFull && (
+        <p className="text-xs text-yellow-300 mb-2">
+          This room holds up to {ROOM_DESIGNER_CONFIG.maxItems} items
+        </p>
+      )}
+      {notice && (
+        <p className="text-xs text-red-300 mb-2" role="status">
+          {notice}
+        </p>
+      )}
+      <ul className="space-y-1.5 overflow-y-auto min-h-0">
+        {catalog.map((product) => {
+          const configured = applyVariant(product, selectedVariants[product.id]);
+          return (
+            <li key={product.id}>
+              <button
+                onClick={() => handleAdd(product)}
+                disabled={isFull}
+                className="w-full text-left rounded-lg px-3 py-2 bg-white/5 hover:bg-white/15 transition-smooth disabled:opacity-40"
+              >
+                <span className="block text-sm text-white truncate">{configured.name}</span>
+                <span className="flex justify-between text-xs">
+                  <span className="text-white/50">{PRODUCT_TYPE_REGISTRY[configured.type].label}</span>
+                  <span className="text-green-400">{formatPrice(configured.price)}</span>
+                </span>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+export default ItemPalette;
@@ -0,0 +1,104 @@
+'use client';
+
+import { useRef } from 'react';
+import type { ThreeEvent } from '@react-three/fiber';
+import { useRoomDesignerStore } from '../../stores/RoomDesignerStore';
+import {
+  clampToRoom,
+  getFloorHit,
+  getFloorPose,
+  getItemSize,
+  getWallHit,
+  getWallPose,
+} from '../../lib/roomDesigner';
+import type { DesignItem, ItemPose, RoomDimensions } from '../../lib/roomDesigner';
+import ProductRenderer from '../canvas/ProductRenderer';
+
+const SELECTED_COLOR = '#60a5fa';
+const COLLIDING_COLOR = '#f87171';
+
+interface PlacedItemProps {
+  designItem: DesignItem;
+  room: RoomDimensions;
+  isSelected: boolean;
+  /** Overlaps another item, a door or a window, e.g. after switching to a smaller room */
+  isColliding: boolean;
+}
+
+/**
+ * A product in the designed room, drawn at its real size. Click to select;
+ * drag to move it across the floor, or along and between walls for wall
+ * items. Moves stop at walls and at other items.
+ */
+export function PlacedItem({ designItem, room, isSelected, isColliding }: PlacedItemProps) {
+  const { item, product } = designItem;
+  const selectItem = useRoomDesignerStore((state) => state.selectItem);
+  const moveItem = useRoomDesignerStore((state) => state.moveItem);
+  const beginTransform = useRoomDesignerStore((state) => state.beginTransform);
+  const endTransform = useRoomDesignerStore((state) => state.endTransform);
+
+  // Where the floor was grabbed relative to the item, so it doesn't jump to the pointer
+  const grabOffset = useRef<[number, number] | null>(null);
+
+  const handlePointerDown = (event: ThreeEvent<PointerEvent>) => {
+    event.stopPropagation();
+    selectItem(item.id);
+
+    const hit = item.wall ? null : getFloorHit(event.ray);
+    grabOffset.current = hit ? [hit[0] - item.position[0], hit[1] - item.position[2]] : [0, 0];
+    (event.target as Element).setPointerCapture(event.pointerId);
+    beginTransform();
+  };
+
+  const handlePointerMove = (event: ThreeEvent<PointerEvent>) => {
+    const offset = grabOffset.current;
+    if (!offset) return;
+    event.stopPropagation();
+
+    let pose: ItemPose | null = null;
+    if (item.wall) {
+      const hit = getWallHit(event.ray, room);
+      pose = hit && getWallPose(product, hit.wall, hit.along, hit.y, room);
+    } else {
+      const hit = getFloorHit(event.ray);
+      pose = hit && getFloorPose(product, hit[0] - offset[0], hit[1] - offset[1], item.rotationY);
+    }
+    if (!pose) return;
+
+    // Slide along walls instead of stopping short of them
+    moveItem(item.id, clampToRoom({ item: { ...item, ...pose }, product }, room));
+  };
+
+  const handlePointerUp = (event: ThreeEvent<PointerEvent>) => {
+    if (!grabOffset.current) return;
+    grabOffset.current = null;
+    (event.target as Element).releasePointerCapture(event.pointerId);
+    endTransform();
+  };
+
+  const size = getItemSize(product, 1);
+  const showOutline = isSelected || isColliding;
+
+  return (
+    <group
+      position={item.position}
+      rotation={[0, item.rotationY, 0]}
+      scale={item.scale}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onClick={(event) => event.stopPropagation()}
+    >
+      <ProductRenderer product={product} trueScale />
+      {showOutline && (
+        // Floor items stand on the origin; wall items are centered on it
+        <mesh position={[0, item.wall ? 0 : size.height / 2, 0]}>
+          <boxGeometry args={[size.width, size.height, item.wall ? 0.05 : size.depth]} />
+          <meshBasicMaterial color={isColliding ? COLLIDING_COLOR : SELECTED_COLOR} wireframe />
+        </mesh>
+      )}
+    </group>
+  );
+}
+
+export default PlacedItem;
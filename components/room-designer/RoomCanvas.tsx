@@ -0,0 +1,85 @@
+'use client';
+
+import { Suspense, useMemo } from 'react';
+import { Canvas } from '@react-three/fiber';
+import { OrbitControls, Environment } from '@react-three/drei';
+import { useRoomDesignerStore } from '../../stores/RoomDesignerStore';
+import { useGalleryStore } from '../../stores/MockStore';
+import { useRoomLayout } from '../../hooks/useRoomLayout';
+import { getCollidingItemIds, getDesignRoom, resolveDesignItems } from '../../lib/roomDesigner';
+import { VirtualRoom } from '../canvas/VirtualRoom';
+import { PlacedItem } from './PlacedItem';
+
+// Pointer travel (pixels) after which a click on the room was an orbit, not a deselect
+const CLICK_TOLERANCE = 4;
+
+/**
+ * 3D viewport of the room designer: the chosen room template with the
+ * placed items, orbited from above like a dollhouse. The near walls hide
+ * themselves from outside, so the room stays visible from any side.
+ */
+export function RoomCanvas() {
+  const templateId = useRoomDesignerStore((state) => state.templateId);
+  const items = useRoomDesignerStore((state) => state.items);
+  const selectedItemId = useRoomDesignerStore((state) => state.selectedItemId);
+  const isTransforming = useRoomDesignerStore((state) => state.isTransforming);
+  const selectItem = useRoomDesignerStore((state) => state.selectItem);
+  const catalog = useGalleryStore((state) => state.products);
+
+  const layout = useRoomLayout(templateId);
+  const room = useMemo(() => getDesignRoom(layout), [layout]);
+  const designItems = useMemo(() => resolveDesignItems(items, catalog), [items, catalog]);
+  const collidingIds = useMemo(() => getCollidingItemIds(designItems, room), [designItems, room]);
+  const viewDistance = Math.max(room.width, room.depth);
+
+  return (
+    <Canvas
+      shadows
+      camera={{
+        fov: 50,
+        near: 0.1,
+        far: 100,
+        position: [0, room.height * 1.6, viewDistance * 1.1],
+      }}
+    >
+      {/* Lighting */}
+      <ambientLight intensity={0.5} />
+      <directionalLight position={[3, 8, 4]} intensity={0.8} castShadow shadow-mapSize={[1024, 1024]} />
+      <pointLight position={[0, room.height - 0.2, 0]} intensity={0.3} />
+      <Environment preset="apartment" />
+
+      {/* Clicking empty floor or walls clears the selection */}
+      <group
+        onClick={(event) => {
+          if (event.delta <= CLICK_TOLERANCE) selectItem(null);
+        }}
+      >
+        <VirtualRoom layout={layout} />
+      </group>
+
+      {/* Each item loads on its own so one slow model doesn't hide the rest */}
+      {designItems.map((designItem) => (
+        <Suspense key={designItem.item.id} fallback={null}>
+          <PlacedItem
+            designItem={designItem}
+            room={room}
+            isSelected={designItem.item.id === selectedItemId}
+            isColliding={collidingIds.includes(designItem.item.id)}
+          />
+        </Suspense>
+      ))}
+
+      {/* Orbit around the room; dragging an item holds the camera still */}
+      <OrbitControls
+        enabled={!isTransforming}
+        enablePan={false}
+        target={[0, 0.8, 0]}
+        minDistance={1}
+        maxDistance={viewDistance * 2}
+        maxPolarAngle={Math.PI / 2 - 0.05}
+      />
+    </Canvas>
+  );
+}
+
+export default RoomCanvas;
@@ -0,0 +1,175 @@
+'use client';
+
+import { useEffect, useMemo } from 'react';
+import { useRoomDesignerStore } from '../../stores/RoomDesignerStore';
+import { useGalleryStore } from '../../stores/MockStore';
+import { usePriceFormatter } from '../../hooks/usePriceFormatter';
+import { isTextEntryTarget } from '../../hooks/useMenuNavigation';
+import { useRoomLayout } from '../../hooks/useRoomLayout';
+import { ROOM_DESIGNER_CONFIG } from '../../lib/constants';
+import { resolveDesignItems } from '../../lib/roomDesigner';
+import { RoomCanvas } from './RoomCanvas';
+import { ItemPalette } from './ItemPalette';
+import { ItemControls } from './ItemControls';
+import { RoomSelector } from './RoomSelector';
+import { DesignManager } from './DesignManager';
+
+/**
+ * Virtual Room Designer
+ *
+ * Full-screen editor for arranging catalog products in a room template
+ * before buying them:
+ * - Item palette: products go to the nearest free spot, on a wall for art
+ *   and mirrors or on the floor for furniture, rugs and lamps
+ * - Drag items to move them, turn and resize the selected one; items
+ *   never overlap or leave the room
+ * - Undo/redo, and designs saved on this device
+ *
+ * Keyboard: Delete removes the selected item, R / Shift+R turns it,
+ * Ctrl+Z / Ctrl+Shift+Z undo and redo, Escape deselects then closes.
+ */
+export function RoomDesigner() {
+  const { formatPrice } = usePriceFormatter();
+  const templateId = useRoomDesignerStore((state) => state.templateId);
+  const items = useRoomDesignerStore((state) => state.items);
+  const canUndo = useRoomDesignerStore((state) => state.past.length > 0);
+  const canRedo = useRoomDesignerStore((state) => state.future.length > 0);
+  const undo = useRoomDesignerStore((state) => state.undo);
+  const redo = useRoomDesignerStore((state) => state.redo);
+  const closeDesigner = useRoomDesignerStore((state) => state.closeDesigner);
+  const catalog = useGalleryStore((state) => state.products);
+  const layout = useRoomLayout(templateId);
+
+  useDesignerShortcuts();
+
+  const designItems = useMemo(() => resolveDesignItems(items, catalog), [items, catalog]);
+  const total = designItems.reduce((sum, { product }) => sum + product.price, 0);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black">
+      {/* 3D room */}
+      <div className="absolute inset-0">
+        <RoomCanvas />
+      </div>
+
+      <div className="absolute inset-0 pointer-events-none">
+        {/* Header: design name, save/load, close */}
+        <div className="absolute top-4 left-4 right-4 flex items-start gap-4">
+          <div className="glass-dark rounded-xl p-3 w-full max-w-md pointer-events-auto">
+            <h2 className="text-white font-semibold mb-2">Room Designer</h2>
+            <DesignManager />
+          </div>
+          <button
+            onClick={closeDesigner}
+            className="ml-auto glass-dark rounded-full p-3 hover:bg-white/20 transition-smooth pointer-events-auto"
+            aria-label="Close room designer"
+          >
+            <CloseIcon />
+          </button>
+        </div>
+
+        {/* Item palette */}
+        <div className="absolute left-4 top-48 bottom-24 w-60 glass-dark rounded-xl p-3 flex flex-col pointer-events-auto">
+          <ItemPalette />
+        </div>
+
+        {/* Selected item */}
+        <div className="absolute right-4 top-24 pointer-events-auto">
+          <ItemControls />
+        </div>
+
+        {/* Footer: room, total, history */}
+        <div className="absolute bottom-4 left-4 right-4 pointer-events-auto">
+          <div className="glass-dark rounded-xl p-3 flex flex-wrap items-center gap-3 text-sm text-white">
+            <RoomSelector />
+            <span className="text-white/50">
+              Room: {layout.name} │ Total:{' '}
+              <span className="text-green-400 font-semibold">{formatPrice(total)}</span> │ {designItems.length}
+              {designItems.length === 1 ? ' item' : ' items'} (max {ROOM_DESIGNER_CONFIG.maxItems})
+            </span>
+            <div className="ml-auto flex gap-2">
+              <button
+                onClick={undo}
+                disabled={!canUndo}
+                className="rounded-full px-3 py-1 bg-white/10 hover:bg-white/20 transition-smooth disabled:opacity-40"
+              >
+                Undo
+              </button>
+              <button
+                onClick={redo}
+                disabled={!canRedo}
+                className="rounded-full px-3 py-1 bg-white/10 hover:bg-white/20 transition-smooth disabled:opacity-40"
+              >
+                Redo
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Keyboard shortcuts while the designer is open
+ */
+function useDesignerShortcuts() {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isTextEntryTarget(event.target)) return;
+      const { selectedItemId, selectItem, removeItem, rotateItem, undo, redo, closeDesigner } =
+        useRoomDesignerStore.getState();
+      const isShortcut = event.ctrlKey || event.metaKey;
+
+      if (isShortcut && event.code === 'KeyZ') {
+        event.preventDefault();
+        if (event.shiftKey) {
+          redo();
+        } else {
+          undo();
+        }
+      } else if (isShortcut && event.code === 'KeyY') {
+        event.preventDefault();
+        redo();
+      } else if (event.code === 'Escape') {
+        if (selectedItemId) {
+          selectItem(null);
+        } else {
+          closeDesigner();
+        }
+      } else if (selectedItemId && (event.code === 'Delete' || event.code === 'Backspace')) {
+        event.preventDefault();
+        removeItem(selectedItemId);
+      } else if (selectedItemId && event.code === 'KeyR' && !isShortcut) {
+        const { rotationStep, snapRotationStep } = ROOM_DESIGNER_CONFIG;
+        rotateItem(selectedItemId, event.shiftKey ? snapRotationStep : rotationStep);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+}
+
+// Close Icon SVG
+function CloseIcon() {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      width="24"
+      height="24"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      className="text-white"
+    >
+      <line x1="18" y1="6" x2="6" y2="18" />
+      <line x1="6" y1="6" x2="18" y2="18" />
+    </svg>
+  );
+}
+
+export default RoomDesigner;
@@ -0,0 +1,73 @@
+'use client';
+
+import { useState } from 'react';
+import { useRoomDesignerStore } from '../../stores/RoomDesignerStore';
+import { useMeasurementFormatter } from '../../hooks/useMeasurementFormatter';
+import { useRoomLayout } from '../../hooks/useRoomLayout';
+import { VR_ROOM_TEMPLATES } from '../../lib/constants';
+import type { VRRoomTemplate } from '../../lib/types';
+import { CustomRoomEditor } from '../ui/CustomRoomEditor';
+
+const TEMPLATE_IDS = Object.keys(VR_ROOM_TEMPLATES) as VRRoomTemplate[];
+
+/**
+ * Room template picker. Switching rooms keeps the design: items slide back
+ * inside the walls, or move to free space if they'd overlap. The custom
+ * room can be edited in place; the design is re-fitted when the editor
+ * closes.
+ */
+export function RoomSelector() {
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const templateId = useRoomDesignerStore((state) => state.templateId);
+  const setTemplate = useRoomDesignerStore((state) => state.setTemplate);
+  const fitToRoom = useRoomDesignerStore((state) => state.fitToRoom);
+  const customLayout = useRoomLayout('custom');
+  const { formatLength } = useMeasurementFormatter();
+
+  const closeEditor = () => {
+    setIsEditorOpen(false);
+    fitToRoom();
+  };
+
+  return (
+    <div className="relative flex flex-wrap items-center gap-1.5">
+      <div className="flex flex-wrap gap-1.5" role="radiogroup" aria-label="Room">
+        {TEMPLATE_IDS.map((id) => {
+          const { name, dimensions } = id === 'custom' ? customLayout : VR_ROOM_TEMPLATES[id];
+          const isSelected = id === templateId;
+          return (
+            <button
+              key={id}
+              role="radio"
+              aria-checked={isSelected}
+              onClick={() => setTemplate(id)}
+              className={`rounded-full px-3 py-1 text-xs transition-smooth ${
+                isSelected ? 'bg-blue-500/50 text-white' : 'bg-white/10 text-white/70 hover:bg-white/20'
+              }`}
+              title={`${formatLength(dimensions.width)} × ${formatLength(dimensions.depth)}`}
+            >
+              {name}
+            </button>
+          );
+        })}
+      </div>
+      {templateId === 'custom' && (
+        <button
+          onClick={() => (isEditorOpen ? closeEditor() : setIsEditorOpen(true))}
+          aria-expanded={isEditorOpen}
+          className="rounded-full px-3 py-1 text-xs text-blue-300 hover:bg-white/10 transition-smooth"
+        >
+          Edit room
+        </button>
+      )}
+
+      {isEditorOpen && templateId === 'custom' && (
+        <div className="absolute bottom-full left-64 mb-3 h-[60vh] flex flex-col justify-end pointer-events-none">
+          <CustomRoomEditor onClose={closeEditor} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default RoomSelector;
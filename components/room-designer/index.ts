@@ -0,0 +1,7 @@
+export { RoomDesigner } from './RoomDesigner';
+export { RoomCanvas } from './RoomCanvas';
+export { PlacedItem } from './PlacedItem';
+export { ItemPalette } from './ItemPalette';
+export { ItemControls } from './ItemControls';
+export { RoomSelector } from './RoomSelector';
+export { DesignManager } from './DesignManager';
@@ -2,14 +2,32 @@
 
 import { useEffect, useCallback } from 'react';
 import { useModalStore, useCartStore } from '../../stores/MockStore';
-import { isArtProduct } from '../../lib/types';
+import { getProductPreviewImage } from '../../lib/productTypes';
+import { SHIPPING_COUNTRIES } from '../../lib/pricing';
+import { usePriceFormatter } from '../../hooks/usePriceFormatter';
+import { PriceSummary } from './PriceSummary';
+import { PromoCodeInput } from './PromoCodeInput';
 
 /**
  * Shopping Cart Panel - Slide-out cart drawer
  */
 export function CartPanel() {
   const { isCartOpen, closeCart, openCheckout } = useModalStore();
-  const { items, removeItem, updateQuantity, clearCart, getTotalPrice, getTotalItems } = useCartStore();
+  const {
+    items,
+    shippingCountry,
+    currency: cartCurrency,
+    exchangeRate,
+    removeItem,
+    updateQuantity,
+    clearCart,
+    setShippingCountry,
+    setCartCurrency,
+    getPriceBreakdown,
+    getTotalItems,
+    getMaxQuantity,
+  } = useCartStore();
+  const { currency: displayCurrency, formatPrice } = usePriceFormatter();
 
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
     if (e.key === 'Escape') {
@@ -24,17 +42,10 @@ export function CartPanel() {
     }
   }, [isCartOpen, handleKeyDown]);
 
-  const formatPrice = (price: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(price);
-  };
-
   if (!isCartOpen) return null;
 
   const totalItems = getTotalItems();
-  const totalPrice = getTotalPrice();
+  const breakdown = getPriceBreakdown();
 
   return (
     <div 
@@ -76,75 +87,117 @@ export function CartPanel() {
               <p className="text-sm">Add some products to get started</p>
             </div>
           ) : (
-            items.map((item) => (
-              <div 
-                key={item.product.id}
-                className="glass rounded-xl p-3 flex gap-3"
-              >
-                {/* Product Preview */}
-                <div className="w-20 h-20 rounded-lg bg-slate-800 flex-shrink-0 overflow-hidden">
-                  {isArtProduct(item.product) ? (
-                    <img 
-                      src={item.product.imageUri} 
-                      alt={item.product.name}
-                      className="w-full h-full object-cover"
-                    />
-                  ) : (
-                    <div className="w-full h-full flex items-center justify-center text-white/30">
-                      <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4" />
-                      </svg>
-                    </div>
-                  )}
-                </div>
+            items.map((item) => {
+              const previewImage = getProductPreviewImage(item.product);
+              const maxQuantity = getMaxQuantity(item.id);
+              const atStockLimit = item.quantity >= maxQuantity;
+              return (
+                <div 
+                  key={item.id}
+                  className="glass rounded-xl p-3 flex gap-3"
+                >
+                  {/* Product Preview */}
+                  <div className="w-20 h-20 rounded-lg bg-slate-800 flex-shrink-0 overflow-hidden">
+                    {previewImage ? (
+                      <img 
+                        src={previewImage} 
+                        alt={item.product.name}
+                        className="w-full h-full object-cover"
+                      />
+                    ) : (
+                      <div className="w-full h-full flex items-center justify-center text-white/30">
+                        <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4" />
+                        </svg>
+                      </div>
+                    )}
+                  </div>
 
-                {/* Product Info */}
-                <div className="flex-1 min-w-0">
-                  <h3 className="text-white font-medium truncate">{item.product.name}</h3>
-                  <p className="text-green-400 font-semibold">{formatPrice(item.product.price)}</p>
-                  
-                  {/* Quantity Controls */}
-                  <div className="flex items-center gap-2 mt-2">
-                    <button
-                      onClick={() => updateQuantity(item.product.id, item.quantity - 1)}
-                      className="w-7 h-7 rounded-full glass flex items-center justify-center text-white hover:bg-white/20 transition-smooth"
-                    >
-                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 12H4" />
-                      </svg>
-                    </button>
-                    <span className="text-white font-medium w-8 text-center">{item.quantity}</span>
-                    <button
-                      onClick={() => updateQuantity(item.product.id, item.quantity + 1)}
-                      className="w-7 h-7 rounded-full glass flex items-center justify-center text-white hover:bg-white/20 transition-smooth"
-                    >
-                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v12m6-6H6" />
-                      </svg>
-                    </button>
-                    <button
-                      onClick={() => removeItem(item.product.id)}
-                      className="ml-auto w-7 h-7 rounded-full glass flex items-center justify-center text-red-400 hover:bg-red-500/20 transition-smooth"
-                    >
-                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                      </svg>
-                    </button>
+                  {/* Product Info */}
+                  <div className="flex-1 min-w-0">
+                    <h3 className="text-white font-medium truncate">{item.product.name}</h3>
+                    {item.variant && (
+                      <p className="text-white/50 text-xs truncate">{item.variant.label}</p>
+                    )}
+                    <p className="text-green-400 font-semibold">{formatPrice(item.product.price, { currency: cartCurrency, exchangeRate })}</p>
+                    
+                    {/* Quantity Controls */}
+                    <div className="flex items-center gap-2 mt-2">
+                      <button
+                        onClick={() => updateQuantity(item.id, item.quantity - 1)}
+                        className="w-7 h-7 rounded-full glass flex items-center justify-center text-white hover:bg-white/20 transition-smooth"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 12H4" />
+                        </svg>
+                      </button>
+                      <span className="text-white font-medium w-8 text-center">{item.quantity}</span>
+                      <button
+                        onClick={() => updateQuantity(item.id, item.quantity + 1)}
+                        disabled={atStockLimit}
+                        aria-label={atStockLimit ? 'No more stock available' : 'Increase quantity'}
+                        className="w-7 h-7 rounded-full glass flex items-center justify-center text-white hover:bg-white/20 transition-smooth disabled:opacity-40 disabled:cursor-not-allowed"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v12m6-6H6" />
+                        </svg>
+                      </button>
+                      <button
+                        onClick={() => removeItem(item.id)}
+                        className="ml-auto w-7 h-7 rounded-full glass flex items-center justify-center text-red-400 hover:bg-red-500/20 transition-smooth"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                        </svg>
+                      </button>
+                    </div>
+                    {atStockLimit && Number.isFinite(maxQuantity) && (
+                      <p className="text-yellow-300/80 text-xs mt-1">
+                        {item.product.isUniqueOriginal ? 'Unique original — one of a kind' : `Only ${maxQuantity} available`}
+                      </p>
+                    )}
                   </div>
                 </div>
-              </div>
-            ))
+              );
+            })
           )}
         </div>
 
         {/* Footer */}
         {items.length > 0 && (
           <div className="p-4 border-t border-white/10 space-y-4">
+            {/* The cart keeps the currency it was built in until the shopper switches it */}
+            {cartCurrency !== displayCurrency && (
+              <div className="flex items-center justify-between gap-3 rounded-lg bg-yellow-500/10 border border-yellow-500/30 px-3 py-2 text-sm">
+                <span className="text-yellow-200">Your cart is priced in {cartCurrency}.</span>
+                <button
+                  onClick={() => setCartCurrency(displayCurrency)}
+                  className="text-yellow-100 font-semibold hover:text-white transition-smooth whitespace-nowrap"
+                >
+                  Switch to {displayCurrency}
+                </button>
+              </div>
+            )}
+
+            {/* Destination & Promo */}
+            <label className="flex items-center justify-between gap-3 text-sm">
+              <span className="text-white/70">Ship to</span>
+              <select
+                value={shippingCountry}
+                onChange={(e) => setShippingCountry(e.target.value)}
+                className="glass rounded-lg px-3 py-2 text-white bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+              >
+                {SHIPPING_COUNTRIES.map((country) => (
+                  <option key={country.code} value={country.code} className="bg-slate-900">
+                    {country.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <PromoCodeInput />
+
             {/* Summary */}
-            <div className="flex items-center justify-between text-white">
-              <span className="text-white/70">Subtotal ({totalItems} items)</span>
-              <span className="text-2xl font-bold text-green-400">{formatPrice(totalPrice)}</span>
-            </div>
+            <PriceSummary breakdown={breakdown} />
 
             {/* Actions */}
             <div className="flex gap-3">
@@ -3,6 +3,13 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useModalStore, useCartStore, useCheckoutStore } from '../../stores/MockStore';
 import type { CheckoutStep } from '../../stores/MockStore';
+import { useOrderStore, createOrder } from '../../stores/OrderStore';
+import { FAKE_GATEWAY_AUTH_CODE, FAKE_GATEWAY_TEST_CARDS, getPaymentGateway } from '../../lib/payments';
+import { SHIPPING_COUNTRIES, getCountryName, isSupportedCountry } from '../../lib/pricing';
+import type { PaymentCard, PaymentIntent, PaymentStep, PriceBreakdown, StockIssue } from '../../lib/types';
+import { usePriceFormatter } from '../../hooks/usePriceFormatter';
+import { PriceSummary } from './PriceSummary';
+import { PromoCodeInput } from './PromoCodeInput';
 
 // ============================================
 // Input Validation Utilities
@@ -41,6 +48,26 @@ function isValidName(name: string): boolean {
   return /^[a-zA-Z\s'-]{1,100}$/.test(name);
 }
 
+const PAYMENT_STEP_LABELS: Record<PaymentStep, string> = {
+  'create-intent': 'Could not start payment',
+  confirm: 'Payment failed',
+  authenticate: 'Verification failed',
+  refund: 'Refund failed',
+};
+
+// The fake gateway's success card, so demo checkouts go through as-is
+const TEST_CARD: PaymentCard = {
+  number: FAKE_GATEWAY_TEST_CARDS.success,
+  expiry: '12/28',
+  cvc: '123',
+};
+
+const EMPTY_CARD: PaymentCard = { number: '', expiry: '', cvc: '' };
+
+function getInitialCard(): PaymentCard {
+  return getPaymentGateway().id === 'fake' ? TEST_CARD : EMPTY_CARD;
+}
+
 interface FormErrors {
   firstName?: string;
   lastName?: string;
@@ -55,17 +82,30 @@ interface FormErrors {
  * Checkout Flow UI - Multi-step checkout process
  */
 export function CheckoutFlow() {
-  const { isCheckoutOpen, closeCheckout } = useModalStore();
-  const { items, getTotalPrice, getTotalItems, clearCart } = useCartStore();
+  const { isCheckoutOpen, closeCheckout, openOrders } = useModalStore();
+  const { recordOrder } = useOrderStore();
+  const {
+    items,
+    currency,
+    exchangeRate,
+    setShippingCountry,
+    getPriceBreakdown,
+    revalidateStock,
+    clearCart,
+  } = useCartStore();
+  const { formatPrice, formatMoney } = usePriceFormatter();
   const { 
     currentStep, 
     shippingInfo, 
     isProcessing,
     orderId,
+    paymentIntent,
+    paymentError,
     setStep, 
     setShippingInfo, 
-    setProcessing,
-    setOrderId,
+    submitPayment,
+    submitAuthentication,
+    clearPaymentError,
     resetCheckout 
   } = useCheckoutStore();
 
@@ -80,6 +120,12 @@ export function CheckoutFlow() {
   });
 
   const [formErrors, setFormErrors] = useState<FormErrors>({});
+  const [card, setCard] = useState<PaymentCard>(getInitialCard);
+  const [authCode, setAuthCode] = useState('');
+  const [completedPricing, setCompletedPricing] = useState<PriceBreakdown | null>(null);
+  const [stockIssues, setStockIssues] = useState<StockIssue[]>([]);
+  const [isCheckingStock, setIsCheckingStock] = useState(false);
+  const isFakeGateway = getPaymentGateway().id === 'fake';
 
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
     if (e.key === 'Escape' && !isProcessing) {
@@ -105,17 +151,43 @@ export function CheckoutFlow() {
         address: '',
         city: '',
         postalCode: '',
-        country: '',
+        // Start from the destination the cart was priced for
+        country: useCartStore.getState().shippingCountry,
       });
       setFormErrors({});
+      setCard(getInitialCard());
+      setAuthCode('');
+      setCompletedPricing(null);
+      setStockIssues([]);
     }
   }, [isCheckoutOpen, resetCheckout]);
 
-  const formatPrice = (price: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(price);
+  // Stock may have sold out since items were added; check again before taking payment
+  const checkStock = useCallback(async () => {
+    setIsCheckingStock(true);
+    const issues = await revalidateStock();
+    setIsCheckingStock(false);
+    setStockIssues(issues);
+    if (useCartStore.getState().items.length === 0) {
+      setStep('cart');
+    }
+    return issues;
+  }, [revalidateStock, setStep]);
+
+  useEffect(() => {
+    if (isCheckoutOpen && currentStep === 'payment') {
+      checkStock();
+    }
+  }, [isCheckoutOpen, currentStep, checkStock]);
+
+  const handleCountryChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const { value } = e.target;
+    setFormData(prev => ({ ...prev, country: value }));
+    // Re-price shipping and tax for the new destination
+    setShippingCountry(value);
+    if (formErrors.country) {
+      setFormErrors(prev => ({ ...prev, country: undefined }));
+    }
   };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -150,8 +222,8 @@ export function CheckoutFlow() {
     if (!isValidPostalCode(formData.postalCode)) {
       errors.postalCode = 'Please enter a valid postal code';
     }
-    if (!isValidName(formData.country)) {
-      errors.country = 'Please enter a valid country name';
+    if (!isSupportedCountry(formData.country)) {
+      errors.country = 'We do not ship to this country yet';
     }
 
     setFormErrors(errors);
@@ -166,19 +238,48 @@ export function CheckoutFlow() {
     }
   };
 
+  const handleCardChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setCard(prev => ({ ...prev, [name]: value.replace(/[^\d\s/-]/g, '').slice(0, 23) }));
+    if (paymentError) clearPaymentError();
+  };
+
+  // Persist the order before the cart is emptied; the order id is stable per
+  // checkout attempt, so recording it twice only updates the same entry
+  const completeOrder = (intent: PaymentIntent) => {
+    const { orderId: completedOrderId, shippingInfo: completedShipping } = useCheckoutStore.getState();
+    if (completedOrderId && completedShipping) {
+      recordOrder(createOrder({
+        orderId: completedOrderId,
+        items,
+        pricing: breakdown,
+        shippingInfo: completedShipping,
+        paymentIntent: intent,
+        gatewayId: getPaymentGateway().id,
+      }));
+    }
+    setCompletedPricing(breakdown);
+    clearCart();
+  };
+
   const handlePaymentSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    setProcessing(true);
-    
-    // Simulate payment processing
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    // Generate order ID
-    const newOrderId = `ORD-${Date.now().toString(36).toUpperCase()}`;
-    setOrderId(newOrderId);
-    setProcessing(false);
-    setStep('confirmation');
-    clearCart();
+    // Don't charge for lines that changed; the shopper reviews the new total first
+    const issues = await checkStock();
+    if (issues.length > 0) return;
+
+    const intent = await submitPayment(card, breakdown.total, breakdown.currency);
+    if (intent?.status === 'succeeded') {
+      completeOrder(intent);
+    }
+  };
+
+  const handleAuthenticationSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const intent = await submitAuthentication(authCode);
+    if (intent?.status === 'succeeded') {
+      completeOrder(intent);
+    }
   };
 
   const handleClose = () => {
@@ -188,8 +289,7 @@ export function CheckoutFlow() {
 
   if (!isCheckoutOpen) return null;
 
-  const totalItems = getTotalItems();
-  const totalPrice = getTotalPrice();
+  const breakdown = getPriceBreakdown();
 
   const steps: { key: CheckoutStep; label: string }[] = [
     { key: 'cart', label: 'Review' },
@@ -206,26 +306,30 @@ export function CheckoutFlow() {
         return (
           <div className="space-y-4">
             <h3 className="text-lg font-semibold text-white">Order Summary</h3>
+            {stockIssues.length > 0 && <StockIssueNotice issues={stockIssues} />}
             <div className="space-y-3 max-h-64 overflow-y-auto scrollbar-hide">
               {items.map((item) => (
-                <div key={item.product.id} className="flex justify-between items-center glass rounded-lg p-3">
+                <div key={item.id} className="flex justify-between items-center glass rounded-lg p-3">
                   <div>
                     <p className="text-white font-medium">{item.product.name}</p>
-                    <p className="text-white/50 text-sm">Qty: {item.quantity}</p>
+                    <p className="text-white/50 text-sm">
+                      {item.variant && `${item.variant.label} • `}Qty: {item.quantity}
+                    </p>
                   </div>
                   <span className="text-green-400 font-semibold">
-                    {formatPrice(item.product.price * item.quantity)}
+                    {formatPrice(item.product.price * item.quantity, { currency, exchangeRate })}
                   </span>
                 </div>
               ))}
             </div>
-            <div className="border-t border-white/10 pt-4 flex justify-between items-center">
-              <span className="text-white/70">Total ({totalItems} items)</span>
-              <span className="text-2xl font-bold text-green-400">{formatPrice(totalPrice)}</span>
+            <PromoCodeInput />
+            <div className="border-t border-white/10 pt-4">
+              <PriceSummary breakdown={breakdown} />
             </div>
             <button
               onClick={() => setStep('shipping')}
-              className="w-full py-3 rounded-xl font-semibold bg-blue-600/50 hover:bg-blue-500/60 text-white transition-smooth"
+              disabled={items.length === 0}
+              className="w-full py-3 rounded-xl font-semibold bg-blue-600/50 hover:bg-blue-500/60 text-white transition-smooth disabled:opacity-50"
             >
               Continue to Shipping
             </button>
@@ -325,19 +429,25 @@ export function CheckoutFlow() {
               </div>
             </div>
             <div>
-              <input
-                type="text"
+              <select
                 name="country"
-                placeholder="Country"
                 value={formData.country}
-                onChange={handleInputChange}
+                onChange={handleCountryChange}
                 required
-                maxLength={100}
-                autoComplete="country-name"
-                className={`w-full glass rounded-lg px-4 py-3 text-white placeholder:text-white/40 focus:outline-none focus:ring-2 ${formErrors.country ? 'ring-2 ring-red-500/50' : 'focus:ring-blue-500/50'}`}
-              />
+                autoComplete="country"
+                className={`w-full glass rounded-lg px-4 py-3 text-white bg-transparent focus:outline-none focus:ring-2 ${formErrors.country ? 'ring-2 ring-red-500/50' : 'focus:ring-blue-500/50'}`}
+              >
+                {SHIPPING_COUNTRIES.map((country) => (
+                  <option key={country.code} value={country.code} className="bg-slate-900">
+                    {country.name}
+                  </option>
+                ))}
+              </select>
               {formErrors.country && <p className="text-red-400 text-xs mt-1">{formErrors.country}</p>}
             </div>
+            <div className="border-t border-white/10 pt-4">
+              <PriceSummary breakdown={breakdown} />
+            </div>
             <div className="flex gap-3">
               <button
                 type="button"
@@ -357,6 +467,53 @@ export function CheckoutFlow() {
         );
 
       case 'payment':
+        // The issuer asked for an extra verification step (3-D Secure style)
+        if (paymentIntent?.status === 'requires_action') {
+          return (
+            <form onSubmit={handleAuthenticationSubmit} className="space-y-4">
+              <h3 className="text-lg font-semibold text-white">Verify Payment</h3>
+              <div className="glass rounded-lg p-4 space-y-3">
+                <p className="text-white/70 text-sm">
+                  Your bank needs to confirm this payment of {formatMoney(paymentIntent.amount, paymentIntent.currency)} with
+                  the card ending in {paymentIntent.cardLast4}. Enter the verification code it sent you.
+                </p>
+                {isFakeGateway && (
+                  <p className="text-white/50 text-xs">Demo code: {FAKE_GATEWAY_AUTH_CODE}</p>
+                )}
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  placeholder="Verification code"
+                  value={authCode}
+                  onChange={(e) => {
+                    setAuthCode(e.target.value.replace(/\D/g, '').slice(0, 8));
+                    if (paymentError) clearPaymentError();
+                  }}
+                  className="w-full glass rounded-lg px-4 py-3 text-white placeholder:text-white/40 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                />
+              </div>
+
+              {paymentError && <PaymentErrorNotice error={paymentError} />}
+
+              <button
+                type="submit"
+                disabled={isProcessing || authCode.length === 0}
+                className="w-full py-3 rounded-xl font-semibold bg-green-600/50 hover:bg-green-500/60 text-white transition-smooth disabled:opacity-50 flex items-center justify-center gap-2"
+              >
+                {isProcessing ? (
+                  <>
+                    <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                    Verifying...
+                  </>
+                ) : (
+                  'Verify & Pay'
+                )}
+              </button>
+            </form>
+          );
+        }
+
         return (
           <form onSubmit={handlePaymentSubmit} className="space-y-4">
             <h3 className="text-lg font-semibold text-white">Payment</h3>
@@ -368,39 +525,59 @@ export function CheckoutFlow() {
                 <p className="text-white">{shippingInfo.firstName} {shippingInfo.lastName}</p>
                 <p className="text-white/70">{shippingInfo.address}</p>
                 <p className="text-white/70">{shippingInfo.city}, {shippingInfo.postalCode}</p>
-                <p className="text-white/70">{shippingInfo.country}</p>
+                <p className="text-white/70">{getCountryName(shippingInfo.country)}</p>
               </div>
             )}
 
-            {/* Mock Payment Form */}
+            {/* Card Details */}
             <div className="glass rounded-lg p-4 space-y-3">
-              <p className="text-white/70 text-sm">This is a demo checkout. No real payment will be processed.</p>
+              {isFakeGateway && (
+                <p className="text-white/70 text-sm">
+                  This is a demo checkout. No real payment will be processed. Try{' '}
+                  <span className="font-mono">{FAKE_GATEWAY_TEST_CARDS.requiresAuthentication}</span> for
+                  verification or <span className="font-mono">{FAKE_GATEWAY_TEST_CARDS.declined}</span> for a decline.
+                </p>
+              )}
               <input
                 type="text"
-                placeholder="Card Number (e.g., 4242 4242 4242 4242)"
+                name="number"
+                inputMode="numeric"
+                autoComplete="cc-number"
+                placeholder="Card Number"
+                value={card.number}
+                onChange={handleCardChange}
                 className="w-full glass rounded-lg px-4 py-3 text-white placeholder:text-white/40 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
-                defaultValue="4242 4242 4242 4242"
               />
               <div className="grid grid-cols-2 gap-3">
                 <input
                   type="text"
+                  name="expiry"
+                  inputMode="numeric"
+                  autoComplete="cc-exp"
                   placeholder="MM/YY"
+                  value={card.expiry}
+                  onChange={handleCardChange}
                   className="glass rounded-lg px-4 py-3 text-white placeholder:text-white/40 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
-                  defaultValue="12/28"
                 />
                 <input
                   type="text"
+                  name="cvc"
+                  inputMode="numeric"
+                  autoComplete="cc-csc"
                   placeholder="CVC"
+                  value={card.cvc}
+                  onChange={handleCardChange}
                   className="glass rounded-lg px-4 py-3 text-white placeholder:text-white/40 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
-                  defaultValue="123"
                 />
               </div>
             </div>
 
+            {paymentError && <PaymentErrorNotice error={paymentError} />}
+            {stockIssues.length > 0 && <StockIssueNotice issues={stockIssues} />}
+
             {/* Order Total */}
-            <div className="border-t border-white/10 pt-4 flex justify-between items-center">
-              <span className="text-white/70">Order Total</span>
-              <span className="text-2xl font-bold text-green-400">{formatPrice(totalPrice)}</span>
+            <div className="border-t border-white/10 pt-4">
+              <PriceSummary breakdown={breakdown} totalLabel="Order Total" />
             </div>
 
             <div className="flex gap-3">
@@ -414,16 +591,16 @@ export function CheckoutFlow() {
               </button>
               <button
                 type="submit"
-                disabled={isProcessing}
+                disabled={isProcessing || isCheckingStock}
                 className="flex-1 py-3 rounded-xl font-semibold bg-green-600/50 hover:bg-green-500/60 text-white transition-smooth disabled:opacity-50 flex items-center justify-center gap-2"
               >
-                {isProcessing ? (
+                {isProcessing || isCheckingStock ? (
                   <>
                     <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-                    Processing...
+                    {isCheckingStock ? 'Checking stock...' : 'Processing...'}
                   </>
                 ) : (
-                  `Pay ${formatPrice(totalPrice)}`
+                  `Pay ${formatMoney(breakdown.total, breakdown.currency)}`
                 )}
               </button>
             </div>
@@ -448,15 +625,31 @@ export function CheckoutFlow() {
                 <p className="text-white font-mono text-lg">{orderId}</p>
               </div>
             )}
+            {completedPricing && (
+              <div className="glass rounded-lg p-4 text-left">
+                <PriceSummary breakdown={completedPricing} totalLabel="Paid" />
+              </div>
+            )}
             <p className="text-white/50 text-sm">
               A confirmation email has been sent to {shippingInfo?.email}
             </p>
-            <button
-              onClick={handleClose}
-              className="w-full py-3 rounded-xl font-semibold bg-blue-600/50 hover:bg-blue-500/60 text-white transition-smooth"
-            >
-              Continue Shopping
-            </button>
+            <div className="flex gap-3">
+              <button
+                onClick={() => {
+                  handleClose();
+                  openOrders();
+                }}
+                className="flex-1 py-3 rounded-xl font-semibold glass hover:bg-white/20 text-white transition-smooth"
+              >
+                View My Orders
+              </button>
+              <button
+                onClick={handleClose}
+                className="flex-1 py-3 rounded-xl font-semibold bg-blue-600/50 hover:bg-blue-500/60 text-white transition-smooth"
+              >
+                Continue Shopping
+              </button>
+            </div>
           </div>
         );
     }
@@ -532,4 +725,39 @@ export function CheckoutFlow() {
   );
 }
 
+/**
+ * Payment failure message labelled with the step that failed
+ */
+function PaymentErrorNotice({ error }: { error: { step: PaymentStep; message: string } }) {
+  return (
+    <div className="rounded-lg bg-red-500/15 border border-red-500/30 p-3 text-sm" role="alert">
+      <p className="text-red-300 font-medium">{PAYMENT_STEP_LABELS[error.step]}</p>
+      <p className="text-red-200/80">{error.message}</p>
+    </div>
+  );
+}
+
+/**
+ * Lines that were reduced or removed because stock ran out
+ */
+function StockIssueNotice({ issues }: { issues: StockIssue[] }) {
+  return (
+    <div className="rounded-lg bg-yellow-500/10 border border-yellow-500/30 p-3 text-sm" role="alert">
+      <p className="text-yellow-200 font-medium">Your cart was updated</p>
+      <ul className="text-yellow-100/80 space-y-0.5 mt-1">
+        {issues.map((issue) => {
+          const name = issue.variantLabel ? `${issue.productName} (${issue.variantLabel})` : issue.productName;
+          return (
+            <li key={issue.lineId}>
+              {issue.available === 0
+                ? `${name} is no longer available and was removed.`
+                : `Only ${issue.available} of ${name} left; quantity reduced from ${issue.requested}.`}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
 export default CheckoutFlow;
@@ -0,0 +1,25 @@
+'use client';
+
+import { useModalStore, useWishlistStore } from '../../stores/MockStore';
+
+/**
+ * Collections Button - Opens the wishlist collections panel
+ */
+export function CollectionsButton() {
+  const { openWishlist } = useModalStore();
+  const collectionCount = useWishlistStore((state) => state.collections.length);
+
+  return (
+    <button
+      onClick={openWishlist}
+      className="relative glass rounded-full p-3 hover:bg-white/20 transition-smooth"
+      aria-label={`My wishlists (${collectionCount})`}
+    >
+      <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+      </svg>
+    </button>
+  );
+}
+
+export default CollectionsButton;
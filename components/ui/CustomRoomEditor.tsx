@@ -0,0 +1,505 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useCustomRoomStore } from '../../stores/CustomRoomStore';
+import type { OpeningChanges } from '../../stores/CustomRoomStore';
+import { useXRPreviewStore } from '../../stores/XRPreviewStore';
+import { useMeasurementFormatter } from '../../hooks/useMeasurementFormatter';
+import { CUSTOM_ROOM_CONFIG, ROOM_FLOOR_MATERIALS, ROOM_WALL_MATERIALS } from '../../lib/constants';
+import { getWallLength } from '../../lib/customRoom';
+import type { FloorMaterialId, OpeningKind, RoomMaterial, RoomOpening, WallMaterialId } from '../../lib/customRoom';
+import { fromFeetAndInches, toFeetAndInches } from '../../lib/measurements';
+import { ROOM_WALLS } from '../../lib/roomDesigner';
+import type { RoomDimensions, RoomWall } from '../../lib/roomDesigner';
+import type { MeasurementSystem } from '../../lib/types';
+
+const NOTICE_MS = 2500;
+
+const SYSTEM_LABELS: Record<MeasurementSystem, string> = {
+  metric: 'm',
+  imperial: 'ft',
+};
+
+const WALL_LABELS: Record<RoomWall, string> = {
+  back: 'Back wall',
+  front: 'Front wall',
+  left: 'Left wall',
+  right: 'Right wall',
+};
+
+const DIMENSION_LABELS: Record<keyof RoomDimensions, string> = {
+  width: 'Width',
+  depth: 'Depth',
+  height: 'Height',
+};
+
+interface CustomRoomEditorProps {
+  onClose: () => void;
+}
+
+/**
+ * Editor for the rooms behind the 'custom' VR room template: size in
+ * metric or imperial, doors and windows on each wall, and floor and wall
+ * finishes. Rooms are kept on this device (`localStorage` key
+ * `virtual-studio-custom-rooms`) and edits show up live in the room behind
+ * the panel.
+ */
+export function CustomRoomEditor({ onClose }: CustomRoomEditorProps) {
+  const [notice, setNotice] = useState<string | null>(null);
+  const [newOpeningWall, setNewOpeningWall] = useState<RoomWall>('back');
+  const { system } = useMeasurementFormatter();
+  const setMeasurementSystem = useXRPreviewStore((state) => state.setMeasurementSystem);
+
+  const rooms = useCustomRoomStore((state) => state.rooms);
+  const room = useCustomRoomStore((state) => state.rooms.find((candidate) => candidate.id === state.activeRoomId));
+  const createRoom = useCustomRoomStore((state) => state.createRoom);
+  const deleteRoom = useCustomRoomStore((state) => state.deleteRoom);
+  const selectRoom = useCustomRoomStore((state) => state.selectRoom);
+  const renameRoom = useCustomRoomStore((state) => state.renameRoom);
+  const setDimensions = useCustomRoomStore((state) => state.setDimensions);
+  const addOpening = useCustomRoomStore((state) => state.addOpening);
+  const setFloorMaterial = useCustomRoomStore((state) => state.setFloorMaterial);
+  const setWallMaterial = useCustomRoomStore((state) => state.setWallMaterial);
+
+  const [name, setName] = useState(room?.name ?? '');
+
+  // Follow the store when another room is picked
+  useEffect(() => {
+    setName(room?.name ?? '');
+  }, [room?.id, room?.name]);
+
+  useEffect(() => {
+    if (!notice) return;
+    const timer = setTimeout(() => setNotice(null), NOTICE_MS);
+    return () => clearTimeout(timer);
+  }, [notice]);
+
+  const { minDimensions, maxDimensions, maxRooms, maxOpeningsPerRoom } = CUSTOM_ROOM_CONFIG;
+  const canCreate = rooms.length < maxRooms;
+
+  const handleResize = (key: keyof RoomDimensions, meters: number) => {
+    const removed = setDimensions({ [key]: meters });
+    if (removed > 0) {
+      setNotice(
+        removed === 1 ? 'An opening no longer fit and was removed' : `${removed} openings no longer fit and were removed`
+      );
+    }
+  };
+
+  const handleAddOpening = (kind: OpeningKind) => {
+    if (!addOpening(kind, newOpeningWall)) {
+      setNotice(`No free space for a ${kind} on the ${WALL_LABELS[newOpeningWall].toLowerCase()}`);
+    }
+  };
+
+  return (
+    <div className="glass-strong rounded-xl p-4 w-80 max-h-full overflow-y-auto text-xs text-white pointer-events-auto">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold">Custom Room</h3>
+        <button
+          onClick={onClose}
+          className="rounded-full px-2 py-1 text-white/60 hover:text-white hover:bg-white/10 transition-smooth"
+          aria-label="Close custom room editor"
+        >
+          ✕
+        </button>
+      </div>
+
+      {/* Rooms */}
+      {room ? (
+        <div className="space-y-2 mb-4">
+          <div className="flex items-center gap-2">
+            <select
+              value={room.id}
+              onChange={(event) => selectRoom(event.target.value)}
+              aria-label="Custom room"
+              className="flex-1 min-w-0 rounded-lg bg-white/10 px-2 py-1.5 text-white outline-none"
+            >
+              {rooms.map((candidate) => (
+                <option key={candidate.id} value={candidate.id} className="text-black">
+                  {candidate.name}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => createRoom()}
+              disabled={!canCreate}
+              className="rounded-full px-3 py-1.5 bg-white/10 hover:bg-white/20 transition-smooth disabled:opacity-40"
+            >
+              New
+            </button>
+            <button
+              onClick={() => deleteRoom(room.id)}
+              className="rounded-full px-3 py-1.5 text-white/60 hover:text-white hover:bg-white/10 transition-smooth"
+              aria-label={`Delete ${room.name}`}
+            >
+              Delete
+            </button>
+          </div>
+          <input
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            onBlur={() => renameRoom(name)}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') renameRoom(name);
+            }}
+            maxLength={40}
+            aria-label="Room name"
+            className="w-full rounded-lg bg-white/10 px-2 py-1.5 text-sm text-white placeholder-white/40 outline-none focus:ring-1 focus:ring-white/40"
+          />
+        </div>
+      ) : (
+        <div className="mb-2">
+          <p className="text-white/60 mb-2">
+            Measure out your own room to see products in it at their real size.
+          </p>
+          <button
+            onClick={() => createRoom()}
+            className="rounded-full px-3 py-1.5 bg-blue-600/60 hover:bg-blue-500/70 transition-smooth"
+          >
+            Create room
+          </button>
+        </div>
+      )}
+
+      {room && (
+        <>
+          {/* Size */}
+          <section className="mb-4">
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-white/70 uppercase tracking-wider">Size</h4>
+              <div className="flex rounded-full bg-white/10 p-0.5" role="group" aria-label="Measurement units">
+                {(Object.keys(SYSTEM_LABELS) as MeasurementSystem[]).map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => setMeasurementSystem(option)}
+                    aria-pressed={system === option}
+                    className={`rounded-full px-2 py-0.5 transition-smooth ${
+                      system === option ? 'bg-white/30 text-white' : 'text-white/60 hover:text-white'
+                    }`}
+                  >
+                    {SYSTEM_LABELS[option]}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-1.5">
+              {(Object.keys(DIMENSION_LABELS) as (keyof RoomDimensions)[]).map((key) => (
+                <LengthInput
+                  key={key}
+                  label={DIMENSION_LABELS[key]}
+                  value={room.dimensions[key]}
+                  min={minDimensions[key]}
+                  max={maxDimensions[key]}
+                  system={system}
+                  onChange={(meters) => handleResize(key, meters)}
+                />
+              ))}
+            </div>
+          </section>
+
+          {/* Doors and windows */}
+          <section className="mb-4">
+            <h4 className="text-white/70 uppercase tracking-wider mb-2">Doors &amp; windows</h4>
+            <div className="space-y-2 mb-2">
+              {room.openings.length === 0 && <p className="text-white/50">No doors or windows yet</p>}
+              {room.openings.map((opening) => (
+                <OpeningEditor
+                  key={opening.id}
+                  opening={opening}
+                  dimensions={room.dimensions}
+                  system={system}
+                  onRejected={() => setNotice('That would overlap another door or window')}
+                />
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <select
+                value={newOpeningWall}
+                onChange={(event) => setNewOpeningWall(event.target.value as RoomWall)}
+                aria-label="Wall for the new door or window"
+                className="flex-1 min-w-0 rounded-lg bg-white/10 px-2 py-1 text-white outline-none"
+              >
+                {ROOM_WALLS.map((wall) => (
+                  <option key={wall} value={wall} className="text-black">
+                    {WALL_LABELS[wall]}
+                  </option>
+                ))}
+              </select>
+              {(['door', 'window'] as OpeningKind[]).map((kind) => (
+                <button
+                  key={kind}
+                  onClick={() => handleAddOpening(kind)}
+                  disabled={room.openings.length >= maxOpeningsPerRoom}
+                  className="rounded-full px-3 py-1 bg-white/10 hover:bg-white/20 transition-smooth disabled:opacity-40"
+                >
+                  + {kind === 'door' ? 'Door' : 'Window'}
+                </button>
+              ))}
+            </div>
+          </section>
+
+          {/* Finishes */}
+          <section className="space-y-3">
+            <MaterialPicker
+              label="Floor"
+              materials={Object.values(ROOM_FLOOR_MATERIALS)}
+              selectedId={room.floorMaterial}
+              onSelect={(id) => setFloorMaterial(id as FloorMaterialId)}
+            />
+            <MaterialPicker
+              label="Walls"
+              materials={Object.values(ROOM_WALL_MATERIALS)}
+              selectedId={room.wallMaterial}
+              onSelect={(id) => setWallMaterial(id as WallMaterialId)}
+            />
+          </section>
+        </>
+      )}
+
+      {notice && (
+        <p className="mt-3 text-yellow-300" role="status">
+          {notice}
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Wall, position and size of one door or window. Position is measured from
+ * the wall's left corner to the opening's left edge, facing the wall.
+ */
+function OpeningEditor({
+  opening,
+  dimensions,
+  system,
+  onRejected,
+}: {
+  opening: RoomOpening;
+  dimensions: RoomDimensions;
+  system: MeasurementSystem;
+  onRejected: () => void;
+}) {
+  const updateOpening = useCustomRoomStore((state) => state.updateOpening);
+  const removeOpening = useCustomRoomStore((state) => state.removeOpening);
+
+  const { kind, wall, offset, width, height, sillHeight } = opening;
+  const { minOpeningSize, openingMargin } = CUSTOM_ROOM_CONFIG;
+  const wallLength = getWallLength(wall, dimensions);
+  const fromLeft = offset + wallLength / 2 - width / 2;
+
+  const update = (changes: OpeningChanges) => {
+    if (!updateOpening(opening.id, changes)) onRejected();
+  };
+
+  return (
+    <div className="rounded-lg bg-white/5 p-2 space-y-1.5">
+      <div className="flex items-center gap-2">
+        <span className="font-medium w-14">{kind === 'door' ? 'Door' : 'Window'}</span>
+        <select
+          value={wall}
+          onChange={(event) => update({ wall: event.target.value as RoomWall })}
+          aria-label={`${kind === 'door' ? 'Door' : 'Window'} wall`}
+          className="flex-1 min-w-0 rounded-lg bg-white/10 px-2 py-1 text-white outline-none"
+        >
+          {ROOM_WALLS.map((option) => (
+            <option key={option} value={option} className="text-black">
+              {WALL_LABELS[option]}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => removeOpening(opening.id)}
+          className="rounded-full px-2 py-1 text-white/60 hover:text-white hover:bg-white/10 transition-smooth"
+        >
+          Remove
+        </button>
+      </div>
+      <LengthInput
+        label="From left"
+        value={fromLeft}
+        min={openingMargin}
+        max={wallLength - openingMargin - width}
+        system={system}
+        onChange={(meters) => update({ offset: meters - wallLength / 2 + width / 2 })}
+      />
+      <LengthInput
+        label="Width"
+        value={width}
+        min={minOpeningSize}
+        max={wallLength - openingMargin * 2}
+        system={system}
+        onChange={(meters) => update({ width: meters })}
+      />
+      <LengthInput
+        label="Height"
+        value={height}
+        min={minOpeningSize}
+        max={dimensions.height - openingMargin - sillHeight}
+        system={system}
+        onChange={(meters) => update({ height: meters })}
+      />
+      {kind === 'window' && (
+        <LengthInput
+          label="Sill"
+          value={sillHeight}
+          min={openingMargin}
+          max={dimensions.height - openingMargin - minOpeningSize}
+          system={system}
+          onChange={(meters) => update({ sillHeight: meters })}
+        />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Text shown in a length field for a value in meters
+ */
+function toDraft(meters: number): { meters: string; feet: string; inches: string } {
+  const { feet, inches } = toFeetAndInches(meters);
+  return { meters: meters.toFixed(2), feet: String(feet), inches: String(inches) };
+}
+
+/**
+ * Length field in meters, or feet and inches. Edits apply on Enter or when
+ * the field loses focus; values outside [min, max] are clamped by the store.
+ */
+function LengthInput({
+  label,
+  value,
+  min,
+  max,
+  system,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  system: MeasurementSystem;
+  onChange: (meters: number) => void;
+}) {
+  const [draft, setDraft] = useState(() => toDraft(value));
+
+  // Show the stored value again after every edit, clamped or not
+  useEffect(() => {
+    setDraft(toDraft(value));
+  }, [value, system]);
+
+  const commit = () => {
+    // Compare the text, not the length: the rounded draft of an untouched
+    // field would otherwise overwrite the stored value on blur
+    const shown = toDraft(value);
+    const edited =
+      system === 'metric'
+        ? draft.meters !== shown.meters
+        : draft.feet !== shown.feet || draft.inches !== shown.inches;
+    const parsed =
+      system === 'metric'
+        ? parseFloat(draft.meters)
+        : fromFeetAndInches(parseFloat(draft.feet) || 0, parseFloat(draft.inches) || 0);
+    if (edited && Number.isFinite(parsed)) {
+      onChange(parsed);
+    } else {
+      // Nothing to apply; put the stored value back
+      setDraft(toDraft(value));
+    }
+  };
+
+  const inputProps = {
+    type: 'number',
+    onBlur: commit,
+    onKeyDown: (event: React.KeyboardEvent<HTMLInputElement>) => {
+      if (event.key === 'Enter') commit();
+    },
+    className: 'w-14 rounded-md bg-white/10 px-1.5 py-1 text-right text-white outline-none focus:ring-1 focus:ring-white/40',
+  };
+
+  return (
+    <label className="flex items-center gap-2">
+      <span className="text-white/70 flex-1">{label}</span>
+      {system === 'metric' ? (
+        <>
+          <input
+            {...inputProps}
+            value={draft.meters}
+            min={min.toFixed(2)}
+            max={max.toFixed(2)}
+            step={0.01}
+            onChange={(event) => setDraft({ ...draft, meters: event.target.value })}
+            aria-label={`${label} in meters`}
+          />
+          <span className="w-4 text-white/50">m</span>
+        </>
+      ) : (
+        <>
+          <input
+            {...inputProps}
+            value={draft.feet}
+            min={0}
+            step={1}
+            onChange={(event) => setDraft({ ...draft, feet: event.target.value })}
+            aria-label={`${label} feet`}
+          />
+          <span className="text-white/50">ft</span>
+          <input
+            {...inputProps}
+            value={draft.inches}
+            min={0}
+            max={11}
+            step={1}
+            onChange={(event) => setDraft({ ...draft, inches: event.target.value })}
+            aria-label={`${label} inches`}
+          />
+          <span className="w-4 text-white/50">in</span>
+        </>
+      )}
+    </label>
+  );
+}
+
+/**
+ * Swatches for one room surface
+ */
+function MaterialPicker({
+  label,
+  materials,
+  selectedId,
+  onSelect,
+}: {
+  label: string;
+  materials: RoomMaterial[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+}) {
+  const selected = materials.find((material) => material.id === selectedId);
+
+  return (
+    <div>
+      <h4 className="text-white/70 uppercase tracking-wider mb-1.5">
+        {label}
+        {selected && <span className="normal-case tracking-normal text-white/50"> · {selected.name}</span>}
+      </h4>
+      <div className="flex flex-wrap gap-2" role="radiogroup" aria-label={`${label} finish`}>
+        {materials.map((material) => (
+          <button
+            key={material.id}
+            role="radio"
+            aria-checked={material.id === selectedId}
+            aria-label={material.name}
+            title={material.name}
+            onClick={() => onSelect(material.id)}
+            className={`w-7 h-7 rounded-full border-2 transition-smooth ${
+              material.id === selectedId ? 'border-white scale-110' : 'border-white/20 hover:border-white/60'
+            }`}
+            style={{ backgroundColor: material.color }}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default CustomRoomEditor;
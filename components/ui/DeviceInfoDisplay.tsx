@@ -1,8 +1,11 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { useDeviceCapabilities } from '../../hooks/useDeviceCapabilities';
-import { KNOWN_DEVICE_PROFILES } from '../../lib/constants';
+import { useDeviceHandoff } from '../../hooks/useDeviceHandoff';
+import type { UseDeviceHandoffReturn } from '../../hooks/useDeviceHandoff';
+import { HANDOFF_CONFIG, KNOWN_DEVICE_PROFILES } from '../../lib/constants';
+import { formatHandoffCode, getHandoffUrl } from '../../lib/handoff';
 
 // Maximum number of features to show in collapsed view
 const MAX_COLLAPSED_FEATURES = 2;
@@ -11,6 +14,7 @@ const MAX_COLLAPSED_FEATURES = 2;
  * DeviceInfoDisplay component
  * Shows detected device capabilities and features.
  * Useful for debugging and for showing users what features are available.
+ * Also hosts the handoff that continues the session on another device.
  */
 export function DeviceInfoDisplay() {
   const [isExpanded, setIsExpanded] = useState(false);
@@ -25,6 +29,15 @@ export function DeviceInfoDisplay() {
     getDeviceDescription,
     requestCameraPermission,
   } = useDeviceCapabilities();
+  const handoff = useDeviceHandoff();
+
+  // A handoff picked up from a link reports back here, so make it visible
+  const { status: handoffStatus } = handoff;
+  useEffect(() => {
+    if (handoffStatus === 'received' || handoffStatus === 'error') {
+      setIsExpanded(true);
+    }
+  }, [handoffStatus]);
 
   const recommendations = getRecommendations();
   const deviceDescription = getDeviceDescription();
@@ -156,7 +169,88 @@ export function DeviceInfoDisplay() {
               )}
             </div>
           )}
+
+          {/* Handoff */}
+          {handoff.isAvailable && <HandoffSection handoff={handoff} />}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Send the session to another device, or pick one up with its pairing code
+function HandoffSection({ handoff }: { handoff: UseDeviceHandoffReturn }) {
+  const { status, ticket, summary, error, canReceive, send, receive, reset } = handoff;
+  const [codeInput, setCodeInput] = useState('');
+  const isBusy = status === 'sending' || status === 'receiving';
+
+  const handleReceive = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await receive(codeInput)) {
+      setCodeInput('');
+    }
+  };
+
+  return (
+    <div>
+      <div className="text-xs text-white/40 uppercase tracking-wider mb-1">Continue on Another Device</div>
+
+      {ticket ? (
+        <div className="space-y-1">
+          <div className="text-2xl font-mono font-semibold tracking-widest text-white">
+            {formatHandoffCode(ticket.code)}
+          </div>
+          <div className="text-xs text-white/50">
+            Enter this code on your other device, or open{' '}
+            <span className="text-white/70 break-all">{getHandoffUrl(ticket.code)}</span>.
+            Valid for {Math.round(HANDOFF_CONFIG.ttl / 60000)} minutes.
+          </div>
+          <button
+            onClick={reset}
+            className="text-xs text-blue-400 hover:text-blue-300 transition-smooth"
+          >
+            Done
+          </button>
         </div>
+      ) : (
+        <button
+          onClick={send}
+          disabled={isBusy}
+          className="text-xs text-blue-400 hover:text-blue-300 disabled:text-white/30 transition-smooth"
+        >
+          {status === 'sending' ? 'Creating code...' : 'Send cart, wishlist & product'}
+        </button>
+      )}
+
+      <form onSubmit={handleReceive} className="mt-2 flex gap-2">
+        <input
+          value={codeInput}
+          onChange={(e) => setCodeInput(e.target.value)}
+          placeholder="Code from other device"
+          aria-label="Pairing code from another device"
+          autoCapitalize="characters"
+          autoComplete="off"
+          spellCheck={false}
+          className="flex-1 min-w-0 rounded bg-white/10 px-2 py-1 text-xs text-white placeholder:text-white/30 focus:outline-none focus:ring-1 focus:ring-blue-400"
+        />
+        <button
+          type="submit"
+          disabled={isBusy || !canReceive || !codeInput.trim()}
+          className="rounded bg-white/10 px-2 py-1 text-xs text-white hover:bg-white/20 disabled:text-white/30 transition-smooth"
+        >
+          {status === 'receiving' ? 'Receiving...' : 'Receive'}
+        </button>
+      </form>
+
+      {status === 'received' && summary && (
+        <div className="mt-2 text-xs text-green-400">
+          Received {summary.cartItems} cart {summary.cartItems === 1 ? 'item' : 'items'} and{' '}
+          {summary.wishlistItems} new wishlist {summary.wishlistItems === 1 ? 'item' : 'items'}
+          {summary.productName && <> &middot; now viewing {summary.productName}</>}
+        </div>
+      )}
+      {status === 'error' && error && (
+        <div className="mt-2 text-xs text-red-400">{error}</div>
       )}
     </div>
   );
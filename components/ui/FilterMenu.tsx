@@ -0,0 +1,208 @@
+'use client';
+
+import { useState, useMemo, useEffect } from 'react';
+import { useGalleryStore, useModalStore } from '../../stores/MockStore';
+import { useMenuNavigation } from '../../hooks/useMenuNavigation';
+import { usePriceFormatter } from '../../hooks/usePriceFormatter';
+import { CATALOG_FILTER_CONFIG } from '../../lib/constants';
+import { VIBE_CATEGORIES, getCatalogFacets } from '../../lib/catalogFilters';
+import { PRODUCT_TYPES, PRODUCT_TYPE_REGISTRY } from '../../lib/productTypes';
+
+interface FilterChip {
+  key: string;
+  label: string;
+  count?: number;
+  active: boolean;
+  onActivate: () => void;
+}
+
+interface FilterRow {
+  key: string;
+  label: string;
+  chips: FilterChip[];
+}
+
+function getPriceRangeLabel(
+  range: { min: number | null; max: number | null },
+  format: (amount: number) => string
+): string {
+  if (range.min !== null && range.max !== null) return `${format(range.min)} – ${format(range.max)}`;
+  if (range.max !== null) return `Under ${format(range.max)}`;
+  if (range.min !== null) return `Over ${format(range.min)}`;
+  return 'Any price';
+}
+
+/**
+ * Compact filter & sort menu
+ * Fully operable with a D-Pad: up/down picks a row, left/right picks an option,
+ * A toggles it and B closes the menu.
+ */
+export function FilterMenu() {
+  const { isFilterMenuOpen, closeFilterMenu } = useModalStore();
+  const {
+    products,
+    visibleProducts,
+    filter,
+    sortOrder,
+    toggleTypeFilter,
+    toggleVibeFilter,
+    setFilter,
+    setSortOrder,
+    resetFilter,
+  } = useGalleryStore();
+
+  const { formatRoundPrice } = usePriceFormatter();
+  const [focus, setFocus] = useState({ row: 0, col: 0 });
+
+  // Start at the top each time the menu opens
+  useEffect(() => {
+    if (isFilterMenuOpen) {
+      setFocus({ row: 0, col: 0 });
+    }
+  }, [isFilterMenuOpen]);
+
+  const facets = useMemo(() => getCatalogFacets(products, filter), [products, filter]);
+
+  const rows: FilterRow[] = [
+    {
+      key: 'type',
+      label: 'Type',
+      chips: PRODUCT_TYPES.map((type) => ({
+        key: type,
+        label: PRODUCT_TYPE_REGISTRY[type].filterLabel,
+        count: facets.types[type],
+        active: filter.types.includes(type),
+        onActivate: () => toggleTypeFilter(type),
+      })),
+    },
+    {
+      key: 'vibe',
+      label: 'Vibe',
+      chips: VIBE_CATEGORIES.map((vibe) => ({
+        key: vibe,
+        label: vibe.charAt(0).toUpperCase() + vibe.slice(1),
+        count: facets.vibes[vibe],
+        active: filter.vibes.includes(vibe),
+        onActivate: () => toggleVibeFilter(vibe),
+      })),
+    },
+    {
+      key: 'price',
+      label: 'Price',
+      chips: CATALOG_FILTER_CONFIG.priceRanges.map((range) => ({
+        key: `${range.min ?? ''}-${range.max ?? ''}`,
+        label: getPriceRangeLabel(range, formatRoundPrice),
+        active: filter.priceRange.min === range.min && filter.priceRange.max === range.max,
+        onActivate: () => setFilter({ priceRange: { min: range.min, max: range.max } }),
+      })),
+    },
+    {
+      key: 'size',
+      label: 'Size',
+      chips: CATALOG_FILTER_CONFIG.sizeLimits.map((limit) => ({
+        key: limit.label,
+        label: limit.label,
+        active: filter.maxWidth === limit.maxWidth && filter.maxHeight === limit.maxHeight,
+        onActivate: () => setFilter({ maxWidth: limit.maxWidth, maxHeight: limit.maxHeight }),
+      })),
+    },
+    {
+      key: 'sort',
+      label: 'Sort',
+      chips: CATALOG_FILTER_CONFIG.sortOrders.map((option) => ({
+        key: option.value,
+        label: option.label,
+        active: sortOrder === option.value,
+        onActivate: () => setSortOrder(option.value),
+      })),
+    },
+    {
+      key: 'actions',
+      label: '',
+      chips: [
+        { key: 'reset', label: 'Reset', active: false, onActivate: resetFilter },
+        { key: 'done', label: 'Done', active: false, onActivate: closeFilterMenu },
+      ],
+    },
+  ];
+
+  const moveRow = (delta: number) => {
+    setFocus((prev) => {
+      const row = (prev.row + delta + rows.length) % rows.length;
+      return { row, col: Math.min(prev.col, rows[row].chips.length - 1) };
+    });
+  };
+
+  const moveCol = (delta: number) => {
+    setFocus((prev) => {
+      const count = rows[prev.row].chips.length;
+      return { ...prev, col: (prev.col + delta + count) % count };
+    });
+  };
+
+  useMenuNavigation(isFilterMenuOpen, {
+    up: () => moveRow(-1),
+    down: () => moveRow(1),
+    left: () => moveCol(-1),
+    right: () => moveCol(1),
+    select: () => rows[focus.row]?.chips[focus.col]?.onActivate(),
+    exit: closeFilterMenu,
+  });
+
+  if (!isFilterMenuOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-start justify-center pt-20 px-4" onClick={closeFilterMenu}>
+      <div
+        className="glass-strong rounded-2xl p-4 w-full max-w-lg animate-slide-up"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label="Filter products"
+      >
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-lg font-semibold text-white">Filter & Sort</h2>
+          <span className="text-sm text-white/50">
+            {visibleProducts.length} of {products.length} products
+          </span>
+        </div>
+
+        <div className="space-y-3">
+          {rows.map((row, rowIndex) => (
+            <div key={row.key} className="flex items-center gap-3">
+              <span className="w-12 text-xs text-white/40 uppercase tracking-wider">{row.label}</span>
+              <div className="flex flex-wrap gap-2 flex-1">
+                {row.chips.map((chip, colIndex) => {
+                  const isFocused = focus.row === rowIndex && focus.col === colIndex;
+                  return (
+                    <button
+                      key={chip.key}
+                      onClick={() => {
+                        setFocus({ row: rowIndex, col: colIndex });
+                        chip.onActivate();
+                      }}
+                      aria-pressed={chip.active}
+                      className={`text-xs px-3 py-1.5 rounded-full transition-smooth ${
+                        chip.active ? 'bg-blue-500/40 text-white' : 'bg-white/10 text-white/70 hover:bg-white/20'
+                      } ${isFocused ? 'ring-2 ring-white/70' : ''}`}
+                    >
+                      {chip.label}
+                      {chip.count !== undefined && (
+                        <span className="ml-1 text-white/40">{chip.count}</span>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <p className="mt-4 text-xs text-white/40 text-center">
+          D-Pad to move • A to select • B to close
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export default FilterMenu;
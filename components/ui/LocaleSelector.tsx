@@ -0,0 +1,76 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useLocaleStore } from '../../stores/LocaleStore';
+import { CURRENCIES, LOCALES, isCurrencyCode } from '../../lib/currency';
+
+/**
+ * Currency & language selector - header button with a small settings popover
+ */
+export function LocaleSelector() {
+  const [isOpen, setIsOpen] = useState(false);
+  const { currency, locale, setCurrency, setLocale } = useLocaleStore();
+
+  const handleKeyDown = useCallback((e: KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+    }
+  }, [isOpen, handleKeyDown]);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="glass rounded-full h-12 px-4 text-white text-sm font-semibold hover:bg-white/20 transition-smooth"
+        aria-label={`Currency and language (${currency})`}
+        aria-expanded={isOpen}
+      >
+        {currency}
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-2 glass-strong rounded-xl p-3 min-w-[220px] space-y-3 animate-slide-up">
+          <label className="block text-xs text-white/50">
+            Currency
+            <select
+              value={currency}
+              onChange={(e) => {
+                if (isCurrencyCode(e.target.value)) setCurrency(e.target.value);
+              }}
+              className="mt-1 w-full glass rounded-lg px-3 py-2 text-sm text-white bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+            >
+              {CURRENCIES.map((option) => (
+                <option key={option.code} value={option.code} className="bg-slate-900">
+                  {option.code} – {option.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-xs text-white/50">
+            Language & format
+            <select
+              value={locale}
+              onChange={(e) => setLocale(e.target.value)}
+              className="mt-1 w-full glass rounded-lg px-3 py-2 text-sm text-white bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+            >
+              {LOCALES.map((option) => (
+                <option key={option.code} value={option.code} className="bg-slate-900">
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default LocaleSelector;
@@ -0,0 +1,87 @@
+'use client';
+
+import { useXRPreviewStore } from '../../stores/XRPreviewStore';
+import { useMeasurementFormatter } from '../../hooks/useMeasurementFormatter';
+import { getProductDimensions, supportsTrueScale } from '../../lib/productTypes';
+import type { MeasurementSystem, Product } from '../../lib/types';
+
+const SYSTEM_LABELS: Record<MeasurementSystem, string> = {
+  metric: 'cm',
+  imperial: 'in',
+};
+
+interface MeasurementControlsProps {
+  product: Product;
+}
+
+/**
+ * True-scale, dimension overlay and unit toggles for the AR/VR previews.
+ * Only the options that apply to the product are shown.
+ */
+export function MeasurementControls({ product }: MeasurementControlsProps) {
+  const { isTrueScale, showDimensions, toggleTrueScale, toggleDimensions, setMeasurementSystem } = useXRPreviewStore();
+  const { system } = useMeasurementFormatter();
+
+  const hasDimensions = getProductDimensions(product) !== null;
+  const canToggleScale = supportsTrueScale(product);
+  // A normalized model's size says nothing about the real piece
+  const canMeasure = hasDimensions && (!canToggleScale || isTrueScale);
+
+  if (!hasDimensions) return null;
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap">
+      {canToggleScale && (
+        <ToggleChip active={isTrueScale} onClick={toggleTrueScale}>
+          True scale
+        </ToggleChip>
+      )}
+      <ToggleChip active={showDimensions && canMeasure} onClick={toggleDimensions} disabled={!canMeasure}>
+        Dimensions
+      </ToggleChip>
+      {showDimensions && canMeasure && (
+        <div className="flex rounded-full bg-white/10 p-0.5" role="group" aria-label="Measurement units">
+          {(Object.keys(SYSTEM_LABELS) as MeasurementSystem[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => setMeasurementSystem(option)}
+              aria-pressed={system === option}
+              className={`rounded-full px-2 py-0.5 text-xs transition-smooth ${
+                system === option ? 'bg-white/30 text-white' : 'text-white/60 hover:text-white'
+              }`}
+            >
+              {SYSTEM_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ToggleChip({
+  active,
+  disabled = false,
+  onClick,
+  children,
+}: {
+  active: boolean;
+  disabled?: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      aria-pressed={active}
+      className={`rounded-full px-3 py-1 text-xs transition-smooth disabled:opacity-40 ${
+        active ? 'bg-blue-500/40 text-white' : 'bg-white/10 text-white/70 hover:bg-white/20'
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
+
+export default MeasurementControls;
@@ -1,5 +1,7 @@
 'use client';
 
+import { useGalleryStore, useModalStore } from '../../stores/MockStore';
+import { countActiveFilters } from '../../lib/catalogFilters';
 import type { NavigationState } from '../../lib/types';
 
 interface NavigationHintProps {
@@ -11,6 +13,9 @@ interface NavigationHintProps {
  */
 export function NavigationHint({ navigation }: NavigationHintProps) {
   const { canGoNext, canGoPrevious, currentIndex, totalProducts } = navigation;
+  const activeFilters = useGalleryStore((state) => countActiveFilters(state.filter));
+  const openFilterMenu = useModalStore((state) => state.openFilterMenu);
+  const openSearch = useModalStore((state) => state.openSearch);
 
   return (
     <div className="absolute top-8 left-1/2 transform -translate-x-1/2 pointer-events-auto">
@@ -22,8 +27,31 @@ export function NavigationHint({ navigation }: NavigationHintProps) {
         </span>
         <span className="mx-2 text-white/30">|</span>
         <span className="text-white/50">
-          {currentIndex + 1} of {totalProducts}
+          {totalProducts > 0 ? currentIndex + 1 : 0} of {totalProducts}
         </span>
+        <span className="mx-2 text-white/30">|</span>
+        <button
+          onClick={openFilterMenu}
+          className="flex items-center gap-2 hover:text-white transition-smooth"
+          aria-label="Open filters"
+        >
+          <kbd>F</kbd>
+          <span className="text-white/50">Filters</span>
+          {activeFilters > 0 && (
+            <span className="w-5 h-5 bg-blue-500 rounded-full text-xs font-bold text-white flex items-center justify-center">
+              {activeFilters}
+            </span>
+          )}
+        </button>
+        <span className="mx-2 text-white/30">|</span>
+        <button
+          onClick={openSearch}
+          className="flex items-center gap-2 hover:text-white transition-smooth"
+          aria-label="Search products"
+        >
+          <kbd>/</kbd>
+          <span className="text-white/50">Search</span>
+        </button>
       </div>
     </div>
   );
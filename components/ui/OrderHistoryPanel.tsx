@@ -0,0 +1,273 @@
+'use client';
+
+import { useEffect, useCallback, useState } from 'react';
+import { useModalStore } from '../../stores/MockStore';
+import { useOrderStore } from '../../stores/OrderStore';
+import { getCountryName } from '../../lib/pricing';
+import { API_CONFIG } from '../../lib/constants';
+import { usePriceFormatter } from '../../hooks/usePriceFormatter';
+import type { CurrencyCode, Order, OrderStatus } from '../../lib/types';
+import { PriceSummary } from './PriceSummary';
+
+const STATUS_STYLES: Record<OrderStatus, { label: string; className: string }> = {
+  paid: { label: 'Paid', className: 'bg-blue-500/20 text-blue-300' },
+  processing: { label: 'Processing', className: 'bg-yellow-500/20 text-yellow-300' },
+  shipped: { label: 'Shipped', className: 'bg-purple-500/20 text-purple-300' },
+  delivered: { label: 'Delivered', className: 'bg-green-500/20 text-green-300' },
+  refunded: { label: 'Refunded', className: 'bg-white/10 text-white/60' },
+};
+
+/**
+ * My Orders Panel - Slide-out drawer listing past orders with details and re-order
+ */
+export function OrderHistoryPanel() {
+  const { isOrdersOpen, closeOrders, openCart } = useModalStore();
+  const { orders, reorder } = useOrderStore();
+  const [expandedOrderId, setExpandedOrderId] = useState<string | null>(null);
+  const { locale, formatMoney } = usePriceFormatter();
+
+  const handleKeyDown = useCallback((e: KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      closeOrders();
+    }
+  }, [closeOrders]);
+
+  useEffect(() => {
+    if (isOrdersOpen) {
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+    }
+  }, [isOrdersOpen, handleKeyDown]);
+
+  if (!isOrdersOpen) return null;
+
+  const formatDate = (timestamp: number) => {
+    return new Intl.DateTimeFormat(locale, {
+      dateStyle: 'medium',
+      timeStyle: 'short',
+    }).format(timestamp);
+  };
+
+  const handleReorder = (orderId: string) => {
+    reorder(orderId);
+    closeOrders();
+    openCart();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex justify-end"
+      onClick={closeOrders}
+    >
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" />
+
+      {/* Orders Panel */}
+      <div
+        className="relative w-full max-w-md h-full glass-strong border-l border-white/10 animate-slide-left overflow-hidden flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-white/10">
+          <h2 className="text-xl font-bold text-white">
+            My Orders ({orders.length})
+          </h2>
+          <button
+            onClick={closeOrders}
+            className="w-10 h-10 flex items-center justify-center rounded-full glass hover:bg-white/20 transition-smooth"
+            aria-label="Close orders"
+          >
+            <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Order List */}
+        <div className="flex-1 overflow-y-auto scrollbar-hide p-4 space-y-4">
+          {orders.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-full text-white/50">
+              <svg className="w-16 h-16 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" />
+              </svg>
+              <p className="text-lg">No orders yet</p>
+              <p className="text-sm">Completed purchases will appear here</p>
+            </div>
+          ) : (
+            orders.map((order) => (
+              <OrderCard
+                key={order.id}
+                order={order}
+                isExpanded={expandedOrderId === order.id}
+                onToggle={() => setExpandedOrderId(expandedOrderId === order.id ? null : order.id)}
+                onReorder={() => handleReorder(order.id)}
+                formatPrice={formatMoney}
+                formatDate={formatDate}
+              />
+            ))
+          )}
+        </div>
+
+        {API_CONFIG.syncEnabled && <OrderLookupForm onFound={setExpandedOrderId} />}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Find an order placed on another device by its id and email
+ */
+function OrderLookupForm({ onFound }: { onFound: (orderId: string) => void }) {
+  const lookupOrder = useOrderStore((state) => state.lookupOrder);
+  const [orderId, setOrderId] = useState('');
+  const [email, setEmail] = useState('');
+  const [isSearching, setIsSearching] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSearching(true);
+    setMessage(null);
+    try {
+      const order = await lookupOrder(orderId, email);
+      if (order) {
+        onFound(order.id);
+        setOrderId('');
+      } else {
+        setMessage('No order found for that order number and email');
+      }
+    } catch {
+      setMessage('Orders are unavailable right now, please try again');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="border-t border-white/10 p-4 space-y-2">
+      <p className="text-white/50 text-xs">Ordered on another device?</p>
+      <div className="flex gap-2">
+        <input
+          value={orderId}
+          onChange={(e) => setOrderId(e.target.value)}
+          placeholder="Order number"
+          required
+          className="flex-1 min-w-0 glass rounded-lg px-3 py-2 text-sm text-white bg-transparent placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+          aria-label="Order number"
+        />
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Email"
+          required
+          className="flex-1 min-w-0 glass rounded-lg px-3 py-2 text-sm text-white bg-transparent placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+          aria-label="Order email"
+        />
+      </div>
+      <button
+        type="submit"
+        disabled={isSearching}
+        className="w-full py-2 rounded-xl font-semibold glass hover:bg-white/20 text-white transition-smooth disabled:opacity-50"
+      >
+        {isSearching ? 'Searching...' : 'Find Order'}
+      </button>
+      {message && <p className="text-red-300 text-xs">{message}</p>}
+    </form>
+  );
+}
+
+interface OrderCardProps {
+  order: Order;
+  isExpanded: boolean;
+  onToggle: () => void;
+  onReorder: () => void;
+  formatPrice: (price: number, currency: CurrencyCode) => string;
+  formatDate: (timestamp: number) => string;
+}
+
+/**
+ * Order summary row that expands into the order detail view
+ */
+function OrderCard({ order, isExpanded, onToggle, onReorder, formatPrice, formatDate }: OrderCardProps) {
+  const status = STATUS_STYLES[order.status];
+  const itemCount = order.items.reduce((total, item) => total + item.quantity, 0);
+
+  return (
+    <div className="glass rounded-xl overflow-hidden">
+      <button
+        onClick={onToggle}
+        className="w-full p-3 flex items-start justify-between gap-3 text-left hover:bg-white/5 transition-smooth"
+        aria-expanded={isExpanded}
+      >
+        <div className="min-w-0">
+          <p className="text-white font-mono text-sm">{order.id}</p>
+          <p className="text-white/50 text-xs">
+            {formatDate(order.createdAt)} • {itemCount} {itemCount === 1 ? 'item' : 'items'}
+          </p>
+        </div>
+        <div className="text-right flex-shrink-0">
+          <p className="text-green-400 font-semibold">{formatPrice(order.total, order.currency)}</p>
+          <span className={`inline-block mt-1 text-xs px-2 py-0.5 rounded-full ${status.className}`}>
+            {status.label}
+          </span>
+        </div>
+      </button>
+
+      {isExpanded && (
+        <div className="border-t border-white/10 p-3 space-y-3 text-sm">
+          {/* Line Items */}
+          <div className="space-y-2">
+            {order.items.map((item) => (
+              <div key={item.id} className="flex justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-white truncate">{item.name}</p>
+                  <p className="text-white/50 text-xs">
+                    {item.variantLabel && `${item.variantLabel} • `}
+                    {item.quantity} × {formatPrice(item.unitPrice, order.currency)}
+                  </p>
+                </div>
+                <span className="text-white/80 flex-shrink-0">
+                  {formatPrice(item.unitPrice * item.quantity, order.currency)}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <div className="border-t border-white/10 pt-3">
+            <PriceSummary breakdown={order.pricing} totalLabel="Paid" />
+          </div>
+
+          {/* Shipping & Payment */}
+          <div className="grid grid-cols-2 gap-3 border-t border-white/10 pt-3">
+            <div>
+              <p className="text-white/50 text-xs mb-1">Shipped to</p>
+              <p className="text-white">{order.shippingInfo.firstName} {order.shippingInfo.lastName}</p>
+              <p className="text-white/70 text-xs">{order.shippingInfo.address}</p>
+              <p className="text-white/70 text-xs">
+                {order.shippingInfo.city}, {order.shippingInfo.postalCode}
+              </p>
+              <p className="text-white/70 text-xs">{getCountryName(order.shippingInfo.country)}</p>
+            </div>
+            <div>
+              <p className="text-white/50 text-xs mb-1">Payment</p>
+              <p className="text-white">
+                {order.payment.cardLast4 ? `Card •••• ${order.payment.cardLast4}` : 'Card'}
+              </p>
+              <p className="text-white/70 text-xs font-mono truncate">{order.payment.intentId}</p>
+            </div>
+          </div>
+
+          <button
+            onClick={onReorder}
+            className="w-full py-2 rounded-xl font-semibold bg-blue-600/50 hover:bg-blue-500/60 text-white transition-smooth"
+          >
+            Re-order
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default OrderHistoryPanel;
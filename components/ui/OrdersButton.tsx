@@ -0,0 +1,26 @@
+'use client';
+
+import { useModalStore } from '../../stores/MockStore';
+import { useOrderStore } from '../../stores/OrderStore';
+
+/**
+ * Orders Button - Opens the order history panel
+ */
+export function OrdersButton() {
+  const { openOrders } = useModalStore();
+  const orderCount = useOrderStore((state) => state.orders.length);
+
+  return (
+    <button
+      onClick={openOrders}
+      className="relative glass rounded-full p-3 hover:bg-white/20 transition-smooth"
+      aria-label={`My orders (${orderCount})`}
+    >
+      <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+      </svg>
+    </button>
+  );
+}
+
+export default OrdersButton;
@@ -0,0 +1,54 @@
+'use client';
+
+import { usePriceFormatter } from '../../hooks/usePriceFormatter';
+import type { PriceBreakdown } from '../../lib/types';
+
+interface PriceSummaryProps {
+  breakdown: PriceBreakdown;
+  /** Label for the final line, e.g. "Order Total" */
+  totalLabel?: string;
+}
+
+const formatRate = (rate: number) => `${Math.round(rate * 10000) / 100}%`;
+
+/**
+ * Subtotal, discount, shipping, tax and total lines for a cart or order
+ */
+export function PriceSummary({ breakdown, totalLabel = 'Total' }: PriceSummaryProps) {
+  const { currency, subtotal, discount, shipping, tax, total, itemCount, country, promo } = breakdown;
+  const { formatMoney } = usePriceFormatter();
+  const formatPrice = (amount: number) => formatMoney(amount, currency);
+
+  return (
+    <div className="space-y-1.5 text-sm">
+      <div className="flex justify-between text-white/70">
+        <span>Subtotal ({itemCount} {itemCount === 1 ? 'item' : 'items'})</span>
+        <span>{formatPrice(subtotal)}</span>
+      </div>
+      {discount > 0 && promo && (
+        <div className="flex justify-between text-green-400">
+          <span>Discount ({promo.code})</span>
+          <span>−{formatPrice(discount)}</span>
+        </div>
+      )}
+      <div className="flex justify-between text-white/70">
+        <span>Shipping to {country.name}</span>
+        <span>
+          {shipping === 0
+            ? promo?.type === 'free-shipping' ? `Free (${promo.code})` : 'Free'
+            : formatPrice(shipping)}
+        </span>
+      </div>
+      <div className="flex justify-between text-white/70">
+        <span>Tax ({formatRate(country.taxRate)})</span>
+        <span>{formatPrice(tax)}</span>
+      </div>
+      <div className="flex justify-between items-center border-t border-white/10 pt-2 mt-2">
+        <span className="text-white/70 text-base">{totalLabel}</span>
+        <span className="text-2xl font-bold text-green-400">{formatPrice(total)}</span>
+      </div>
+    </div>
+  );
+}
+
+export default PriceSummary;
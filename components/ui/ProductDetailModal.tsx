@@ -1,16 +1,27 @@
 'use client';
 
 import { useEffect, useCallback } from 'react';
-import { useModalStore, useCartStore, useWishlistStore } from '../../stores/MockStore';
-import { isArtProduct, isTableProduct } from '../../lib/types';
+import { useModalStore, useCartStore, useWishlistStore, useGalleryStore } from '../../stores/MockStore';
+import {
+  PRODUCT_TYPE_REGISTRY,
+  getProductPreviewImage,
+  getProductSpecifications,
+} from '../../lib/productTypes';
+import { applyVariant, getVariant } from '../../lib/variants';
+import { usePriceFormatter } from '../../hooks/usePriceFormatter';
+import { isInStock } from '../../lib/inventory';
+import VariantPicker from './VariantPicker';
+import StockBadge from './StockBadge';
 
 /**
  * Product Detail Modal - Shows detailed product information
  */
 export function ProductDetailModal() {
   const { isProductModalOpen, selectedProduct, closeProductModal } = useModalStore();
-  const { addItem } = useCartStore();
+  const { addItem, canAddItem } = useCartStore();
+  const { selectedVariants, selectVariant } = useGalleryStore();
   const { addToWishlist, removeFromWishlist, isInWishlist } = useWishlistStore();
+  const { formatPrice } = usePriceFormatter();
 
   const inWishlist = selectedProduct ? isInWishlist(selectedProduct.id) : false;
 
@@ -29,15 +40,15 @@ export function ProductDetailModal() {
 
   if (!isProductModalOpen || !selectedProduct) return null;
 
-  const formatPrice = (price: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(price);
-  };
+  // Variant choice lives in the gallery store so the 3D view follows along
+  const selectedVariant = getVariant(selectedProduct, selectedVariants[selectedProduct.id]);
+  const product = applyVariant(selectedProduct, selectedVariant?.id);
+  const inStock = isInStock(product);
+  const canAdd = canAddItem(selectedProduct, selectedVariant?.id);
+  const previewImage = getProductPreviewImage(product);
 
   const handleAddToCart = () => {
-    addItem(selectedProduct);
+    addItem(selectedProduct, selectedVariant?.id);
   };
 
   const handleWishlistToggle = () => {
@@ -74,10 +85,10 @@ export function ProductDetailModal() {
 
         {/* Product Image/Preview */}
         <div className="relative h-64 bg-gradient-to-br from-slate-800 to-slate-900 flex items-center justify-center">
-          {isArtProduct(selectedProduct) ? (
+          {previewImage ? (
             <img 
-              src={selectedProduct.imageUri} 
-              alt={selectedProduct.name}
+              src={previewImage} 
+              alt={product.name}
               className="max-h-full max-w-full object-contain"
             />
           ) : (
@@ -91,7 +102,7 @@ export function ProductDetailModal() {
           
           {/* Vibe Badge */}
           <span className="absolute top-4 left-4 glass px-3 py-1 rounded-full text-sm text-white capitalize">
-            {selectedProduct.vibe} vibe
+            {product.vibe} vibe
           </span>
         </div>
 
@@ -99,55 +110,50 @@ export function ProductDetailModal() {
         <div className="p-6">
           <div className="flex items-start justify-between mb-4">
             <div>
-              <h2 className="text-2xl font-bold text-white mb-1">{selectedProduct.name}</h2>
-              <p className="text-white/70">{selectedProduct.type === 'art' ? 'Artwork' : 'Furniture'}</p>
+              <h2 className="text-2xl font-bold text-white mb-1">{product.name}</h2>
+              <div className="flex items-center gap-2">
+                <p className="text-white/70">{PRODUCT_TYPE_REGISTRY[product.type].label}</p>
+                <StockBadge product={product} />
+              </div>
             </div>
-            <span className="text-3xl font-bold text-green-400">{formatPrice(selectedProduct.price)}</span>
+            <span className="text-3xl font-bold text-green-400">{formatPrice(product.price)}</span>
           </div>
 
-          <p className="text-white/80 mb-6">{selectedProduct.description}</p>
+          <p className="text-white/80 mb-6">{product.description}</p>
+
+          <VariantPicker
+            product={selectedProduct}
+            selectedVariant={selectedVariant}
+            onSelect={(variantId) => selectVariant(selectedProduct.id, variantId)}
+          />
 
           {/* Specifications */}
           <div className="glass rounded-xl p-4 mb-6">
             <h3 className="text-white font-semibold mb-3">Specifications</h3>
             <div className="grid grid-cols-2 gap-3 text-sm">
-              {isArtProduct(selectedProduct) && (
-                <>
-                  <div>
-                    <span className="text-white/50">Dimensions</span>
-                    <p className="text-white">{selectedProduct.dimensions.width.toFixed(1)}m × {selectedProduct.dimensions.height.toFixed(1)}m</p>
-                  </div>
-                  <div>
-                    <span className="text-white/50">Frame Color</span>
+              {getProductSpecifications(product).map((spec) => (
+                <div key={spec.label}>
+                  <span className="text-white/50">{spec.label}</span>
+                  {spec.swatch ? (
                     <div className="flex items-center gap-2 mt-1">
                       <span 
                         className="w-4 h-4 rounded-full border border-white/20" 
-                        style={{ backgroundColor: selectedProduct.frameColor }}
+                        style={{ backgroundColor: spec.swatch }}
                       />
-                      <span className="text-white">{selectedProduct.frameColor}</span>
+                      <span className="text-white">{spec.value}</span>
                     </div>
-                  </div>
-                </>
-              )}
-              {isTableProduct(selectedProduct) && (
-                <>
-                  <div>
-                    <span className="text-white/50">Scale</span>
-                    <p className="text-white">{selectedProduct.scale}x</p>
-                  </div>
-                  <div>
-                    <span className="text-white/50">Type</span>
-                    <p className="text-white">3D Model (GLB)</p>
-                  </div>
-                </>
-              )}
+                  ) : (
+                    <p className="text-white">{spec.value}</p>
+                  )}
+                </div>
+              ))}
               <div>
                 <span className="text-white/50">Vibe Category</span>
-                <p className="text-white capitalize">{selectedProduct.vibe}</p>
+                <p className="text-white capitalize">{product.vibe}</p>
               </div>
               <div>
                 <span className="text-white/50">ID</span>
-                <p className="text-white font-mono text-xs">{selectedProduct.id}</p>
+                <p className="text-white font-mono text-xs">{product.id}</p>
               </div>
             </div>
           </div>
@@ -171,9 +177,10 @@ export function ProductDetailModal() {
             </button>
             <button
               onClick={handleAddToCart}
-              className="flex-1 py-3 rounded-xl font-semibold bg-blue-600/50 hover:bg-blue-500/60 text-white transition-smooth"
+              disabled={!canAdd}
+              className="flex-1 py-3 rounded-xl font-semibold bg-blue-600/50 hover:bg-blue-500/60 text-white transition-smooth disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              Add to Cart
+              {!inStock ? 'Out of Stock' : canAdd ? 'Add to Cart' : 'Max in Cart'}
             </button>
           </div>
         </div>
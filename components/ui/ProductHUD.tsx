@@ -1,28 +1,89 @@
 'use client';
 
 import { useGalleryStore, useCartStore, useModalStore } from '../../stores/MockStore';
-import { isArtProduct, isTableProduct } from '../../lib/types';
+import { getProductSummary } from '../../lib/productTypes';
+import { applyVariant, getVariant } from '../../lib/variants';
+import { usePriceFormatter } from '../../hooks/usePriceFormatter';
+import { isInStock } from '../../lib/inventory';
 import XRPreviewButton from './XRPreviewButton';
+import StockBadge from './StockBadge';
 
 /**
  * Product information HUD overlay
  */
 export function ProductHUD() {
-  const { currentProduct, currentIndex, products } = useGalleryStore();
-  const { addItem } = useCartStore();
-  const { openProductModal } = useModalStore();
+  const {
+    currentProduct,
+    currentIndex,
+    products,
+    visibleProducts,
+    catalogStatus,
+    catalogError,
+    loadCatalog,
+    resetFilter,
+    selectedVariants,
+  } = useGalleryStore();
+  const { addItem, canAddItem } = useCartStore();
+  const { openProductModal, openFilterMenu } = useModalStore();
+  const { formatPrice } = usePriceFormatter();
+
+  if (catalogStatus === 'loading' && !currentProduct) {
+    return (
+      <div className="absolute bottom-8 left-8 right-8 pointer-events-auto">
+        <div className="max-w-md mx-auto product-card animate-pulse" role="status">
+          <div className="h-4 w-16 rounded bg-white/20 mb-3" />
+          <div className="h-6 w-48 rounded bg-white/20 mb-2" />
+          <div className="h-4 w-full rounded bg-white/10" />
+          <span className="sr-only">Loading catalog...</span>
+        </div>
+      </div>
+    );
+  }
+
+  if (catalogStatus === 'error') {
+    return (
+      <div className="absolute bottom-8 left-8 right-8 pointer-events-auto">
+        <div className="max-w-md mx-auto product-card" role="alert">
+          <h2 className="product-title">Catalog unavailable</h2>
+          <p className="product-description mb-4">{catalogError}</p>
+          <button onClick={loadCatalog} className="xr-button-primary text-sm">
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (catalogStatus === 'ready' && products.length > 0 && visibleProducts.length === 0) {
+    return (
+      <div className="absolute bottom-8 left-8 right-8 pointer-events-auto">
+        <div className="max-w-md mx-auto product-card">
+          <h2 className="product-title">No matching products</h2>
+          <p className="product-description mb-4">Try widening your filters.</p>
+          <div className="flex items-center gap-2">
+            <button onClick={openFilterMenu} className="xr-button-secondary text-sm">
+              Edit Filters
+            </button>
+            <button onClick={resetFilter} className="xr-button-primary text-sm">
+              Clear Filters
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
 
   if (!currentProduct) return null;
 
-  const formatPrice = (price: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(price);
-  };
+  // Show the product as configured in the variant picker
+  const variantId = selectedVariants[currentProduct.id];
+  const variant = getVariant(currentProduct, variantId);
+  const product = applyVariant(currentProduct, variantId);
+  const inStock = isInStock(product);
+  const canAdd = canAddItem(currentProduct, variant?.id);
 
   const handleAddToCart = () => {
-    addItem(currentProduct);
+    addItem(currentProduct, variant?.id);
   };
 
   const handleViewDetails = () => {
@@ -34,29 +95,26 @@ export function ProductHUD() {
       <div className="max-w-md mx-auto product-card animate-slide-up">
         {/* Product counter */}
         <div className="text-sm text-white/50 mb-2">
-          {currentIndex + 1} / {products.length}
+          {currentIndex + 1} / {visibleProducts.length}
         </div>
 
         {/* Product info */}
-        <h2 className="product-title">{currentProduct.name}</h2>
-        <p className="product-description mb-3">{currentProduct.description}</p>
+        <h2 className="product-title">{product.name}</h2>
+        <div className="flex items-center gap-2 mb-1">
+          {variant && <p className="text-sm text-white/60">{variant.label}</p>}
+          <StockBadge product={product} />
+        </div>
+        <p className="product-description mb-3">{product.description}</p>
 
         {/* Product details */}
         <div className="flex items-center gap-4 mb-4 text-sm text-white/70">
-          {isArtProduct(currentProduct) && (
-            <span>
-              {currentProduct.dimensions.width.toFixed(1)}m × {currentProduct.dimensions.height.toFixed(1)}m
-            </span>
-          )}
-          {isTableProduct(currentProduct) && (
-            <span>Scale: {currentProduct.scale}x</span>
-          )}
-          <span className="capitalize">Vibe: {currentProduct.vibe}</span>
+          <span>{getProductSummary(product)}</span>
+          <span className="capitalize">Vibe: {product.vibe}</span>
         </div>
 
         {/* Price and actions */}
         <div className="flex items-center justify-between gap-2">
-          <span className="product-price">{formatPrice(currentProduct.price)}</span>
+          <span className="product-price">{formatPrice(product.price)}</span>
           <div className="flex items-center gap-2">
             {/* View Details Button */}
             <button
@@ -67,13 +125,14 @@ export function ProductHUD() {
               Details
             </button>
             {/* XR Preview Button */}
-            <XRPreviewButton product={currentProduct} />
+            <XRPreviewButton product={product} />
             {/* Add to Cart Button */}
             <button
               onClick={handleAddToCart}
-              className="xr-button-primary text-sm"
+              disabled={!canAdd}
+              className="xr-button-primary text-sm disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              Add to Cart
+              {!inStock ? 'Out of Stock' : canAdd ? 'Add to Cart' : 'Max in Cart'}
             </button>
           </div>
         </div>
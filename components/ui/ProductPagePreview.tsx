@@ -0,0 +1,47 @@
+import Image from 'next/image';
+import { formatPrice } from '../../lib/currency';
+import { getProductPreviewImage, getProductSummary } from '../../lib/productTypes';
+import type { Product } from '../../lib/types';
+import StockBadge from './StockBadge';
+
+interface ProductPagePreviewProps {
+  product: Product;
+}
+
+/**
+ * Server-rendered product card for `/product/[id]`, laid out like the
+ * ProductHUD so the page reads the same before the 3D gallery takes over.
+ * Prices are in the base currency to match the page's structured data.
+ */
+export function ProductPagePreview({ product }: ProductPagePreviewProps) {
+  const image = getProductPreviewImage(product);
+
+  return (
+    <div className="absolute bottom-8 left-8 right-8 z-10 pointer-events-none">
+      <article className="max-w-md mx-auto product-card">
+        {image && (
+          <Image
+            src={image}
+            alt={product.name}
+            width={448}
+            height={252}
+            className="w-full h-40 object-cover rounded-lg mb-3"
+            priority
+          />
+        )}
+        <h1 className="product-title">{product.name}</h1>
+        <div className="flex items-center gap-2 mb-1">
+          <StockBadge product={product} />
+        </div>
+        <p className="product-description mb-3">{product.description}</p>
+        <div className="flex items-center gap-4 mb-4 text-sm text-white/70">
+          <span>{getProductSummary(product)}</span>
+          <span className="capitalize">Vibe: {product.vibe}</span>
+        </div>
+        <span className="product-price">{formatPrice(product.price)}</span>
+      </article>
+    </div>
+  );
+}
+
+export default ProductPagePreview;
@@ -0,0 +1,80 @@
+'use client';
+
+import { useState } from 'react';
+import { useCartStore } from '../../stores/MockStore';
+import { describePromoCode, validatePromoCode } from '../../lib/pricing';
+import { usePriceFormatter } from '../../hooks/usePriceFormatter';
+
+/**
+ * Promo code entry for the cart; shows the applied code with a remove button
+ */
+export function PromoCodeInput() {
+  const { promoCode, currency, exchangeRate, applyPromoCode, removePromoCode, getSubtotal } = useCartStore();
+  const { formatPrice } = usePriceFormatter();
+  // Promo thresholds are in the base currency; show them in the cart's currency
+  const formatCartPrice = (amount: number) => formatPrice(amount, { currency, exchangeRate });
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = applyPromoCode(code, formatCartPrice);
+    if (result.valid) {
+      setCode('');
+      setError(null);
+    } else {
+      setError(result.reason);
+    }
+  };
+
+  if (promoCode) {
+    // The code stays applied but stops counting if the cart drops below its minimum
+    const validation = validatePromoCode(promoCode, getSubtotal(), formatCartPrice);
+
+    return (
+      <div className="flex items-center justify-between glass rounded-lg px-3 py-2 text-sm">
+        <div className="min-w-0">
+          <p className="text-white font-mono">{promoCode}</p>
+          <p className={`text-xs truncate ${validation.valid ? 'text-green-400' : 'text-yellow-300'}`}>
+            {validation.valid ? describePromoCode(validation.promo, formatCartPrice) : validation.reason}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={removePromoCode}
+          className="text-white/50 hover:text-white text-xs transition-smooth"
+        >
+          Remove
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-1">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={code}
+          onChange={(e) => {
+            setCode(e.target.value.replace(/[^a-zA-Z0-9]/g, '').slice(0, 32).toUpperCase());
+            if (error) setError(null);
+          }}
+          placeholder="Promo code"
+          aria-label="Promo code"
+          className="flex-1 min-w-0 glass rounded-lg px-3 py-2 text-sm text-white placeholder:text-white/40 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+        />
+        <button
+          type="submit"
+          disabled={code.length === 0}
+          className="px-4 py-2 rounded-lg text-sm font-semibold glass hover:bg-white/20 text-white transition-smooth disabled:opacity-50"
+        >
+          Apply
+        </button>
+      </div>
+      {error && <p className="text-red-400 text-xs">{error}</p>}
+    </form>
+  );
+}
+
+export default PromoCodeInput;
@@ -0,0 +1,24 @@
+'use client';
+
+import { useRoomDesignerStore } from '../../stores/RoomDesignerStore';
+
+/**
+ * Room Designer Button - Opens the virtual room designer
+ */
+export function RoomDesignerButton() {
+  const openDesigner = useRoomDesignerStore((state) => state.openDesigner);
+
+  return (
+    <button
+      onClick={openDesigner}
+      className="relative glass rounded-full p-3 hover:bg-white/20 transition-smooth"
+      aria-label="Open room designer"
+    >
+      <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10l9-7 9 7v10a1 1 0 01-1 1h-5v-6H9v6H4a1 1 0 01-1-1V10z" />
+      </svg>
+    </button>
+  );
+}
+
+export default RoomDesignerButton;
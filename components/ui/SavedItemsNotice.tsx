@@ -0,0 +1,75 @@
+'use client';
+
+import { useCartStore, useWishlistStore } from '../../stores/MockStore';
+import { usePriceFormatter } from '../../hooks/usePriceFormatter';
+import type { SavedItemNotice } from '../../lib/types';
+
+/**
+ * Saved Items Notice - tells returning visitors what changed about their
+ * saved cart and wishlist since the last visit (new prices, removed products,
+ * reduced quantities)
+ */
+export function SavedItemsNotice() {
+  const cartNotices = useCartStore((state) => state.notices);
+  const cartCurrency = useCartStore((state) => state.currency);
+  const cartExchangeRate = useCartStore((state) => state.exchangeRate);
+  const dismissCartNotices = useCartStore((state) => state.dismissNotices);
+  const wishlistNotices = useWishlistStore((state) => state.notices);
+  const dismissWishlistNotices = useWishlistStore((state) => state.dismissNotices);
+  const { formatPrice } = usePriceFormatter();
+
+  const notices = [...cartNotices, ...wishlistNotices];
+  if (notices.length === 0) return null;
+
+  const describe = (notice: SavedItemNotice) => {
+    // Cart lines show prices in the cart's locked currency, like the cart itself
+    const pricedIn = notice.source === 'cart'
+      ? { currency: cartCurrency, exchangeRate: cartExchangeRate }
+      : undefined;
+
+    switch (notice.kind) {
+      case 'price-changed':
+        return `now ${formatPrice(notice.currentPrice, pricedIn)} (was ${formatPrice(notice.previousPrice, pricedIn)})`;
+      case 'removed':
+        return 'is no longer available and was removed';
+      case 'quantity-reduced':
+        return notice.quantity === 0
+          ? 'is out of stock and was removed'
+          : `only ${notice.quantity} available, reduced from ${notice.previousQuantity}`;
+    }
+  };
+
+  const handleDismiss = () => {
+    dismissCartNotices();
+    dismissWishlistNotices();
+  };
+
+  return (
+    <div
+      role="status"
+      className="absolute top-20 left-1/2 -translate-x-1/2 z-20 w-[min(28rem,calc(100vw-2rem))] glass-strong rounded-xl p-4 animate-slide-up"
+    >
+      <p className="text-white text-sm font-semibold mb-2">Since your last visit</p>
+      <ul className="space-y-1 max-h-48 overflow-y-auto">
+        {notices.map((notice) => (
+          <li key={`${notice.source}-${notice.key}-${notice.kind}`} className="text-white/70 text-xs">
+            <span className="text-white/40">{notice.source === 'cart' ? 'Cart' : 'Wishlist'} · </span>
+            <span className="text-white">
+              {notice.name}
+              {notice.variantLabel && ` (${notice.variantLabel})`}
+            </span>{' '}
+            {describe(notice)}
+          </li>
+        ))}
+      </ul>
+      <button
+        onClick={handleDismiss}
+        className="mt-3 w-full glass rounded-lg py-2 text-white text-sm hover:bg-white/20 transition-smooth"
+      >
+        Dismiss
+      </button>
+    </div>
+  );
+}
+
+export default SavedItemsNotice;
@@ -0,0 +1,107 @@
+'use client';
+
+import { useState } from 'react';
+import { useARAnchorStore } from '../../stores/ARAnchorStore';
+import { useXRPreviewStore } from '../../stores/XRPreviewStore';
+import { useGalleryStore } from '../../stores/MockStore';
+import { useLocaleStore } from '../../stores/LocaleStore';
+import { applyVariant } from '../../lib/variants';
+
+/**
+ * Products the shopper has left anchored in their room (see
+ * `ARPersistentAnchors`). Choosing one previews it, so entering AR puts it
+ * back where it was; forgetting one deletes its anchor from the device in
+ * the next AR session.
+ *
+ * Renders nothing until something has been saved.
+ */
+export function SavedPlacementsList() {
+  const [isOpen, setIsOpen] = useState(false);
+  const savedPlacements = useARAnchorStore((state) => state.savedPlacements);
+  const removePlacement = useARAnchorStore((state) => state.removePlacement);
+  const clearPlacements = useARAnchorStore((state) => state.clearPlacements);
+  const products = useGalleryStore((state) => state.products);
+  const stagedProducts = useXRPreviewStore((state) => state.stagedProducts);
+  const showProduct = useXRPreviewStore((state) => state.showProduct);
+  const locale = useLocaleStore((state) => state.locale);
+
+  if (savedPlacements.length === 0) return null;
+
+  const formatDate = (timestamp: number) => {
+    return new Intl.DateTimeFormat(locale, {
+      dateStyle: 'medium',
+      timeStyle: 'short',
+    }).format(timestamp);
+  };
+
+  const viewPlacement = (productId: string, variantId: string | null) => {
+    const product = products.find((item) => item.id === productId);
+    if (!product) return;
+    const { goToProductById, selectVariant } = useGalleryStore.getState();
+    if (variantId) {
+      selectVariant(productId, variantId);
+    }
+    goToProductById(productId);
+    showProduct(applyVariant(product, variantId));
+  };
+
+  return (
+    <div className="text-xs">
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        aria-expanded={isOpen}
+        className="text-white/70 hover:text-white transition-smooth"
+      >
+        Saved spots ({savedPlacements.length}) {isOpen ? '▾' : '▸'}
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 space-y-1">
+          <ul className="max-h-40 overflow-y-auto space-y-1">
+            {savedPlacements.map((placement) => {
+              const isAvailable = products.some((product) => product.id === placement.productId);
+              const isCurrent = stagedProducts.some((item) => item.product.id === placement.productId);
+
+              return (
+                <li key={placement.id} className="flex items-center gap-2 rounded-lg bg-white/5 px-2 py-1.5">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-white truncate">{placement.productName}</p>
+                    <p className="text-white/50">
+                      {isAvailable ? formatDate(placement.savedAt) : 'No longer available'}
+                    </p>
+                  </div>
+                  {isCurrent ? (
+                    <span className="text-green-400">Showing</span>
+                  ) : (
+                    isAvailable && (
+                      <button
+                        onClick={() => viewPlacement(placement.productId, placement.variantId)}
+                        className="rounded-full px-2 py-1 bg-white/10 text-white hover:bg-white/20 transition-smooth"
+                      >
+                        View
+                      </button>
+                    )
+                  )}
+                  <button
+                    onClick={() => removePlacement(placement.id)}
+                    className="rounded-full px-2 py-1 text-white/60 hover:text-white hover:bg-white/10 transition-smooth"
+                    aria-label={`Forget saved spot for ${placement.productName}`}
+                  >
+                    Forget
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+          {savedPlacements.length > 1 && (
+            <button onClick={clearPlacements} className="text-white/50 hover:text-white transition-smooth">
+              Forget all
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SavedPlacementsList;
@@ -0,0 +1,157 @@
+'use client';
+
+import { useState, useMemo, useEffect, useRef } from 'react';
+import { useGalleryStore, useModalStore } from '../../stores/MockStore';
+import { useMenuNavigation } from '../../hooks/useMenuNavigation';
+import { buildSearchIndex, searchProducts } from '../../lib/searchIndex';
+import { SEARCH_CONFIG } from '../../lib/constants';
+import { getProductPreviewImage } from '../../lib/productTypes';
+
+/**
+ * Product search overlay
+ * Keyboard users type a query; D-Pad users cycle quick queries with left/right.
+ * Up/down move through results, A/Enter jumps the gallery to the highlighted product.
+ */
+export function SearchOverlay() {
+  const { isSearchOpen, closeSearch } = useModalStore();
+  const { products, goToProductById } = useGalleryStore();
+
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [quickQueryIndex, setQuickQueryIndex] = useState(-1);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const index = useMemo(() => buildSearchIndex(products), [products]);
+  const results = useMemo(
+    () => searchProducts(index, query, SEARCH_CONFIG.maxResults),
+    [index, query]
+  );
+
+  // Fresh search each time the overlay opens
+  useEffect(() => {
+    if (isSearchOpen) {
+      setQuery('');
+      setActiveIndex(0);
+      setQuickQueryIndex(-1);
+      inputRef.current?.focus();
+    }
+  }, [isSearchOpen]);
+
+  // Keep the highlight on a valid result as the list changes
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  const selectResult = (productId: string | undefined) => {
+    if (!productId) return;
+    goToProductById(productId);
+    closeSearch();
+  };
+
+  const cycleQuickQuery = (delta: number) => {
+    const count = SEARCH_CONFIG.quickQueries.length;
+    const next = (quickQueryIndex + delta + count) % count;
+    setQuickQueryIndex(next);
+    setQuery(SEARCH_CONFIG.quickQueries[next]);
+  };
+
+  useMenuNavigation(isSearchOpen, {
+    up: () => setActiveIndex((prev) => Math.max(0, prev - 1)),
+    down: () => setActiveIndex((prev) => Math.min(results.length - 1, prev + 1)),
+    left: () => cycleQuickQuery(-1),
+    right: () => cycleQuickQuery(1),
+    select: () => selectResult(results[activeIndex]?.product.id),
+    exit: closeSearch,
+  });
+
+  if (!isSearchOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-start justify-center pt-20 px-4" onClick={closeSearch}>
+      <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" />
+
+      <div
+        className="relative glass-strong rounded-2xl p-4 w-full max-w-lg animate-slide-up"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label="Search products"
+      >
+        <input
+          ref={inputRef}
+          type="search"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value.slice(0, 100));
+            setQuickQueryIndex(-1);
+          }}
+          placeholder="Search by name, description or vibe..."
+          aria-label="Search products"
+          aria-controls="search-results"
+          aria-activedescendant={results[activeIndex] ? `search-result-${results[activeIndex].product.id}` : undefined}
+          className="w-full glass rounded-lg px-4 py-3 text-white placeholder:text-white/40 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+        />
+
+        {/* Quick queries for D-Pad users */}
+        <div className="flex flex-wrap gap-2 mt-3">
+          {SEARCH_CONFIG.quickQueries.map((quickQuery, i) => (
+            <button
+              key={quickQuery}
+              onClick={() => {
+                setQuickQueryIndex(i);
+                setQuery(quickQuery);
+              }}
+              className={`text-xs px-3 py-1.5 rounded-full capitalize transition-smooth ${
+                quickQueryIndex === i ? 'bg-blue-500/40 text-white ring-2 ring-white/70' : 'bg-white/10 text-white/70 hover:bg-white/20'
+              }`}
+            >
+              {quickQuery}
+            </button>
+          ))}
+        </div>
+
+        {/* Results */}
+        <ul id="search-results" role="listbox" className="mt-4 space-y-2 max-h-80 overflow-y-auto scrollbar-hide">
+          {query.trim() && results.length === 0 && (
+            <li className="text-center text-white/50 py-6">No products match &ldquo;{query}&rdquo;</li>
+          )}
+          {results.map(({ product }, i) => {
+            const previewImage = getProductPreviewImage(product);
+            return (
+              <li
+                key={product.id}
+                id={`search-result-${product.id}`}
+                role="option"
+                aria-selected={i === activeIndex}
+              >
+                <button
+                  onClick={() => selectResult(product.id)}
+                  onMouseEnter={() => setActiveIndex(i)}
+                  className={`w-full flex items-center gap-3 rounded-xl p-2 text-left transition-smooth ${
+                    i === activeIndex ? 'bg-white/20 ring-2 ring-white/50' : 'hover:bg-white/10'
+                  }`}
+                >
+                  <div className="w-12 h-12 rounded-lg bg-slate-800 flex-shrink-0 overflow-hidden">
+                    {previewImage && (
+                      <img src={previewImage} alt="" className="w-full h-full object-cover" />
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-white font-medium truncate">{product.name}</p>
+                    <p className="text-white/50 text-xs truncate">{product.description}</p>
+                  </div>
+                  <span className="text-xs text-white/40 capitalize">{product.vibe}</span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+
+        <p className="mt-4 text-xs text-white/40 text-center">
+          ←/→ quick searches • ↑/↓ results • A to view • B to close
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export default SearchOverlay;
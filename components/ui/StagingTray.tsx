@@ -0,0 +1,157 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useXRPreviewStore } from '../../stores/XRPreviewStore';
+import { useCartStore, useGalleryStore, useWishlistStore } from '../../stores/MockStore';
+import { usePriceFormatter } from '../../hooks/usePriceFormatter';
+import { XR_PREVIEW_CONFIG } from '../../lib/constants';
+import { getStagedTotal } from '../../lib/xrStaging';
+import { applyVariant } from '../../lib/variants';
+import type { Product } from '../../lib/types';
+
+const ADDED_FEEDBACK_MS = 2000;
+
+interface StagingCandidate {
+  product: Product;
+  variantId: string | null;
+  source: 'cart' | 'wishlist';
+}
+
+/**
+ * Products staged together in an AR/VR preview, with their running total:
+ *
+ * - Tap a product to make it the one placement and gestures act on, or ×
+ *   to take it out
+ * - Stage more from the cart or wishlist (up to `XR_PREVIEW_CONFIG.staging.maxProducts`)
+ * - Add one of each staged product to the cart in one go
+ */
+export function StagingTray() {
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const [addedCount, setAddedCount] = useState<number | null>(null);
+  const { formatPrice } = usePriceFormatter();
+
+  const stagedProducts = useXRPreviewStore((state) => state.stagedProducts);
+  const activeProductId = useXRPreviewStore((state) => state.selectedProduct?.id);
+  const stageProduct = useXRPreviewStore((state) => state.stageProduct);
+  const unstageProduct = useXRPreviewStore((state) => state.unstageProduct);
+  const setActiveProduct = useXRPreviewStore((state) => state.setActiveProduct);
+  const addStagedToCart = useXRPreviewStore((state) => state.addStagedToCart);
+  const cartItems = useCartStore((state) => state.items);
+  const wishlistItems = useWishlistStore((state) => state.items);
+  const selectedVariants = useGalleryStore((state) => state.selectedVariants);
+
+  useEffect(() => {
+    if (addedCount === null) return;
+    const timer = setTimeout(() => setAddedCount(null), ADDED_FEEDBACK_MS);
+    return () => clearTimeout(timer);
+  }, [addedCount]);
+
+  const isStaged = (productId: string) => stagedProducts.some((item) => item.product.id === productId);
+  const candidates: StagingCandidate[] = [];
+  for (const item of cartItems) {
+    if (!isStaged(item.product.id) && !candidates.some((candidate) => candidate.product.id === item.product.id)) {
+      candidates.push({ product: item.product, variantId: item.variant?.id ?? null, source: 'cart' });
+    }
+  }
+  for (const product of wishlistItems) {
+    if (!isStaged(product.id) && !candidates.some((candidate) => candidate.product.id === product.id)) {
+      const variantId = selectedVariants[product.id] ?? null;
+      candidates.push({ product: applyVariant(product, variantId), variantId, source: 'wishlist' });
+    }
+  }
+
+  const isFull = stagedProducts.length >= XR_PREVIEW_CONFIG.staging.maxProducts;
+  const total = getStagedTotal(stagedProducts);
+
+  let cartLabel = stagedProducts.length > 1 ? 'Add all to cart' : 'Add to cart';
+  if (addedCount !== null) {
+    // Sold-out products are skipped
+    cartLabel = addedCount === stagedProducts.length ? 'Added ✓' : `Added ${addedCount} of ${stagedProducts.length}`;
+  }
+
+  const handleStage = (candidate: StagingCandidate) => {
+    if (stageProduct(candidate.product, candidate.variantId)) {
+      setIsPickerOpen(false);
+    }
+  };
+
+  return (
+    <div className="glass-dark rounded-xl p-3 text-xs text-white">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-white/70">
+          Staged ({stagedProducts.length}/{XR_PREVIEW_CONFIG.staging.maxProducts})
+        </span>
+        <span>
+          Total <span className="text-green-400 font-semibold">{formatPrice(total)}</span>
+        </span>
+      </div>
+
+      <div className="flex flex-wrap gap-1.5">
+        {stagedProducts.map(({ product }) => {
+          const isActive = product.id === activeProductId;
+          return (
+            <span
+              key={product.id}
+              className={`flex items-center rounded-full transition-smooth ${
+                isActive ? 'bg-blue-500/50' : 'bg-white/10 hover:bg-white/20'
+              }`}
+            >
+              <button
+                onClick={() => setActiveProduct(product.id)}
+                aria-pressed={isActive}
+                className="pl-2.5 pr-1 py-1 max-w-[10rem] truncate"
+              >
+                {product.name} · {formatPrice(product.price)}
+              </button>
+              {stagedProducts.length > 1 && (
+                <button
+                  onClick={() => unstageProduct(product.id)}
+                  className="pr-2 pl-1 py-1 text-white/60 hover:text-white"
+                  aria-label={`Remove ${product.name} from the preview`}
+                >
+                  ×
+                </button>
+              )}
+            </span>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center gap-2 mt-2">
+        <button
+          onClick={() => setIsPickerOpen((open) => !open)}
+          disabled={isFull || candidates.length === 0}
+          aria-expanded={isPickerOpen}
+          className="rounded-full px-3 py-1 bg-white/10 hover:bg-white/20 transition-smooth disabled:opacity-40"
+        >
+          + Add from cart or wishlist
+        </button>
+        <button
+          onClick={() => setAddedCount(addStagedToCart())}
+          className="ml-auto rounded-full px-3 py-1 bg-green-600/60 hover:bg-green-500/70 transition-smooth"
+        >
+          {cartLabel}
+        </button>
+      </div>
+
+      {isPickerOpen && !isFull && (
+        <ul className="mt-2 max-h-40 overflow-y-auto space-y-1">
+          {candidates.map((candidate) => (
+            <li key={candidate.product.id}>
+              <button
+                onClick={() => handleStage(candidate)}
+                className="w-full flex items-center gap-2 rounded-lg px-2 py-1.5 bg-white/5 hover:bg-white/10 transition-smooth text-left"
+              >
+                <span className="flex-1 truncate">{candidate.product.name}</span>
+                <span className="text-white/50">{candidate.source === 'cart' ? 'In cart' : 'Wishlist'}</span>
+                <span className="text-green-400">{formatPrice(candidate.product.price)}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default StagingTray;
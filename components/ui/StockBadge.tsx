@@ -0,0 +1,39 @@
+'use client';
+
+import { getStockInfo } from '../../lib/inventory';
+import type { Product } from '../../lib/types';
+
+interface StockBadgeProps {
+  /** Product as configured by the selected variant */
+  product: Product;
+  className?: string;
+}
+
+/**
+ * Availability badge: unique original, low stock, out of stock or in stock.
+ * Renders nothing for made-to-order products.
+ */
+export function StockBadge({ product, className = '' }: StockBadgeProps) {
+  const { status, available, isUniqueOriginal } = getStockInfo(product);
+
+  let badge: { label: string; className: string } | null = null;
+  if (status === 'out-of-stock') {
+    badge = { label: isUniqueOriginal ? 'Sold' : 'Out of stock', className: 'bg-red-500/20 text-red-300' };
+  } else if (isUniqueOriginal) {
+    badge = { label: 'Unique original', className: 'bg-purple-500/20 text-purple-300' };
+  } else if (status === 'low-stock') {
+    badge = { label: `Only ${available} left`, className: 'bg-yellow-500/20 text-yellow-300' };
+  } else if (status === 'in-stock') {
+    badge = { label: 'In stock', className: 'bg-green-500/20 text-green-300' };
+  }
+
+  if (!badge) return null;
+
+  return (
+    <span className={`inline-block text-xs px-2 py-0.5 rounded-full ${badge.className} ${className}`}>
+      {badge.label}
+    </span>
+  );
+}
+
+export default StockBadge;
@@ -0,0 +1,64 @@
+'use client';
+
+import type { Product, ProductVariant } from '../../lib/types';
+import {
+  VARIANT_ATTRIBUTE_LABELS,
+  applyVariant,
+  findVariantByOption,
+  getVariantOptionGroups,
+} from '../../lib/variants';
+import { isInStock } from '../../lib/inventory';
+
+interface VariantPickerProps {
+  product: Product;
+  selectedVariant: ProductVariant | null;
+  onSelect: (variantId: string) => void;
+}
+
+/**
+ * Option groups (size, frame finish, material) for products with variants.
+ * Picking an option keeps the other choices where a matching variant exists.
+ * Options that would land on a sold-out variant stay selectable but are struck through.
+ */
+export function VariantPicker({ product, selectedVariant, onSelect }: VariantPickerProps) {
+  const groups = getVariantOptionGroups(product);
+
+  if (groups.length === 0) return null;
+
+  return (
+    <div className="space-y-3 mb-6">
+      {groups.map(({ attribute, values }) => (
+        <div key={attribute}>
+          <span className="block text-xs text-white/50 uppercase tracking-wider mb-2">
+            {VARIANT_ATTRIBUTE_LABELS[attribute]}
+          </span>
+          <div className="flex flex-wrap gap-2" role="radiogroup" aria-label={VARIANT_ATTRIBUTE_LABELS[attribute]}>
+            {values.map((value) => {
+              const isSelected = selectedVariant?.attributes[attribute] === value;
+              const target = findVariantByOption(product, selectedVariant, attribute, value);
+              const soldOut = target !== null && !isInStock(applyVariant(product, target.id));
+              return (
+                <button
+                  key={value}
+                  role="radio"
+                  aria-checked={isSelected}
+                  aria-label={soldOut ? `${value} (out of stock)` : value}
+                  onClick={() => {
+                    if (target) onSelect(target.id);
+                  }}
+                  className={`text-sm px-4 py-2 rounded-full transition-smooth ${
+                    isSelected ? 'bg-blue-500/40 text-white ring-2 ring-white/70' : 'bg-white/10 text-white/70 hover:bg-white/20'
+                  } ${soldOut ? 'line-through opacity-60' : ''}`}
+                >
+                  {value}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default VariantPicker;
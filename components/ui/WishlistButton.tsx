@@ -7,12 +7,12 @@ import { useWishlistStore, useGalleryStore } from '../../stores/MockStore';
  */
 export function WishlistButton() {
   const { currentProduct } = useGalleryStore();
-  const { addToWishlist, removeFromWishlist, isInWishlist, items } = useWishlistStore();
+  const { addToWishlist, removeFromWishlist, isInWishlist, getCount } = useWishlistStore();
 
   if (!currentProduct) return null;
 
   const inWishlist = isInWishlist(currentProduct.id);
-  const wishlistCount = items.length;
+  const wishlistCount = getCount();
 
   const handleToggle = () => {
     if (inWishlist) {
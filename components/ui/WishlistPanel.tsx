@@ -0,0 +1,399 @@
+'use client';
+
+import { useEffect, useCallback, useState } from 'react';
+import { useGalleryStore, useModalStore, useWishlistStore } from '../../stores/MockStore';
+import { PRODUCT_TYPE_REGISTRY } from '../../lib/productTypes';
+import { WISHLIST_CONFIG } from '../../lib/constants';
+import { getShareUrl, parseShareInput } from '../../lib/wishlistShare';
+import { usePriceFormatter } from '../../hooks/usePriceFormatter';
+import type { Product, WishlistCollectionItem } from '../../lib/types';
+
+/**
+ * Wishlist Panel - Slide-out drawer for named collections: reorder items,
+ * add notes, share a collection as a code or link, and view shared ones read-only
+ */
+export function WishlistPanel() {
+  const { isWishlistOpen, openWishlist, closeWishlist } = useModalStore();
+  const { products, goToProductById } = useGalleryStore();
+  const {
+    items,
+    collections,
+    activeCollectionId,
+    sharedCollection,
+    setActiveCollection,
+    createCollection,
+    renameCollection,
+    deleteCollection,
+    removeFromWishlist,
+    moveItem,
+    setItemNote,
+    getShareCode,
+    openSharedCollection,
+    closeSharedCollection,
+    saveSharedCollection,
+  } = useWishlistStore();
+  const { formatPrice } = usePriceFormatter();
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [importInput, setImportInput] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const collection = collections.find((c) => c.id === activeCollectionId) ?? collections[0];
+
+  // Open a shared collection from a link like /?wishlist=<code>
+  useEffect(() => {
+    const code = new URLSearchParams(window.location.search).get(WISHLIST_CONFIG.shareParam);
+    if (code && openSharedCollection(code)) {
+      openWishlist();
+    }
+  }, [openSharedCollection, openWishlist]);
+
+  // A share link describes one collection; drop it when switching
+  useEffect(() => {
+    setShareUrl(null);
+  }, [activeCollectionId]);
+
+  const handleKeyDown = useCallback((e: KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      closeWishlist();
+    }
+  }, [closeWishlist]);
+
+  useEffect(() => {
+    if (isWishlistOpen) {
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+    }
+  }, [isWishlistOpen, handleKeyDown]);
+
+  if (!isWishlistOpen) return null;
+
+  // Saved items resolve from the wishlist first, then the catalog (shared or not yet reconciled)
+  const findProduct = (productId: string): Product | undefined =>
+    items.find((item) => item.id === productId) ?? products.find((product) => product.id === productId);
+
+  const handleView = (productId: string) => {
+    goToProductById(productId);
+    closeWishlist();
+  };
+
+  const handleCreate = () => {
+    createCollection(`Collection ${collections.length + 1}`);
+  };
+
+  const handleShare = () => {
+    const code = getShareCode(collection.id);
+    if (!code) return;
+    const url = getShareUrl(code);
+    setShareUrl(url);
+    navigator.clipboard?.writeText(url).catch(() => {
+      // The link stays visible for manual copying
+    });
+  };
+
+  const handleImport = () => {
+    const code = parseShareInput(importInput);
+    if (code && openSharedCollection(code)) {
+      setImportInput('');
+      setImportError(null);
+    } else {
+      setImportError('That share code or link is not valid');
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex justify-end"
+      onClick={closeWishlist}
+    >
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" />
+
+      {/* Wishlist Panel */}
+      <div
+        className="relative w-full max-w-md h-full glass-strong border-l border-white/10 animate-slide-left overflow-hidden flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-white/10">
+          <h2 className="text-xl font-bold text-white">
+            {sharedCollection ? 'Shared Collection' : 'Wishlists'}
+          </h2>
+          <button
+            onClick={closeWishlist}
+            className="w-10 h-10 flex items-center justify-center rounded-full glass hover:bg-white/20 transition-smooth"
+            aria-label="Close wishlists"
+          >
+            <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {sharedCollection ? (
+          <>
+            {/* Shared Collection (read-only) */}
+            <div className="p-4 border-b border-white/10">
+              <p className="text-white font-semibold">{sharedCollection.name}</p>
+              <p className="text-white/50 text-xs">
+                Read only • {sharedCollection.items.length} {sharedCollection.items.length === 1 ? 'item' : 'items'}
+              </p>
+            </div>
+
+            <div className="flex-1 overflow-y-auto scrollbar-hide p-4 space-y-3">
+              {sharedCollection.items.map((item) => {
+                const product = products.find((candidate) => candidate.id === item.productId);
+                return (
+                  <div key={item.productId} className="glass rounded-xl p-3">
+                    {product ? (
+                      <>
+                        <div className="flex items-start justify-between gap-3">
+                          <div className="min-w-0">
+                            <p className="text-white truncate">{product.name}</p>
+                            <p className="text-white/50 text-xs">
+                              {PRODUCT_TYPE_REGISTRY[product.type].label} • {formatPrice(product.price)}
+                            </p>
+                          </div>
+                          <button onClick={() => handleView(product.id)} className="xr-button-secondary text-xs">
+                            View
+                          </button>
+                        </div>
+                        {item.note && <p className="mt-2 text-white/70 text-sm whitespace-pre-wrap">{item.note}</p>}
+                      </>
+                    ) : (
+                      <p className="text-white/40 text-sm">No longer available</p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="border-t border-white/10 p-4 flex gap-3">
+              <button
+                onClick={closeSharedCollection}
+                className="flex-1 py-3 rounded-xl font-semibold glass hover:bg-white/20 text-white transition-smooth"
+              >
+                Close
+              </button>
+              <button
+                onClick={saveSharedCollection}
+                className="flex-1 py-3 rounded-xl font-semibold bg-pink-500/30 hover:bg-pink-500/40 text-pink-200 transition-smooth"
+              >
+                Save a Copy
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            {/* Collection Picker */}
+            <div className="p-4 border-b border-white/10 space-y-3">
+              <div className="flex gap-2">
+                <select
+                  value={collection.id}
+                  onChange={(e) => setActiveCollection(e.target.value)}
+                  className="flex-1 glass rounded-lg px-3 py-2 text-sm text-white bg-transparent focus:outline-none focus:ring-2 focus:ring-pink-500/50"
+                  aria-label="Collection"
+                >
+                  {collections.map((option) => (
+                    <option key={option.id} value={option.id} className="bg-slate-900">
+                      {option.name} ({option.items.length})
+                    </option>
+                  ))}
+                </select>
+                <button onClick={handleCreate} className="xr-button-secondary text-sm">
+                  New
+                </button>
+              </div>
+              <div className="flex gap-2">
+                <input
+                  key={collection.id}
+                  defaultValue={collection.name}
+                  maxLength={WISHLIST_CONFIG.maxCollectionNameLength}
+                  onBlur={(e) => renameCollection(collection.id, e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') e.currentTarget.blur();
+                  }}
+                  className="flex-1 glass rounded-lg px-3 py-2 text-sm text-white bg-transparent placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-pink-500/50"
+                  aria-label="Collection name"
+                />
+                <button
+                  onClick={() => deleteCollection(collection.id)}
+                  disabled={collections.length <= 1}
+                  className="px-3 text-sm text-red-300 hover:text-red-200 disabled:opacity-30 disabled:cursor-not-allowed"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+
+            {/* Collection Items */}
+            <div className="flex-1 overflow-y-auto scrollbar-hide p-4 space-y-3">
+              {collection.items.length === 0 ? (
+                <div className="flex flex-col items-center justify-center h-full text-white/50">
+                  <p className="text-lg">This collection is empty</p>
+                  <p className="text-sm">Tap the heart on a product to save it here</p>
+                </div>
+              ) : (
+                collection.items.map((item, index) => (
+                  <CollectionItemRow
+                    key={item.productId}
+                    item={item}
+                    product={findProduct(item.productId)}
+                    isFirst={index === 0}
+                    isLast={index === collection.items.length - 1}
+                    formatPrice={formatPrice}
+                    onMoveUp={() => moveItem(collection.id, index, index - 1)}
+                    onMoveDown={() => moveItem(collection.id, index, index + 1)}
+                    onView={() => handleView(item.productId)}
+                    onRemove={() => removeFromWishlist(item.productId, collection.id)}
+                    onNoteChange={(note) => setItemNote(collection.id, item.productId, note)}
+                  />
+                ))
+              )}
+            </div>
+
+            {/* Share & Import */}
+            <div className="border-t border-white/10 p-4 space-y-3">
+              <button
+                onClick={handleShare}
+                disabled={collection.items.length === 0}
+                className="w-full py-3 rounded-xl font-semibold bg-pink-500/30 hover:bg-pink-500/40 text-pink-200 transition-smooth disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Share Collection
+              </button>
+              {shareUrl && (
+                <div>
+                  <p className="text-white/50 text-xs mb-1">Link copied – anyone with it can view this collection</p>
+                  <input
+                    readOnly
+                    value={shareUrl}
+                    onFocus={(e) => e.currentTarget.select()}
+                    className="w-full glass rounded-lg px-3 py-2 text-xs text-white/80 bg-transparent font-mono"
+                    aria-label="Share link"
+                  />
+                </div>
+              )}
+              <div className="flex gap-2">
+                <input
+                  value={importInput}
+                  onChange={(e) => {
+                    setImportInput(e.target.value);
+                    setImportError(null);
+                  }}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleImport();
+                  }}
+                  placeholder="Paste a share code or link"
+                  className="flex-1 glass rounded-lg px-3 py-2 text-sm text-white bg-transparent placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-pink-500/50"
+                  aria-label="Share code or link"
+                />
+                <button
+                  onClick={handleImport}
+                  disabled={!importInput.trim()}
+                  className="xr-button-secondary text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Open
+                </button>
+              </div>
+              {importError && <p className="text-red-300 text-xs">{importError}</p>}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface CollectionItemRowProps {
+  item: WishlistCollectionItem;
+  /** Undefined until the saved item resolves against the catalog */
+  product: Product | undefined;
+  isFirst: boolean;
+  isLast: boolean;
+  formatPrice: (price: number) => string;
+  onMoveUp: () => void;
+  onMoveDown: () => void;
+  onView: () => void;
+  onRemove: () => void;
+  onNoteChange: (note: string) => void;
+}
+
+/**
+ * Saved item with reorder controls and an editable note
+ */
+function CollectionItemRow({
+  item,
+  product,
+  isFirst,
+  isLast,
+  formatPrice,
+  onMoveUp,
+  onMoveDown,
+  onView,
+  onRemove,
+  onNoteChange,
+}: CollectionItemRowProps) {
+  const [note, setNote] = useState(item.note);
+
+  useEffect(() => {
+    setNote(item.note);
+  }, [item.note]);
+
+  return (
+    <div className="glass rounded-xl p-3 space-y-2">
+      <div className="flex items-start gap-2">
+        {/* Reorder */}
+        <div className="flex flex-col">
+          <button
+            onClick={onMoveUp}
+            disabled={isFirst}
+            className="w-6 h-6 text-white/60 hover:text-white disabled:opacity-20 disabled:cursor-not-allowed"
+            aria-label="Move up"
+          >
+            ▲
+          </button>
+          <button
+            onClick={onMoveDown}
+            disabled={isLast}
+            className="w-6 h-6 text-white/60 hover:text-white disabled:opacity-20 disabled:cursor-not-allowed"
+            aria-label="Move down"
+          >
+            ▼
+          </button>
+        </div>
+
+        <div className="flex-1 min-w-0">
+          <p className="text-white truncate">{product?.name ?? 'Loading…'}</p>
+          {product && (
+            <p className="text-white/50 text-xs">
+              {PRODUCT_TYPE_REGISTRY[product.type].label} • {formatPrice(product.price)}
+            </p>
+          )}
+        </div>
+
+        <div className="flex flex-col items-end gap-1">
+          <button onClick={onView} disabled={!product} className="xr-button-secondary text-xs disabled:opacity-50">
+            View
+          </button>
+          <button onClick={onRemove} className="text-xs text-red-300 hover:text-red-200">
+            Remove
+          </button>
+        </div>
+      </div>
+
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        onBlur={() => {
+          if (note !== item.note) onNoteChange(note);
+        }}
+        maxLength={WISHLIST_CONFIG.maxNoteLength}
+        rows={2}
+        placeholder="Add a note"
+        className="w-full glass rounded-lg px-3 py-2 text-sm text-white bg-transparent placeholder-white/40 resize-none focus:outline-none focus:ring-2 focus:ring-pink-500/50"
+        aria-label={`Note for ${product?.name ?? 'item'}`}
+      />
+    </div>
+  );
+}
+
+export default WishlistPanel;
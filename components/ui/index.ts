@@ -7,6 +7,24 @@ export { ProductDetailModal } from './ProductDetailModal';
 export { CartPanel } from './CartPanel';
 export { CartButton } from './CartButton';
 export { WishlistButton } from './WishlistButton';
+export { WishlistPanel } from './WishlistPanel';
+export { CollectionsButton } from './CollectionsButton';
 export { CheckoutFlow } from './CheckoutFlow';
+export { PriceSummary } from './PriceSummary';
+export { PromoCodeInput } from './PromoCodeInput';
+export { OrderHistoryPanel } from './OrderHistoryPanel';
+export { OrdersButton } from './OrdersButton';
+export { RoomDesignerButton } from './RoomDesignerButton';
+export { LocaleSelector } from './LocaleSelector';
+export { FilterMenu } from './FilterMenu';
+export { SearchOverlay } from './SearchOverlay';
+export { VariantPicker } from './VariantPicker';
+export { StockBadge } from './StockBadge';
+export { MeasurementControls } from './MeasurementControls';
+export { SavedPlacementsList } from './SavedPlacementsList';
+export { StagingTray } from './StagingTray';
+export { CustomRoomEditor } from './CustomRoomEditor';
+export { ProductPagePreview } from './ProductPagePreview';
+export { SavedItemsNotice } from './SavedItemsNotice';
 export { ErrorBoundary } from './ErrorBoundary';
 export { Canvas3DErrorBoundary } from './Canvas3DErrorBoundary';
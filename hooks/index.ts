@@ -1,7 +1,21 @@
 export { useGalleryNavigation } from './useGalleryNavigation';
+export { useMenuNavigation } from './useMenuNavigation';
+export type { MenuAction, MenuNavigationHandlers } from './useMenuNavigation';
 export { useAudioController } from './useAudioController';
 export { useDeviceCapabilities } from './useDeviceCapabilities';
 export type { UseDeviceCapabilitiesReturn } from './useDeviceCapabilities';
 export { useSpatialAudio } from './useSpatialAudio';
 export { useAnalytics } from './useAnalytics';
+export { usePriceFormatter } from './usePriceFormatter';
+export type { UsePriceFormatterReturn } from './usePriceFormatter';
+export { useMeasurementFormatter } from './useMeasurementFormatter';
+export type { UseMeasurementFormatterReturn } from './useMeasurementFormatter';
+export { useRoomLayout } from './useRoomLayout';
+export { useManipulationLock } from './useManipulationLock';
+export type { UseManipulationLockReturn } from './useManipulationLock';
+export { useXRGrab } from './useXRGrab';
+export { useUrlStateSync } from './useUrlStateSync';
+export { useCartSync } from './useCartSync';
+export { useDeviceHandoff } from './useDeviceHandoff';
+export type { HandoffStatus, HandoffSummary, UseDeviceHandoffReturn } from './useDeviceHandoff';
 export type { AnalyticsEventType } from './useAnalytics';
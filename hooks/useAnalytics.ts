@@ -1,7 +1,8 @@
 'use client';
 
 import { useCallback, useEffect, useRef, useState } from 'react';
-import type { Product } from '../lib/types';
+import { BASE_CURRENCY } from '../lib/currency';
+import type { CurrencyCode, Product } from '../lib/types';
 
 /**
  * Analytics event types for Virtual Studio
@@ -249,22 +250,22 @@ export function useAnalytics(config: Partial<AnalyticsConfig> = {}) {
   /**
    * Track checkout begin
    */
-  const trackBeginCheckout = useCallback((cartTotal: number, itemCount: number) => {
+  const trackBeginCheckout = useCallback((cartTotal: number, itemCount: number, currency: CurrencyCode = BASE_CURRENCY) => {
     trackEvent('begin_checkout', {
       cartTotal,
       itemCount,
-      currency: 'USD',
+      currency,
     });
   }, [trackEvent]);
 
   /**
    * Track checkout complete
    */
-  const trackCompleteCheckout = useCallback((orderId: string, total: number) => {
+  const trackCompleteCheckout = useCallback((orderId: string, total: number, currency: CurrencyCode = BASE_CURRENCY) => {
     trackEvent('complete_checkout', {
       orderId,
       total,
-      currency: 'USD',
+      currency,
     });
   }, [trackEvent]);
 
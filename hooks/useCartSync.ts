@@ -0,0 +1,78 @@
+'use client';
+
+import { useEffect } from 'react';
+import { API_CONFIG } from '../lib/constants';
+import { fetchCart, saveCart } from '../lib/api';
+import { useCartStore, useGalleryStore } from '../stores/MockStore';
+
+/**
+ * Sync the cart with the backend so it follows the shopper across devices
+ *
+ * - Pulls the server copy once the catalog is ready and whenever the window
+ *   regains focus; a newer revision (saved from another device) replaces the
+ *   local cart, unless local edits are still waiting to be saved
+ * - Saves local edits after a short pause; the last save wins
+ * - Failures are ignored: the local cart stays authoritative until the API
+ *   is reachable again
+ */
+export function useCartSync() {
+  const isCatalogReady = useGalleryStore((state) => state.catalogStatus === 'ready');
+
+  useEffect(() => {
+    if (!API_CONFIG.syncEnabled || !isCatalogReady) return;
+
+    let saveTimer: ReturnType<typeof setTimeout> | null = null;
+    let lastSynced: string | null = null;
+    let isApplying = false;
+
+    const save = async () => {
+      saveTimer = null;
+      const { cartId, getSnapshot, setRevision } = useCartStore.getState();
+      const snapshot = getSnapshot();
+      try {
+        const saved = await saveCart(cartId, snapshot);
+        lastSynced = JSON.stringify(snapshot);
+        setRevision(saved.revision);
+      } catch {
+        // Retried with the next edit or focus
+      }
+    };
+
+    const scheduleSave = () => {
+      if (isApplying) return;
+      if (JSON.stringify(useCartStore.getState().getSnapshot()) === lastSynced) return;
+      if (saveTimer) clearTimeout(saveTimer);
+      saveTimer = setTimeout(save, API_CONFIG.cartSyncDelay);
+    };
+
+    const pull = async () => {
+      // Pending local edits win; their save overwrites the server copy
+      if (saveTimer) return;
+      const { cartId, revision, applyServerCart } = useCartStore.getState();
+      try {
+        const remote = await fetchCart(cartId);
+        // The shopper may have edited the cart while we were fetching
+        if (remote && remote.revision > revision && !saveTimer) {
+          isApplying = true;
+          applyServerCart(remote, useGalleryStore.getState().products);
+          isApplying = false;
+          lastSynced = JSON.stringify(useCartStore.getState().getSnapshot());
+        }
+      } catch {
+        // Offline or no API: keep the local cart
+      }
+      // Upload anything the server doesn't have yet (first sync, offline edits)
+      scheduleSave();
+    };
+
+    const unsubscribe = useCartStore.subscribe(scheduleSave);
+    window.addEventListener('focus', pull);
+    pull();
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('focus', pull);
+      if (saveTimer) clearTimeout(saveTimer);
+    };
+  }, [isCatalogReady]);
+}
@@ -0,0 +1,169 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { API_CONFIG, HANDOFF_CONFIG } from '../lib/constants';
+import { createHandoff, fetchHandoff, isApiError } from '../lib/api';
+import { parseHandoffInput } from '../lib/handoff';
+import { useCartStore, useGalleryStore, useWishlistStore } from '../stores/MockStore';
+import type { HandoffPayload, HandoffTicket } from '../lib/types';
+
+export type HandoffStatus = 'idle' | 'sending' | 'waiting' | 'receiving' | 'received' | 'error';
+
+/**
+ * What a received handoff brought over, for the confirmation message
+ */
+export interface HandoffSummary {
+  cartItems: number;
+  wishlistItems: number;
+  productName: string | null;
+}
+
+function buildPayload(): HandoffPayload {
+  const cart = useCartStore.getState();
+  const { collections } = useWishlistStore.getState();
+  return {
+    cartId: cart.cartId,
+    cartRevision: cart.revision,
+    cart: cart.getSnapshot(),
+    wishlist: collections.map(({ name, items }) => ({ name, items })),
+    productId: useGalleryStore.getState().currentProduct?.id ?? null,
+  };
+}
+
+/**
+ * Units in the cart's resolved lines
+ */
+function countCartUnits(): number {
+  return useCartStore.getState().items.reduce((total, line) => total + line.quantity, 0);
+}
+
+/**
+ * Apply a handoff to the local stores. Needs the catalog loaded, since cart
+ * lines and wishlist items resolve against it.
+ */
+function applyHandoff(payload: HandoffPayload): HandoffSummary {
+  const { products } = useGalleryStore.getState();
+  const cart = useCartStore.getState();
+  // Receiving our own cart again replaces the local lines instead of merging them
+  const localUnits = cart.cartId === payload.cartId ? 0 : countCartUnits();
+  cart.adoptHandoffCart(payload.cartId, payload.cartRevision, payload.cart, products);
+  // What the merged cart actually took in, after removed products and stock caps
+  const cartItems = Math.max(0, countCartUnits() - localUnits);
+  const wishlistItems = useWishlistStore.getState().importCollections(payload.wishlist);
+
+  let productName: string | null = null;
+  if (payload.productId) {
+    useGalleryStore.getState().goToProductById(payload.productId);
+    const { currentProduct } = useGalleryStore.getState();
+    productName = currentProduct?.id === payload.productId ? currentProduct.name : null;
+  }
+
+  return {
+    cartItems,
+    wishlistItems,
+    productName,
+  };
+}
+
+function describeError(error: unknown): string {
+  return isApiError(error) ? error.message : "Couldn't reach the studio server. Check both devices are on the same network.";
+}
+
+/**
+ * Move the cart, wishlist and current product between devices, e.g. from a
+ * phone to a headset
+ *
+ * - `send()` parks the current state on the server under a short pairing code
+ * - `receive(code)` picks it up on the other device; the cart merges with the
+ *   local one and both devices keep syncing it (see useCartSync)
+ * - Opening a `?handoff=<code>` link receives automatically once the catalog loads
+ */
+export function useDeviceHandoff() {
+  const isCatalogReady = useGalleryStore((state) => state.catalogStatus === 'ready');
+  const [status, setStatus] = useState<HandoffStatus>('idle');
+  const [ticket, setTicket] = useState<HandoffTicket | null>(null);
+  const [summary, setSummary] = useState<HandoffSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const hasCheckedLink = useRef(false);
+
+  const send = useCallback(async () => {
+    setStatus('sending');
+    setError(null);
+    try {
+      setTicket(await createHandoff(buildPayload()));
+      setStatus('waiting');
+    } catch (sendError) {
+      setError(describeError(sendError));
+      setStatus('error');
+    }
+  }, []);
+
+  const receive = useCallback(async (input: string): Promise<boolean> => {
+    const code = parseHandoffInput(input);
+    if (!code) {
+      setError(`Enter the ${HANDOFF_CONFIG.codeLength}-character code shown on the other device`);
+      setStatus('error');
+      return false;
+    }
+
+    setStatus('receiving');
+    setError(null);
+    try {
+      const payload = await fetchHandoff(code);
+      if (!payload) {
+        setError('That code has expired or does not exist. Send again from the other device.');
+        setStatus('error');
+        return false;
+      }
+      setSummary(applyHandoff(payload));
+      setStatus('received');
+      return true;
+    } catch (receiveError) {
+      setError(describeError(receiveError));
+      setStatus('error');
+      return false;
+    }
+  }, []);
+
+  const reset = useCallback(() => {
+    setTicket(null);
+    setSummary(null);
+    setError(null);
+    setStatus('idle');
+  }, []);
+
+  // Pick up a handoff link like /?handoff=<code>, then drop the code from the URL
+  useEffect(() => {
+    if (!API_CONFIG.syncEnabled || !isCatalogReady || hasCheckedLink.current) return;
+    hasCheckedLink.current = true;
+
+    const url = new URL(window.location.href);
+    const code = url.searchParams.get(HANDOFF_CONFIG.param);
+    if (!code) return;
+
+    url.searchParams.delete(HANDOFF_CONFIG.param);
+    window.history.replaceState(window.history.state, '', `${url.pathname}${url.search}${url.hash}`);
+    receive(code);
+  }, [isCatalogReady, receive]);
+
+  // The server forgets the code when it expires, so stop showing it
+  useEffect(() => {
+    if (!ticket) return;
+    const timer = setTimeout(reset, Math.max(0, ticket.expiresAt - Date.now()));
+    return () => clearTimeout(timer);
+  }, [ticket, reset]);
+
+  return {
+    isAvailable: API_CONFIG.syncEnabled,
+    canReceive: isCatalogReady,
+    status,
+    ticket,
+    summary,
+    error,
+    send,
+    receive,
+    reset,
+  };
+}
+
+export type UseDeviceHandoffReturn = ReturnType<typeof useDeviceHandoff>;
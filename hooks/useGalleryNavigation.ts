@@ -1,36 +1,43 @@
 import { useEffect, useCallback, useRef } from 'react';
 import { INPUT_CONFIG, GALLERY_CONFIG } from '../lib/constants';
-import { useGalleryStore } from '../stores/MockStore';
+import { useGalleryStore, useModalStore } from '../stores/MockStore';
+import { useRoomDesignerStore } from '../stores/RoomDesignerStore';
+import { isTextEntryTarget } from './useMenuNavigation';
 import type { NavigationDirection, NavigationState } from '../lib/types';
 
 /**
  * Custom hook for handling keyboard and gamepad navigation in the gallery
- * Supports keyboard arrows, WASD keys, and gamepad D-Pad/buttons
+ * Supports keyboard arrows, WASD keys, and gamepad D-Pad/buttons.
+ * Navigation walks the filtered view; dedicated keys/buttons open the filter menu and search.
  */
 export function useGalleryNavigation(): NavigationState {
   const { 
     currentIndex, 
-    products, 
+    visibleProducts, 
     nextProduct, 
     previousProduct, 
     isTransitioning,
     setTransitioning 
   } = useGalleryStore();
+  const { isFilterMenuOpen, isSearchOpen, toggleFilterMenu, openSearch } = useModalStore();
+  const isOverlayOpen = isFilterMenuOpen || isSearchOpen;
 
   const lastInputTime = useRef<number>(0);
   const gamepadInterval = useRef<ReturnType<typeof setInterval> | null>(null);
+  const filterButtonHeld = useRef(false);
+  const searchButtonHeld = useRef(false);
 
   const canNavigate = useCallback(() => {
     const now = Date.now();
     if (now - lastInputTime.current < GALLERY_CONFIG.navigation.debounceDelay) {
       return false;
     }
-    if (isTransitioning) {
+    if (isTransitioning || isOverlayOpen) {
       return false;
     }
     lastInputTime.current = now;
     return true;
-  }, [isTransitioning]);
+  }, [isTransitioning, isOverlayOpen]);
 
   const handleNavigation = useCallback((direction: NavigationDirection) => {
     if (!canNavigate()) return;
@@ -49,25 +56,50 @@ export function useGalleryNavigation(): NavigationState {
 
   // Keyboard event handler
   const handleKeyDown = useCallback((event: KeyboardEvent) => {
-    const { next, previous } = INPUT_CONFIG.keyboard;
+    const { next, previous, filter, search } = INPUT_CONFIG.keyboard;
 
-    if (next.includes(event.code)) {
+    // Don't hijack keystrokes typed into form fields
+    if (isTextEntryTarget(event.target)) return;
+    // The room designer covers the gallery and has its own shortcuts
+    if (useRoomDesignerStore.getState().isOpen) return;
+
+    if (filter.includes(event.code)) {
+      event.preventDefault();
+      toggleFilterMenu();
+    } else if (search.includes(event.code)) {
+      event.preventDefault();
+      openSearch();
+    } else if (next.includes(event.code)) {
       event.preventDefault();
       handleNavigation('next');
     } else if (previous.includes(event.code)) {
       event.preventDefault();
       handleNavigation('previous');
     }
-  }, [handleNavigation]);
+  }, [handleNavigation, toggleFilterMenu, openSearch]);
 
   // Gamepad polling function
   const pollGamepad = useCallback(() => {
+    if (useRoomDesignerStore.getState().isOpen) return;
     const gamepads = navigator.getGamepads?.() ?? [];
     
     for (const gamepad of gamepads) {
       if (!gamepad) continue;
 
-      const { next, previous } = INPUT_CONFIG.gamepad;
+      const { next, previous, filter, search } = INPUT_CONFIG.gamepad;
+
+      // Open overlays once per press, not on every poll while held
+      const filterPressed = gamepad.buttons[filter]?.pressed ?? false;
+      if (filterPressed && !filterButtonHeld.current) {
+        toggleFilterMenu();
+      }
+      filterButtonHeld.current = filterPressed;
+
+      const searchPressed = gamepad.buttons[search]?.pressed ?? false;
+      if (searchPressed && !searchButtonHeld.current) {
+        openSearch();
+      }
+      searchButtonHeld.current = searchPressed;
 
       // Check D-Pad buttons
       if (gamepad.buttons[next]?.pressed) {
@@ -76,7 +108,7 @@ export function useGalleryNavigation(): NavigationState {
         handleNavigation('previous');
       }
     }
-  }, [handleNavigation]);
+  }, [handleNavigation, toggleFilterMenu, openSearch]);
 
   // Set up keyboard listeners
   useEffect(() => {
@@ -120,10 +152,10 @@ export function useGalleryNavigation(): NavigationState {
   }, []);
 
   return {
-    canGoNext: currentIndex < products.length - 1 || products.length > 1,
-    canGoPrevious: currentIndex > 0 || products.length > 1,
+    canGoNext: currentIndex < visibleProducts.length - 1 || visibleProducts.length > 1,
+    canGoPrevious: currentIndex > 0 || visibleProducts.length > 1,
     currentIndex,
-    totalProducts: products.length,
+    totalProducts: visibleProducts.length,
   };
 }
 
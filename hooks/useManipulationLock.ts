@@ -0,0 +1,50 @@
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+import { useXRPreviewStore } from '../stores/XRPreviewStore';
+import { XR_PREVIEW_CONFIG } from '../lib/constants';
+
+/**
+ * Mark XR interactions that aren't placement requests (touch gestures,
+ * grabs, wrist menu presses) so the select events they cause don't move
+ * the AR product.
+ *
+ * `end` keeps the lock for `XR_PREVIEW_CONFIG.ar.manipulation.selectGracePeriod`,
+ * since the select that ends an interaction can arrive after it.
+ */
+export function useManipulationLock() {
+  const setManipulating = useXRPreviewStore((state) => state.setManipulating);
+  const releaseTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const clearReleaseTimer = useCallback(() => {
+    if (releaseTimer.current) {
+      clearTimeout(releaseTimer.current);
+      releaseTimer.current = null;
+    }
+  }, []);
+
+  const begin = useCallback(() => {
+    clearReleaseTimer();
+    setManipulating(true);
+  }, [clearReleaseTimer, setManipulating]);
+
+  const end = useCallback(() => {
+    clearReleaseTimer();
+    releaseTimer.current = setTimeout(() => {
+      releaseTimer.current = null;
+      setManipulating(false);
+    }, XR_PREVIEW_CONFIG.ar.manipulation.selectGracePeriod);
+  }, [clearReleaseTimer, setManipulating]);
+
+  useEffect(
+    () => () => {
+      clearReleaseTimer();
+      setManipulating(false);
+    },
+    [clearReleaseTimer, setManipulating]
+  );
+
+  return { begin, end };
+}
+
+export type UseManipulationLockReturn = ReturnType<typeof useManipulationLock>;
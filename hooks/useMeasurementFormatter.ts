@@ -0,0 +1,22 @@
+'use client';
+
+import { useCallback } from 'react';
+import { useLocaleStore } from '../stores/LocaleStore';
+import { useXRPreviewStore } from '../stores/XRPreviewStore';
+import { formatLength as formatLengthIn, getLocaleMeasurementSystem } from '../lib/measurements';
+
+/**
+ * Length formatting in the shopper's units: the XR preview's chosen
+ * measurement system, or the display locale's when none was picked
+ */
+export function useMeasurementFormatter() {
+  const locale = useLocaleStore((state) => state.locale);
+  const preference = useXRPreviewStore((state) => state.measurementSystem);
+  const system = preference ?? getLocaleMeasurementSystem(locale);
+
+  const formatLength = useCallback((meters: number) => formatLengthIn(meters, system), [system]);
+
+  return { system, formatLength };
+}
+
+export type UseMeasurementFormatterReturn = ReturnType<typeof useMeasurementFormatter>;
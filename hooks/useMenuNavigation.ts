@@ -0,0 +1,110 @@
+import { useEffect, useRef } from 'react';
+import { INPUT_CONFIG } from '../lib/constants';
+
+export type MenuAction = 'up' | 'down' | 'left' | 'right' | 'select' | 'exit';
+
+export type MenuNavigationHandlers = Partial<Record<MenuAction, () => void>>;
+
+const KEYBOARD_BINDINGS: Record<MenuAction, readonly string[]> = {
+  up: INPUT_CONFIG.keyboard.up,
+  down: INPUT_CONFIG.keyboard.down,
+  left: INPUT_CONFIG.keyboard.previous,
+  right: INPUT_CONFIG.keyboard.next,
+  select: INPUT_CONFIG.keyboard.select,
+  exit: INPUT_CONFIG.keyboard.exit,
+};
+
+const GAMEPAD_BINDINGS: Record<MenuAction, number> = {
+  up: INPUT_CONFIG.gamepad.up,
+  down: INPUT_CONFIG.gamepad.down,
+  left: INPUT_CONFIG.gamepad.previous,
+  right: INPUT_CONFIG.gamepad.next,
+  select: INPUT_CONFIG.gamepad.select,
+  exit: INPUT_CONFIG.gamepad.exit,
+};
+
+const MENU_ACTIONS = Object.keys(KEYBOARD_BINDINGS) as MenuAction[];
+
+/**
+ * True when the event comes from a field the user is typing into.
+ * Letter bindings (WASD, Space) must not fire while typing.
+ */
+export function isTextEntryTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.tagName === 'INPUT' ||
+    target.tagName === 'TEXTAREA' ||
+    target.tagName === 'SELECT' ||
+    target.isContentEditable
+  );
+}
+
+/**
+ * D-Pad style menu navigation for overlays (filter menu, search results)
+ * Maps keyboard arrows/WASD and gamepad D-Pad/A/B to menu actions while `enabled`.
+ * Gamepad buttons fire once per press rather than repeating while held.
+ */
+export function useMenuNavigation(enabled: boolean, handlers: MenuNavigationHandlers) {
+  // Keep the latest handlers without re-subscribing listeners on every render
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const typing = isTextEntryTarget(event.target);
+
+      for (const action of MENU_ACTIONS) {
+        if (!KEYBOARD_BINDINGS[action].includes(event.code)) continue;
+        // While typing only the non-character keys navigate
+        if (typing && !/^(Arrow|Enter|Escape)/.test(event.code)) return;
+        // Left/right move the caret inside text fields
+        if (typing && (action === 'left' || action === 'right')) return;
+
+        const handler = handlersRef.current[action];
+        if (handler) {
+          event.preventDefault();
+          event.stopPropagation();
+          handler();
+        }
+        return;
+      }
+    };
+
+    // Capture phase so the menu wins over gallery navigation
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [enabled]);
+
+  useEffect(() => {
+    if (!enabled || typeof navigator === 'undefined' || !navigator.getGamepads) return;
+
+    const previouslyPressed = new Set<string>();
+
+    const poll = () => {
+      const gamepads = navigator.getGamepads?.() ?? [];
+
+      for (const gamepad of gamepads) {
+        if (!gamepad) continue;
+
+        for (const action of MENU_ACTIONS) {
+          const key = `${gamepad.index}:${action}`;
+          const pressed = gamepad.buttons[GAMEPAD_BINDINGS[action]]?.pressed ?? false;
+
+          if (pressed && !previouslyPressed.has(key)) {
+            previouslyPressed.add(key);
+            handlersRef.current[action]?.();
+          } else if (!pressed) {
+            previouslyPressed.delete(key);
+          }
+        }
+      }
+    };
+
+    const interval = setInterval(poll, 100);
+    return () => clearInterval(interval);
+  }, [enabled]);
+}
+
+export default useMenuNavigation;
@@ -0,0 +1,47 @@
+'use client';
+
+import { useCallback } from 'react';
+import { useLocaleStore } from '../stores/LocaleStore';
+import { convertPrice, formatMoney as formatMoneyIn, formatPrice as formatPriceIn } from '../lib/currency';
+import type { CurrencyCode } from '../lib/types';
+
+/**
+ * Price formatting bound to the shopper's currency and locale
+ *
+ * - `formatPrice` converts a base-currency catalog price, optionally at a
+ *   locked rate (e.g. the cart's)
+ * - `formatMoney` formats an amount that is already converted
+ * - `formatRoundPrice` converts a catalog price and drops the minor unit
+ */
+export function usePriceFormatter() {
+  const currency = useLocaleStore((state) => state.currency);
+  const locale = useLocaleStore((state) => state.locale);
+
+  const formatPrice = useCallback(
+    (amount: number, pricedIn?: { currency: CurrencyCode; exchangeRate: number }) => {
+      return pricedIn
+        ? formatPriceIn(amount, pricedIn.currency, locale, pricedIn.exchangeRate)
+        : formatPriceIn(amount, currency, locale);
+    },
+    [currency, locale]
+  );
+
+  const formatMoney = useCallback(
+    (amount: number, amountCurrency: CurrencyCode = currency) => {
+      return formatMoneyIn(amount, amountCurrency, locale);
+    },
+    [currency, locale]
+  );
+
+  /** Converted catalog price without the minor unit, for range labels */
+  const formatRoundPrice = useCallback(
+    (amount: number) => {
+      return formatMoneyIn(convertPrice(amount, currency), currency, locale, true);
+    },
+    [currency, locale]
+  );
+
+  return { currency, locale, formatPrice, formatMoney, formatRoundPrice };
+}
+
+export type UsePriceFormatterReturn = ReturnType<typeof usePriceFormatter>;
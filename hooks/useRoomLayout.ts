@@ -0,0 +1,19 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useCustomRoomStore } from '../stores/CustomRoomStore';
+import { getRoomLayout } from '../lib/customRoom';
+import type { RoomLayout } from '../lib/customRoom';
+import type { VRRoomTemplate } from '../lib/types';
+
+/**
+ * Size, doors, windows and finishes of a room template, following edits
+ * to the active custom room
+ */
+export function useRoomLayout(templateId: VRRoomTemplate): RoomLayout {
+  const activeRoom = useCustomRoomStore(
+    (state) => state.rooms.find((room) => room.id === state.activeRoomId) ?? null
+  );
+
+  return useMemo(() => getRoomLayout(templateId, activeRoom), [templateId, activeRoom]);
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useGalleryStore } from '../stores/MockStore';
+import { useXRPreviewStore } from '../stores/XRPreviewStore';
+import { buildStudioUrl, parseStudioUrl } from '../lib/urlState';
+import type { StudioUrlState } from '../lib/urlState';
+
+function getStudioState(): StudioUrlState {
+  const { currentProduct, filter, sortOrder } = useGalleryStore.getState();
+  const { isActive, mode, vrRoomTemplate } = useXRPreviewStore.getState();
+  return {
+    productId: currentProduct?.id ?? null,
+    filter,
+    sortOrder,
+    preview: isActive ? mode : null,
+    room: vrRoomTemplate,
+  };
+}
+
+/**
+ * Apply the address bar to the gallery and XR preview stores
+ */
+function restoreFromUrl() {
+  const target = parseStudioUrl(window.location.pathname, window.location.search);
+  const gallery = useGalleryStore.getState();
+
+  gallery.setFilter(target.filter);
+  gallery.setSortOrder(target.sortOrder);
+  if (target.productId) {
+    // Unknown ids are ignored; the URL is then rewritten to the current product
+    gallery.goToProductById(target.productId);
+  }
+
+  const preview = useXRPreviewStore.getState();
+  // Switching rooms resets staged products, so only switch when it changed
+  if (target.room && target.room !== preview.vrRoomTemplate) {
+    preview.setVRRoomTemplate(target.room);
+  }
+
+  const product = useGalleryStore.getState().currentProduct;
+  if (!target.preview || !product) {
+    if (preview.isActive) preview.exitPreview();
+  } else if (!preview.isActive || preview.mode !== target.preview || preview.selectedProduct?.id !== product.id) {
+    if (target.preview === 'ar') {
+      preview.startARPreview(product);
+    } else {
+      preview.startVRPreview(product);
+    }
+  }
+}
+
+/**
+ * Keep the URL and the studio stores in sync once the catalog has loaded
+ *
+ * - `/product/:id` restores the current product; `?type=`, `?vibe=`,
+ *   `?minPrice=`/`?maxPrice=`, `?maxWidth=`/`?maxHeight=` and `?sort=` the
+ *   filter; `?preview=ar|vr&room=` the XR preview
+ * - Moving between products or in/out of a preview adds a history entry, so
+ *   back/forward step through them; filter and sort changes replace the entry
+ */
+export function useUrlStateSync() {
+  const isCatalogReady = useGalleryStore((state) => state.catalogStatus === 'ready');
+  const hasRestored = useRef(false);
+
+  useEffect(() => {
+    if (!isCatalogReady) return;
+
+    // Store updates made while applying the URL only rewrite the current entry
+    let isRestoring = false;
+
+    const syncUrl = () => {
+      const { pathname, search } = window.location;
+      const state = getStudioState();
+      const next = buildStudioUrl(state, search);
+      if (next === `${pathname}${search}`) return;
+
+      const previous = parseStudioUrl(pathname, search);
+      const isNavigation = !isRestoring
+        && (previous.productId !== state.productId || previous.preview !== state.preview);
+
+      if (isNavigation) {
+        window.history.pushState(null, '', next);
+      } else {
+        window.history.replaceState(null, '', next);
+      }
+    };
+
+    const restore = () => {
+      isRestoring = true;
+      restoreFromUrl();
+      syncUrl();
+      isRestoring = false;
+    };
+
+    if (!hasRestored.current) {
+      hasRestored.current = true;
+      restore();
+    } else {
+      syncUrl();
+    }
+
+    const unsubscribeGallery = useGalleryStore.subscribe(syncUrl);
+    const unsubscribePreview = useXRPreviewStore.subscribe(syncUrl);
+    window.addEventListener('popstate', restore);
+
+    return () => {
+      unsubscribeGallery();
+      unsubscribePreview();
+      window.removeEventListener('popstate', restore);
+    };
+  }, [isCatalogReady]);
+}
@@ -0,0 +1,151 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { useXR } from '@react-three/xr';
+import * as THREE from 'three';
+import { useManipulationLock } from './useManipulationLock';
+import { getAngleDelta, measurePointerPair } from '../lib/xrManipulation';
+import type { ProductAdjustmentChange } from '../lib/xrManipulation';
+import { isHandGrabbing, measureHandGrip } from '../lib/handTracking';
+
+/**
+ * Controller or hand holding the product, with its pose last frame
+ */
+interface Grab {
+  inputSource: XRInputSource;
+  /** Squeeze button (controllers) or a closed fist (tracked hands) */
+  via: 'squeeze' | 'fist';
+  position: THREE.Vector3;
+  yaw: number;
+  hasPose: boolean;
+}
+
+// Reused every frame to avoid allocations while grabbing
+const grabMove = new THREE.Vector3();
+const grabQuaternion = new THREE.Quaternion();
+const grabEuler = new THREE.Euler();
+const framePositions = [new THREE.Vector3(), new THREE.Vector3()];
+
+/**
+ * Turn XR grabs into product adjustments, reported once per frame while
+ * something is held:
+ *
+ * - Controllers grab with the squeeze button; tracked hands by making a fist,
+ *   since most browsers don't fire squeeze for hands
+ * - One hand carries the product and turns it with the wrist
+ * - Two hands scale it by the change in the gap between them, and turn it
+ *   as the pair turns
+ *
+ * Grabs hold the manipulation lock, so releasing one doesn't re-place the
+ * AR product. Must be used inside `<XR>`.
+ */
+export function useXRGrab(onGrab: (change: ProductAdjustmentChange) => void) {
+  const grabs = useRef<Grab[]>([]);
+  const onGrabRef = useRef(onGrab);
+  onGrabRef.current = onGrab;
+
+  const session = useXR((xr) => xr.session);
+  const referenceSpace = useXR((xr) => xr.originReferenceSpace);
+  const { begin, end } = useManipulationLock();
+
+  const startGrab = (inputSource: XRInputSource, via: Grab['via']) => {
+    if (grabs.current.some((grab) => grab.inputSource === inputSource)) return;
+    grabs.current.push({ inputSource, via, position: new THREE.Vector3(), yaw: 0, hasPose: false });
+    begin();
+  };
+  const endGrab = (inputSource: XRInputSource) => {
+    const remaining = grabs.current.filter((grab) => grab.inputSource !== inputSource);
+    if (remaining.length === grabs.current.length) return;
+    grabs.current = remaining;
+    if (remaining.length === 0) end();
+  };
+  // Listeners bind once per session; read the latest handlers through a ref
+  const handlers = useRef({ startGrab, endGrab });
+  handlers.current = { startGrab, endGrab };
+
+  useEffect(() => {
+    if (!session) return;
+
+    const handleSqueezeStart = (event: XRInputSourceEvent) => {
+      // Screen touches are handled by the AR gesture layer
+      if (event.inputSource.targetRayMode === 'screen') return;
+      handlers.current.startGrab(event.inputSource, 'squeeze');
+    };
+    const handleSqueezeEnd = (event: XRInputSourceEvent) => handlers.current.endGrab(event.inputSource);
+
+    session.addEventListener('squeezestart', handleSqueezeStart);
+    session.addEventListener('squeezeend', handleSqueezeEnd);
+    return () => {
+      session.removeEventListener('squeezestart', handleSqueezeStart);
+      session.removeEventListener('squeezeend', handleSqueezeEnd);
+      grabs.current = [];
+    };
+  }, [session]);
+
+  useFrame((_state, _delta, frame?: XRFrame) => {
+    if (!frame || !session || !referenceSpace) return;
+
+    for (const inputSource of Array.from(session.inputSources)) {
+      if (!inputSource.hand) continue;
+      const grip = measureHandGrip(frame, inputSource.hand, referenceSpace);
+      if (grip === null) continue;
+      const wasGrabbing = grabs.current.some((grab) => grab.inputSource === inputSource && grab.via === 'fist');
+      const grabbing = isHandGrabbing(grip, wasGrabbing);
+      if (grabbing && !wasGrabbing) {
+        startGrab(inputSource, 'fist');
+      } else if (!grabbing && wasGrabbing) {
+        endGrab(inputSource);
+      }
+    }
+    if (grabs.current.length === 0) return;
+
+    // Compare this frame's poses with the last; inputs that lost tracking sit out
+    const moved: { grab: Grab; position: THREE.Vector3; yaw: number }[] = [];
+    for (const grab of grabs.current) {
+      const space = grab.inputSource.gripSpace ?? grab.inputSource.targetRaySpace;
+      const pose = frame.getPose(space, referenceSpace);
+      if (!pose) {
+        grab.hasPose = false;
+        continue;
+      }
+      const { position, orientation } = pose.transform;
+      grabQuaternion.set(orientation.x, orientation.y, orientation.z, orientation.w);
+      const yaw = grabEuler.setFromQuaternion(grabQuaternion, 'YXZ').y;
+      if (grab.hasPose && moved.length < framePositions.length) {
+        moved.push({ grab, position: framePositions[moved.length].set(position.x, position.y, position.z), yaw });
+      } else {
+        grab.position.set(position.x, position.y, position.z);
+        grab.yaw = yaw;
+        grab.hasPose = true;
+      }
+    }
+
+    if (moved.length === 2) {
+      // Two hands: the gap between them scales, turning the pair turns the product
+      const [a, b] = moved;
+      const before = measurePointerPair(
+        { x: a.grab.position.x, y: a.grab.position.z },
+        { x: b.grab.position.x, y: b.grab.position.z }
+      );
+      const after = measurePointerPair({ x: a.position.x, y: a.position.z }, { x: b.position.x, y: b.position.z });
+      const previousGap = a.grab.position.distanceTo(b.grab.position);
+      onGrabRef.current({
+        scaleBy: previousGap > 0 ? a.position.distanceTo(b.position) / previousGap : 1,
+        rotateY: -getAngleDelta(before.angle, after.angle),
+      });
+    } else if (moved.length === 1) {
+      // One hand carries the product and turns it with the wrist
+      const [{ grab, position, yaw }] = moved;
+      onGrabRef.current({
+        move: grabMove.subVectors(position, grab.position),
+        rotateY: getAngleDelta(grab.yaw, yaw),
+      });
+    }
+
+    for (const { grab, position, yaw } of moved) {
+      grab.position.copy(position);
+      grab.yaw = yaw;
+    }
+  });
+}
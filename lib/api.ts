@@ -0,0 +1,129 @@
+// ============================================
+// Backend API Client
+// ============================================
+
+import { API_CONFIG } from './constants';
+import type {
+  ApiErrorBody,
+  ApiErrorCode,
+  CartSnapshot,
+  HandoffPayload,
+  HandoffTicket,
+  Order,
+  ServerCart,
+} from './types';
+
+/**
+ * Error response from the API. Network failures and timeouts are plain
+ * errors, so callers can tell "the server said no" from "try again later".
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: ApiErrorCode;
+
+  constructor(status: number, code: ApiErrorCode, message: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), API_CONFIG.requestTimeout);
+
+  try {
+    const response = await fetch(`${API_CONFIG.baseUrl}${path}`, {
+      ...init,
+      headers: { Accept: 'application/json', 'Content-Type': 'application/json', ...init.headers },
+      signal: controller.signal,
+    });
+    const payload: unknown = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      const body = payload as Partial<ApiErrorBody> | null;
+      throw new ApiError(
+        response.status,
+        body?.code ?? 'server_error',
+        body?.error ?? `API request failed (${response.status} ${response.statusText})`
+      );
+    }
+    return payload as T;
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new Error(`API request timed out after ${API_CONFIG.requestTimeout}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Fetch a synced cart, or null if it was never saved
+ */
+export async function fetchCart(cartId: string): Promise<ServerCart | null> {
+  try {
+    return await request<ServerCart>(`/carts/${encodeURIComponent(cartId)}`);
+  } catch (error) {
+    if (isApiError(error) && error.status === 404) return null;
+    throw error;
+  }
+}
+
+export function saveCart(cartId: string, snapshot: CartSnapshot): Promise<ServerCart> {
+  return request<ServerCart>(`/carts/${encodeURIComponent(cartId)}`, {
+    method: 'PUT',
+    body: JSON.stringify(snapshot),
+  });
+}
+
+/**
+ * Record a paid order. The server re-prices it and returns its own copy.
+ */
+export function postOrder(order: Order): Promise<Order> {
+  return request<Order>('/orders', {
+    method: 'POST',
+    body: JSON.stringify(order),
+  });
+}
+
+/**
+ * Look up an order by id and the email it was placed with
+ */
+export async function fetchOrder(orderId: string, email: string): Promise<Order | null> {
+  const params = new URLSearchParams({ email });
+  try {
+    return await request<Order>(`/orders/${encodeURIComponent(orderId)}?${params}`);
+  } catch (error) {
+    if (isApiError(error) && error.status === 404) return null;
+    throw error;
+  }
+}
+
+/**
+ * Park the cart, wishlist and current product for another device to pick up
+ */
+export function createHandoff(payload: HandoffPayload): Promise<HandoffTicket> {
+  return request<HandoffTicket>('/handoffs', {
+    method: 'POST',
+    body: JSON.stringify(payload),
+  });
+}
+
+/**
+ * Fetch a handoff by pairing code, or null if it expired or never existed
+ */
+export async function fetchHandoff(code: string): Promise<HandoffPayload | null> {
+  try {
+    return await request<HandoffPayload>(`/handoffs/${encodeURIComponent(code)}`);
+  } catch (error) {
+    if (isApiError(error) && error.status === 404) return null;
+    throw error;
+  }
+}
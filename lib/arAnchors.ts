@@ -0,0 +1,66 @@
+// ============================================
+// Persistent AR Anchors
+// ============================================
+
+import * as THREE from 'three';
+import type { ARPlacement } from './arPlacement';
+import type { ProductAdjustment } from './xrManipulation';
+import type { PlacementSurface } from './productTypes';
+
+/**
+ * A product placement anchored in the shopper's room. The pose lives with
+ * the device's persistent anchor; only its handle is stored here.
+ */
+export interface SavedPlacement {
+  /** Persistent anchor handle (a UUID issued by the browser) */
+  id: string;
+  productId: string;
+  variantId: string | null;
+  /** Name when saved, for listing products no longer in the catalog */
+  productName: string;
+  surface: PlacementSurface;
+  /** Gesture scale; position and turn are part of the anchor pose */
+  scale: number;
+  savedAt: number;
+}
+
+const yawEuler = new THREE.Euler(0, 0, 0, 'YXZ');
+const poseQuaternion = new THREE.Quaternion();
+const offset = new THREE.Vector3();
+
+/**
+ * Whether the session can save and restore anchors across sessions
+ * (Quest browser). Other browsers may still support session-only anchors.
+ */
+export function supportsPersistentAnchors(session: XRSession | undefined): boolean {
+  if (!session?.restorePersistentAnchor) return false;
+  return session.enabledFeatures?.includes('anchors') ?? true;
+}
+
+/**
+ * World pose of a placed product with gestures applied, for anchoring it
+ */
+export function getPlacementPose(
+  placement: ARPlacement,
+  adjustment: ProductAdjustment,
+  position: THREE.Vector3,
+  quaternion: THREE.Quaternion
+): void {
+  position.fromArray(placement.position).add(offset.fromArray(adjustment.offset));
+  quaternion.setFromEuler(yawEuler.set(0, placement.rotationY + adjustment.rotationY, 0));
+}
+
+/**
+ * Placement matching a restored anchor's pose. Only the heading is kept, so
+ * small tracking tilts don't lean the product.
+ */
+export function getAnchorPlacement(pose: XRPose, surface: PlacementSurface): ARPlacement {
+  const { position, orientation } = pose.transform;
+  poseQuaternion.set(orientation.x, orientation.y, orientation.z, orientation.w);
+  yawEuler.setFromQuaternion(poseQuaternion, 'YXZ');
+  return {
+    surface,
+    position: [position.x, position.y, position.z],
+    rotationY: yawEuler.y,
+  };
+}
@@ -0,0 +1,98 @@
+// ============================================
+// AR Surface Placement
+// ============================================
+
+import * as THREE from 'three';
+import { GALLERY_CONFIG, XR_PREVIEW_CONFIG } from './constants';
+import { getPlacementRule } from './productTypes';
+import type { PlacementSurface } from './productTypes';
+import type { Product } from './types';
+
+/**
+ * Where a product sits in the AR session's world space. Products face +Z
+ * in their own frame, so `rotationY` turns that front toward the viewer or
+ * out of the wall.
+ */
+export interface ARPlacement {
+  surface: PlacementSurface;
+  position: [number, number, number];
+  rotationY: number;
+}
+
+const UP = new THREE.Vector3(0, 1, 0);
+const surfaceNormal = new THREE.Vector3();
+const hitPosition = new THREE.Vector3();
+
+/**
+ * Classify a hit-test surface by its normal: facing up is floor, facing
+ * sideways is wall. Ceilings and steep slopes return null.
+ */
+export function classifySurface(normal: THREE.Vector3): PlacementSurface | null {
+  const tolerance = THREE.MathUtils.degToRad(XR_PREVIEW_CONFIG.ar.placement.surfaceAngleTolerance);
+  const upness = normal.dot(UP);
+  if (upness >= Math.cos(tolerance)) return 'floor';
+  // A wall's normal is (nearly) perpendicular to up
+  if (Math.abs(upness) <= Math.sin(tolerance)) return 'wall';
+  return null;
+}
+
+/**
+ * Surface normal of a WebXR hit-test pose, whose local +Y points out of the surface
+ */
+export function getHitNormal(hitMatrix: THREE.Matrix4, target: THREE.Vector3): THREE.Vector3 {
+  return target.setFromMatrixColumn(hitMatrix, 1).normalize();
+}
+
+/**
+ * Place a product on a hit-test result, or return null when the surface
+ * doesn't suit it (art on the floor, a table on a wall)
+ *
+ * - Floor items stand on the hit point, turned to face the viewer
+ * - Wall items hang flush with the wall at `GALLERY_CONFIG.display.artHeight`
+ *   above the floor, facing out of it
+ */
+export function getARPlacement(
+  product: Product,
+  hitMatrix: THREE.Matrix4,
+  viewerPosition: THREE.Vector3,
+  floorY: number
+): ARPlacement | null {
+  const { surface: required, surfaceOffset } = getPlacementRule(product);
+  getHitNormal(hitMatrix, surfaceNormal);
+  if (classifySurface(surfaceNormal) !== required) return null;
+
+  hitPosition.setFromMatrixPosition(hitMatrix);
+
+  if (required === 'wall') {
+    // Flatten the normal so the piece hangs plumb even on a slightly tilted hit
+    surfaceNormal.y = 0;
+    surfaceNormal.normalize();
+    return {
+      surface: 'wall',
+      position: [
+        hitPosition.x + surfaceNormal.x * surfaceOffset,
+        floorY + GALLERY_CONFIG.display.artHeight,
+        hitPosition.z + surfaceNormal.z * surfaceOffset,
+      ],
+      rotationY: Math.atan2(surfaceNormal.x, surfaceNormal.z),
+    };
+  }
+
+  return {
+    surface: 'floor',
+    position: [hitPosition.x, hitPosition.y + surfaceOffset, hitPosition.z],
+    rotationY: Math.atan2(viewerPosition.x - hitPosition.x, viewerPosition.z - hitPosition.z),
+  };
+}
+
+/**
+ * Spot used when hit testing is unavailable: a fixed point ahead of the
+ * viewer, treated as the product's usual surface for gestures
+ */
+export function getFallbackARPlacement(product: Product): ARPlacement {
+  return {
+    surface: getPlacementRule(product).surface,
+    position: XR_PREVIEW_CONFIG.ar.placement.fallbackPosition,
+    rotationY: 0,
+  };
+}
@@ -0,0 +1,186 @@
+// ============================================
+// Catalog Providers
+// ============================================
+
+import { CATALOG_CONFIG } from './constants';
+import { MOCK_PRODUCTS } from './mockCatalog';
+import { isProductType } from './productTypes';
+import type { CatalogPage, CatalogPageRequest, CatalogProvider, Product } from './types';
+
+/**
+ * Slice a product list into a single catalog page
+ */
+export function paginateProducts(products: Product[], request: CatalogPageRequest): CatalogPage {
+  const pageSize = Math.max(1, Math.floor(request.pageSize));
+  const totalPages = Math.max(1, Math.ceil(products.length / pageSize));
+  const page = Math.min(Math.max(1, Math.floor(request.page)), totalPages);
+  const start = (page - 1) * pageSize;
+
+  return {
+    items: products.slice(start, start + pageSize),
+    page,
+    pageSize,
+    totalItems: products.length,
+    totalPages,
+  };
+}
+
+/**
+ * Case-insensitive match against name, description and vibe
+ */
+function matchesQuery(product: Product, query: string): boolean {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return [product.name, product.description, product.vibe]
+    .some((field) => field.toLowerCase().includes(needle));
+}
+
+/**
+ * In-memory catalog backed by a static product list (defaults to the mock catalog)
+ */
+export function createMockCatalogProvider(products: Product[] = MOCK_PRODUCTS): CatalogProvider {
+  return {
+    id: 'mock',
+    listProducts: async () => [...products],
+    getProduct: async (id) => products.find((product) => product.id === id) ?? null,
+    searchProducts: async (query) => products.filter((product) => matchesQuery(product, query)),
+    getPage: async (request) => paginateProducts(products, request),
+  };
+}
+
+interface RestCatalogProviderOptions {
+  /** Base URL of the catalog service, e.g. https://api.example.com/catalog */
+  baseUrl: string;
+  /** Extra headers sent with every request (auth tokens, API keys) */
+  headers?: Record<string, string>;
+  /** Request timeout in ms */
+  timeout?: number;
+}
+
+/**
+ * Minimal structural check so malformed inventory payloads fail loudly
+ * instead of crashing the 3D renderers later on
+ */
+function isProduct(value: unknown): value is Product {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.id === 'string' &&
+    typeof candidate.name === 'string' &&
+    typeof candidate.price === 'number' &&
+    isProductType(candidate.type)
+  );
+}
+
+function parseProductList(payload: unknown): Product[] {
+  // Accept either a bare array or an `{ items: [...] }` envelope
+  const list = Array.isArray(payload)
+    ? payload
+    : (payload as { items?: unknown } | null)?.items;
+
+  if (!Array.isArray(list)) {
+    throw new Error('Catalog response is not a product list');
+  }
+  return list.filter(isProduct);
+}
+
+/**
+ * Catalog backed by a JSON/REST inventory service
+ *
+ * Expected endpoints (relative to `baseUrl`):
+ * - `GET /products`                      → Product[] or { items: Product[] }
+ * - `GET /products/:id`                  → Product (404 when missing)
+ * - `GET /products?q=term`               → Product[] or { items: Product[] }
+ * - `GET /products?page=1&pageSize=20`   → CatalogPage
+ */
+export function createRestCatalogProvider({
+  baseUrl,
+  headers = {},
+  timeout = CATALOG_CONFIG.requestTimeout,
+}: RestCatalogProviderOptions): CatalogProvider {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const request = async (path: string): Promise<Response> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeout);
+    try {
+      return await fetch(`${root}${path}`, {
+        headers: { Accept: 'application/json', ...headers },
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new Error(`Catalog request timed out after ${timeout}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  const requestJson = async (path: string): Promise<unknown> => {
+    const response = await request(path);
+    if (!response.ok) {
+      throw new Error(`Catalog request failed (${response.status} ${response.statusText})`);
+    }
+    return response.json();
+  };
+
+  return {
+    id: `rest:${root}`,
+
+    listProducts: async () => parseProductList(await requestJson('/products')),
+
+    getProduct: async (id) => {
+      const response = await request(`/products/${encodeURIComponent(id)}`);
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`Catalog request failed (${response.status} ${response.statusText})`);
+      }
+      const payload: unknown = await response.json();
+      return isProduct(payload) ? payload : null;
+    },
+
+    searchProducts: async (query) => {
+      const params = new URLSearchParams({ q: query });
+      return parseProductList(await requestJson(`/products?${params}`));
+    },
+
+    getPage: async ({ page, pageSize }) => {
+      const params = new URLSearchParams({ page: String(page), pageSize: String(pageSize) });
+      const payload = (await requestJson(`/products?${params}`)) as Partial<CatalogPage> | null;
+      const items = parseProductList(payload);
+      const totalItems = typeof payload?.totalItems === 'number' ? payload.totalItems : items.length;
+      return {
+        items,
+        page: payload?.page ?? page,
+        pageSize: payload?.pageSize ?? pageSize,
+        totalItems,
+        totalPages: payload?.totalPages ?? Math.max(1, Math.ceil(totalItems / pageSize)),
+      };
+    },
+  };
+}
+
+// ============================================
+// Active Provider
+// ============================================
+
+let activeProvider: CatalogProvider = CATALOG_CONFIG.endpoint
+  ? createRestCatalogProvider({ baseUrl: CATALOG_CONFIG.endpoint })
+  : createMockCatalogProvider();
+
+/**
+ * Get the catalog provider used by the gallery store
+ */
+export function getCatalogProvider(): CatalogProvider {
+  return activeProvider;
+}
+
+/**
+ * Swap the catalog provider (e.g. to plug in your own inventory).
+ * Call `useGalleryStore.getState().loadCatalog()` afterwards to refresh.
+ */
+export function setCatalogProvider(provider: CatalogProvider): void {
+  activeProvider = provider;
+}
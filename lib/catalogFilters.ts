@@ -0,0 +1,102 @@
+// ============================================
+// Catalog Filtering & Sorting
+// ============================================
+
+import type {
+  CatalogFacets,
+  CatalogFilter,
+  CatalogSortOrder,
+  Product,
+  ProductType,
+  VibeCategory,
+} from './types';
+import { PRODUCT_TYPES, getProductDimensions } from './productTypes';
+
+export const VIBE_CATEGORIES: VibeCategory[] = ['calm', 'upbeat', 'ambient'];
+
+export const DEFAULT_CATALOG_FILTER: CatalogFilter = {
+  types: [],
+  vibes: [],
+  priceRange: { min: null, max: null },
+  maxWidth: null,
+  maxHeight: null,
+};
+
+function matchesFilter(product: Product, filter: CatalogFilter): boolean {
+  if (filter.types.length > 0 && !filter.types.includes(product.type)) return false;
+  if (filter.vibes.length > 0 && !filter.vibes.includes(product.vibe)) return false;
+
+  const { min, max } = filter.priceRange;
+  if (min !== null && product.price < min) return false;
+  if (max !== null && product.price > max) return false;
+
+  const dimensions = getProductDimensions(product);
+  if (dimensions) {
+    if (filter.maxWidth !== null && dimensions.width > filter.maxWidth) return false;
+    if (filter.maxHeight !== null && dimensions.height > filter.maxHeight) return false;
+  }
+
+  return true;
+}
+
+function compareProducts(a: Product, b: Product, sortOrder: CatalogSortOrder): number {
+  switch (sortOrder) {
+    case 'price-asc':
+      return a.price - b.price;
+    case 'price-desc':
+      return b.price - a.price;
+    case 'name-asc':
+      return a.name.localeCompare(b.name);
+    case 'name-desc':
+      return b.name.localeCompare(a.name);
+    case 'featured':
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Apply filter and sort order to a product list.
+ * Sorting is stable, so 'featured' preserves catalog order.
+ */
+export function applyCatalogView(
+  products: Product[],
+  filter: CatalogFilter,
+  sortOrder: CatalogSortOrder
+): Product[] {
+  return products
+    .filter((product) => matchesFilter(product, filter))
+    .sort((a, b) => compareProducts(a, b, sortOrder));
+}
+
+/**
+ * Count matches per type and vibe. Each facet ignores its own selection so the
+ * counts show what toggling that option would yield.
+ */
+export function getCatalogFacets(products: Product[], filter: CatalogFilter): CatalogFacets {
+  const facets: CatalogFacets = {
+    types: Object.fromEntries(PRODUCT_TYPES.map((type) => [type, 0])) as Record<ProductType, number>,
+    vibes: Object.fromEntries(VIBE_CATEGORIES.map((vibe) => [vibe, 0])) as Record<VibeCategory, number>,
+  };
+
+  for (const product of products) {
+    if (matchesFilter(product, { ...filter, types: [] })) {
+      facets.types[product.type] += 1;
+    }
+    if (matchesFilter(product, { ...filter, vibes: [] })) {
+      facets.vibes[product.vibe] += 1;
+    }
+  }
+
+  return facets;
+}
+
+/**
+ * Number of active filter criteria (for badges)
+ */
+export function countActiveFilters(filter: CatalogFilter): number {
+  let count = filter.types.length + filter.vibes.length;
+  if (filter.priceRange.min !== null || filter.priceRange.max !== null) count += 1;
+  if (filter.maxWidth !== null || filter.maxHeight !== null) count += 1;
+  return count;
+}
@@ -2,7 +2,16 @@
 // Configuration & Asset URLs
 // ============================================
 
-import { VibeCategory } from './types';
+import type {
+  VibeCategory,
+  CurrencyCode,
+  CurrencyDefinition,
+  LocaleOption,
+  ShippingCountry,
+  ShippingClass,
+  ShippingZone,
+  PromoCode,
+} from './types';
 
 /**
  * Mock asset URLs for development
@@ -13,10 +22,12 @@ export const MOCK_ASSETS = {
     art1: 'https://images.unsplash.com/photo-1541961017774-22349e4a1262?w=1024',
     art2: 'https://images.unsplash.com/photo-1578301978693-85fa9c0320b9?w=1024',
     art3: 'https://images.unsplash.com/photo-1579783902614-a3fb3927b6a5?w=1024',
+    rug1: 'https://images.unsplash.com/photo-1600166898405-da9535204843?w=1024',
   },
   models: {
     table: '/models/table.glb',
     chair: '/models/chair.glb',
+    sculpture: '/models/sculpture.glb',
   },
   audio: {
     calm: '/audio/calm.mp3',
@@ -49,6 +60,54 @@ export const GALLERY_CONFIG = {
   },
 } as const;
 
+/**
+ * Public site settings used for canonical URLs and share previews.
+ * Set NEXT_PUBLIC_SITE_URL to the deployed origin so Open Graph links resolve.
+ */
+export const SITE_CONFIG = {
+  name: 'Virtual Studio',
+  url: process.env.NEXT_PUBLIC_SITE_URL ?? 'http://localhost:3000',
+  twitterCard: 'summary_large_image',
+} as const;
+
+/**
+ * Backend API used to sync carts and orders across devices.
+ * Set NEXT_PUBLIC_API_URL to use another host, or NEXT_PUBLIC_API_SYNC=off
+ * to keep everything in the browser (e.g. static hosting without the API routes).
+ */
+export const API_CONFIG = {
+  baseUrl: process.env.NEXT_PUBLIC_API_URL ?? '/api',
+  syncEnabled: process.env.NEXT_PUBLIC_API_SYNC !== 'off',
+  requestTimeout: 10000, // milliseconds
+  // Wait for a burst of cart edits to settle before saving
+  cartSyncDelay: 1000, // milliseconds
+} as const;
+
+/**
+ * Device handoff: a short pairing code moves the cart, wishlist and current
+ * product to another device through the app's own API, so it works on a LAN
+ * without any cloud service
+ */
+export const HANDOFF_CONFIG = {
+  codeLength: 6,
+  // No 0/O, 1/I/L, so codes survive being read off a screen
+  codeAlphabet: 'ABCDEFGHJKMNPQRSTUVWXYZ23456789',
+  ttl: 10 * 60 * 1000, // milliseconds
+  // Query parameter carrying a pairing code, e.g. /?handoff=K7M2QX
+  param: 'handoff',
+} as const;
+
+/**
+ * Product catalog configuration
+ * Set NEXT_PUBLIC_CATALOG_URL to load products from a JSON/REST inventory
+ * service instead of the bundled mock catalog.
+ */
+export const CATALOG_CONFIG = {
+  endpoint: process.env.NEXT_PUBLIC_CATALOG_URL ?? '',
+  requestTimeout: 10000, // milliseconds
+  defaultPageSize: 20,
+} as const;
+
 /**
  * Audio configuration
  */
@@ -66,17 +125,150 @@ export const INPUT_CONFIG = {
   keyboard: {
     next: ['ArrowRight', 'KeyD'] as readonly string[],
     previous: ['ArrowLeft', 'KeyA'] as readonly string[],
+    up: ['ArrowUp', 'KeyW'] as readonly string[],
+    down: ['ArrowDown', 'KeyS'] as readonly string[],
     select: ['Enter', 'Space'] as readonly string[],
     exit: ['Escape'] as readonly string[],
+    filter: ['KeyF'] as readonly string[],
+    search: ['Slash'] as readonly string[],
   },
   gamepad: {
     next: 15, // D-Pad Right
     previous: 14, // D-Pad Left
+    up: 12, // D-Pad Up
+    down: 13, // D-Pad Down
     select: 0, // A Button
     exit: 1, // B Button
+    filter: 3, // Y Button
+    search: 2, // X Button
   },
 } as const;
 
+/**
+ * Product search configuration
+ */
+export const SEARCH_CONFIG = {
+  maxResults: 8,
+  // One-press queries for D-Pad users who can't type
+  quickQueries: ['calm', 'upbeat', 'ambient', 'abstract', 'oak', 'modern'],
+} as const;
+
+/**
+ * Filter menu presets (compact choices that work with a D-Pad)
+ */
+export const CATALOG_FILTER_CONFIG = {
+  // Bounds in the base currency; labels are formatted in the shopper's currency
+  priceRanges: [
+    { min: null, max: null },
+    { min: null, max: 500 },
+    { min: 500, max: 1000 },
+    { min: 1000, max: null },
+  ],
+  sizeLimits: [
+    { label: 'Any size', maxWidth: null, maxHeight: null },
+    { label: 'Small (≤ 1m)', maxWidth: 1.0, maxHeight: 1.0 },
+    { label: 'Medium (≤ 1.3m)', maxWidth: 1.3, maxHeight: 1.3 },
+  ],
+  sortOrders: [
+    { value: 'featured', label: 'Featured' },
+    { value: 'price-asc', label: 'Price ↑' },
+    { value: 'price-desc', label: 'Price ↓' },
+    { value: 'name-asc', label: 'Name A–Z' },
+    { value: 'name-desc', label: 'Name Z–A' },
+  ],
+} as const;
+
+/**
+ * Inventory display settings
+ */
+export const INVENTORY_CONFIG = {
+  // Show "Only N left" at or below this many units
+  lowStockThreshold: 3,
+} as const;
+
+/**
+ * Wishlist collections and share codes
+ */
+export const WISHLIST_CONFIG = {
+  defaultCollectionName: 'My wishlist',
+  maxCollectionNameLength: 40,
+  maxNoteLength: 280,
+  // Query parameter carrying a share code, e.g. /?wishlist=...
+  shareParam: 'wishlist',
+} as const;
+
+/**
+ * Currencies and display locales. Catalog prices are stored in the base
+ * currency and converted with this rate table for display and checkout.
+ */
+export const CURRENCY_CONFIG = {
+  baseCurrency: 'USD',
+  defaultLocale: 'en-US',
+  currencies: [
+    { code: 'USD', name: 'US Dollar', rate: 1, fractionDigits: 2 },
+    { code: 'EUR', name: 'Euro', rate: 0.92, fractionDigits: 2 },
+    { code: 'GBP', name: 'British Pound', rate: 0.79, fractionDigits: 2 },
+    { code: 'CAD', name: 'Canadian Dollar', rate: 1.36, fractionDigits: 2 },
+    { code: 'AUD', name: 'Australian Dollar', rate: 1.52, fractionDigits: 2 },
+    { code: 'JPY', name: 'Japanese Yen', rate: 151, fractionDigits: 0 },
+    { code: 'MXN', name: 'Mexican Peso', rate: 17.1, fractionDigits: 2 },
+  ] satisfies CurrencyDefinition[],
+  locales: [
+    { code: 'en-US', label: 'English (US)' },
+    { code: 'en-GB', label: 'English (UK)' },
+    { code: 'de-DE', label: 'Deutsch' },
+    { code: 'fr-FR', label: 'Français' },
+    { code: 'es-MX', label: 'Español (MX)' },
+    { code: 'ja-JP', label: '日本語' },
+  ] satisfies LocaleOption[],
+} satisfies { baseCurrency: CurrencyCode; defaultLocale: string; currencies: CurrencyDefinition[]; locales: LocaleOption[] };
+
+/**
+ * Pricing configuration: destinations, shipping rates and promo codes.
+ * Amounts are in the base currency (`CURRENCY_CONFIG.baseCurrency`).
+ */
+export const PRICING_CONFIG = {
+  defaultCountry: 'US',
+  countries: [
+    { code: 'US', name: 'United States', zone: 'domestic', taxRate: 0.0725, taxShipping: false },
+    { code: 'CA', name: 'Canada', zone: 'north-america', taxRate: 0.13, taxShipping: true },
+    { code: 'MX', name: 'Mexico', zone: 'north-america', taxRate: 0.16, taxShipping: true },
+    { code: 'GB', name: 'United Kingdom', zone: 'europe', taxRate: 0.2, taxShipping: true },
+    { code: 'DE', name: 'Germany', zone: 'europe', taxRate: 0.19, taxShipping: true },
+    { code: 'FR', name: 'France', zone: 'europe', taxRate: 0.2, taxShipping: true },
+    { code: 'JP', name: 'Japan', zone: 'international', taxRate: 0.1, taxShipping: true },
+    { code: 'AU', name: 'Australia', zone: 'international', taxRate: 0.1, taxShipping: true },
+  ] satisfies ShippingCountry[],
+  // Rate for the first unit of a class, then for each additional unit
+  shippingRates: {
+    domestic: {
+      parcel: { first: 15, additional: 5 },
+      oversized: { first: 45, additional: 25 },
+      freight: { first: 149, additional: 99 },
+    },
+    'north-america': {
+      parcel: { first: 25, additional: 10 },
+      oversized: { first: 75, additional: 40 },
+      freight: { first: 249, additional: 149 },
+    },
+    europe: {
+      parcel: { first: 35, additional: 12 },
+      oversized: { first: 95, additional: 55 },
+      freight: { first: 349, additional: 199 },
+    },
+    international: {
+      parcel: { first: 45, additional: 15 },
+      oversized: { first: 120, additional: 70 },
+      freight: { first: 449, additional: 249 },
+    },
+  } satisfies Record<ShippingZone, Record<ShippingClass, { first: number; additional: number }>>,
+  promoCodes: [
+    { code: 'WELCOME10', type: 'percent', value: 10 },
+    { code: 'STUDIO50', type: 'fixed', value: 50, minSubtotal: 500 },
+    { code: 'FREESHIP', type: 'free-shipping', value: 0 },
+  ] satisfies PromoCode[],
+};
+
 /**
  * Default audio tracks by vibe category
  */
@@ -128,6 +320,8 @@ export type PerformanceTier = keyof typeof PERFORMANCE_CONFIG;
  * XR Preview configuration
  */
 export const XR_PREVIEW_CONFIG = {
+  // Show 3D models at their catalog dimensions when previews open
+  trueScale: true,
   // AR Mode settings
   ar: {
     backgroundColor: 'transparent',
@@ -135,6 +329,36 @@ export const XR_PREVIEW_CONFIG = {
     minScale: 0.1,
     maxScale: 5.0,
     rotationSpeed: 0.5,
+    // Hit-test placement on real surfaces
+    placement: {
+      // How far (degrees) a surface may lean and still count as floor or wall
+      surfaceAngleTolerance: 20,
+      reticleRadius: 0.1, // meters
+      // Used when hit testing is unavailable: straight ahead of the viewer
+      fallbackPosition: [0, 0, -1.5] as [number, number, number],
+    },
+    // Moving, turning and scaling the placed product
+    manipulation: {
+      dragThreshold: 8, // pixels a touch travels before it counts as a drag
+      // Taps (XR selects) this soon after a gesture ends don't re-place the product
+      selectGracePeriod: 300, // milliseconds
+    },
+    // Room model from WebXR plane and mesh detection
+    room: {
+      // How close (meters) a product must be to a detected floor or wall to snap to it
+      snapDistance: 0.15,
+      // Up-facing planes within this height of the lowest one count as floor
+      floorTolerance: 0.2,
+      // Devices that can scan a room are asked to when nothing is detected by then
+      roomCaptureDelay: 3000, // milliseconds
+    },
+    // Persistent anchors that bring placements back in later sessions
+    anchors: {
+      // Placements are saved once the product has stayed put this long
+      saveDelay: 1500, // milliseconds
+      // Oldest saved placements are forgotten beyond this many
+      maxSaved: 20,
+    },
   },
   // VR Mode settings
   vr: {
@@ -143,6 +367,25 @@ export const XR_PREVIEW_CONFIG = {
     movementSpeed: 2.0,
     rotationSensitivity: 1.0,
   },
+  // Several products previewed together (e.g. a print above a table)
+  staging: {
+    maxProducts: 6,
+    // Side-by-side gap (meters) between products sharing a surface when
+    // they're first shown without a placement of their own
+    spacing: 0.3,
+    // Width assumed for products without catalog dimensions
+    defaultWidth: 0.6,
+  },
+  // Tracked-hand input in both modes (pinch selects natively)
+  hands: {
+    // Fingertip-to-palm distance (meters) that starts and ends a fist grab;
+    // the gap keeps a half-closed hand from flickering between the two
+    grabCloseDistance: 0.055,
+    grabOpenDistance: 0.08,
+    // How directly the left palm must face the viewer to show the wrist menu
+    menuFacingAngle: 50, // degrees
+    menuOffset: 0.08, // meters out from the palm
+  },
 } as const;
 
 /**
@@ -170,11 +413,81 @@ export const VR_ROOM_TEMPLATES = {
   'custom': {
     id: 'custom' as const,
     name: 'Custom Room',
-    description: 'Upload your own room scan or customize dimensions',
+    description: 'Your own dimensions, doors, windows and finishes',
     dimensions: { width: 4.0, depth: 4.0, height: 2.74 }, // default meters
   },
 } as const;
 
+/**
+ * Virtual Room Designer configuration
+ */
+export const ROOM_DESIGNER_CONFIG = {
+  defaultRoomTemplate: 'living-room' as const,
+  maxItems: 50,
+  // Undo steps kept while designing
+  historySteps: 50,
+  maxSavedDesigns: 20,
+  // Scale applied on top of a product's real size
+  minScale: 0.5,
+  maxScale: 1.5,
+  // Turn per step (radians); holding Shift snaps to quarter turns instead
+  rotationStep: Math.PI / 12,
+  snapRotationStep: Math.PI / 2,
+  // Gap kept between items, and between items and walls (meters)
+  clearance: 0.05,
+  // Spacing of the spots tried when looking for free space (meters)
+  searchStep: 0.25,
+  // Footprint for products without catalog dimensions (meters)
+  defaultSize: { width: 0.6, height: 0.8, depth: 0.6 },
+  // Floor items this low (rugs) lie under furniture instead of blocking it
+  flatItemHeight: 0.05, // meters
+  // Wall items stay above the baseboard
+  baseboardHeight: 0.1, // meters
+} as const;
+
+/**
+ * Custom room editor configuration (the 'custom' VR room template)
+ */
+export const CUSTOM_ROOM_CONFIG = {
+  maxRooms: 10,
+  maxOpeningsPerRoom: 12,
+  minDimensions: { width: 2, depth: 2, height: 2.2 }, // meters
+  maxDimensions: { width: 15, depth: 15, height: 5 }, // meters
+  // Default opening sizes (meters); doors always start at the floor
+  door: { width: 0.9, height: 2.05, sillHeight: 0 },
+  window: { width: 1.2, height: 1.2, sillHeight: 0.9 },
+  minOpeningSize: 0.3, // meters
+  // Gap kept between openings, and around them to the corners, floor and
+  // ceiling; room for the trim on both sides
+  openingMargin: 0.15, // meters
+  defaultFloorMaterial: 'oak' as const,
+  defaultWallMaterial: 'white' as const,
+} as const;
+
+/**
+ * Floor finishes for virtual rooms
+ */
+export const ROOM_FLOOR_MATERIALS = {
+  'oak': { id: 'oak' as const, name: 'Oak', color: '#8B7355', roughness: 0.8, metalness: 0.1 },
+  'walnut': { id: 'walnut' as const, name: 'Walnut', color: '#5C4033', roughness: 0.7, metalness: 0.1 },
+  'maple': { id: 'maple' as const, name: 'Maple', color: '#C8A97E', roughness: 0.75, metalness: 0.05 },
+  'tile': { id: 'tile' as const, name: 'White Tile', color: '#E4E1DA', roughness: 0.3, metalness: 0 },
+  'concrete': { id: 'concrete' as const, name: 'Concrete', color: '#9A9A96', roughness: 0.95, metalness: 0 },
+  'carpet': { id: 'carpet' as const, name: 'Gray Carpet', color: '#7A7F87', roughness: 1, metalness: 0 },
+} as const;
+
+/**
+ * Wall finishes for virtual rooms
+ */
+export const ROOM_WALL_MATERIALS = {
+  'white': { id: 'white' as const, name: 'White', color: '#F5F5F5', roughness: 0.9, metalness: 0 },
+  'warm-gray': { id: 'warm-gray' as const, name: 'Warm Gray', color: '#D6D0C7', roughness: 0.9, metalness: 0 },
+  'sage': { id: 'sage' as const, name: 'Sage', color: '#B7C4A9', roughness: 0.9, metalness: 0 },
+  'dusty-blue': { id: 'dusty-blue' as const, name: 'Dusty Blue', color: '#9FB3C8', roughness: 0.9, metalness: 0 },
+  'terracotta': { id: 'terracotta' as const, name: 'Terracotta', color: '#C98B6B', roughness: 0.9, metalness: 0 },
+  'charcoal': { id: 'charcoal' as const, name: 'Charcoal', color: '#4A4A4A', roughness: 0.85, metalness: 0 },
+} as const;
+
 // ============================================
 // Device Detection Configuration
 // ============================================
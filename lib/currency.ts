@@ -0,0 +1,90 @@
+// ============================================
+// Currency Conversion & Price Formatting
+// ============================================
+
+import { CURRENCY_CONFIG } from './constants';
+import type { CurrencyCode, CurrencyDefinition, LocaleOption } from './types';
+
+export const BASE_CURRENCY: CurrencyCode = CURRENCY_CONFIG.baseCurrency;
+export const DEFAULT_LOCALE = CURRENCY_CONFIG.defaultLocale;
+
+export const CURRENCIES: readonly CurrencyDefinition[] = CURRENCY_CONFIG.currencies;
+export const LOCALES: readonly LocaleOption[] = CURRENCY_CONFIG.locales;
+
+export function isCurrencyCode(value: unknown): value is CurrencyCode {
+  return typeof value === 'string' && CURRENCIES.some((currency) => currency.code === value);
+}
+
+export function isSupportedLocale(value: unknown): value is string {
+  return typeof value === 'string' && LOCALES.some((locale) => locale.code === value);
+}
+
+export function getCurrency(code: CurrencyCode): CurrencyDefinition {
+  return CURRENCIES.find((currency) => currency.code === code) ?? CURRENCIES[0];
+}
+
+/**
+ * Current rate from the base currency to `code`
+ */
+export function getExchangeRate(code: CurrencyCode): number {
+  return getCurrency(code).rate;
+}
+
+/**
+ * Round to the currency's minor unit (cents, or whole yen)
+ */
+export function roundToCurrency(amount: number, currency: CurrencyCode): number {
+  const factor = 10 ** getCurrency(currency).fractionDigits;
+  return Math.round(amount * factor) / factor;
+}
+
+/**
+ * Convert a base-currency amount. Pass a locked `rate` (e.g. the cart's) to
+ * keep totals stable when the rate table changes.
+ */
+export function convertPrice(
+  amount: number,
+  currency: CurrencyCode,
+  rate: number = getExchangeRate(currency)
+): number {
+  return roundToCurrency(amount * rate, currency);
+}
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+/**
+ * Format an amount that is already in `currency`. `wholeUnits` drops the
+ * minor unit for labels like "Under $500".
+ */
+export function formatMoney(
+  amount: number,
+  currency: CurrencyCode,
+  locale: string = DEFAULT_LOCALE,
+  wholeUnits = false
+): string {
+  const key = `${locale}|${currency}|${wholeUnits}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    const fractionDigits = wholeUnits ? 0 : getCurrency(currency).fractionDigits;
+    formatter = new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits,
+    });
+    formatters.set(key, formatter);
+  }
+  return formatter.format(amount);
+}
+
+/**
+ * Convert a base-currency catalog price and format it for display
+ */
+export function formatPrice(
+  amount: number,
+  currency: CurrencyCode = BASE_CURRENCY,
+  locale: string = DEFAULT_LOCALE,
+  rate?: number
+): string {
+  return formatMoney(convertPrice(amount, currency, rate), currency, locale);
+}
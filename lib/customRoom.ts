@@ -0,0 +1,213 @@
+// ============================================
+// Custom Rooms
+// ============================================
+
+import {
+  CUSTOM_ROOM_CONFIG,
+  ROOM_FLOOR_MATERIALS,
+  ROOM_WALL_MATERIALS,
+  VR_ROOM_TEMPLATES,
+} from './constants';
+import { createId } from './ids';
+import type { RoomDimensions, RoomWall } from './roomDesigner';
+import type { VRRoomTemplate } from './types';
+
+export type FloorMaterialId = keyof typeof ROOM_FLOOR_MATERIALS;
+export type WallMaterialId = keyof typeof ROOM_WALL_MATERIALS;
+
+export type OpeningKind = 'door' | 'window';
+
+/**
+ * Color and finish of a room surface
+ */
+export interface RoomMaterial {
+  id: string;
+  name: string;
+  color: string;
+  roughness: number;
+  metalness: number;
+}
+
+/**
+ * A door or window cut into a wall (meters)
+ */
+export interface RoomOpening {
+  id: string;
+  kind: OpeningKind;
+  wall: RoomWall;
+  /** Center along the wall from its middle, positive to the right when facing the wall from inside */
+  offset: number;
+  width: number;
+  height: number;
+  /** Bottom edge above the floor; always 0 for doors */
+  sillHeight: number;
+}
+
+/**
+ * A room the shopper measured out for the 'custom' template
+ */
+export interface CustomRoom {
+  id: string;
+  name: string;
+  dimensions: RoomDimensions;
+  openings: RoomOpening[];
+  floorMaterial: FloorMaterialId;
+  wallMaterial: WallMaterialId;
+  updatedAt: number;
+}
+
+/**
+ * Everything `VirtualRoom` needs to draw a room template
+ */
+export interface RoomLayout {
+  name: string;
+  dimensions: RoomDimensions;
+  openings: RoomOpening[];
+  floorMaterial: RoomMaterial;
+  wallMaterial: RoomMaterial;
+}
+
+type DimensionKey = keyof RoomDimensions;
+
+// Spacing of the spots tried when looking for free wall space (meters)
+const OPENING_SEARCH_STEP = 0.05;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+/**
+ * A new room at the custom template's default size, with a door to walk
+ * in by and a window on the back wall
+ */
+export function createCustomRoom(name: string): CustomRoom {
+  const { door, window, defaultFloorMaterial, defaultWallMaterial } = CUSTOM_ROOM_CONFIG;
+  return {
+    id: createId(),
+    name,
+    dimensions: { ...VR_ROOM_TEMPLATES.custom.dimensions },
+    openings: [
+      { id: createId(), kind: 'door', wall: 'right', offset: 0, ...door },
+      { id: createId(), kind: 'window', wall: 'back', offset: 0, ...window },
+    ],
+    floorMaterial: defaultFloorMaterial,
+    wallMaterial: defaultWallMaterial,
+    updatedAt: Date.now(),
+  };
+}
+
+export function getWallLength(wall: RoomWall, dimensions: RoomDimensions): number {
+  return wall === 'left' || wall === 'right' ? dimensions.depth : dimensions.width;
+}
+
+/**
+ * Keep room dimensions within `CUSTOM_ROOM_CONFIG.minDimensions`/`maxDimensions`
+ */
+export function clampRoomDimensions(dimensions: RoomDimensions): RoomDimensions {
+  const { minDimensions, maxDimensions } = CUSTOM_ROOM_CONFIG;
+  const fit = (key: DimensionKey) => {
+    const value = dimensions[key];
+    return Number.isFinite(value) ? clamp(value, minDimensions[key], maxDimensions[key]) : minDimensions[key];
+  };
+  return { width: fit('width'), depth: fit('depth'), height: fit('height') };
+}
+
+/**
+ * Keep an opening on its wall, shrinking it if needed, clear of the corners,
+ * floor and ceiling. Doors stay on the floor.
+ */
+export function clampOpening(opening: RoomOpening, dimensions: RoomDimensions): RoomOpening {
+  const { minOpeningSize, openingMargin } = CUSTOM_ROOM_CONFIG;
+  const halfLength = getWallLength(opening.wall, dimensions) / 2 - openingMargin;
+  const ceiling = dimensions.height - openingMargin;
+
+  const width = clamp(opening.width, minOpeningSize, halfLength * 2);
+  const offset = clamp(opening.offset, -halfLength + width / 2, halfLength - width / 2);
+  const sillHeight =
+    opening.kind === 'door' ? 0 : clamp(opening.sillHeight, openingMargin, ceiling - minOpeningSize);
+  const height = clamp(opening.height, minOpeningSize, ceiling - sillHeight);
+  return { ...opening, width, offset, sillHeight, height };
+}
+
+/**
+ * Whether two openings on the same wall come closer than
+ * `CUSTOM_ROOM_CONFIG.openingMargin`
+ */
+export function openingsOverlap(a: RoomOpening, b: RoomOpening): boolean {
+  if (a.id === b.id || a.wall !== b.wall) return false;
+  const gap = CUSTOM_ROOM_CONFIG.openingMargin;
+  return (
+    Math.abs(a.offset - b.offset) < (a.width + b.width) / 2 + gap &&
+    a.sillHeight < b.sillHeight + b.height + gap &&
+    b.sillHeight < a.sillHeight + a.height + gap
+  );
+}
+
+export function canPlaceOpening(opening: RoomOpening, openings: RoomOpening[]): boolean {
+  return !openings.some((other) => openingsOverlap(opening, other));
+}
+
+/**
+ * A door or window of the default size at the free spot nearest the
+ * middle of a wall; null when the wall has no room for it
+ */
+export function createOpening(
+  kind: OpeningKind,
+  wall: RoomWall,
+  room: Pick<CustomRoom, 'dimensions' | 'openings'>
+): RoomOpening | null {
+  const base: RoomOpening = { id: createId(), kind, wall, offset: 0, ...CUSTOM_ROOM_CONFIG[kind] };
+  const steps = Math.ceil(getWallLength(wall, room.dimensions) / 2 / OPENING_SEARCH_STEP);
+
+  for (let step = 0; step <= steps; step++) {
+    for (const direction of [1, -1]) {
+      const candidate = clampOpening({ ...base, offset: direction * step * OPENING_SEARCH_STEP }, room.dimensions);
+      if (canPlaceOpening(candidate, room.openings)) return candidate;
+    }
+  }
+  return null;
+}
+
+/**
+ * Re-fit openings to new room dimensions. Openings that would then overlap
+ * an earlier one are dropped.
+ */
+export function fitOpeningsToRoom(openings: RoomOpening[], dimensions: RoomDimensions): RoomOpening[] {
+  const fitted: RoomOpening[] = [];
+  for (const opening of openings) {
+    const clamped = clampOpening(opening, dimensions);
+    if (canPlaceOpening(clamped, fitted)) {
+      fitted.push(clamped);
+    }
+  }
+  return fitted;
+}
+
+/**
+ * How a room template looks: the active custom room for 'custom' (the
+ * template's defaults until one is created), plain walls and an oak floor
+ * for the others
+ */
+export function getRoomLayout(templateId: VRRoomTemplate, customRoom: CustomRoom | null): RoomLayout {
+  const { defaultFloorMaterial, defaultWallMaterial } = CUSTOM_ROOM_CONFIG;
+
+  if (templateId === 'custom' && customRoom) {
+    return {
+      name: customRoom.name,
+      dimensions: customRoom.dimensions,
+      openings: customRoom.openings,
+      // Saved rooms may name a finish that has since been retired
+      floorMaterial: ROOM_FLOOR_MATERIALS[customRoom.floorMaterial] ?? ROOM_FLOOR_MATERIALS[defaultFloorMaterial],
+      wallMaterial: ROOM_WALL_MATERIALS[customRoom.wallMaterial] ?? ROOM_WALL_MATERIALS[defaultWallMaterial],
+    };
+  }
+
+  const { name, dimensions } = VR_ROOM_TEMPLATES[templateId];
+  return {
+    name,
+    dimensions,
+    openings: [],
+    floorMaterial: ROOM_FLOOR_MATERIALS[defaultFloorMaterial],
+    wallMaterial: ROOM_WALL_MATERIALS[defaultWallMaterial],
+  };
+}
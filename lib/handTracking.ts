@@ -0,0 +1,75 @@
+// ============================================
+// Hand Tracking
+// ============================================
+
+import * as THREE from 'three';
+import { XR_PREVIEW_CONFIG } from './constants';
+
+// Fingertips that curl into the palm when making a fist. The index finger
+// and thumb are left out so a pinch never reads as a grab.
+const GRIP_FINGERTIPS: XRHandJoint[] = ['middle-finger-tip', 'ring-finger-tip', 'pinky-finger-tip'];
+const PALM_JOINT: XRHandJoint = 'middle-finger-metacarpal';
+
+const palmPosition = new THREE.Vector3();
+const tipPosition = new THREE.Vector3();
+const wristQuaternion = new THREE.Quaternion();
+
+function getJointPosition(
+  frame: XRFrame,
+  hand: XRHand,
+  joint: XRHandJoint,
+  referenceSpace: XRReferenceSpace,
+  target: THREE.Vector3
+): THREE.Vector3 | null {
+  const space = hand.get(joint);
+  const pose = space && frame.getJointPose?.(space, referenceSpace);
+  if (!pose) return null;
+  const { x, y, z } = pose.transform.position;
+  return target.set(x, y, z);
+}
+
+/**
+ * Average distance (meters) from the curling fingertips to the palm, or
+ * null while the hand isn't fully tracked. Small values mean a closed fist.
+ */
+export function measureHandGrip(frame: XRFrame, hand: XRHand, referenceSpace: XRReferenceSpace): number | null {
+  if (!getJointPosition(frame, hand, PALM_JOINT, referenceSpace, palmPosition)) return null;
+
+  let total = 0;
+  for (const joint of GRIP_FINGERTIPS) {
+    if (!getJointPosition(frame, hand, joint, referenceSpace, tipPosition)) return null;
+    total += tipPosition.distanceTo(palmPosition);
+  }
+  return total / GRIP_FINGERTIPS.length;
+}
+
+/**
+ * Whether a hand is making a fist, with hysteresis around
+ * `XR_PREVIEW_CONFIG.hands.grabCloseDistance`/`grabOpenDistance`
+ */
+export function isHandGrabbing(grip: number, wasGrabbing: boolean): boolean {
+  const { grabCloseDistance, grabOpenDistance } = XR_PREVIEW_CONFIG.hands;
+  return grip <= (wasGrabbing ? grabOpenDistance : grabCloseDistance);
+}
+
+/**
+ * Wrist position and the direction out of the palm. WebXR joint poses
+ * point -Y out of the palm side of the hand.
+ */
+export function getPalmPose(
+  frame: XRFrame,
+  hand: XRHand,
+  referenceSpace: XRReferenceSpace,
+  position: THREE.Vector3,
+  palmNormal: THREE.Vector3
+): boolean {
+  const space = hand.get('wrist');
+  const pose = space && frame.getJointPose?.(space, referenceSpace);
+  if (!pose) return false;
+
+  const { position: p, orientation: q } = pose.transform;
+  position.set(p.x, p.y, p.z);
+  wristQuaternion.set(q.x, q.y, q.z, q.w);
+  palmNormal.set(0, -1, 0).applyQuaternion(wristQuaternion);
+  return true;
+}
@@ -0,0 +1,60 @@
+// ============================================
+// Device Handoff Codes
+// ============================================
+
+import { HANDOFF_CONFIG } from './constants';
+
+/**
+ * Canonical form of a typed pairing code: upper case, without the spaces or
+ * dashes people add while reading it off another screen
+ */
+export function normalizeHandoffCode(input: string): string {
+  return input.toUpperCase().replace(/[\s-]/g, '');
+}
+
+/**
+ * Split a code in half for display, e.g. K7M-2QX
+ */
+export function formatHandoffCode(code: string): string {
+  const half = Math.ceil(code.length / 2);
+  return `${code.slice(0, half)}-${code.slice(half)}`;
+}
+
+export function isHandoffCode(code: string): boolean {
+  return (
+    code.length === HANDOFF_CONFIG.codeLength &&
+    code.split('').every((char) => HANDOFF_CONFIG.codeAlphabet.includes(char))
+  );
+}
+
+/**
+ * Link that picks up the handoff when opened on another device. It uses the
+ * current origin, so open the studio by its LAN address (not localhost)
+ * when handing off to a headset on the same network.
+ */
+export function getHandoffUrl(code: string, base: string = window.location.href): string {
+  const url = new URL(base);
+  url.search = '';
+  url.hash = '';
+  url.searchParams.set(HANDOFF_CONFIG.param, code);
+  return url.toString();
+}
+
+/**
+ * Pull a pairing code out of typed or pasted input, which may be a bare code
+ * or a full handoff link. Returns null when it doesn't look like a code.
+ */
+export function parseHandoffInput(input: string): string | null {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+
+  let candidate = trimmed;
+  try {
+    candidate = new URL(trimmed).searchParams.get(HANDOFF_CONFIG.param) ?? '';
+  } catch {
+    // Not a link; treat it as a typed code
+  }
+
+  const code = normalizeHandoffCode(candidate);
+  return isHandoffCode(code) ? code : null;
+}
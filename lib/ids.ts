@@ -0,0 +1,14 @@
+// ============================================
+// Ids
+// ============================================
+
+/**
+ * Random unique id; falls back to time plus randomness where
+ * `crypto.randomUUID` isn't available (older browsers, plain http)
+ */
+export function createId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
@@ -0,0 +1,62 @@
+// ============================================
+// Inventory & Stock
+// ============================================
+
+import { INVENTORY_CONFIG } from './constants';
+import type { Product, StockInfo } from './types';
+
+interface StockLine {
+  id: string;
+  product: Product;
+  quantity: number;
+}
+
+/**
+ * Units that can be bought of a configured product (variant already applied),
+ * or null when stock isn't tracked. Unique originals never exceed one.
+ */
+export function getAvailableStock(product: Product): number | null {
+  const stock = product.stock !== undefined ? Math.max(0, Math.floor(product.stock)) : null;
+  if (product.isUniqueOriginal) {
+    return Math.min(stock ?? 1, 1);
+  }
+  return stock;
+}
+
+export function getStockInfo(product: Product): StockInfo {
+  const available = getAvailableStock(product);
+  const isUniqueOriginal = Boolean(product.isUniqueOriginal);
+
+  if (available === null) {
+    return { status: 'untracked', available, isUniqueOriginal };
+  }
+  if (available === 0) {
+    return { status: 'out-of-stock', available, isUniqueOriginal };
+  }
+  // A unique original is always "the last one"; its badge says so instead
+  if (!isUniqueOriginal && available <= INVENTORY_CONFIG.lowStockThreshold) {
+    return { status: 'low-stock', available, isUniqueOriginal };
+  }
+  return { status: 'in-stock', available, isUniqueOriginal };
+}
+
+export function isInStock(product: Product): boolean {
+  return getAvailableStock(product) !== 0;
+}
+
+/**
+ * Most units a cart line may hold. Variant stock is per line; a unique
+ * original is capped at one unit across all lines (variants) of the product.
+ */
+export function getMaxLineQuantity(items: StockLine[], lineId: string, product: Product): number {
+  let max = getAvailableStock(product) ?? Infinity;
+
+  if (product.isUniqueOriginal) {
+    const elsewhere = items
+      .filter((item) => item.id !== lineId && item.product.id === product.id)
+      .reduce((total, item) => total + item.quantity, 0);
+    max = Math.min(max, 1 - elsewhere);
+  }
+
+  return Math.max(0, max);
+}
@@ -0,0 +1,44 @@
+// ============================================
+// Canvas Label Textures
+// ============================================
+
+import * as THREE from 'three';
+
+/**
+ * Text drawn onto a canvas texture, for in-scene labels and buttons.
+ * Unlike DOM or font-loading text, these render inside headset sessions
+ * and without network access. Dispose the texture when done.
+ */
+export function createLabelTexture(
+  text: string,
+  background = 'rgba(0, 0, 0, 0.65)'
+): { texture: THREE.CanvasTexture; aspect: number } {
+  const fontSize = 40;
+  const padding = 16;
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  const font = `600 ${fontSize}px system-ui, sans-serif`;
+
+  let textWidth = text.length * fontSize * 0.6;
+  if (context) {
+    context.font = font;
+    textWidth = context.measureText(text).width;
+  }
+  canvas.width = Math.ceil(textWidth + padding * 2);
+  canvas.height = fontSize + padding * 2;
+
+  if (context) {
+    // Resizing the canvas resets its state
+    context.font = font;
+    context.fillStyle = background;
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.fillStyle = '#ffffff';
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.fillText(text, canvas.width / 2, canvas.height / 2);
+  }
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  return { texture, aspect: canvas.width / canvas.height };
+}
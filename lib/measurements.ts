@@ -0,0 +1,54 @@
+// ============================================
+// Measurement Formatting
+// ============================================
+
+import type { MeasurementSystem } from './types';
+
+const METERS_PER_INCH = 0.0254;
+const INCHES_PER_FOOT = 12;
+
+// Regions that measure furniture in feet and inches
+const IMPERIAL_REGIONS = new Set(['US', 'LR', 'MM']);
+
+/**
+ * Units customers expect for a display locale, e.g. imperial for en-US
+ */
+export function getLocaleMeasurementSystem(locale: string): MeasurementSystem {
+  let region: string | undefined;
+  try {
+    region = new Intl.Locale(locale).maximize().region;
+  } catch {
+    region = locale.split('-')[1];
+  }
+  return region && IMPERIAL_REGIONS.has(region.toUpperCase()) ? 'imperial' : 'metric';
+}
+
+/**
+ * Format a length in meters for measurement labels:
+ * metric as "75 cm" / "1.80 m", imperial as "29 in" / "5 ft 11 in"
+ */
+export function formatLength(meters: number, system: MeasurementSystem): string {
+  if (system === 'metric') {
+    return meters < 1 ? `${Math.round(meters * 100)} cm` : `${meters.toFixed(2)} m`;
+  }
+
+  const totalInches = Math.round(meters / METERS_PER_INCH);
+  if (totalInches < INCHES_PER_FOOT) {
+    return `${totalInches} in`;
+  }
+  const feet = Math.floor(totalInches / INCHES_PER_FOOT);
+  const inches = totalInches % INCHES_PER_FOOT;
+  return inches === 0 ? `${feet} ft` : `${feet} ft ${inches} in`;
+}
+
+/**
+ * Split a length in meters into whole feet and inches, for imperial inputs
+ */
+export function toFeetAndInches(meters: number): { feet: number; inches: number } {
+  const totalInches = Math.round(meters / METERS_PER_INCH);
+  return { feet: Math.floor(totalInches / INCHES_PER_FOOT), inches: totalInches % INCHES_PER_FOOT };
+}
+
+export function fromFeetAndInches(feet: number, inches: number): number {
+  return (feet * INCHES_PER_FOOT + inches) * METERS_PER_INCH;
+}
@@ -0,0 +1,223 @@
+// ============================================
+// Mock Product Data
+// ============================================
+
+import { MOCK_ASSETS } from './constants';
+import type {
+  Product,
+  ArtProduct,
+  TableProduct,
+  RugProduct,
+  LightingProduct,
+  SculptureProduct,
+  MirrorProduct,
+} from './types';
+
+export const MOCK_ART_PRODUCTS: ArtProduct[] = [
+  {
+    id: 'art-001',
+    name: 'Abstract Serenity',
+    type: 'art',
+    vibe: 'calm',
+    imageUri: MOCK_ASSETS.images.art1,
+    frameColor: '#5c4033',
+    dimensions: { width: 1.2, height: 0.9 },
+    price: 450,
+    description: 'A calming abstract piece featuring soft blues and gentle gradients.',
+    // First variant mirrors the base product and is the default selection
+    variants: [
+      {
+        id: 'standard-walnut',
+        label: 'Standard / Walnut',
+        price: 450,
+        attributes: { size: 'Standard', finish: 'Walnut' },
+      },
+      {
+        id: 'standard-black',
+        label: 'Standard / Matte Black',
+        price: 450,
+        attributes: { size: 'Standard', finish: 'Matte Black' },
+        frameColor: '#1f1f1f',
+      },
+      {
+        id: 'large-walnut',
+        label: 'Large / Walnut',
+        price: 690,
+        attributes: { size: 'Large', finish: 'Walnut' },
+        dimensions: { width: 1.6, height: 1.2 },
+      },
+      {
+        id: 'large-black',
+        label: 'Large / Matte Black',
+        price: 690,
+        attributes: { size: 'Large', finish: 'Matte Black' },
+        frameColor: '#1f1f1f',
+        dimensions: { width: 1.6, height: 1.2 },
+      },
+    ],
+  },
+  {
+    id: 'art-002',
+    name: 'Urban Energy',
+    type: 'art',
+    vibe: 'upbeat',
+    imageUri: MOCK_ASSETS.images.art2,
+    frameColor: '#2c2c2c',
+    dimensions: { width: 1.0, height: 1.2 },
+    price: 650,
+    description: 'Dynamic urban landscape with vibrant colors and bold strokes.',
+    variants: [
+      {
+        id: 'black',
+        label: 'Matte Black',
+        price: 650,
+        stock: 6,
+        attributes: { finish: 'Matte Black' },
+      },
+      {
+        id: 'gold',
+        label: 'Brushed Gold',
+        price: 720,
+        stock: 2,
+        attributes: { finish: 'Brushed Gold' },
+        frameColor: '#b08d57',
+      },
+    ],
+  },
+  {
+    id: 'art-003',
+    name: 'Nature\'s Whisper',
+    type: 'art',
+    vibe: 'ambient',
+    imageUri: MOCK_ASSETS.images.art3,
+    frameColor: '#8B4513',
+    dimensions: { width: 1.4, height: 1.0 },
+    price: 550,
+    stock: 1,
+    isUniqueOriginal: true,
+    description: 'A serene nature scene capturing the essence of tranquility. Original oil on canvas.',
+  },
+];
+
+export const MOCK_TABLE_PRODUCTS: TableProduct[] = [
+  {
+    id: 'table-001',
+    name: 'Modern Oak Dining Table',
+    type: 'table',
+    vibe: 'calm',
+    modelUri: MOCK_ASSETS.models.table,
+    scale: 1.5,
+    dimensions: { width: 1.8, depth: 0.9, height: 0.75 },
+    materialColor: '#c8a165',
+    price: 1200,
+    description: 'Elegant oak dining table with clean modern lines.',
+    variants: [
+      {
+        id: 'oak',
+        label: 'Natural Oak',
+        price: 1200,
+        stock: 8,
+        attributes: { material: 'Oak' },
+      },
+      {
+        id: 'walnut',
+        label: 'American Walnut',
+        price: 1450,
+        stock: 2,
+        attributes: { material: 'Walnut' },
+        materialColor: '#5c4033',
+      },
+      {
+        id: 'ash-ebonized',
+        label: 'Ebonized Ash',
+        price: 1350,
+        stock: 0,
+        attributes: { material: 'Ebonized Ash' },
+        materialColor: '#2b2724',
+      },
+    ],
+  },
+  {
+    id: 'table-002',
+    name: 'Minimalist Side Chair',
+    type: 'table',
+    vibe: 'upbeat',
+    modelUri: MOCK_ASSETS.models.chair,
+    scale: 1.0,
+    dimensions: { width: 0.46, depth: 0.52, height: 0.82 },
+    price: 350,
+    stock: 24,
+    description: 'Sleek minimalist chair perfect for any modern space.',
+  },
+];
+
+export const MOCK_RUG_PRODUCTS: RugProduct[] = [
+  {
+    id: 'rug-001',
+    name: 'Woven Dune Rug',
+    type: 'rug',
+    vibe: 'calm',
+    textureUri: MOCK_ASSETS.images.rug1,
+    dimensions: { width: 2.0, depth: 3.0 },
+    price: 890,
+    stock: 3,
+    description: 'Hand-woven wool rug in warm sand tones with a soft, low pile.',
+  },
+];
+
+export const MOCK_LIGHTING_PRODUCTS: LightingProduct[] = [
+  {
+    id: 'lamp-001',
+    name: 'Lantern Floor Lamp',
+    type: 'lighting',
+    vibe: 'ambient',
+    shadeColor: '#f2e8d5',
+    lightColor: '#ffd9a0',
+    intensity: 3,
+    dimensions: { width: 0.45, height: 1.6 },
+    price: 320,
+    description: 'Linen drum shade on a slim brass stem, casting a warm glow.',
+  },
+];
+
+export const MOCK_SCULPTURE_PRODUCTS: SculptureProduct[] = [
+  {
+    id: 'sculpture-001',
+    name: 'Flowing Form',
+    type: 'sculpture',
+    vibe: 'ambient',
+    modelUri: MOCK_ASSETS.models.sculpture,
+    scale: 0.8,
+    dimensions: { width: 0.35, depth: 0.35, height: 0.9 },
+    materialColor: '#d8d2c4',
+    price: 980,
+    stock: 1,
+    isUniqueOriginal: true,
+    description: 'Organic cast-stone sculpture with sweeping, continuous curves.',
+  },
+];
+
+export const MOCK_MIRROR_PRODUCTS: MirrorProduct[] = [
+  {
+    id: 'mirror-001',
+    name: 'Halo Round Mirror',
+    type: 'mirror',
+    vibe: 'upbeat',
+    shape: 'round',
+    frameColor: '#b08d57',
+    dimensions: { width: 0.8, height: 0.8 },
+    price: 280,
+    stock: 0,
+    description: 'Round wall mirror with a thin brushed-brass frame.',
+  },
+];
+
+// Combine all products
+export const MOCK_PRODUCTS: Product[] = [
+  ...MOCK_ART_PRODUCTS,
+  ...MOCK_TABLE_PRODUCTS,
+  ...MOCK_RUG_PRODUCTS,
+  ...MOCK_LIGHTING_PRODUCTS,
+  ...MOCK_SCULPTURE_PRODUCTS,
+  ...MOCK_MIRROR_PRODUCTS,
+];
@@ -0,0 +1,295 @@
+// ============================================
+// Payment Gateways
+// ============================================
+
+import { createId } from './ids';
+import type {
+  CreatePaymentIntentRequest,
+  PaymentCard,
+  PaymentErrorCode,
+  PaymentGateway,
+  PaymentIntent,
+  PaymentRefund,
+  PaymentStep,
+} from './types';
+
+/**
+ * Payment failure tagged with the step it happened in, so checkout can show
+ * the right message and decide whether a retry makes sense
+ */
+export class PaymentError extends Error {
+  readonly step: PaymentStep;
+  readonly code: PaymentErrorCode;
+
+  constructor(step: PaymentStep, code: PaymentErrorCode, message: string) {
+    super(message);
+    this.name = 'PaymentError';
+    this.step = step;
+    this.code = code;
+  }
+
+  /** Declines and bad card details need new input; processing errors can be retried as-is */
+  get isRetryable(): boolean {
+    return this.code === 'processing_error';
+  }
+}
+
+export function isPaymentError(error: unknown): error is PaymentError {
+  return error instanceof PaymentError;
+}
+
+// ============================================
+// Card Helpers
+// ============================================
+
+export function normalizeCardNumber(number: string): string {
+  return number.replace(/[\s-]/g, '');
+}
+
+/**
+ * Luhn checksum used by all major card networks
+ */
+export function isValidCardNumber(number: string): boolean {
+  const digits = normalizeCardNumber(number);
+  if (!/^\d{12,19}$/.test(digits)) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Expiry in MM/YY format that is not in the past
+ */
+export function isValidExpiry(expiry: string, now = new Date()): boolean {
+  const match = /^(\d{2})\s*\/\s*(\d{2})$/.exec(expiry.trim());
+  if (!match) return false;
+
+  const month = Number(match[1]);
+  const year = 2000 + Number(match[2]);
+  if (month < 1 || month > 12) return false;
+
+  // Cards are valid through the end of the expiry month
+  return new Date(year, month, 1) > now;
+}
+
+export function isValidCvc(cvc: string): boolean {
+  return /^\d{3,4}$/.test(cvc.trim());
+}
+
+/**
+ * Create a random idempotency key for one checkout attempt
+ */
+export function createIdempotencyKey(): string {
+  return createId();
+}
+
+// ============================================
+// Fake Gateway
+// ============================================
+
+/**
+ * Test cards understood by the fake gateway (any future expiry and any CVC)
+ */
+export const FAKE_GATEWAY_TEST_CARDS = {
+  success: '4242 4242 4242 4242',
+  requiresAuthentication: '4000 0025 0000 3155',
+  declined: '4000 0000 0000 0002',
+  insufficientFunds: '4000 0000 0000 9995',
+  processingError: '4000 0000 0000 0119',
+} as const;
+
+/** Verification code that passes the fake authentication challenge */
+export const FAKE_GATEWAY_AUTH_CODE = '123456';
+
+export interface FakePaymentGatewayOptions {
+  /** Simulated network latency in ms */
+  latency?: number;
+}
+
+/**
+ * In-memory gateway for development and tests. Mirrors a real provider's
+ * lifecycle (intent → confirm → optional authentication → refund) and honors
+ * idempotency keys, but never moves money.
+ */
+export function createFakePaymentGateway(options: FakePaymentGatewayOptions = {}): PaymentGateway {
+  const { latency = 600 } = options;
+  const intents = new Map<string, PaymentIntent>();
+  const intentsByKey = new Map<string, string>();
+  let sequence = 0;
+
+  const delay = () => new Promise((resolve) => setTimeout(resolve, latency));
+  const nextId = (prefix: string) =>
+    `${prefix}_${Date.now().toString(36)}${(++sequence).toString(36).padStart(3, '0')}`;
+
+  const getIntent = (intentId: string, step: PaymentStep): PaymentIntent => {
+    const intent = intents.get(intentId);
+    if (!intent) {
+      throw new PaymentError(step, 'intent_not_found', 'Payment could not be found. Please start again.');
+    }
+    return intent;
+  };
+
+  const update = (intent: PaymentIntent, changes: Partial<PaymentIntent>): PaymentIntent => {
+    const next = { ...intent, ...changes };
+    intents.set(intent.id, next);
+    return next;
+  };
+
+  return {
+    id: 'fake',
+
+    async createIntent(request: CreatePaymentIntentRequest) {
+      await delay();
+
+      const existingId = intentsByKey.get(request.idempotencyKey);
+      if (existingId) {
+        return getIntent(existingId, 'create-intent');
+      }
+
+      if (!(request.amount > 0)) {
+        throw new PaymentError('create-intent', 'invalid_state', 'Order total must be greater than zero.');
+      }
+
+      const intent: PaymentIntent = {
+        id: nextId('pi'),
+        amount: Math.round(request.amount * 100) / 100,
+        currency: request.currency,
+        status: 'requires_confirmation',
+        idempotencyKey: request.idempotencyKey,
+        metadata: request.metadata ?? {},
+        nextAction: null,
+        cardLast4: null,
+        amountRefunded: 0,
+        createdAt: Date.now(),
+      };
+      intents.set(intent.id, intent);
+      intentsByKey.set(request.idempotencyKey, intent.id);
+      return intent;
+    },
+
+    async confirmIntent(intentId: string, card: PaymentCard) {
+      await delay();
+      const intent = getIntent(intentId, 'confirm');
+
+      // Confirming twice is a no-op rather than a second charge
+      if (intent.status === 'succeeded' || intent.status === 'requires_action') {
+        return intent;
+      }
+      if (intent.status === 'refunded') {
+        throw new PaymentError('confirm', 'invalid_state', 'This payment has already been refunded.');
+      }
+
+      const number = normalizeCardNumber(card.number);
+      if (!isValidCardNumber(number)) {
+        throw new PaymentError('confirm', 'invalid_card', 'The card number is not valid.');
+      }
+      if (!isValidExpiry(card.expiry)) {
+        throw new PaymentError('confirm', 'invalid_card', 'The card has expired or the expiry date is invalid.');
+      }
+      if (!isValidCvc(card.cvc)) {
+        throw new PaymentError('confirm', 'invalid_card', 'The security code is not valid.');
+      }
+
+      const cardLast4 = number.slice(-4);
+
+      switch (number) {
+        case normalizeCardNumber(FAKE_GATEWAY_TEST_CARDS.declined):
+          update(intent, { status: 'failed', cardLast4 });
+          throw new PaymentError('confirm', 'card_declined', 'Your card was declined.');
+        case normalizeCardNumber(FAKE_GATEWAY_TEST_CARDS.insufficientFunds):
+          update(intent, { status: 'failed', cardLast4 });
+          throw new PaymentError('confirm', 'insufficient_funds', 'Your card has insufficient funds.');
+        case normalizeCardNumber(FAKE_GATEWAY_TEST_CARDS.processingError):
+          throw new PaymentError('confirm', 'processing_error', 'The payment could not be processed. Please try again.');
+        case normalizeCardNumber(FAKE_GATEWAY_TEST_CARDS.requiresAuthentication):
+          return update(intent, {
+            status: 'requires_action',
+            cardLast4,
+            nextAction: { type: 'authenticate', challengeId: nextId('ch') },
+          });
+        default:
+          return update(intent, { status: 'succeeded', cardLast4, nextAction: null });
+      }
+    },
+
+    async authenticate(intentId: string, challengeResponse: string) {
+      await delay();
+      const intent = getIntent(intentId, 'authenticate');
+
+      if (intent.status === 'succeeded') return intent;
+      if (intent.status !== 'requires_action') {
+        throw new PaymentError('authenticate', 'invalid_state', 'This payment does not need verification.');
+      }
+      if (challengeResponse.trim() !== FAKE_GATEWAY_AUTH_CODE) {
+        throw new PaymentError('authenticate', 'authentication_failed', 'The verification code is incorrect.');
+      }
+
+      return update(intent, { status: 'succeeded', nextAction: null });
+    },
+
+    async refund(intentId: string, amount?: number) {
+      await delay();
+      const intent = getIntent(intentId, 'refund');
+
+      if (intent.status !== 'succeeded') {
+        throw new PaymentError('refund', 'invalid_state', 'Only completed payments can be refunded.');
+      }
+
+      const refundable = Math.round((intent.amount - intent.amountRefunded) * 100) / 100;
+      const refundAmount = amount ?? refundable;
+      if (!(refundAmount > 0) || refundAmount > refundable) {
+        throw new PaymentError('refund', 'invalid_state', 'Refund amount exceeds the refundable balance.');
+      }
+
+      const amountRefunded = Math.round((intent.amountRefunded + refundAmount) * 100) / 100;
+      update(intent, {
+        amountRefunded,
+        status: amountRefunded >= intent.amount ? 'refunded' : 'succeeded',
+      });
+
+      const refund: PaymentRefund = {
+        id: nextId('re'),
+        intentId,
+        amount: refundAmount,
+        createdAt: Date.now(),
+      };
+      return refund;
+    },
+  };
+}
+
+// ============================================
+// Active Gateway
+// ============================================
+
+let activeGateway: PaymentGateway = createFakePaymentGateway();
+
+/**
+ * The gateway used by checkout
+ */
+export function getPaymentGateway(): PaymentGateway {
+  return activeGateway;
+}
+
+/**
+ * Swap the payment gateway, e.g. for a real provider adapter
+ */
+export function setPaymentGateway(gateway: PaymentGateway): void {
+  activeGateway = gateway;
+}
+
+/**
+ * Order ids are derived from the checkout's idempotency key, so a retried or
+ * double-submitted checkout always resolves to the same order
+ */
+export function getOrderIdForKey(idempotencyKey: string): string {
+  return `ORD-${idempotencyKey.replace(/[^a-zA-Z0-9]/g, '').slice(0, 10).toUpperCase()}`;
+}
@@ -0,0 +1,167 @@
+// ============================================
+// Persisted Store Schemas & Reconciliation
+// ============================================
+
+import { getMaxLineQuantity } from './inventory';
+import { applyVariant, getCartLineId, getVariant } from './variants';
+import type {
+  CartItem,
+  PersistedCartLine,
+  PersistedWishlistItem,
+  Product,
+  SavedItemNotice,
+} from './types';
+
+/**
+ * Upgrades state saved by the previous schema version to this one
+ */
+export type MigrationStep = (persistedState: unknown) => unknown;
+
+/**
+ * Build a `persist` migrate function from one step per schema version.
+ * State saved at version N runs every step above N in ascending order, so
+ * each step only needs to know about the version right before it.
+ */
+export function createMigrate<T>(steps: Record<number, MigrationStep>) {
+  const versions = Object.keys(steps)
+    .map(Number)
+    .sort((a, b) => a - b);
+
+  return (persistedState: unknown, version: number): T => {
+    let state = persistedState;
+    for (const target of versions) {
+      if (version < target) {
+        state = steps[target](state);
+      }
+    }
+    return state as T;
+  };
+}
+
+export function toPersistedCartLine(item: CartItem): PersistedCartLine {
+  return {
+    id: item.id,
+    productId: item.product.id,
+    variantId: item.variant?.id ?? null,
+    variantLabel: item.variant?.label ?? null,
+    quantity: item.quantity,
+    snapshot: { name: item.product.name, price: item.product.price },
+  };
+}
+
+export function toPersistedWishlistItem(product: Product): PersistedWishlistItem {
+  return {
+    productId: product.id,
+    snapshot: { name: product.name, price: product.price },
+  };
+}
+
+/**
+ * Resolve saved cart lines against the current catalog. Lines whose product
+ * or variant is gone are dropped, quantities are clamped to current stock,
+ * and every change the shopper should hear about comes back as a notice.
+ * Lines already in `existing` (added before the catalog loaded) are kept and
+ * merged with saved lines for the same product and variant.
+ */
+export function reconcileCartLines(
+  lines: PersistedCartLine[],
+  products: Product[],
+  existing: CartItem[] = []
+): { items: CartItem[]; notices: SavedItemNotice[] } {
+  const catalog = new Map(products.map((product) => [product.id, product]));
+  const items = existing.map((item) => ({ ...item }));
+  const notices: SavedItemNotice[] = [];
+
+  for (const line of lines) {
+    const notice = {
+      key: line.id,
+      source: 'cart' as const,
+      name: line.snapshot.name,
+      variantLabel: line.variantLabel,
+    };
+
+    const product = catalog.get(line.productId);
+    // getVariant falls back to the default, which is only right for lines saved without one
+    const variant = product ? getVariant(product, line.variantId) : null;
+    if (!product || (line.variantId !== null && variant?.id !== line.variantId)) {
+      notices.push({ ...notice, kind: 'removed' });
+      continue;
+    }
+
+    const configured = applyVariant(product, variant?.id);
+    if (configured.price !== line.snapshot.price) {
+      notices.push({
+        ...notice,
+        kind: 'price-changed',
+        previousPrice: line.snapshot.price,
+        currentPrice: configured.price,
+      });
+    }
+
+    const id = getCartLineId(product.id, variant?.id);
+    const max = getMaxLineQuantity(items, id, configured);
+    const current = items.find((item) => item.id === id);
+    const requested = (current?.quantity ?? 0) + line.quantity;
+    const quantity = Math.min(requested, max);
+
+    if (quantity < requested) {
+      notices.push({ ...notice, kind: 'quantity-reduced', previousQuantity: requested, quantity });
+    }
+
+    if (current) {
+      current.quantity = quantity;
+    } else {
+      items.push({
+        id,
+        product: configured,
+        variant: variant ? { id: variant.id, label: variant.label } : null,
+        quantity,
+      });
+    }
+  }
+
+  return { items: items.filter((item) => item.quantity > 0), notices };
+}
+
+/**
+ * Resolve saved wishlist entries against the current catalog, dropping
+ * removed products and noting price changes
+ */
+export function reconcileWishlistItems(
+  entries: PersistedWishlistItem[],
+  products: Product[],
+  existing: Product[] = []
+): { items: Product[]; notices: SavedItemNotice[] } {
+  const catalog = new Map(products.map((product) => [product.id, product]));
+  const items = [...existing];
+  const notices: SavedItemNotice[] = [];
+
+  for (const entry of entries) {
+    if (items.some((item) => item.id === entry.productId)) continue;
+
+    const notice = {
+      key: entry.productId,
+      source: 'wishlist' as const,
+      name: entry.snapshot.name,
+      variantLabel: null,
+    };
+
+    const product = catalog.get(entry.productId);
+    if (!product) {
+      notices.push({ ...notice, kind: 'removed' });
+      continue;
+    }
+
+    if (product.price !== entry.snapshot.price) {
+      notices.push({
+        ...notice,
+        kind: 'price-changed',
+        previousPrice: entry.snapshot.price,
+        currentPrice: product.price,
+      });
+    }
+    items.push(product);
+  }
+
+  return { items, notices };
+}
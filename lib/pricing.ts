@@ -0,0 +1,182 @@
+// ============================================
+// Pricing Engine
+// ============================================
+
+import { PRICING_CONFIG } from './constants';
+import { BASE_CURRENCY, convertPrice, formatPrice, getExchangeRate, roundToCurrency } from './currency';
+import { getShippingClass } from './productTypes';
+import type {
+  CurrencyCode,
+  PriceBreakdown,
+  Product,
+  PromoCode,
+  ShippingClass,
+  ShippingCountry,
+} from './types';
+
+export interface PricedLineItem {
+  product: Product;
+  quantity: number;
+}
+
+export type PromoCodeValidation =
+  | { valid: true; promo: PromoCode }
+  | { valid: false; reason: string };
+
+/** Formats a base-currency amount for promo messages */
+export type BasePriceFormatter = (amount: number) => string;
+
+const formatBasePrice: BasePriceFormatter = (amount) => formatPrice(amount, BASE_CURRENCY);
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export const SHIPPING_COUNTRIES: readonly ShippingCountry[] = PRICING_CONFIG.countries;
+
+/**
+ * Destination details for a country code, falling back to the default
+ * country for anything we don't ship to
+ */
+export function getShippingCountry(code: string | null | undefined): ShippingCountry {
+  const normalized = code?.trim().toUpperCase();
+  return (
+    SHIPPING_COUNTRIES.find((country) => country.code === normalized) ??
+    SHIPPING_COUNTRIES.find((country) => country.code === PRICING_CONFIG.defaultCountry)!
+  );
+}
+
+export function isSupportedCountry(code: string): boolean {
+  const normalized = code.trim().toUpperCase();
+  return SHIPPING_COUNTRIES.some((country) => country.code === normalized);
+}
+
+export function getCountryName(code: string): string {
+  const normalized = code.trim().toUpperCase();
+  return SHIPPING_COUNTRIES.find((country) => country.code === normalized)?.name ?? code;
+}
+
+export function getSubtotal(items: PricedLineItem[]): number {
+  return roundCents(items.reduce((total, item) => total + item.product.price * item.quantity, 0));
+}
+
+/**
+ * Shipping is charged per bulk class: the first unit of a class pays the full
+ * rate and each further unit of that class pays the lower "additional" rate
+ */
+export function calculateShipping(items: PricedLineItem[], country: ShippingCountry): number {
+  const unitsByClass = new Map<ShippingClass, number>();
+  for (const item of items) {
+    const shippingClass = getShippingClass(item.product);
+    unitsByClass.set(shippingClass, (unitsByClass.get(shippingClass) ?? 0) + item.quantity);
+  }
+
+  const rates = PRICING_CONFIG.shippingRates[country.zone];
+  let shipping = 0;
+  unitsByClass.forEach((units, shippingClass) => {
+    if (units <= 0) return;
+    const rate = rates[shippingClass];
+    shipping += rate.first + rate.additional * (units - 1);
+  });
+  return roundCents(shipping);
+}
+
+/**
+ * Human-readable summary of what a promo code does
+ */
+export function describePromoCode(promo: PromoCode, format: BasePriceFormatter = formatBasePrice): string {
+  switch (promo.type) {
+    case 'percent':
+      return `${promo.value}% off your order`;
+    case 'fixed':
+      return promo.minSubtotal !== undefined
+        ? `${format(promo.value)} off orders over ${format(promo.minSubtotal)}`
+        : `${format(promo.value)} off your order`;
+    case 'free-shipping':
+      return 'Free shipping';
+  }
+}
+
+/**
+ * Check a promo code against the current (base-currency) subtotal
+ */
+export function validatePromoCode(
+  code: string,
+  subtotal: number,
+  format: BasePriceFormatter = formatBasePrice
+): PromoCodeValidation {
+  const normalized = code.trim().toUpperCase();
+  if (!normalized) {
+    return { valid: false, reason: 'Enter a promo code.' };
+  }
+
+  const promo = PRICING_CONFIG.promoCodes.find((candidate) => candidate.code === normalized);
+  if (!promo) {
+    return { valid: false, reason: `"${normalized}" is not a valid promo code.` };
+  }
+  if (promo.minSubtotal !== undefined && subtotal < promo.minSubtotal) {
+    return {
+      valid: false,
+      reason: `${promo.code} requires a subtotal of at least ${format(promo.minSubtotal)}.`,
+    };
+  }
+  return { valid: true, promo };
+}
+
+/**
+ * Full price breakdown for a set of line items shipped to a country.
+ * Discounts apply to merchandise only; tax applies to the discounted
+ * subtotal, plus shipping where the destination taxes it.
+ *
+ * Everything is calculated in the base currency, then each line is converted
+ * at `exchangeRate` so the converted lines add up to the converted total.
+ */
+export function calculatePricing(params: {
+  items: PricedLineItem[];
+  country: string;
+  promoCode?: string | null;
+  currency?: CurrencyCode;
+  exchangeRate?: number;
+}): PriceBreakdown {
+  const { items, promoCode, currency = BASE_CURRENCY } = params;
+  const exchangeRate = params.exchangeRate ?? getExchangeRate(currency);
+  const country = getShippingCountry(params.country);
+  const itemCount = items.reduce((total, item) => total + item.quantity, 0);
+  const subtotal = getSubtotal(items);
+
+  const validation = promoCode ? validatePromoCode(promoCode, subtotal) : null;
+  const promo = validation?.valid ? validation.promo : null;
+
+  let discount = 0;
+  if (promo?.type === 'percent') {
+    discount = roundCents(subtotal * (promo.value / 100));
+  } else if (promo?.type === 'fixed') {
+    discount = Math.min(promo.value, subtotal);
+  }
+
+  const shipping = itemCount === 0 || promo?.type === 'free-shipping'
+    ? 0
+    : calculateShipping(items, country);
+
+  const taxable = subtotal - discount + (country.taxShipping ? shipping : 0);
+  const tax = roundCents(taxable * country.taxRate);
+
+  const convert = (amount: number) => convertPrice(amount, currency, exchangeRate);
+  const converted = {
+    subtotal: convert(subtotal),
+    discount: convert(discount),
+    shipping: convert(shipping),
+    tax: convert(tax),
+  };
+
+  return {
+    currency,
+    exchangeRate,
+    ...converted,
+    total: roundToCurrency(
+      converted.subtotal - converted.discount + converted.shipping + converted.tax,
+      currency
+    ),
+    itemCount,
+    country,
+    promo,
+  };
+}
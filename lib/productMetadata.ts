@@ -0,0 +1,81 @@
+// ============================================
+// Product Page Metadata (Open Graph, Twitter, JSON-LD)
+// ============================================
+
+import type { Metadata } from 'next';
+import { SITE_CONFIG } from './constants';
+import { BASE_CURRENCY, formatPrice } from './currency';
+import { getStockInfo } from './inventory';
+import { PRODUCT_TYPE_REGISTRY, getProductPreviewImage } from './productTypes';
+import { getProductPath } from './urlState';
+import type { Product } from './types';
+
+export function getProductUrl(product: Product): string {
+  return new URL(getProductPath(product.id), SITE_CONFIG.url).toString();
+}
+
+/**
+ * Page title, description and share cards for a product page
+ */
+export function getProductMetadata(product: Product): Metadata {
+  const title = `${product.name} – ${formatPrice(product.price)}`;
+  const description = product.description;
+  const image = getProductPreviewImage(product);
+  const images = image ? [{ url: image, alt: product.name }] : undefined;
+
+  return {
+    title: `${product.name} | ${SITE_CONFIG.name}`,
+    description,
+    alternates: { canonical: getProductPath(product.id) },
+    openGraph: {
+      title,
+      description,
+      url: getProductPath(product.id),
+      siteName: SITE_CONFIG.name,
+      type: 'website',
+      images,
+    },
+    twitter: {
+      card: image ? SITE_CONFIG.twitterCard : 'summary',
+      title,
+      description,
+      images: image ? [image] : undefined,
+    },
+  };
+}
+
+/**
+ * schema.org Product with an Offer in the base currency. Made-to-order
+ * products (untracked stock) are listed as in stock.
+ */
+export function getProductJsonLd(product: Product): Record<string, unknown> {
+  const image = getProductPreviewImage(product);
+  const { status } = getStockInfo(product);
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Product',
+    sku: product.id,
+    name: product.name,
+    description: product.description,
+    category: PRODUCT_TYPE_REGISTRY[product.type].label,
+    ...(image ? { image } : {}),
+    offers: {
+      '@type': 'Offer',
+      url: getProductUrl(product),
+      price: product.price.toFixed(2),
+      priceCurrency: BASE_CURRENCY,
+      availability: status === 'out-of-stock'
+        ? 'https://schema.org/OutOfStock'
+        : 'https://schema.org/InStock',
+    },
+  };
+}
+
+/**
+ * Serialize JSON-LD for an inline script tag; escaping `<` keeps product
+ * text from closing the tag early
+ */
+export function serializeJsonLd(data: Record<string, unknown>): string {
+  return JSON.stringify(data).replace(/</g, '\\u003c');
+}
@@ -0,0 +1,290 @@
+// ============================================
+// Product Type Registry
+// ============================================
+
+import { GALLERY_CONFIG } from './constants';
+import type { ModelDimensions, Product, ProductType, ShippingClass } from './types';
+
+export type PlacementSurface = 'wall' | 'floor';
+
+/**
+ * Where and how a product type sits in the gallery and in rooms
+ */
+export interface PlacementRule {
+  surface: PlacementSurface;
+  /** Height of the display origin on the gallery pedestal (meters) */
+  galleryHeight: number;
+  /** Tilt around X in the gallery so floor-lying items face the camera (radians) */
+  galleryTilt: number;
+  /** Gap from the wall or floor to avoid z-fighting (meters) */
+  surfaceOffset: number;
+}
+
+export interface ProductDimensions {
+  width: number;
+  height: number;
+  depth?: number;
+}
+
+export interface ProductSpecification {
+  label: string;
+  value: string;
+  /** Optional color chip shown next to the value */
+  swatch?: string;
+}
+
+export interface ProductTypeDefinition<T extends Product = Product> {
+  /** Singular display name, e.g. "Artwork" */
+  label: string;
+  /** Short label for filter chips, e.g. "Art" */
+  filterLabel: string;
+  placement: PlacementRule;
+  /** Bulk class used to pick shipping rates */
+  shippingClass: ShippingClass;
+  /** Physical footprint in meters, or null when only the model knows it */
+  getDimensions: (product: T) => ProductDimensions | null;
+  /**
+   * The renderer normalizes a 3D model's size, so it only shows real size in
+   * true-scale mode (sized from `getDimensions`). Procedural renderers are
+   * always built from the real dimensions.
+   */
+  hasNormalizedModel: boolean;
+  /** One-line summary for the HUD */
+  getSummary: (product: T) => string;
+  getSpecifications: (product: T) => ProductSpecification[];
+  /** 2D image for thumbnails and the detail modal, if the type has one */
+  getPreviewImage: (product: T) => string | null;
+}
+
+type ProductOfType<K extends ProductType> = Extract<Product, { type: K }>;
+
+type ProductTypeRegistry = {
+  [K in ProductType]: ProductTypeDefinition<ProductOfType<K>>;
+};
+
+const formatMeters = (value: number) => `${value.toFixed(1)}m`;
+
+const formatModelDimensions = ({ width, depth, height }: ModelDimensions) =>
+  `${formatMeters(width)} W × ${formatMeters(depth)} D × ${formatMeters(height)} H`;
+
+const WALL_PLACEMENT: Omit<PlacementRule, 'surfaceOffset'> = {
+  surface: 'wall',
+  galleryHeight: GALLERY_CONFIG.display.artHeight,
+  galleryTilt: 0,
+};
+
+/**
+ * Every product type with its placement rules and display metadata.
+ * Adding a type means extending the `Product` union, adding an entry here and
+ * a renderer in `components/canvas/ProductRenderer.tsx`.
+ */
+export const PRODUCT_TYPE_REGISTRY: ProductTypeRegistry = {
+  art: {
+    label: 'Artwork',
+    filterLabel: 'Art',
+    placement: { ...WALL_PLACEMENT, surfaceOffset: 0.1 },
+    shippingClass: 'parcel',
+    getDimensions: (product) => product.dimensions,
+    hasNormalizedModel: false,
+    getSummary: (product) =>
+      `${formatMeters(product.dimensions.width)} × ${formatMeters(product.dimensions.height)}`,
+    getSpecifications: (product) => [
+      {
+        label: 'Dimensions',
+        value: `${formatMeters(product.dimensions.width)} × ${formatMeters(product.dimensions.height)}`,
+      },
+      { label: 'Frame Color', value: product.frameColor, swatch: product.frameColor },
+    ],
+    getPreviewImage: (product) => product.imageUri,
+  },
+  table: {
+    label: 'Furniture',
+    filterLabel: 'Furniture',
+    placement: {
+      surface: 'floor',
+      galleryHeight: GALLERY_CONFIG.display.artHeight,
+      galleryTilt: 0,
+      surfaceOffset: 0,
+    },
+    shippingClass: 'freight',
+    getDimensions: (product) => product.dimensions ?? null,
+    hasNormalizedModel: true,
+    getSummary: (product) => `Scale: ${product.scale}x`,
+    getSpecifications: (product) => [
+      ...(product.dimensions ? [{ label: 'Dimensions', value: formatModelDimensions(product.dimensions) }] : []),
+      { label: 'Scale', value: `${product.scale}x` },
+      { label: 'Type', value: '3D Model (GLB)' },
+      ...(product.materialColor
+        ? [{ label: 'Material', value: product.materialColor, swatch: product.materialColor }]
+        : []),
+    ],
+    getPreviewImage: () => null,
+  },
+  rug: {
+    label: 'Rug',
+    filterLabel: 'Rugs',
+    placement: {
+      surface: 'floor',
+      galleryHeight: 1.2,
+      galleryTilt: Math.PI / 3,
+      surfaceOffset: 0.005,
+    },
+    shippingClass: 'parcel',
+    getDimensions: (product) => ({
+      width: product.dimensions.width,
+      height: 0.01,
+      depth: product.dimensions.depth,
+    }),
+    hasNormalizedModel: false,
+    getSummary: (product) =>
+      `${formatMeters(product.dimensions.width)} × ${formatMeters(product.dimensions.depth)}`,
+    getSpecifications: (product) => [
+      {
+        label: 'Footprint',
+        value: `${formatMeters(product.dimensions.width)} × ${formatMeters(product.dimensions.depth)}`,
+      },
+    ],
+    getPreviewImage: (product) => product.textureUri,
+  },
+  lighting: {
+    label: 'Lighting',
+    filterLabel: 'Lighting',
+    placement: {
+      surface: 'floor',
+      galleryHeight: 0,
+      galleryTilt: 0,
+      surfaceOffset: 0,
+    },
+    shippingClass: 'oversized',
+    getDimensions: (product) => ({
+      width: product.dimensions.width,
+      height: product.dimensions.height,
+      depth: product.dimensions.width,
+    }),
+    hasNormalizedModel: false,
+    getSummary: (product) => `${formatMeters(product.dimensions.height)} tall`,
+    getSpecifications: (product) => [
+      { label: 'Height', value: formatMeters(product.dimensions.height) },
+      { label: 'Shade', value: product.shadeColor, swatch: product.shadeColor },
+      { label: 'Light Color', value: product.lightColor, swatch: product.lightColor },
+    ],
+    getPreviewImage: () => null,
+  },
+  sculpture: {
+    label: 'Sculpture',
+    filterLabel: 'Sculpture',
+    placement: {
+      surface: 'floor',
+      galleryHeight: GALLERY_CONFIG.display.artHeight,
+      galleryTilt: 0,
+      surfaceOffset: 0,
+    },
+    shippingClass: 'oversized',
+    getDimensions: (product) => product.dimensions ?? null,
+    hasNormalizedModel: true,
+    getSummary: (product) => `Scale: ${product.scale}x`,
+    getSpecifications: (product) => [
+      ...(product.dimensions ? [{ label: 'Dimensions', value: formatModelDimensions(product.dimensions) }] : []),
+      { label: 'Scale', value: `${product.scale}x` },
+      { label: 'Type', value: '3D Model (GLB)' },
+    ],
+    getPreviewImage: () => null,
+  },
+  mirror: {
+    label: 'Mirror',
+    filterLabel: 'Mirrors',
+    placement: { ...WALL_PLACEMENT, surfaceOffset: 0.05 },
+    shippingClass: 'oversized',
+    getDimensions: (product) => product.dimensions,
+    hasNormalizedModel: false,
+    getSummary: (product) =>
+      product.shape === 'round'
+        ? `Ø ${formatMeters(product.dimensions.width)}`
+        : `${formatMeters(product.dimensions.width)} × ${formatMeters(product.dimensions.height)}`,
+    getSpecifications: (product) => [
+      {
+        label: product.shape === 'round' ? 'Diameter' : 'Dimensions',
+        value:
+          product.shape === 'round'
+            ? formatMeters(product.dimensions.width)
+            : `${formatMeters(product.dimensions.width)} × ${formatMeters(product.dimensions.height)}`,
+      },
+      { label: 'Frame Color', value: product.frameColor, swatch: product.frameColor },
+    ],
+    getPreviewImage: () => null,
+  },
+};
+
+export const PRODUCT_TYPES = Object.keys(PRODUCT_TYPE_REGISTRY) as ProductType[];
+
+// Own keys only: `in` would also accept inherited names like "toString"
+export function isProductType(value: unknown): value is ProductType {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(PRODUCT_TYPE_REGISTRY, value);
+}
+
+/**
+ * Registry entry for a product, typed to that product's shape
+ */
+export function getProductTypeDefinition<K extends ProductType>(
+  product: ProductOfType<K> & { type: K }
+): ProductTypeDefinition<ProductOfType<K>> {
+  return PRODUCT_TYPE_REGISTRY[product.type];
+}
+
+export function getPlacementRule(product: Product): PlacementRule {
+  return PRODUCT_TYPE_REGISTRY[product.type].placement;
+}
+
+export function getShippingClass(product: Product): ShippingClass {
+  return PRODUCT_TYPE_REGISTRY[product.type].shippingClass;
+}
+
+export function getProductDimensions(product: Product): ProductDimensions | null {
+  return getProductTypeDefinition(product).getDimensions(product);
+}
+
+/**
+ * Whether true-scale mode changes how the product is drawn: a normalized 3D
+ * model that has catalog dimensions to size it from
+ */
+export function supportsTrueScale(product: Product): boolean {
+  return PRODUCT_TYPE_REGISTRY[product.type].hasNormalizedModel && getProductDimensions(product) !== null;
+}
+
+/**
+ * Whether the 3D view shows the product at its real size, so measurements
+ * drawn from `getProductDimensions` line up with it
+ */
+export function isShownAtRealSize(product: Product, trueScale: boolean): boolean {
+  return PRODUCT_TYPE_REGISTRY[product.type].hasNormalizedModel ? trueScale && supportsTrueScale(product) : true;
+}
+
+export function getProductSummary(product: Product): string {
+  return getProductTypeDefinition(product).getSummary(product);
+}
+
+export function getProductSpecifications(product: Product): ProductSpecification[] {
+  return getProductTypeDefinition(product).getSpecifications(product);
+}
+
+export function getProductPreviewImage(product: Product): string | null {
+  return getProductTypeDefinition(product).getPreviewImage(product);
+}
+
+/**
+ * Position for a product in a box-shaped room centered on the origin:
+ * wall items hang on the back wall, floor items stand in the middle
+ */
+export function getRoomPlacement(
+  product: Product,
+  room: { width: number; depth: number; height: number }
+): [number, number, number] {
+  const { surface, surfaceOffset } = getPlacementRule(product);
+
+  if (surface === 'wall') {
+    // Center + slight offset, roughly eye level in a standard room
+    return [0, room.height * 0.5 + 0.3, -room.depth / 2 + surfaceOffset];
+  }
+
+  return [0, surfaceOffset, 0];
+}
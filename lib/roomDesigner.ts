@@ -0,0 +1,482 @@
+// ============================================
+// Virtual Room Designer
+// ============================================
+
+import * as THREE from 'three';
+import { GALLERY_CONFIG, ROOM_DESIGNER_CONFIG } from './constants';
+import { createId } from './ids';
+import { getPlacementRule, getProductDimensions } from './productTypes';
+import { applyVariant } from './variants';
+import type { RoomLayout, RoomOpening } from './customRoom';
+import type { Product, VRRoomConfig, VRRoomTemplate } from './types';
+
+export type RoomDimensions = VRRoomConfig['dimensions'];
+
+/**
+ * Room items are placed in: its size, plus the doors and windows they
+ * keep clear of
+ */
+export type DesignRoom = RoomDimensions & { openings?: RoomOpening[] };
+
+export type RoomWall = 'back' | 'front' | 'left' | 'right';
+
+export const ROOM_WALLS: RoomWall[] = ['back', 'left', 'right', 'front'];
+
+/**
+ * A product placed in a designed room. The room is centered on the origin
+ * with the floor at y = 0, like `VirtualRoom`.
+ */
+export interface PlacedItem {
+  id: string;
+  productId: string;
+  variantId: string | null;
+  /** Floor items: where the base stands. Wall items: the center, just off the wall */
+  position: [number, number, number];
+  /** Turn around Y (radians); wall items face out from their wall */
+  rotationY: number;
+  /** On top of the product's real size, within `ROOM_DESIGNER_CONFIG.minScale`/`maxScale` */
+  scale: number;
+  /** Wall the item hangs on, or null for floor items */
+  wall: RoomWall | null;
+}
+
+export type ItemPose = Pick<PlacedItem, 'position' | 'rotationY' | 'wall'>;
+
+/**
+ * A saved room design
+ */
+export interface RoomDesign {
+  id: string;
+  name: string;
+  templateId: VRRoomTemplate;
+  items: PlacedItem[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * A placed item with its catalog product, variant applied
+ */
+export interface DesignItem {
+  item: PlacedItem;
+  product: Product;
+}
+
+type ItemLayer = 'flat' | 'standing' | 'wall';
+
+/**
+ * Axis-aligned extent of an item: across the floor (x, z) for floor items,
+ * or along its wall and up it for wall items
+ */
+interface ItemBounds {
+  layer: ItemLayer;
+  wall: RoomWall | null;
+  min: [number, number];
+  max: [number, number];
+}
+
+interface WallFrame {
+  /** Facing into the room */
+  rotationY: number;
+  /** The wall runs along world X (back/front) or Z (left/right) */
+  axis: 'x' | 'z';
+  length: number;
+  plane: THREE.Plane;
+}
+
+const floorPlane = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+const hitPoint = new THREE.Vector3();
+
+export function createPlacedItemId(): string {
+  return createId();
+}
+
+/**
+ * Pair placed items with their products; items whose product has left the
+ * catalog are dropped
+ */
+export function resolveDesignItems(items: PlacedItem[], catalog: Product[]): DesignItem[] {
+  const resolved: DesignItem[] = [];
+  for (const item of items) {
+    const product = catalog.find((candidate) => candidate.id === item.productId);
+    if (product) {
+      resolved.push({ item, product: applyVariant(product, item.variantId) });
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Real size of a product in the room (meters)
+ */
+export function getItemSize(product: Product, scale: number): { width: number; height: number; depth: number } {
+  const dimensions = getProductDimensions(product);
+  const { defaultSize } = ROOM_DESIGNER_CONFIG;
+  return {
+    width: (dimensions?.width ?? defaultSize.width) * scale,
+    height: (dimensions?.height ?? defaultSize.height) * scale,
+    depth: (dimensions?.depth ?? defaultSize.depth) * scale,
+  };
+}
+
+/**
+ * Placement room for a template's layout
+ */
+export function getDesignRoom({ dimensions, openings }: RoomLayout): DesignRoom {
+  return { ...dimensions, openings };
+}
+
+function getWallFrame(wall: RoomWall, room: RoomDimensions): WallFrame {
+  const halfWidth = room.width / 2;
+  const halfDepth = room.depth / 2;
+  switch (wall) {
+    case 'back':
+      return { rotationY: 0, axis: 'x', length: room.width, plane: new THREE.Plane(new THREE.Vector3(0, 0, 1), halfDepth) };
+    case 'front':
+      return {
+        rotationY: Math.PI,
+        axis: 'x',
+        length: room.width,
+        plane: new THREE.Plane(new THREE.Vector3(0, 0, -1), halfDepth),
+      };
+    case 'left':
+      return {
+        rotationY: Math.PI / 2,
+        axis: 'z',
+        length: room.depth,
+        plane: new THREE.Plane(new THREE.Vector3(1, 0, 0), halfWidth),
+      };
+    case 'right':
+      return {
+        rotationY: -Math.PI / 2,
+        axis: 'z',
+        length: room.depth,
+        plane: new THREE.Plane(new THREE.Vector3(-1, 0, 0), halfWidth),
+      };
+  }
+}
+
+/**
+ * Pose for a floor item standing at (x, z)
+ */
+export function getFloorPose(product: Product, x: number, z: number, rotationY: number): ItemPose {
+  return { position: [x, getPlacementRule(product).surfaceOffset, z], rotationY, wall: null };
+}
+
+/**
+ * Pose for a wall item centered `along` its wall at height `y`, flush with it
+ */
+export function getWallPose(product: Product, wall: RoomWall, along: number, y: number, room: RoomDimensions): ItemPose {
+  const { rotationY, axis, plane } = getWallFrame(wall, room);
+  // Plane constants are the wall's distance from the room center
+  const distance = plane.constant - getPlacementRule(product).surfaceOffset;
+  const position: [number, number, number] =
+    axis === 'x'
+      ? [along, y, plane.normal.z > 0 ? -distance : distance]
+      : [plane.normal.x > 0 ? -distance : distance, y, along];
+  return { position, rotationY, wall };
+}
+
+function getAlongWall(item: PlacedItem): number {
+  return item.wall === 'left' || item.wall === 'right' ? item.position[2] : item.position[0];
+}
+
+function getItemBounds({ item, product }: DesignItem): ItemBounds {
+  const { width, height, depth } = getItemSize(product, item.scale);
+
+  if (item.wall) {
+    const along = getAlongWall(item);
+    const y = item.position[1];
+    return {
+      layer: 'wall',
+      wall: item.wall,
+      min: [along - width / 2, y - height / 2],
+      max: [along + width / 2, y + height / 2],
+    };
+  }
+
+  // Box around the turned footprint
+  const cos = Math.abs(Math.cos(item.rotationY));
+  const sin = Math.abs(Math.sin(item.rotationY));
+  const halfX = (width * cos + depth * sin) / 2;
+  const halfZ = (width * sin + depth * cos) / 2;
+  const [x, , z] = item.position;
+  return {
+    layer: height <= ROOM_DESIGNER_CONFIG.flatItemHeight ? 'flat' : 'standing',
+    wall: null,
+    min: [x - halfX, z - halfZ],
+    max: [x + halfX, z + halfZ],
+  };
+}
+
+/**
+ * Room an item's bounds may use: the floor, or its wall between the
+ * baseboard and the ceiling
+ */
+function getRoomBounds(wall: RoomWall | null, room: RoomDimensions): { min: [number, number]; max: [number, number] } {
+  const { clearance, baseboardHeight } = ROOM_DESIGNER_CONFIG;
+  if (!wall) {
+    const halfWidth = room.width / 2 - clearance;
+    const halfDepth = room.depth / 2 - clearance;
+    return { min: [-halfWidth, -halfDepth], max: [halfWidth, halfDepth] };
+  }
+  const halfLength = getWallFrame(wall, room).length / 2 - clearance;
+  return { min: [-halfLength, baseboardHeight], max: [halfLength, room.height - clearance] };
+}
+
+function boundsOverlap(a: ItemBounds, b: ItemBounds): boolean {
+  if (a.layer !== b.layer || a.wall !== b.wall) return false;
+  const gap = ROOM_DESIGNER_CONFIG.clearance;
+  return (
+    a.min[0] < b.max[0] + gap &&
+    b.min[0] < a.max[0] + gap &&
+    a.min[1] < b.max[1] + gap &&
+    b.min[1] < a.max[1] + gap
+  );
+}
+
+/**
+ * What a door or window keeps clear: its hole in the wall for wall items
+ * and, for doors, the floor in front as deep as the door is wide for
+ * standing items. Rugs may lie in doorways.
+ */
+function getOpeningBounds(opening: RoomOpening, room: RoomDimensions): ItemBounds[] {
+  const { wall, width, height, sillHeight } = opening;
+  // Offsets run to the right facing the wall from inside: against world X
+  // on the front wall and against Z on the left one
+  const along = wall === 'front' || wall === 'left' ? -opening.offset : opening.offset;
+  const bounds: ItemBounds[] = [
+    { layer: 'wall', wall, min: [along - width / 2, sillHeight], max: [along + width / 2, sillHeight + height] },
+  ];
+  if (opening.kind !== 'door') return bounds;
+
+  const halfWidth = room.width / 2;
+  const halfDepth = room.depth / 2;
+  const [start, end] = [along - width / 2, along + width / 2];
+  const doorway: Record<RoomWall, Pick<ItemBounds, 'min' | 'max'>> = {
+    back: { min: [start, -halfDepth], max: [end, -halfDepth + width] },
+    front: { min: [start, halfDepth - width], max: [end, halfDepth] },
+    left: { min: [-halfWidth, start], max: [-halfWidth + width, end] },
+    right: { min: [halfWidth - width, start], max: [halfWidth, end] },
+  };
+  bounds.push({ layer: 'standing', wall: null, ...doorway[wall] });
+  return bounds;
+}
+
+/**
+ * Whether an item covers a door or window, or stands in a doorway
+ */
+export function blocksOpening(designItem: DesignItem, room: DesignRoom): boolean {
+  if (!room.openings?.length) return false;
+  const bounds = getItemBounds(designItem);
+  return room.openings.some((opening) =>
+    getOpeningBounds(opening, room).some((clear) => boundsOverlap(bounds, clear))
+  );
+}
+
+export function isInsideRoom(designItem: DesignItem, room: RoomDimensions): boolean {
+  const bounds = getItemBounds(designItem);
+  const limits = getRoomBounds(designItem.item.wall, room);
+  // Allow for rounding in poses that were clamped to the limits
+  const epsilon = 1e-6;
+  return (
+    bounds.min[0] >= limits.min[0] - epsilon &&
+    bounds.max[0] <= limits.max[0] + epsilon &&
+    bounds.min[1] >= limits.min[1] - epsilon &&
+    bounds.max[1] <= limits.max[1] + epsilon
+  );
+}
+
+/**
+ * Whether an item overlaps any of the others. Rugs only collide with rugs,
+ * so furniture can stand on them, and wall items only with items on the
+ * same wall.
+ */
+export function collidesWithOthers(designItem: DesignItem, others: DesignItem[]): boolean {
+  const bounds = getItemBounds(designItem);
+  return others.some(
+    (other) => other.item.id !== designItem.item.id && boundsOverlap(bounds, getItemBounds(other))
+  );
+}
+
+export function canPlaceItem(designItem: DesignItem, others: DesignItem[], room: DesignRoom): boolean {
+  return isInsideRoom(designItem, room) && !collidesWithOthers(designItem, others) && !blocksOpening(designItem, room);
+}
+
+/**
+ * Items that overlap another item or a door or window, e.g. after
+ * switching to a smaller room
+ */
+export function getCollidingItemIds(designItems: DesignItem[], room: DesignRoom): string[] {
+  return designItems
+    .filter((designItem) => collidesWithOthers(designItem, designItems) || blocksOpening(designItem, room))
+    .map((designItem) => designItem.item.id);
+}
+
+/**
+ * Keep an item's bounds inside the room by sliding it, without changing
+ * its size. Items bigger than the room end up centered.
+ */
+export function clampToRoom(designItem: DesignItem, room: RoomDimensions): PlacedItem {
+  const { item } = designItem;
+  const bounds = getItemBounds(designItem);
+  const limits = getRoomBounds(item.wall, room);
+
+  const shift = (axis: 0 | 1) => {
+    const center = (bounds.min[axis] + bounds.max[axis]) / 2;
+    const half = (bounds.max[axis] - bounds.min[axis]) / 2;
+    const low = limits.min[axis] + half;
+    const high = limits.max[axis] - half;
+    const target = low > high ? (limits.min[axis] + limits.max[axis]) / 2 : Math.min(Math.max(center, low), high);
+    return target - center;
+  };
+  const [shiftA, shiftB] = [shift(0), shift(1)];
+  const [x, y, z] = item.position;
+
+  if (!item.wall) {
+    return { ...item, position: [x + shiftA, y, z + shiftB] };
+  }
+  const along = getAlongWall(item) + shiftA;
+  return { ...item, ...getWallPose(designItem.product, item.wall, along, y + shiftB, room) };
+}
+
+/**
+ * Offsets from `start` in steps of `step`, nearest first, staying within
+ * [min, max]
+ */
+function getSearchSteps(start: number, min: number, max: number, step: number): number[] {
+  const values: number[] = [];
+  const count = Math.ceil((max - min) / step) + 1;
+  for (let index = 0; index <= count * 2; index++) {
+    const offset = Math.ceil(index / 2) * step * (index % 2 === 0 ? 1 : -1);
+    const value = start + offset;
+    if (value >= min && value <= max) {
+      values.push(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Nearest free spot for a product: floor items search outward from `near`
+ * (the room center by default), wall items along each wall at art height,
+ * starting with the back wall. Returns null when the room is full.
+ */
+export function findFreePose(
+  product: Product,
+  scale: number,
+  room: DesignRoom,
+  others: DesignItem[],
+  near?: ItemPose
+): ItemPose | null {
+  const { searchStep } = ROOM_DESIGNER_CONFIG;
+  const candidate: DesignItem = {
+    item: { id: '', productId: product.id, variantId: null, position: [0, 0, 0], rotationY: 0, scale, wall: null },
+    product,
+  };
+  const tryPose = (pose: ItemPose) => {
+    candidate.item = { ...candidate.item, ...pose };
+    return canPlaceItem(candidate, others, room);
+  };
+
+  if (getPlacementRule(product).surface === 'wall') {
+    const walls = near?.wall ? [near.wall, ...ROOM_WALLS.filter((wall) => wall !== near.wall)] : ROOM_WALLS;
+    const { height } = getItemSize(product, scale);
+    const limits = getRoomBounds('back', room);
+    const y = Math.min(
+      Math.max(near?.position[1] ?? GALLERY_CONFIG.display.artHeight, limits.min[1] + height / 2),
+      limits.max[1] - height / 2
+    );
+    for (const wall of walls) {
+      const { length } = getWallFrame(wall, room);
+      const start = near?.wall === wall ? getAlongWall({ ...candidate.item, ...near }) : 0;
+      for (const along of getSearchSteps(start, -length / 2, length / 2, searchStep)) {
+        const pose = getWallPose(product, wall, along, y, room);
+        if (tryPose(pose)) return pose;
+      }
+    }
+    return null;
+  }
+
+  const rotationY = near?.rotationY ?? 0;
+  const [startX, , startZ] = near?.position ?? [0, 0, 0];
+  const xs = getSearchSteps(startX, -room.width / 2, room.width / 2, searchStep);
+  const zs = getSearchSteps(startZ, -room.depth / 2, room.depth / 2, searchStep);
+  const spots: [number, number][] = [];
+  for (const x of xs) {
+    for (const z of zs) {
+      spots.push([x, z]);
+    }
+  }
+  spots.sort((a, b) => Math.hypot(a[0] - startX, a[1] - startZ) - Math.hypot(b[0] - startX, b[1] - startZ));
+
+  for (const [x, z] of spots) {
+    const pose = getFloorPose(product, x, z, rotationY);
+    if (tryPose(pose)) return pose;
+  }
+  return null;
+}
+
+/**
+ * Re-fit a design to a new room: items slide back inside the walls, and
+ * ones that then overlap another item or an opening move to the nearest
+ * free spot. Items with no free spot stay where they were clamped (and
+ * show as colliding).
+ */
+export function fitItemsToRoom(items: PlacedItem[], catalog: Product[], room: DesignRoom): PlacedItem[] {
+  const fitted: DesignItem[] = [];
+  const result: PlacedItem[] = [];
+
+  for (const item of items) {
+    const [designItem] = resolveDesignItems([item], catalog);
+    if (!designItem) {
+      // Keep items whose product is temporarily missing from the catalog
+      result.push(item);
+      continue;
+    }
+    let placed = clampToRoom(designItem, room);
+    const candidate = { item: placed, product: designItem.product };
+    if (collidesWithOthers(candidate, fitted) || blocksOpening(candidate, room)) {
+      const pose = findFreePose(designItem.product, placed.scale, room, fitted, placed);
+      if (pose) {
+        placed = { ...placed, ...pose };
+      }
+    }
+    fitted.push({ item: placed, product: designItem.product });
+    result.push(placed);
+  }
+
+  return result;
+}
+
+/**
+ * Where a pointer ray meets the floor, if it points down at it
+ */
+export function getFloorHit(ray: THREE.Ray): [number, number] | null {
+  if (!ray.intersectPlane(floorPlane, hitPoint)) return null;
+  return [hitPoint.x, hitPoint.z];
+}
+
+/**
+ * The nearest wall a pointer ray hits from inside the room, with the spot
+ * along the wall and the height
+ */
+export function getWallHit(ray: THREE.Ray, room: RoomDimensions): { wall: RoomWall; along: number; y: number } | null {
+  let nearest: { wall: RoomWall; along: number; y: number } | null = null;
+  let nearestDistance = Infinity;
+
+  for (const wall of ROOM_WALLS) {
+    const { axis, length, plane } = getWallFrame(wall, room);
+    // Only the wall's room-facing side counts
+    if (ray.direction.dot(plane.normal) >= 0 || !ray.intersectPlane(plane, hitPoint)) continue;
+
+    const along = axis === 'x' ? hitPoint.x : hitPoint.z;
+    const distance = ray.origin.distanceTo(hitPoint);
+    if (Math.abs(along) <= length / 2 && hitPoint.y >= 0 && hitPoint.y <= room.height && distance < nearestDistance) {
+      nearest = { wall, along, y: hitPoint.y };
+      nearestDistance = distance;
+    }
+  }
+
+  return nearest;
+}
@@ -0,0 +1,184 @@
+// ============================================
+// AR Room Model
+// ============================================
+
+import * as THREE from 'three';
+import { GALLERY_CONFIG, XR_PREVIEW_CONFIG } from './constants';
+import { getPlacementRule, getProductDimensions } from './productTypes';
+import type { ARPlacement } from './arPlacement';
+import type { Product } from './types';
+
+export type RoomSurfaceKind = 'floor' | 'wall' | 'ceiling' | 'furniture';
+
+/**
+ * A detected plane in world space. The plane lies in its local XZ plane
+ * with +Y out of the surface, as WebXR plane spaces do.
+ */
+export interface RoomSurface {
+  kind: RoomSurfaceKind;
+  /** Column-major world matrix of the plane space */
+  matrix: number[];
+  /** Extent of the plane's polygon in its local XZ plane */
+  bounds: { minX: number; maxX: number; minZ: number; maxZ: number };
+}
+
+/**
+ * Lightweight room built from plane detection during an AR session
+ */
+export interface RoomModel {
+  /** Height of the real floor, or null until one is detected */
+  floorY: number | null;
+  surfaces: RoomSurface[];
+}
+
+// Semantic labels reported by WebXR plane detection (e.g. Quest room setup)
+const SEMANTIC_KINDS: Partial<Record<string, RoomSurfaceKind>> = {
+  floor: 'floor',
+  wall: 'wall',
+  ceiling: 'ceiling',
+  door: 'wall',
+  window: 'wall',
+  'wall art': 'wall',
+};
+
+const UP = new THREE.Vector3(0, 1, 0);
+const planeMatrix = new THREE.Matrix4();
+const inverseMatrix = new THREE.Matrix4();
+const planeNormal = new THREE.Vector3();
+const productPosition = new THREE.Vector3();
+const localPoint = new THREE.Vector3();
+
+/**
+ * Describe a detected plane from its world pose. Labeled planes keep their
+ * label's kind; unlabeled ones go by orientation, and horizontal ones are
+ * sorted into floor and furniture tops once the room is assembled.
+ */
+export function createRoomSurface(plane: XRPlane, worldMatrix: THREE.Matrix4): RoomSurface {
+  const bounds = { minX: Infinity, maxX: -Infinity, minZ: Infinity, maxZ: -Infinity };
+  for (const point of plane.polygon) {
+    bounds.minX = Math.min(bounds.minX, point.x);
+    bounds.maxX = Math.max(bounds.maxX, point.x);
+    bounds.minZ = Math.min(bounds.minZ, point.z);
+    bounds.maxZ = Math.max(bounds.maxZ, point.z);
+  }
+
+  let kind: RoomSurfaceKind;
+  const label = plane.semanticLabel?.toLowerCase();
+  const labeledKind = label ? SEMANTIC_KINDS[label] : undefined;
+  if (labeledKind) {
+    kind = labeledKind;
+  } else if (plane.orientation === 'vertical') {
+    kind = 'wall';
+  } else if (label) {
+    // Tables, couches, beds and other labeled horizontal surfaces
+    kind = 'furniture';
+  } else {
+    planeNormal.setFromMatrixColumn(worldMatrix, 1);
+    kind = planeNormal.dot(UP) < 0 ? 'ceiling' : 'floor';
+  }
+
+  return { kind, matrix: worldMatrix.toArray(), bounds };
+}
+
+/**
+ * Assemble a room from its surfaces. Without semantic labels, up-facing
+ * planes well above the lowest one are furniture tops, not floor.
+ */
+export function createRoomModel(surfaces: RoomSurface[]): RoomModel {
+  const heights = surfaces
+    .filter((surface) => surface.kind === 'floor')
+    .map((surface) => surface.matrix[13]);
+  if (heights.length === 0) {
+    return { floorY: null, surfaces };
+  }
+
+  const floorY = Math.min(...heights);
+  const { floorTolerance } = XR_PREVIEW_CONFIG.ar.room;
+  return {
+    floorY,
+    surfaces: surfaces.map((surface) =>
+      surface.kind === 'floor' && surface.matrix[13] - floorY > floorTolerance
+        ? { ...surface, kind: 'furniture' }
+        : surface
+    ),
+  };
+}
+
+/**
+ * Nearest wall in front of `position` within `maxDistance`, as the distance
+ * along its normal plus the wall's world matrix
+ */
+function findNearestWall(
+  room: RoomModel,
+  position: THREE.Vector3,
+  maxDistance: number
+): { distance: number; matrix: THREE.Matrix4 } | null {
+  const margin = XR_PREVIEW_CONFIG.ar.room.snapDistance;
+  let nearest: { distance: number; matrix: THREE.Matrix4 } | null = null;
+
+  for (const surface of room.surfaces) {
+    if (surface.kind !== 'wall') continue;
+    planeMatrix.fromArray(surface.matrix);
+    localPoint.copy(position).applyMatrix4(inverseMatrix.copy(planeMatrix).invert());
+
+    const { minX, maxX, minZ, maxZ } = surface.bounds;
+    const withinWall =
+      localPoint.x >= minX - margin &&
+      localPoint.x <= maxX + margin &&
+      localPoint.z >= minZ - margin &&
+      localPoint.z <= maxZ + margin;
+    // Only snap from the room side of the wall
+    if (!withinWall || localPoint.y < -margin || localPoint.y > maxDistance) continue;
+    if (!nearest || localPoint.y < nearest.distance) {
+      nearest = { distance: localPoint.y, matrix: planeMatrix.clone() };
+    }
+  }
+  return nearest;
+}
+
+/**
+ * Snap a placement to the room model:
+ *
+ * - Floor items drop onto the detected floor, and back up flush against a
+ *   wall they're placed near, facing out of it
+ * - Wall items hang flush on the nearest detected wall, at
+ *   `GALLERY_CONFIG.display.artHeight` above the detected floor
+ *
+ * Placements far from any detected surface are returned unchanged.
+ */
+export function snapToRoom(placement: ARPlacement, product: Product, room: RoomModel): ARPlacement {
+  const { surfaceOffset } = getPlacementRule(product);
+  const { snapDistance } = XR_PREVIEW_CONFIG.ar.room;
+  const position = productPosition.fromArray(placement.position);
+  let rotationY = placement.rotationY;
+
+  if (placement.surface === 'floor') {
+    if (room.floorY !== null && Math.abs(position.y - surfaceOffset - room.floorY) <= snapDistance) {
+      position.y = room.floorY + surfaceOffset;
+    }
+    // The product's back sits half its depth behind its origin
+    const halfDepth = (getProductDimensions(product)?.depth ?? 0) / 2;
+    const wall = findNearestWall(room, position, halfDepth + snapDistance);
+    if (wall) {
+      planeNormal.setFromMatrixColumn(wall.matrix, 1).setY(0).normalize();
+      position.addScaledVector(planeNormal, halfDepth - wall.distance);
+      rotationY = Math.atan2(planeNormal.x, planeNormal.z);
+    }
+  } else {
+    const wall = findNearestWall(room, position, snapDistance + surfaceOffset);
+    if (wall) {
+      planeNormal.setFromMatrixColumn(wall.matrix, 1).setY(0).normalize();
+      position.addScaledVector(planeNormal, surfaceOffset - wall.distance);
+      rotationY = Math.atan2(planeNormal.x, planeNormal.z);
+    }
+    if (room.floorY !== null) {
+      position.y = room.floorY + GALLERY_CONFIG.display.artHeight;
+    }
+  }
+
+  return {
+    surface: placement.surface,
+    position: [position.x, position.y, position.z],
+    rotationY,
+  };
+}
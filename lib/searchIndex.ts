@@ -0,0 +1,128 @@
+// ============================================
+// Product Search Index
+// ============================================
+
+import type { Product } from './types';
+
+type SearchField = 'name' | 'vibe' | 'description';
+
+/**
+ * Relative weight of a match in each field
+ */
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 5,
+  vibe: 3,
+  description: 2,
+};
+
+// Partial matches score lower than whole-word matches
+const PREFIX_FACTOR = 0.6;
+const SUBSTRING_FACTOR = 0.3;
+const PHRASE_BONUS = 4;
+
+interface SearchIndexEntry {
+  product: Product;
+  normalizedName: string;
+  tokens: Record<SearchField, string[]>;
+}
+
+export interface SearchIndex {
+  entries: SearchIndexEntry[];
+}
+
+export interface SearchResult {
+  product: Product;
+  score: number;
+}
+
+/**
+ * Lowercase and strip accents so "Nature's" matches "natures" and "café" matches "cafe"
+ */
+function normalize(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/['’]/g, '')
+    .toLowerCase();
+}
+
+function tokenize(text: string): string[] {
+  return normalize(text).split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+/**
+ * Build a token index over product name, description and vibe
+ */
+export function buildSearchIndex(products: Product[]): SearchIndex {
+  return {
+    entries: products.map((product) => ({
+      product,
+      normalizedName: normalize(product.name),
+      tokens: {
+        name: tokenize(product.name),
+        vibe: tokenize(product.vibe),
+        description: tokenize(product.description),
+      },
+    })),
+  };
+}
+
+/**
+ * Best score a single query term earns against one entry (0 = no match)
+ */
+function scoreTerm(entry: SearchIndexEntry, term: string): number {
+  let best = 0;
+
+  for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+    const weight = FIELD_WEIGHTS[field];
+    for (const token of entry.tokens[field]) {
+      let score = 0;
+      if (token === term) {
+        score = weight;
+      } else if (token.startsWith(term)) {
+        score = weight * PREFIX_FACTOR;
+      } else if (term.length >= 3 && token.includes(term)) {
+        score = weight * SUBSTRING_FACTOR;
+      }
+      best = Math.max(best, score);
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Search the index. Every query term must match somewhere; results are ranked
+ * by summed field-weighted scores, with a bonus for exact phrase hits in the name.
+ */
+export function searchProducts(index: SearchIndex, query: string, limit = 10): SearchResult[] {
+  const terms = tokenize(query);
+  if (terms.length === 0) return [];
+
+  const phrase = normalize(query).trim();
+  const results: SearchResult[] = [];
+
+  for (const entry of index.entries) {
+    let total = 0;
+    let matchedAll = true;
+
+    for (const term of terms) {
+      const score = scoreTerm(entry, term);
+      if (score === 0) {
+        matchedAll = false;
+        break;
+      }
+      total += score;
+    }
+
+    if (!matchedAll) continue;
+    if (terms.length > 1 && entry.normalizedName.includes(phrase)) {
+      total += PHRASE_BONUS;
+    }
+    results.push({ product: entry.product, score: total });
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || a.product.name.localeCompare(b.product.name))
+    .slice(0, limit);
+}
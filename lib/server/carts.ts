@@ -0,0 +1,72 @@
+// ============================================
+// Cart Storage (server only)
+// ============================================
+
+import { isCurrencyCode } from '../currency';
+import { isSupportedCountry } from '../pricing';
+import { createFileCollection } from './fileStore';
+import type { CartSnapshot, PersistedCartLine, ServerCart } from '../types';
+
+const carts = createFileCollection<ServerCart>('carts');
+
+// Cart ids are generated by the client (UUIDs); anything else is rejected
+const CART_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+export function isValidCartId(id: string): boolean {
+  return CART_ID_PATTERN.test(id);
+}
+
+function isCartLine(value: unknown): value is PersistedCartLine {
+  if (!value || typeof value !== 'object') return false;
+  const line = value as Record<string, unknown>;
+  const snapshot = line.snapshot as Record<string, unknown> | null | undefined;
+  return (
+    typeof line.id === 'string' &&
+    typeof line.productId === 'string' &&
+    (line.variantId === null || typeof line.variantId === 'string') &&
+    (line.variantLabel === null || typeof line.variantLabel === 'string') &&
+    Number.isInteger(line.quantity) &&
+    (line.quantity as number) > 0 &&
+    typeof snapshot?.name === 'string' &&
+    typeof snapshot?.price === 'number'
+  );
+}
+
+/**
+ * Structural check for a cart sent by a client. Prices in the snapshot are
+ * only labels; checkout always re-prices against the catalog.
+ */
+export function isCartSnapshot(value: unknown): value is CartSnapshot {
+  if (!value || typeof value !== 'object') return false;
+  const cart = value as Record<string, unknown>;
+  return (
+    Array.isArray(cart.lines) &&
+    cart.lines.every(isCartLine) &&
+    typeof cart.shippingCountry === 'string' &&
+    isSupportedCountry(cart.shippingCountry) &&
+    (cart.promoCode === null || typeof cart.promoCode === 'string') &&
+    isCurrencyCode(cart.currency) &&
+    typeof cart.exchangeRate === 'number' &&
+    cart.exchangeRate > 0
+  );
+}
+
+export function getCart(id: string): Promise<ServerCart | null> {
+  return carts.get(id);
+}
+
+/**
+ * Replace a cart's contents (last write wins) and bump its revision
+ */
+export function saveCart(id: string, snapshot: CartSnapshot): Promise<ServerCart> {
+  return carts.update(id, (current) => ({
+    id,
+    lines: snapshot.lines,
+    shippingCountry: snapshot.shippingCountry,
+    promoCode: snapshot.promoCode,
+    currency: snapshot.currency,
+    exchangeRate: snapshot.exchangeRate,
+    revision: (current?.revision ?? 0) + 1,
+    updatedAt: Date.now(),
+  }));
+}
@@ -0,0 +1,18 @@
+// ============================================
+// Server Catalog (server only)
+// ============================================
+
+import { createMockCatalogProvider } from '../catalog';
+import type { CatalogProvider } from '../types';
+
+/**
+ * Source of truth for the API routes: products served by `/api/catalog` and
+ * prices used to validate orders. The client-side provider may point at the
+ * API itself (NEXT_PUBLIC_CATALOG_URL=/api/catalog), so the server reads the
+ * bundled catalog directly; swap this for your inventory backend.
+ */
+const serverCatalog: CatalogProvider = createMockCatalogProvider();
+
+export function getServerCatalog(): CatalogProvider {
+  return serverCatalog;
+}
@@ -0,0 +1,85 @@
+// ============================================
+// File-backed Data Store (server only)
+// ============================================
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Directory holding one JSON file per collection. Defaults to `.data/` in
+ * the project root (gitignored); set DATA_DIR to keep data elsewhere.
+ */
+const DATA_DIR = process.env.DATA_DIR ?? path.join(process.cwd(), '.data');
+
+/**
+ * Keyed JSON records persisted to `<DATA_DIR>/<name>.json`
+ */
+export interface FileCollection<T> {
+  get: (id: string) => Promise<T | null>;
+  list: () => Promise<T[]>;
+  /**
+   * Read-modify-write a record. Updates to the same collection run one at a
+   * time, so concurrent requests can't overwrite each other's changes.
+   */
+  update: (id: string, updater: (current: T | null) => T) => Promise<T>;
+  /** Delete every record matching the predicate; returns how many were removed */
+  removeWhere: (predicate: (record: T) => boolean) => Promise<number>;
+}
+
+/**
+ * Create a collection stored as a single JSON file. Writes go to a temporary
+ * file and are renamed into place, so a crash never leaves half-written data.
+ * Suitable for local development and single-instance deployments.
+ */
+export function createFileCollection<T>(name: string): FileCollection<T> {
+  const file = path.join(DATA_DIR, `${name}.json`);
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const read = async (): Promise<Record<string, T>> => {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf8')) as Record<string, T>;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+      throw error;
+    }
+  };
+
+  const write = async (records: Record<string, T>): Promise<void> => {
+    await fs.mkdir(DATA_DIR, { recursive: true });
+    const temp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(records, null, 2), 'utf8');
+    await fs.rename(temp, file);
+  };
+
+  const enqueue = <R>(task: () => Promise<R>): Promise<R> => {
+    const next = queue.then(task);
+    // Keep the queue going even if this task fails
+    queue = next.catch(() => undefined);
+    return next;
+  };
+
+  return {
+    get: async (id) => (await read())[id] ?? null,
+
+    list: async () => Object.values(await read()),
+
+    update: (id, updater) =>
+      enqueue(async () => {
+        const records = await read();
+        const value = updater(records[id] ?? null);
+        records[id] = value;
+        await write(records);
+        return value;
+      }),
+
+    removeWhere: (predicate) =>
+      enqueue(async () => {
+        const records = await read();
+        const ids = Object.keys(records).filter((id) => predicate(records[id]));
+        if (ids.length === 0) return 0;
+        for (const id of ids) delete records[id];
+        await write(records);
+        return ids.length;
+      }),
+  };
+}
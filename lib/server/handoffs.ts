@@ -0,0 +1,112 @@
+// ============================================
+// Device Handoff Relay (server only)
+// ============================================
+
+import { randomInt } from 'crypto';
+import { HANDOFF_CONFIG, WISHLIST_CONFIG } from '../constants';
+import { isCartSnapshot, isValidCartId } from './carts';
+import { createFileCollection } from './fileStore';
+import type { HandoffPayload, HandoffTicket, SharedWishlistCollection } from '../types';
+
+interface HandoffRecord extends HandoffPayload {
+  code: string;
+  expiresAt: number;
+}
+
+const handoffs = createFileCollection<HandoffRecord>('handoffs');
+
+// Generous for a real wishlist, small enough to keep records tiny
+const MAX_COLLECTIONS = 50;
+const MAX_COLLECTION_ITEMS = 200;
+
+// A clash needs two live handoffs with the same code, so a few retries are plenty
+const MAX_CODE_ATTEMPTS = 5;
+
+const CODE_PATTERN = new RegExp(`^[${HANDOFF_CONFIG.codeAlphabet}]{${HANDOFF_CONFIG.codeLength}}$`);
+
+export function isValidHandoffCode(code: string): boolean {
+  return CODE_PATTERN.test(code);
+}
+
+function generateCode(): string {
+  const { codeAlphabet, codeLength } = HANDOFF_CONFIG;
+  return Array.from({ length: codeLength }, () => codeAlphabet[randomInt(codeAlphabet.length)]).join('');
+}
+
+function toSharedCollection(value: unknown): SharedWishlistCollection | null {
+  if (!value || typeof value !== 'object') return null;
+  const { name, items } = value as Record<string, unknown>;
+  if (typeof name !== 'string' || !Array.isArray(items) || items.length > MAX_COLLECTION_ITEMS) return null;
+
+  const parsed: SharedWishlistCollection['items'] = [];
+  for (const item of items) {
+    const { productId, note } = (item ?? {}) as Record<string, unknown>;
+    if (typeof productId !== 'string' || typeof note !== 'string') return null;
+    parsed.push({ productId, note: note.slice(0, WISHLIST_CONFIG.maxNoteLength) });
+  }
+  return { name: name.slice(0, WISHLIST_CONFIG.maxCollectionNameLength), items: parsed };
+}
+
+/**
+ * Validate a handoff sent by a client, or return null if it is malformed
+ */
+export function parseHandoffPayload(value: unknown): HandoffPayload | null {
+  if (!value || typeof value !== 'object') return null;
+  const { cartId, cartRevision, cart, wishlist, productId } = value as Record<string, unknown>;
+
+  if (
+    typeof cartId !== 'string' || !isValidCartId(cartId) ||
+    !Number.isInteger(cartRevision) || (cartRevision as number) < 0 ||
+    !isCartSnapshot(cart) ||
+    !Array.isArray(wishlist) || wishlist.length > MAX_COLLECTIONS ||
+    (productId !== null && typeof productId !== 'string')
+  ) {
+    return null;
+  }
+
+  const collections = wishlist.map(toSharedCollection);
+  if (collections.some((collection) => collection === null)) return null;
+
+  return {
+    cartId,
+    cartRevision: cartRevision as number,
+    cart,
+    wishlist: collections as SharedWishlistCollection[],
+    productId,
+  };
+}
+
+/**
+ * Park a handoff under a fresh pairing code until it expires. Expired
+ * handoffs are swept on the way in.
+ */
+export async function createHandoff(payload: HandoffPayload): Promise<HandoffTicket> {
+  const now = Date.now();
+  await handoffs.removeWhere((record) => record.expiresAt <= now);
+
+  for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+    const code = generateCode();
+    let created = false;
+    const record = await handoffs.update(code, (current) => {
+      if (current && current.expiresAt > now) return current;
+      created = true;
+      return { ...payload, code, expiresAt: now + HANDOFF_CONFIG.ttl };
+    });
+    if (created) {
+      return { code, expiresAt: record.expiresAt };
+    }
+  }
+  throw new Error('Could not allocate a handoff code');
+}
+
+/**
+ * Read a handoff by pairing code. Codes stay valid until they expire, so
+ * several devices can pick up the same handoff.
+ */
+export async function getHandoff(code: string): Promise<HandoffPayload | null> {
+  const record = await handoffs.get(code);
+  if (!record || record.expiresAt <= Date.now()) return null;
+
+  const { cartId, cartRevision, cart, wishlist, productId } = record;
+  return { cartId, cartRevision, cart, wishlist, productId };
+}
@@ -0,0 +1,33 @@
+// ============================================
+// Route Handler Helpers (server only)
+// ============================================
+
+import { NextResponse } from 'next/server';
+import type { ApiErrorBody, ApiErrorCode } from '../types';
+
+export function jsonError(status: number, code: ApiErrorCode, error: string): NextResponse<ApiErrorBody> {
+  return NextResponse.json({ error, code }, { status });
+}
+
+/**
+ * Parse a JSON request body, or return undefined when it isn't valid JSON
+ */
+export async function readJsonBody(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Run a handler, turning unexpected failures into a JSON 500
+ */
+export async function withErrorHandling(handler: () => Promise<Response>): Promise<Response> {
+  try {
+    return await handler();
+  } catch (error) {
+    console.error('API request failed', error);
+    return jsonError(500, 'server_error', 'Something went wrong');
+  }
+}
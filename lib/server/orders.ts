@@ -0,0 +1,188 @@
+// ============================================
+// Order Storage (server only)
+// ============================================
+
+import { convertPrice, getExchangeRate, isCurrencyCode } from '../currency';
+import { calculatePricing, isSupportedCountry } from '../pricing';
+import { applyVariant, getCartLineId, getVariant } from '../variants';
+import { getServerCatalog } from './catalog';
+import { createFileCollection } from './fileStore';
+import type { CartItem, Order, ShippingInfo } from '../types';
+
+const orders = createFileCollection<Order>('orders');
+
+// Differences below this are rounding, not a different price
+const TOTAL_TOLERANCE = 0.005;
+
+export type OrderSubmission =
+  | { ok: true; order: Order; created: boolean }
+  | { ok: false; code: 'invalid_request' | 'price_mismatch' | 'order_exists'; error: string };
+
+interface OrderLineRequest {
+  productId: string;
+  variantId: string | null;
+  quantity: number;
+}
+
+function isShippingInfo(value: unknown): value is ShippingInfo {
+  if (!value || typeof value !== 'object') return false;
+  const info = value as Record<string, unknown>;
+  return (
+    ['firstName', 'lastName', 'email', 'address', 'city', 'postalCode', 'country']
+      .every((field) => typeof info[field] === 'string' && (info[field] as string).trim() !== '') &&
+    isSupportedCountry(info.country as string)
+  );
+}
+
+function isOrderLine(value: unknown): value is OrderLineRequest {
+  if (!value || typeof value !== 'object') return false;
+  const line = value as Record<string, unknown>;
+  return (
+    typeof line.productId === 'string' &&
+    (line.variantId === null || typeof line.variantId === 'string') &&
+    Number.isInteger(line.quantity) &&
+    (line.quantity as number) > 0
+  );
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function isOrderEmail(order: Order, email: unknown): boolean {
+  return typeof email === 'string' && normalizeEmail(order.shippingInfo.email) === normalizeEmail(email);
+}
+
+/**
+ * A retry gets the stored order back; anyone else reusing its id gets a
+ * conflict without it, as with `findOrder`
+ */
+function resubmitted(order: Order, body: object): OrderSubmission {
+  const email = (body as { shippingInfo?: { email?: unknown } }).shippingInfo?.email;
+  if (!isOrderEmail(order, email)) {
+    return { ok: false, code: 'order_exists', error: 'An order with this id already exists' };
+  }
+  return { ok: true, order, created: false };
+}
+
+/**
+ * Rebuild a client-submitted order from the catalog: line prices, product
+ * snapshots and the price breakdown all come from the server, and the order
+ * is rejected if the total the shopper paid doesn't match
+ */
+async function priceOrder(body: Record<string, unknown>): Promise<OrderSubmission> {
+  const { id, items, shippingInfo, currency, total, pricing, payment, createdAt } = body;
+  const promoCode = (pricing as { promo?: { code?: unknown } } | undefined)?.promo?.code;
+  const paymentInfo = payment as Record<string, unknown> | undefined;
+
+  if (
+    typeof id !== 'string' || !id ||
+    !Array.isArray(items) || items.length === 0 || !items.every(isOrderLine) ||
+    !isShippingInfo(shippingInfo) ||
+    !isCurrencyCode(currency) ||
+    typeof total !== 'number' ||
+    typeof paymentInfo?.gateway !== 'string' ||
+    typeof paymentInfo?.intentId !== 'string'
+  ) {
+    return { ok: false, code: 'invalid_request', error: 'Order is missing required fields' };
+  }
+
+  const catalog = getServerCatalog();
+  const lines: CartItem[] = [];
+  for (const line of items) {
+    const product = await catalog.getProduct(line.productId);
+    const variant = product ? getVariant(product, line.variantId) : null;
+    if (!product || (line.variantId !== null && variant?.id !== line.variantId)) {
+      return { ok: false, code: 'invalid_request', error: `Product ${line.productId} is not available` };
+    }
+    lines.push({
+      id: getCartLineId(product.id, variant?.id),
+      product: applyVariant(product, variant?.id),
+      variant: variant ? { id: variant.id, label: variant.label } : null,
+      quantity: line.quantity,
+    });
+  }
+
+  // Carts lock the rate from the rate table, so anything else was tampered with
+  const exchangeRate = getExchangeRate(currency);
+  const breakdown = calculatePricing({
+    items: lines,
+    country: shippingInfo.country,
+    promoCode: typeof promoCode === 'string' ? promoCode : null,
+    currency,
+    exchangeRate,
+  });
+
+  if (Math.abs(breakdown.total - total) > TOTAL_TOLERANCE) {
+    return {
+      ok: false,
+      code: 'price_mismatch',
+      error: `Order total ${total} does not match the current price ${breakdown.total} ${currency}`,
+    };
+  }
+
+  const order: Order = {
+    id,
+    createdAt: typeof createdAt === 'number' ? createdAt : Date.now(),
+    status: 'paid',
+    items: lines.map((line) => ({
+      id: line.id,
+      productId: line.product.id,
+      variantId: line.variant?.id ?? null,
+      variantLabel: line.variant?.label ?? null,
+      name: line.product.name,
+      unitPrice: convertPrice(line.product.price, currency, exchangeRate),
+      quantity: line.quantity,
+      product: line.product,
+    })),
+    total: breakdown.total,
+    currency,
+    pricing: breakdown,
+    shippingInfo,
+    payment: {
+      gateway: paymentInfo.gateway,
+      intentId: paymentInfo.intentId,
+      cardLast4: typeof paymentInfo.cardLast4 === 'string' ? paymentInfo.cardLast4 : null,
+    },
+  };
+  return { ok: true, order, created: true };
+}
+
+/**
+ * Record an order. Submitting the same order id again with the same email
+ * returns the stored order unchanged, so client retries are safe.
+ */
+export async function submitOrder(body: unknown): Promise<OrderSubmission> {
+  if (!body || typeof body !== 'object') {
+    return { ok: false, code: 'invalid_request', error: 'Expected an order object' };
+  }
+
+  const existing = typeof (body as Order).id === 'string' ? await orders.get((body as Order).id) : null;
+  if (existing) {
+    return resubmitted(existing, body);
+  }
+
+  const result = await priceOrder(body as Record<string, unknown>);
+  if (!result.ok) return result;
+
+  let created = false;
+  const order = await orders.update(result.order.id, (current) => {
+    // Another request may have stored it while we were pricing
+    if (current) return current;
+    created = true;
+    return result.order;
+  });
+  return created ? { ok: true, order, created } : resubmitted(order, body);
+}
+
+/**
+ * Look up an order by id. The email must match the order's, so order ids
+ * alone don't reveal shipping details.
+ */
+export async function findOrder(id: string, email: string): Promise<Order | null> {
+  const order = await orders.get(id);
+  if (!order || !isOrderEmail(order, email)) {
+    return null;
+  }
+  return order;
+}
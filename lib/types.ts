@@ -2,7 +2,7 @@
 // Product Types
 // ============================================
 
-export type ProductType = 'art' | 'table';
+export type ProductType = 'art' | 'table' | 'rug' | 'lighting' | 'sculpture' | 'mirror';
 export type VibeCategory = 'calm' | 'upbeat' | 'ambient';
 
 export interface BaseProduct {
@@ -12,6 +12,20 @@ export interface BaseProduct {
   price: number;
   type: ProductType;
   vibe: VibeCategory;
+  /** Units available; omitted means stock isn't tracked (made to order) */
+  stock?: number;
+  /** One-of-a-kind piece: never more than one unit can be bought */
+  isUniqueOriginal?: boolean;
+}
+
+/**
+ * Bounding box of a 3D-model product in meters: width along X, depth along
+ * Z, height along Y
+ */
+export interface ModelDimensions {
+  width: number;
+  depth: number;
+  height: number;
 }
 
 export interface ArtProduct extends BaseProduct {
@@ -22,15 +36,125 @@ export interface ArtProduct extends BaseProduct {
     width: number;
     height: number;
   };
+  variants?: ArtVariant[];
 }
 
 export interface TableProduct extends BaseProduct {
   type: 'table';
   modelUri: string;
   scale: number;
+  /** Real-world size in meters; enables true-scale AR/VR previews */
+  dimensions?: ModelDimensions;
+  /** Optional tint applied to the model's materials (e.g. wood species) */
+  materialColor?: string;
+  variants?: TableVariant[];
+}
+
+/**
+ * Floor rug - rendered as a textured plane lying on the floor
+ */
+export interface RugProduct extends BaseProduct {
+  type: 'rug';
+  textureUri: string;
+  dimensions: {
+    width: number;
+    depth: number;
+  };
+  variants?: BaseVariant[];
+}
+
+/**
+ * Lamp - procedural fixture that emits real light into the scene
+ */
+export interface LightingProduct extends BaseProduct {
+  type: 'lighting';
+  shadeColor: string;
+  lightColor: string;
+  /** Point light intensity (candela) */
+  intensity: number;
+  /** Shade diameter and overall height in meters */
+  dimensions: {
+    width: number;
+    height: number;
+  };
+  variants?: BaseVariant[];
+}
+
+/**
+ * Sculpture - free-standing GLB model
+ */
+export interface SculptureProduct extends BaseProduct {
+  type: 'sculpture';
+  modelUri: string;
+  scale: number;
+  /** Real-world size in meters; enables true-scale AR/VR previews */
+  dimensions?: ModelDimensions;
+  materialColor?: string;
+  variants?: BaseVariant[];
+}
+
+/**
+ * Wall mirror - framed reflective surface
+ */
+export interface MirrorProduct extends BaseProduct {
+  type: 'mirror';
+  shape: 'rectangle' | 'round';
+  frameColor: string;
+  dimensions: {
+    width: number;
+    height: number;
+  };
+  variants?: BaseVariant[];
+}
+
+export type Product =
+  | ArtProduct
+  | TableProduct
+  | RugProduct
+  | LightingProduct
+  | SculptureProduct
+  | MirrorProduct;
+
+// ============================================
+// Product Variant Types
+// ============================================
+
+/**
+ * Attributes a variant can differ by, shown as option groups in the picker
+ */
+export type VariantAttribute = 'size' | 'finish' | 'material';
+
+export interface BaseVariant {
+  id: string;
+  /** Human readable summary, e.g. "Large / Black frame" */
+  label: string;
+  /** Absolute price of this variant */
+  price: number;
+  /** Units available for this variant; overrides the product's stock */
+  stock?: number;
+  attributes: Partial<Record<VariantAttribute, string>>;
 }
 
-export type Product = ArtProduct | TableProduct;
+/**
+ * Art variant - overrides frame finish and print size
+ */
+export interface ArtVariant extends BaseVariant {
+  frameColor?: string;
+  dimensions?: {
+    width: number;
+    height: number;
+  };
+}
+
+/**
+ * Furniture variant - overrides model and material
+ */
+export interface TableVariant extends BaseVariant {
+  modelUri?: string;
+  materialColor?: string;
+}
+
+export type ProductVariant = ArtVariant | TableVariant;
 
 export function isArtProduct(product: Product): product is ArtProduct {
   return product.type === 'art';
@@ -40,6 +164,22 @@ export function isTableProduct(product: Product): product is TableProduct {
   return product.type === 'table';
 }
 
+export function isRugProduct(product: Product): product is RugProduct {
+  return product.type === 'rug';
+}
+
+export function isLightingProduct(product: Product): product is LightingProduct {
+  return product.type === 'lighting';
+}
+
+export function isSculptureProduct(product: Product): product is SculptureProduct {
+  return product.type === 'sculpture';
+}
+
+export function isMirrorProduct(product: Product): product is MirrorProduct {
+  return product.type === 'mirror';
+}
+
 export interface AudioTrack {
   id: string;
   name: string;
@@ -48,15 +188,102 @@ export interface AudioTrack {
 }
 
 export interface GalleryState {
+  /** Full catalog as returned by the active provider */
   products: Product[];
+  /** Filtered and sorted view that navigation operates on */
+  visibleProducts: Product[];
+  /** Index into `visibleProducts` */
   currentIndex: number;
   currentProduct: Product | null;
   isTransitioning: boolean;
   audioTracks: Record<VibeCategory, AudioTrack>;
+  catalogStatus: CatalogStatus;
+  catalogError: string | null;
+  filter: CatalogFilter;
+  sortOrder: CatalogSortOrder;
+  loadCatalog: () => Promise<void>;
   nextProduct: () => void;
   previousProduct: () => void;
   goToProduct: (index: number) => void;
+  goToProductById: (productId: string) => void;
+  /** Chosen variant per product id, shared by the 3D view and the product modal */
+  selectedVariants: Record<string, string>;
+  selectVariant: (productId: string, variantId: string) => void;
   setTransitioning: (value: boolean) => void;
+  setFilter: (filter: Partial<CatalogFilter>) => void;
+  toggleTypeFilter: (type: ProductType) => void;
+  toggleVibeFilter: (vibe: VibeCategory) => void;
+  resetFilter: () => void;
+  setSortOrder: (sortOrder: CatalogSortOrder) => void;
+}
+
+// ============================================
+// Catalog Types
+// ============================================
+
+/**
+ * Loading lifecycle of the product catalog
+ */
+export type CatalogStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+/**
+ * Page request for paginated catalog access (1-based page numbers)
+ */
+export interface CatalogPageRequest {
+  page: number;
+  pageSize: number;
+}
+
+/**
+ * A single page of catalog results
+ */
+export interface CatalogPage {
+  items: Product[];
+  page: number;
+  pageSize: number;
+  totalItems: number;
+  totalPages: number;
+}
+
+/**
+ * Source of product data for the gallery, cart and wishlist.
+ * Implementations can serve bundled mock data or a remote inventory service.
+ */
+export interface CatalogProvider {
+  id: string;
+  listProducts: () => Promise<Product[]>;
+  getProduct: (id: string) => Promise<Product | null>;
+  searchProducts: (query: string) => Promise<Product[]>;
+  getPage: (request: CatalogPageRequest) => Promise<CatalogPage>;
+}
+
+/**
+ * Sort orders supported by the gallery carousel
+ * - 'featured': catalog order as returned by the provider
+ */
+export type CatalogSortOrder = 'featured' | 'price-asc' | 'price-desc' | 'name-asc' | 'name-desc';
+
+/**
+ * Filter model for the gallery. Empty arrays and `null` bounds mean "any".
+ * Dimension limits are in meters and only apply to products with known dimensions.
+ */
+export interface CatalogFilter {
+  types: ProductType[];
+  vibes: VibeCategory[];
+  priceRange: {
+    min: number | null;
+    max: number | null;
+  };
+  maxWidth: number | null;
+  maxHeight: number | null;
+}
+
+/**
+ * Product counts per facet value, used to label filter options
+ */
+export interface CatalogFacets {
+  types: Record<ProductType, number>;
+  vibes: Record<VibeCategory, number>;
 }
 
 export type NavigationDirection = 'next' | 'previous';
@@ -68,6 +295,374 @@ export interface NavigationState {
   totalProducts: number;
 }
 
+// ============================================
+// Inventory Types
+// ============================================
+
+/**
+ * - 'untracked': made to order, no stock limit
+ */
+export type StockStatus = 'in-stock' | 'low-stock' | 'out-of-stock' | 'untracked';
+
+export interface StockInfo {
+  status: StockStatus;
+  /** Units that can be bought, or null when untracked */
+  available: number | null;
+  isUniqueOriginal: boolean;
+}
+
+/**
+ * A cart line that had to change because stock ran out since it was added
+ */
+export interface StockIssue {
+  lineId: string;
+  productName: string;
+  variantLabel: string | null;
+  requested: number;
+  /** Quantity left in the cart; 0 means the line was removed */
+  available: number;
+}
+
+// ============================================
+// Currency Types
+// ============================================
+
+export type CurrencyCode = 'USD' | 'EUR' | 'GBP' | 'CAD' | 'AUD' | 'JPY' | 'MXN';
+
+export interface CurrencyDefinition {
+  code: CurrencyCode;
+  name: string;
+  /** Units of this currency per one unit of the base currency */
+  rate: number;
+  /** Minor unit digits, e.g. 2 for cents, 0 for yen */
+  fractionDigits: number;
+}
+
+export interface LocaleOption {
+  /** BCP 47 tag passed to Intl, e.g. "de-DE" */
+  code: string;
+  label: string;
+}
+
+// ============================================
+// Pricing Types
+// ============================================
+
+/**
+ * How bulky an item is to ship: parcels go by courier, freight needs a two-person delivery
+ */
+export type ShippingClass = 'parcel' | 'oversized' | 'freight';
+
+export type ShippingZone = 'domestic' | 'north-america' | 'europe' | 'international';
+
+export interface ShippingCountry {
+  /** ISO 3166-1 alpha-2 code */
+  code: string;
+  name: string;
+  zone: ShippingZone;
+  /** Sales tax / VAT rate, e.g. 0.2 for 20% */
+  taxRate: number;
+  /** Whether tax also applies to the shipping charge (typical for VAT) */
+  taxShipping: boolean;
+}
+
+export type PromoCodeType = 'percent' | 'fixed' | 'free-shipping';
+
+export interface PromoCode {
+  code: string;
+  type: PromoCodeType;
+  /** Percent off (0-100) or fixed amount off; ignored for free shipping */
+  value: number;
+  /** Minimum subtotal before the code applies */
+  minSubtotal?: number;
+}
+
+/**
+ * Amounts are in `currency`, converted from base-currency catalog prices at `exchangeRate`
+ */
+export interface PriceBreakdown {
+  currency: CurrencyCode;
+  exchangeRate: number;
+  subtotal: number;
+  discount: number;
+  shipping: number;
+  tax: number;
+  total: number;
+  itemCount: number;
+  country: ShippingCountry;
+  promo: PromoCode | null;
+}
+
+// ============================================
+// Payment Types
+// ============================================
+
+/**
+ * Stages of a payment, used to report where a failure happened
+ */
+export type PaymentStep = 'create-intent' | 'confirm' | 'authenticate' | 'refund';
+
+export type PaymentIntentStatus =
+  | 'requires_confirmation'
+  | 'requires_action'
+  | 'succeeded'
+  | 'failed'
+  | 'refunded';
+
+export type PaymentErrorCode =
+  | 'invalid_card'
+  | 'card_declined'
+  | 'insufficient_funds'
+  | 'authentication_failed'
+  | 'processing_error'
+  | 'intent_not_found'
+  | 'invalid_state';
+
+export interface PaymentCard {
+  number: string;
+  /** MM/YY */
+  expiry: string;
+  cvc: string;
+}
+
+export interface CreatePaymentIntentRequest {
+  /** Amount in major currency units (e.g. dollars) */
+  amount: number;
+  currency: CurrencyCode;
+  /** Same key returns the same intent, so retries never charge twice */
+  idempotencyKey: string;
+  metadata?: Record<string, string>;
+}
+
+export interface PaymentIntent {
+  id: string;
+  amount: number;
+  currency: CurrencyCode;
+  status: PaymentIntentStatus;
+  idempotencyKey: string;
+  metadata: Record<string, string>;
+  /** Set when the issuer requires an extra verification step (3-D Secure style) */
+  nextAction: { type: 'authenticate'; challengeId: string } | null;
+  /** Last four digits of the confirmed card */
+  cardLast4: string | null;
+  amountRefunded: number;
+  createdAt: number;
+}
+
+export interface PaymentRefund {
+  id: string;
+  intentId: string;
+  amount: number;
+  createdAt: number;
+}
+
+/**
+ * Payment provider abstraction used by checkout.
+ * All methods reject with a `PaymentError` (see `lib/payments.ts`) on failure.
+ */
+export interface PaymentGateway {
+  id: string;
+  createIntent: (request: CreatePaymentIntentRequest) => Promise<PaymentIntent>;
+  confirmIntent: (intentId: string, card: PaymentCard) => Promise<PaymentIntent>;
+  /** Complete the extra verification step when `nextAction` is set */
+  authenticate: (intentId: string, challengeResponse: string) => Promise<PaymentIntent>;
+  /** Refund all of the captured amount, or `amount` of it */
+  refund: (intentId: string, amount?: number) => Promise<PaymentRefund>;
+}
+
+// ============================================
+// Order Types
+// ============================================
+
+export interface ShippingInfo {
+  firstName: string;
+  lastName: string;
+  email: string;
+  address: string;
+  city: string;
+  postalCode: string;
+  /** ISO 3166-1 alpha-2 code, see PRICING_CONFIG.countries */
+  country: string;
+}
+
+export type OrderStatus = 'paid' | 'processing' | 'shipped' | 'delivered' | 'refunded';
+
+export interface OrderLineItem {
+  /** Cart line key (product + variant) */
+  id: string;
+  productId: string;
+  variantId: string | null;
+  variantLabel: string | null;
+  name: string;
+  unitPrice: number;
+  quantity: number;
+  /** Snapshot of the product as purchased, used to re-order if it leaves the catalog */
+  product: Product;
+}
+
+export interface Order {
+  id: string;
+  createdAt: number;
+  status: OrderStatus;
+  items: OrderLineItem[];
+  total: number;
+  currency: CurrencyCode;
+  /** Price breakdown at the time of purchase */
+  pricing: PriceBreakdown;
+  shippingInfo: ShippingInfo;
+  payment: {
+    gateway: string;
+    intentId: string;
+    cardLast4: string | null;
+  };
+}
+
+// ============================================
+// Cart & Saved Item Types
+// ============================================
+
+export interface CartItem {
+  /** Line key: product id, plus the variant id when the product has variants */
+  id: string;
+  /** Product as configured by the chosen variant (price, size, finish applied) */
+  product: Product;
+  variant: { id: string; label: string } | null;
+  quantity: number;
+}
+
+/**
+ * Name and base-currency unit price when a saved item was last seen, used to
+ * spot catalog changes and to label items that have since been removed
+ */
+export interface SavedItemSnapshot {
+  name: string;
+  price: number;
+}
+
+/**
+ * Cart line as stored in localStorage: a reference into the catalog rather
+ * than a copy of the product
+ */
+export interface PersistedCartLine {
+  id: string;
+  productId: string;
+  variantId: string | null;
+  variantLabel: string | null;
+  quantity: number;
+  snapshot: SavedItemSnapshot;
+}
+
+export interface PersistedWishlistItem {
+  productId: string;
+  snapshot: SavedItemSnapshot;
+}
+
+export interface WishlistCollectionItem {
+  productId: string;
+  /** Free-form note, e.g. a designer's comment for the client */
+  note: string;
+}
+
+/**
+ * Named wishlist, e.g. "Living room ideas". A product can be in several
+ * collections; items are kept in the order the shopper arranged them.
+ */
+export interface WishlistCollection {
+  id: string;
+  name: string;
+  createdAt: number;
+  items: WishlistCollectionItem[];
+}
+
+/**
+ * Collection decoded from a share code, opened read-only in another browser
+ */
+export interface SharedWishlistCollection {
+  name: string;
+  items: WishlistCollectionItem[];
+}
+
+/**
+ * - 'price-changed': the catalog price differs from the snapshot
+ * - 'removed': the product or variant is no longer in the catalog
+ * - 'quantity-reduced': stock no longer covers the saved quantity
+ */
+export type SavedItemChange =
+  | { kind: 'price-changed'; previousPrice: number; currentPrice: number }
+  | { kind: 'removed' }
+  | { kind: 'quantity-reduced'; previousQuantity: number; quantity: number };
+
+/**
+ * Something that changed about a saved cart line or wishlist item since the
+ * last visit, found when reconciling with the current catalog
+ */
+export type SavedItemNotice = SavedItemChange & {
+  /** Cart line id or wishlist product id */
+  key: string;
+  source: 'cart' | 'wishlist';
+  name: string;
+  variantLabel: string | null;
+};
+
+// ============================================
+// API Types
+// ============================================
+
+/**
+ * Cart contents and settings as saved locally and synced to the server
+ */
+export interface CartSnapshot {
+  lines: PersistedCartLine[];
+  shippingCountry: string;
+  promoCode: string | null;
+  currency: CurrencyCode;
+  exchangeRate: number;
+}
+
+/**
+ * Cart as stored by the API. `revision` increases with every save, so a
+ * client can tell whether another device changed the cart since it last synced.
+ */
+export interface ServerCart extends CartSnapshot {
+  id: string;
+  revision: number;
+  updatedAt: number;
+}
+
+/**
+ * Everything one device hands to another: the cart (with the id it syncs
+ * under, so both devices keep sharing it), wishlist collections and the
+ * product on screen
+ */
+export interface HandoffPayload {
+  cartId: string;
+  cartRevision: number;
+  cart: CartSnapshot;
+  wishlist: SharedWishlistCollection[];
+  productId: string | null;
+}
+
+/**
+ * Pairing code for a handoff waiting on the server
+ */
+export interface HandoffTicket {
+  code: string;
+  expiresAt: number;
+}
+
+/**
+ * - 'not_found': no record with that id (or the email didn't match)
+ * - 'invalid_request': malformed body or parameters
+ * - 'price_mismatch': the order total doesn't match the server's pricing
+ * - 'order_exists': the order id is taken by an order with another email
+ */
+export type ApiErrorCode = 'not_found' | 'invalid_request' | 'price_mismatch' | 'order_exists' | 'server_error';
+
+export interface ApiErrorBody {
+  error: string;
+  code: ApiErrorCode;
+}
+
 // ============================================
 // XR Preview Types
 // ============================================
@@ -84,15 +679,27 @@ export type XRPreviewMode = 'ar' | 'vr';
  */
 export type VRRoomTemplate = 'living-room' | 'bedroom' | 'studio' | 'custom';
 
+/**
+ * Units for the XR dimension overlay and room sizes
+ */
+export type MeasurementSystem = 'metric' | 'imperial';
+
 /**
  * XR Preview session state
  */
 export interface XRPreviewState {
   isActive: boolean;
   mode: XRPreviewMode | null;
+  /** Active product among those staged in the preview: the one placement, gestures and the HUD act on */
   selectedProduct: Product | null;
   vrRoomTemplate: VRRoomTemplate;
   isHeadTrackingEnabled: boolean;
+  /** Draw 3D models at their catalog dimensions instead of a normalized size */
+  isTrueScale: boolean;
+  /** Show width/depth/height measurement lines around the product */
+  showDimensions: boolean;
+  /** Units for measurements; null follows the display locale */
+  measurementSystem: MeasurementSystem | null;
 }
 
 /**
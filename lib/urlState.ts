@@ -0,0 +1,139 @@
+// ============================================
+// URL State (deep links)
+// ============================================
+
+import { CATALOG_FILTER_CONFIG, VR_ROOM_TEMPLATES } from './constants';
+import { VIBE_CATEGORIES } from './catalogFilters';
+import { isProductType } from './productTypes';
+import type {
+  CatalogFilter,
+  CatalogSortOrder,
+  VibeCategory,
+  VRRoomTemplate,
+  XRPreviewMode,
+} from './types';
+
+/**
+ * Everything a link can restore: the product in the path
+ * (`/product/art-002`) and filters, sort and XR preview in the query
+ * (`?vibe=calm`, `?preview=vr&room=bedroom`)
+ */
+export interface StudioUrlState {
+  productId: string | null;
+  filter: CatalogFilter;
+  sortOrder: CatalogSortOrder;
+  preview: XRPreviewMode | null;
+  room: VRRoomTemplate | null;
+}
+
+export const PRODUCT_PATH_PREFIX = '/product/';
+
+// Query parameters owned by the studio; anything else (e.g. a wishlist share code) is preserved
+const PARAMS = {
+  types: 'type',
+  vibes: 'vibe',
+  minPrice: 'minPrice',
+  maxPrice: 'maxPrice',
+  maxWidth: 'maxWidth',
+  maxHeight: 'maxHeight',
+  sort: 'sort',
+  preview: 'preview',
+  room: 'room',
+} as const;
+
+const SORT_ORDERS: readonly string[] = CATALOG_FILTER_CONFIG.sortOrders.map((option) => option.value);
+
+function isVibeCategory(value: string): value is VibeCategory {
+  return (VIBE_CATEGORIES as string[]).includes(value);
+}
+
+function isSortOrder(value: string): value is CatalogSortOrder {
+  return SORT_ORDERS.includes(value);
+}
+
+function isXRPreviewMode(value: string): value is XRPreviewMode {
+  return value === 'ar' || value === 'vr';
+}
+
+function isRoomTemplate(value: string): value is VRRoomTemplate {
+  return Object.prototype.hasOwnProperty.call(VR_ROOM_TEMPLATES, value);
+}
+
+/** Comma-separated list, also accepting repeated parameters (`?vibe=calm&vibe=ambient`) */
+function readList(params: URLSearchParams, key: string): string[] {
+  return params.getAll(key).flatMap((value) => value.split(',')).filter(Boolean);
+}
+
+function readNumber(params: URLSearchParams, key: string): number | null {
+  const value = params.get(key);
+  if (value === null || value.trim() === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) && number >= 0 ? number : null;
+}
+
+export function getProductPath(productId: string): string {
+  return `${PRODUCT_PATH_PREFIX}${encodeURIComponent(productId)}`;
+}
+
+/**
+ * Read studio state from a pathname and query string. Unknown or invalid
+ * values fall back to the defaults rather than failing.
+ */
+export function parseStudioUrl(pathname: string, search: string): StudioUrlState {
+  const params = new URLSearchParams(search);
+
+  let productId: string | null = null;
+  if (pathname.startsWith(PRODUCT_PATH_PREFIX)) {
+    const segment = pathname.slice(PRODUCT_PATH_PREFIX.length).split('/')[0];
+    productId = segment ? decodeURIComponent(segment) : null;
+  }
+
+  const sort = params.get(PARAMS.sort);
+  const preview = params.get(PARAMS.preview);
+  const room = params.get(PARAMS.room);
+
+  return {
+    productId,
+    filter: {
+      types: readList(params, PARAMS.types).filter(isProductType),
+      vibes: readList(params, PARAMS.vibes).filter(isVibeCategory),
+      priceRange: {
+        min: readNumber(params, PARAMS.minPrice),
+        max: readNumber(params, PARAMS.maxPrice),
+      },
+      maxWidth: readNumber(params, PARAMS.maxWidth),
+      maxHeight: readNumber(params, PARAMS.maxHeight),
+    },
+    sortOrder: sort && isSortOrder(sort) ? sort : 'featured',
+    preview: preview && isXRPreviewMode(preview) ? preview : null,
+    room: room && isRoomTemplate(room) ? room : null,
+  };
+}
+
+/**
+ * Build the path and query for a studio state. Defaults are left out so
+ * links stay short; `preserveSearch` keeps parameters the studio doesn't own.
+ */
+export function buildStudioUrl(state: StudioUrlState, preserveSearch = ''): string {
+  const params = new URLSearchParams(preserveSearch);
+  Object.values(PARAMS).forEach((key) => params.delete(key));
+
+  const { filter } = state;
+  if (filter.types.length > 0) params.set(PARAMS.types, filter.types.join(','));
+  if (filter.vibes.length > 0) params.set(PARAMS.vibes, filter.vibes.join(','));
+  if (filter.priceRange.min !== null) params.set(PARAMS.minPrice, String(filter.priceRange.min));
+  if (filter.priceRange.max !== null) params.set(PARAMS.maxPrice, String(filter.priceRange.max));
+  if (filter.maxWidth !== null) params.set(PARAMS.maxWidth, String(filter.maxWidth));
+  if (filter.maxHeight !== null) params.set(PARAMS.maxHeight, String(filter.maxHeight));
+  if (state.sortOrder !== 'featured') params.set(PARAMS.sort, state.sortOrder);
+  if (state.preview) {
+    params.set(PARAMS.preview, state.preview);
+    // The room only matters inside the VR preview
+    if (state.preview === 'vr' && state.room) params.set(PARAMS.room, state.room);
+  }
+
+  const path = state.productId ? getProductPath(state.productId) : '/';
+  // Commas don't need escaping in a query, and unescaped lists read better in shared links
+  const query = params.toString().replace(/%2C/gi, ',');
+  return query ? `${path}?${query}` : path;
+}
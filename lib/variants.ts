@@ -0,0 +1,116 @@
+// ============================================
+// Product Variants
+// ============================================
+
+import type { ArtVariant, Product, ProductVariant, TableVariant, VariantAttribute } from './types';
+
+export const VARIANT_ATTRIBUTES: VariantAttribute[] = ['size', 'finish', 'material'];
+
+export const VARIANT_ATTRIBUTE_LABELS: Record<VariantAttribute, string> = {
+  size: 'Size',
+  finish: 'Frame',
+  material: 'Material',
+};
+
+export interface VariantOptionGroup {
+  attribute: VariantAttribute;
+  values: string[];
+}
+
+export function getProductVariants(product: Product): ProductVariant[] {
+  return product.variants ?? [];
+}
+
+export function hasVariants(product: Product): boolean {
+  return getProductVariants(product).length > 0;
+}
+
+/**
+ * Look up a variant by id, falling back to the first variant (the default)
+ */
+export function getVariant(product: Product, variantId?: string | null): ProductVariant | null {
+  const variants = getProductVariants(product);
+  if (variants.length === 0) return null;
+  return variants.find((variant) => variant.id === variantId) ?? variants[0];
+}
+
+/**
+ * Return the product as configured by a variant: price, stock, frame, size,
+ * model and material overrides applied. Products without variants are returned unchanged.
+ */
+export function applyVariant(product: Product, variantId?: string | null): Product {
+  const variant = getVariant(product, variantId);
+  if (!variant) return product;
+
+  switch (product.type) {
+    case 'art': {
+      const artVariant = variant as ArtVariant;
+      return {
+        ...product,
+        price: artVariant.price,
+        stock: artVariant.stock ?? product.stock,
+        frameColor: artVariant.frameColor ?? product.frameColor,
+        dimensions: artVariant.dimensions ?? product.dimensions,
+      };
+    }
+    case 'table': {
+      const tableVariant = variant as TableVariant;
+      return {
+        ...product,
+        price: tableVariant.price,
+        stock: tableVariant.stock ?? product.stock,
+        modelUri: tableVariant.modelUri ?? product.modelUri,
+        materialColor: tableVariant.materialColor ?? product.materialColor,
+      };
+    }
+    default:
+      // Other types only vary by price and stock for now
+      return { ...product, price: variant.price, stock: variant.stock ?? product.stock };
+  }
+}
+
+/**
+ * Distinct option values per attribute, in catalog order
+ */
+export function getVariantOptionGroups(product: Product): VariantOptionGroup[] {
+  const variants = getProductVariants(product);
+
+  return VARIANT_ATTRIBUTES.map((attribute) => {
+    const values: string[] = [];
+    for (const variant of variants) {
+      const value = variant.attributes[attribute];
+      if (value && !values.includes(value)) values.push(value);
+    }
+    return { attribute, values };
+  }).filter((group) => group.values.length > 0);
+}
+
+/**
+ * Pick the variant that matches `value` for `attribute` while keeping the other
+ * attributes of the current variant where possible.
+ */
+export function findVariantByOption(
+  product: Product,
+  current: ProductVariant | null,
+  attribute: VariantAttribute,
+  value: string
+): ProductVariant | null {
+  const candidates = getProductVariants(product).filter(
+    (variant) => variant.attributes[attribute] === value
+  );
+  if (candidates.length === 0) return null;
+
+  const score = (variant: ProductVariant) =>
+    VARIANT_ATTRIBUTES.filter(
+      (other) => other !== attribute && variant.attributes[other] === current?.attributes[other]
+    ).length;
+
+  return candidates.reduce((best, variant) => (score(variant) > score(best) ? variant : best));
+}
+
+/**
+ * Cart line key: one line per product + variant combination
+ */
+export function getCartLineId(productId: string, variantId?: string | null): string {
+  return variantId ? `${productId}::${variantId}` : productId;
+}
@@ -0,0 +1,95 @@
+// ============================================
+// Wishlist Share Codes
+// ============================================
+
+import { WISHLIST_CONFIG } from './constants';
+import type { SharedWishlistCollection, WishlistCollection, WishlistCollectionItem } from './types';
+
+/**
+ * Bumped when the encoded layout changes; older codes keep decoding as long
+ * as their version is handled in `decodeShareCode`
+ */
+const SHARE_CODE_VERSION = 1;
+
+/**
+ * v1 payload: [version, name, [[productId, note?], ...]]. Positional arrays
+ * keep codes short enough to paste into a chat message.
+ */
+type ShareCodePayload = [number, string, Array<[string] | [string, string]>];
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(code: string): string {
+  const base64 = code.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+}
+
+export function encodeShareCode(collection: Pick<WishlistCollection, 'name' | 'items'>): string {
+  const payload: ShareCodePayload = [
+    SHARE_CODE_VERSION,
+    collection.name,
+    collection.items.map((item) => (item.note ? [item.productId, item.note] : [item.productId])),
+  ];
+  return toBase64Url(JSON.stringify(payload));
+}
+
+/**
+ * Decode a share code, or return null if it is malformed or from an
+ * unsupported version
+ */
+export function decodeShareCode(code: string): SharedWishlistCollection | null {
+  try {
+    const payload: unknown = JSON.parse(fromBase64Url(code.trim()));
+    if (!Array.isArray(payload) || payload[0] !== SHARE_CODE_VERSION) return null;
+
+    const [, name, entries] = payload;
+    if (typeof name !== 'string' || !Array.isArray(entries)) return null;
+
+    const items: WishlistCollectionItem[] = [];
+    for (const entry of entries) {
+      if (!Array.isArray(entry) || typeof entry[0] !== 'string') return null;
+      items.push({
+        productId: entry[0],
+        note: typeof entry[1] === 'string' ? entry[1].slice(0, WISHLIST_CONFIG.maxNoteLength) : '',
+      });
+    }
+
+    return { name: name.slice(0, WISHLIST_CONFIG.maxCollectionNameLength), items };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Link that opens the collection read-only in any browser
+ */
+export function getShareUrl(code: string, base: string = window.location.href): string {
+  const url = new URL(base);
+  url.search = '';
+  url.hash = '';
+  url.searchParams.set(WISHLIST_CONFIG.shareParam, code);
+  return url.toString();
+}
+
+/**
+ * Pull the share code out of pasted input, which may be a bare code or a
+ * full share URL
+ */
+export function parseShareInput(input: string): string | null {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+
+  try {
+    return new URL(trimmed).searchParams.get(WISHLIST_CONFIG.shareParam);
+  } catch {
+    return trimmed;
+  }
+}
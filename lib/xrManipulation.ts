@@ -0,0 +1,119 @@
+// ============================================
+// XR Product Manipulation
+// ============================================
+
+import * as THREE from 'three';
+import { XR_PREVIEW_CONFIG } from './constants';
+import type { PlacementSurface } from './productTypes';
+
+/**
+ * The shopper's adjustments on top of where a product was placed (an AR
+ * surface or its spot in the VR room): a move along the surface, an extra
+ * turn and a uniform scale. Kept apart from the placement so reset can put
+ * the product back.
+ */
+export interface ProductAdjustment {
+  offset: [number, number, number];
+  rotationY: number;
+  scale: number;
+}
+
+/**
+ * One step of a gesture, applied on top of the current adjustment
+ */
+export interface ProductAdjustmentChange {
+  /** World-space move; anything off the surface is dropped */
+  move?: THREE.Vector3;
+  /** Extra turn about the vertical axis (radians) */
+  rotateY?: number;
+  /** Scale multiplier, e.g. a pinch's distance ratio */
+  scaleBy?: number;
+}
+
+export const DEFAULT_PRODUCT_ADJUSTMENT: ProductAdjustment = {
+  offset: [0, 0, 0],
+  rotationY: 0,
+  scale: XR_PREVIEW_CONFIG.ar.defaultScale,
+};
+
+const UP = new THREE.Vector3(0, 1, 0);
+const surfaceNormal = new THREE.Vector3();
+const surfaceMove = new THREE.Vector3();
+
+/**
+ * Keep a scale within `XR_PREVIEW_CONFIG.ar.minScale`/`maxScale`
+ */
+export function clampProductScale(scale: number): number {
+  const { minScale, maxScale } = XR_PREVIEW_CONFIG.ar;
+  return THREE.MathUtils.clamp(scale, minScale, maxScale);
+}
+
+/**
+ * Whether a product has been moved, turned or scaled since it was placed
+ */
+export function isProductAdjusted(adjustment: ProductAdjustment): boolean {
+  return (
+    adjustment.scale !== DEFAULT_PRODUCT_ADJUSTMENT.scale ||
+    adjustment.rotationY !== DEFAULT_PRODUCT_ADJUSTMENT.rotationY ||
+    adjustment.offset.some((value) => value !== 0)
+  );
+}
+
+/**
+ * Normal of the surface a placed product moves along: up for the floor,
+ * out of the wall (the product's facing) for wall items
+ */
+export function getSurfaceNormal(
+  surface: PlacementSurface,
+  rotationY: number,
+  target: THREE.Vector3
+): THREE.Vector3 {
+  return surface === 'wall' ? target.set(Math.sin(rotationY), 0, Math.cos(rotationY)) : target.copy(UP);
+}
+
+/**
+ * Apply a gesture step. Moves stay on the surface, and wall items don't
+ * turn so they keep hanging flush.
+ */
+export function applyProductAdjustmentChange(
+  adjustment: ProductAdjustment,
+  change: ProductAdjustmentChange,
+  surface: PlacementSurface,
+  placementRotationY: number
+): ProductAdjustment {
+  const offset: [number, number, number] = [...adjustment.offset];
+  if (change.move) {
+    getSurfaceNormal(surface, placementRotationY + adjustment.rotationY, surfaceNormal);
+    surfaceMove.copy(change.move).projectOnPlane(surfaceNormal);
+    offset[0] += surfaceMove.x;
+    offset[1] += surfaceMove.y;
+    offset[2] += surfaceMove.z;
+  }
+
+  return {
+    offset,
+    rotationY: surface === 'wall' ? 0 : adjustment.rotationY + (change.rotateY ?? 0),
+    scale: clampProductScale(adjustment.scale * (change.scaleBy ?? 1)),
+  };
+}
+
+/**
+ * Distance and angle between two pointers, the basis of pinch and twist
+ */
+export function measurePointerPair(
+  a: { x: number; y: number },
+  b: { x: number; y: number }
+): { distance: number; angle: number } {
+  return {
+    distance: Math.hypot(b.x - a.x, b.y - a.y),
+    angle: Math.atan2(b.y - a.y, b.x - a.x),
+  };
+}
+
+/**
+ * Signed difference between two angles, wrapped to [-π, π] so a twist
+ * across the ±π seam doesn't spin the product a full turn
+ */
+export function getAngleDelta(from: number, to: number): number {
+  return THREE.MathUtils.euclideanModulo(to - from + Math.PI, Math.PI * 2) - Math.PI;
+}
@@ -0,0 +1,69 @@
+// ============================================
+// XR Product Staging
+// ============================================
+
+import { XR_PREVIEW_CONFIG } from './constants';
+import { getPlacementRule, getProductDimensions } from './productTypes';
+import type { PlacementSurface } from './productTypes';
+import { DEFAULT_PRODUCT_ADJUSTMENT } from './xrManipulation';
+import type { ProductAdjustment } from './xrManipulation';
+import type { ARPlacement } from './arPlacement';
+import type { Product } from './types';
+
+/**
+ * A product in the XR preview alongside others, with its own placement and
+ * adjustments. Each product can be staged once.
+ */
+export interface StagedProduct {
+  /** Product as configured by the chosen variant */
+  product: Product;
+  variantId: string | null;
+  /** Where it was placed on a real surface in the AR session */
+  placement: ARPlacement | null;
+  /** Move, turn and scale applied by gestures and grabs */
+  adjustment: ProductAdjustment;
+}
+
+export function createStagedProduct(product: Product, variantId: string | null = null): StagedProduct {
+  return {
+    product,
+    variantId,
+    placement: null,
+    adjustment: DEFAULT_PRODUCT_ADJUSTMENT,
+  };
+}
+
+/**
+ * Combined price of the staged products, one of each
+ */
+export function getStagedTotal(staged: StagedProduct[]): number {
+  return staged.reduce((total, item) => total + item.product.price, 0);
+}
+
+/**
+ * Sideways offsets that line staged products up next to each other instead
+ * of on one spot. Products on the same surface (floor or wall) share a
+ * centered row, in staging order.
+ */
+export function getStagedRowOffsets(products: Product[]): number[] {
+  const { spacing, defaultWidth } = XR_PREVIEW_CONFIG.staging;
+  const offsets: number[] = new Array(products.length).fill(0);
+  const rows: Partial<Record<PlacementSurface, number[]>> = {};
+
+  products.forEach((product, index) => {
+    const surface = getPlacementRule(product).surface;
+    rows[surface] = [...(rows[surface] ?? []), index];
+  });
+
+  Object.values(rows).forEach((indices = []) => {
+    const widths = indices.map((index) => getProductDimensions(products[index])?.width ?? defaultWidth);
+    const rowWidth = widths.reduce((sum, width) => sum + width, 0) + spacing * (widths.length - 1);
+    let left = -rowWidth / 2;
+    indices.forEach((productIndex, rowIndex) => {
+      offsets[productIndex] = left + widths[rowIndex] / 2;
+      left += widths[rowIndex] + spacing;
+    });
+  });
+
+  return offsets;
+}
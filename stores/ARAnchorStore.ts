@@ -0,0 +1,85 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { immer } from 'zustand/middleware/immer';
+import { XR_PREVIEW_CONFIG } from '../lib/constants';
+import type { SavedPlacement } from '../lib/arAnchors';
+
+// ============================================
+// AR Anchor Store Interface
+// ============================================
+
+interface ARAnchorStoreState {
+  /** Newest first; at most one per product */
+  savedPlacements: SavedPlacement[];
+  /** Anchors forgotten here that the device still holds; deleted in the next AR session */
+  pendingDeletes: string[];
+
+  // Actions
+  /** Save a product's placement, replacing any earlier one for the same product */
+  savePlacement: (placement: SavedPlacement) => void;
+  removePlacement: (id: string) => void;
+  clearPlacements: () => void;
+  /** The device has deleted these anchors (or never had them) */
+  markAnchorsDeleted: (ids: string[]) => void;
+
+  // Getters
+  getPlacementForProduct: (productId: string) => SavedPlacement | undefined;
+}
+
+// ============================================
+// AR Anchor Store Implementation
+// ============================================
+
+export const useARAnchorStore = create<ARAnchorStoreState>()(
+  persist(
+    immer((set, get) => ({
+      savedPlacements: [],
+      pendingDeletes: [],
+
+      savePlacement: (placement: SavedPlacement) => {
+        set((state) => {
+          const replaced = state.savedPlacements.filter(
+            (existing) => existing.productId === placement.productId && existing.id !== placement.id
+          );
+          const kept = state.savedPlacements.filter((existing) => existing.productId !== placement.productId);
+          const { maxSaved } = XR_PREVIEW_CONFIG.ar.anchors;
+          const overflow = kept.slice(Math.max(0, maxSaved - 1));
+
+          state.savedPlacements = [placement, ...kept.slice(0, maxSaved - 1)];
+          for (const stale of [...replaced, ...overflow]) {
+            state.pendingDeletes.push(stale.id);
+          }
+        });
+      },
+
+      removePlacement: (id: string) => {
+        set((state) => {
+          if (!state.savedPlacements.some((placement) => placement.id === id)) return;
+          state.savedPlacements = state.savedPlacements.filter((placement) => placement.id !== id);
+          state.pendingDeletes.push(id);
+        });
+      },
+
+      clearPlacements: () => {
+        set((state) => {
+          state.pendingDeletes.push(...state.savedPlacements.map((placement) => placement.id));
+          state.savedPlacements = [];
+        });
+      },
+
+      markAnchorsDeleted: (ids: string[]) => {
+        set((state) => {
+          state.pendingDeletes = state.pendingDeletes.filter((id) => !ids.includes(id));
+        });
+      },
+
+      getPlacementForProduct: (productId: string) => {
+        return get().savedPlacements.find((placement) => placement.productId === productId);
+      },
+    })),
+    {
+      name: 'virtual-studio-ar-anchors',
+      version: 1,
+    }
+  )
+);
@@ -0,0 +1,199 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { immer } from 'zustand/middleware/immer';
+import type { VRRoomTemplate } from '../lib/types';
+import { CUSTOM_ROOM_CONFIG } from '../lib/constants';
+import {
+  canPlaceOpening,
+  clampOpening,
+  clampRoomDimensions,
+  createCustomRoom,
+  createOpening,
+  fitOpeningsToRoom,
+  getRoomLayout,
+} from '../lib/customRoom';
+import type {
+  CustomRoom,
+  FloorMaterialId,
+  OpeningKind,
+  RoomLayout,
+  RoomOpening,
+  WallMaterialId,
+} from '../lib/customRoom';
+import type { RoomDimensions, RoomWall } from '../lib/roomDesigner';
+
+// ============================================
+// Custom Room Store Interface
+// ============================================
+
+export type OpeningChanges = Partial<Pick<RoomOpening, 'wall' | 'offset' | 'width' | 'height' | 'sillHeight'>>;
+
+interface CustomRoomStoreState {
+  /** Newest first */
+  rooms: CustomRoom[];
+  /** Room the 'custom' template shows */
+  activeRoomId: string | null;
+
+  // Actions
+  /** Add a room at the default size and make it active; returns its id, or null at `CUSTOM_ROOM_CONFIG.maxRooms` */
+  createRoom: (name?: string) => string | null;
+  deleteRoom: (roomId: string) => void;
+  selectRoom: (roomId: string) => void;
+  renameRoom: (name: string) => void;
+  /** Resize the active room; returns how many openings no longer fit and were removed */
+  setDimensions: (dimensions: Partial<RoomDimensions>) => number;
+  /** Add a door or window to a wall of the active room; returns false when the wall is full */
+  addOpening: (kind: OpeningKind, wall: RoomWall) => boolean;
+  /** Move or resize an opening; returns false (and leaves it) where it would overlap another */
+  updateOpening: (openingId: string, changes: OpeningChanges) => boolean;
+  removeOpening: (openingId: string) => void;
+  setFloorMaterial: (material: FloorMaterialId) => void;
+  setWallMaterial: (material: WallMaterialId) => void;
+
+  // Getters
+  getActiveRoom: () => CustomRoom | null;
+  getRoomLayout: (templateId: VRRoomTemplate) => RoomLayout;
+}
+
+const DEFAULT_ROOM_NAME = 'My Room';
+
+/**
+ * Apply a change to the active room, if there is one
+ */
+function updateActiveRoom(state: CustomRoomStoreState, change: (room: CustomRoom) => void) {
+  const room = state.rooms.find((candidate) => candidate.id === state.activeRoomId);
+  if (!room) return;
+  change(room);
+  room.updatedAt = Date.now();
+}
+
+// ============================================
+// Custom Room Store Implementation
+// ============================================
+
+export const useCustomRoomStore = create<CustomRoomStoreState>()(
+  persist(
+    immer((set, get) => ({
+      // Initial state
+      rooms: [],
+      activeRoomId: null,
+
+      createRoom: (name?: string) => {
+        if (get().rooms.length >= CUSTOM_ROOM_CONFIG.maxRooms) return null;
+        const room = createCustomRoom(name?.trim() || `${DEFAULT_ROOM_NAME} ${get().rooms.length + 1}`);
+        set((state) => {
+          state.rooms.unshift(room);
+          state.activeRoomId = room.id;
+        });
+        return room.id;
+      },
+
+      // The next room takes over when the active one is deleted
+      deleteRoom: (roomId: string) => {
+        set((state) => {
+          state.rooms = state.rooms.filter((room) => room.id !== roomId);
+          if (state.activeRoomId === roomId) {
+            state.activeRoomId = state.rooms[0]?.id ?? null;
+          }
+        });
+      },
+
+      selectRoom: (roomId: string) => {
+        set((state) => {
+          if (state.rooms.some((room) => room.id === roomId)) {
+            state.activeRoomId = roomId;
+          }
+        });
+      },
+
+      renameRoom: (name: string) => {
+        set((state) => {
+          updateActiveRoom(state, (room) => {
+            room.name = name.trim() || DEFAULT_ROOM_NAME;
+          });
+        });
+      },
+
+      // Openings slide along their walls to stay inside the new size
+      setDimensions: (dimensions: Partial<RoomDimensions>) => {
+        const room = get().getActiveRoom();
+        if (!room) return 0;
+        const resized = clampRoomDimensions({ ...room.dimensions, ...dimensions });
+        const openings = fitOpeningsToRoom(room.openings, resized);
+        set((state) => {
+          updateActiveRoom(state, (active) => {
+            active.dimensions = resized;
+            active.openings = openings;
+          });
+        });
+        return room.openings.length - openings.length;
+      },
+
+      addOpening: (kind: OpeningKind, wall: RoomWall) => {
+        const room = get().getActiveRoom();
+        if (!room || room.openings.length >= CUSTOM_ROOM_CONFIG.maxOpeningsPerRoom) return false;
+        const opening = createOpening(kind, wall, room);
+        if (!opening) return false;
+        set((state) => {
+          updateActiveRoom(state, (active) => {
+            active.openings.push(opening);
+          });
+        });
+        return true;
+      },
+
+      updateOpening: (openingId: string, changes: OpeningChanges) => {
+        const room = get().getActiveRoom();
+        const opening = room?.openings.find((candidate) => candidate.id === openingId);
+        if (!room || !opening) return false;
+
+        const updated = clampOpening({ ...opening, ...changes }, room.dimensions);
+        if (!canPlaceOpening(updated, room.openings)) return false;
+        set((state) => {
+          updateActiveRoom(state, (active) => {
+            const index = active.openings.findIndex((candidate) => candidate.id === openingId);
+            if (index >= 0) {
+              active.openings[index] = updated;
+            }
+          });
+        });
+        return true;
+      },
+
+      removeOpening: (openingId: string) => {
+        set((state) => {
+          updateActiveRoom(state, (room) => {
+            room.openings = room.openings.filter((opening) => opening.id !== openingId);
+          });
+        });
+      },
+
+      setFloorMaterial: (material: FloorMaterialId) => {
+        set((state) => {
+          updateActiveRoom(state, (room) => {
+            room.floorMaterial = material;
+          });
+        });
+      },
+
+      setWallMaterial: (material: WallMaterialId) => {
+        set((state) => {
+          updateActiveRoom(state, (room) => {
+            room.wallMaterial = material;
+          });
+        });
+      },
+
+      getActiveRoom: () => {
+        const { rooms, activeRoomId } = get();
+        return rooms.find((room) => room.id === activeRoomId) ?? null;
+      },
+
+      getRoomLayout: (templateId: VRRoomTemplate) => getRoomLayout(templateId, get().getActiveRoom()),
+    })),
+    {
+      name: 'virtual-studio-custom-rooms',
+      version: 1,
+    }
+  )
+);
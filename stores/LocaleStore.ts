@@ -0,0 +1,51 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { immer } from 'zustand/middleware/immer';
+import { BASE_CURRENCY, DEFAULT_LOCALE, isCurrencyCode, isSupportedLocale } from '../lib/currency';
+import type { CurrencyCode } from '../lib/types';
+
+// ============================================
+// Locale Store Interface
+// ============================================
+
+interface LocaleStoreState {
+  /** Currency prices are shown in */
+  currency: CurrencyCode;
+  /** Locale used for number, currency and date formatting */
+  locale: string;
+
+  // Actions
+  setCurrency: (currency: CurrencyCode) => void;
+  setLocale: (locale: string) => void;
+}
+
+// ============================================
+// Locale Store Implementation
+// ============================================
+
+export const useLocaleStore = create<LocaleStoreState>()(
+  persist(
+    immer((set) => ({
+      currency: BASE_CURRENCY,
+      locale: DEFAULT_LOCALE,
+
+      setCurrency: (currency: CurrencyCode) => {
+        if (!isCurrencyCode(currency)) return;
+        set((state) => {
+          state.currency = currency;
+        });
+      },
+
+      setLocale: (locale: string) => {
+        if (!isSupportedLocale(locale)) return;
+        set((state) => {
+          state.locale = locale;
+        });
+      },
+    })),
+    {
+      name: 'virtual-studio-locale',
+      version: 1,
+    }
+  )
+);
@@ -1,105 +1,141 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { immer } from 'zustand/middleware/immer';
-import { MOCK_ASSETS, DEFAULT_AUDIO_TRACKS } from '../lib/constants';
-import type { Product, ArtProduct, TableProduct, GalleryState, AudioTrack, VibeCategory } from '../lib/types';
+import { DEFAULT_AUDIO_TRACKS, GALLERY_CONFIG, PRICING_CONFIG, WISHLIST_CONFIG } from '../lib/constants';
+import { getCatalogProvider } from '../lib/catalog';
+import { applyCatalogView, DEFAULT_CATALOG_FILTER } from '../lib/catalogFilters';
+import { applyVariant, getCartLineId, getVariant } from '../lib/variants';
+import {
+  createIdempotencyKey,
+  getOrderIdForKey,
+  getPaymentGateway,
+  isPaymentError,
+} from '../lib/payments';
+import { calculatePricing, getShippingCountry, getSubtotal, validatePromoCode } from '../lib/pricing';
+import type { BasePriceFormatter, PromoCodeValidation } from '../lib/pricing';
+import { BASE_CURRENCY, getExchangeRate } from '../lib/currency';
+import { getMaxLineQuantity } from '../lib/inventory';
+import {
+  createMigrate,
+  reconcileCartLines,
+  reconcileWishlistItems,
+  toPersistedCartLine,
+  toPersistedWishlistItem,
+} from '../lib/persistence';
+import { decodeShareCode, encodeShareCode } from '../lib/wishlistShare';
+import { useLocaleStore } from './LocaleStore';
+import type {
+  CartItem,
+  Product,
+  ProductType,
+  GalleryState,
+  VibeCategory,
+  CatalogFilter,
+  CatalogSortOrder,
+  PaymentCard,
+  PaymentErrorCode,
+  PaymentIntent,
+  PaymentStep,
+  PriceBreakdown,
+  CurrencyCode,
+  ShippingInfo,
+  StockIssue,
+  PersistedCartLine,
+  PersistedWishlistItem,
+  SavedItemNotice,
+  CartSnapshot,
+  ServerCart,
+  SharedWishlistCollection,
+  WishlistCollection,
+  WishlistCollectionItem,
+} from '../lib/types';
 
-// ============================================
-// Mock Product Data
-// ============================================
-
-const MOCK_ART_PRODUCTS: ArtProduct[] = [
-  {
-    id: 'art-001',
-    name: 'Abstract Serenity',
-    type: 'art',
-    vibe: 'calm',
-    imageUri: MOCK_ASSETS.images.art1,
-    frameColor: '#5c4033',
-    dimensions: { width: 1.2, height: 0.9 },
-    price: 450,
-    description: 'A calming abstract piece featuring soft blues and gentle gradients.',
-  },
-  {
-    id: 'art-002',
-    name: 'Urban Energy',
-    type: 'art',
-    vibe: 'upbeat',
-    imageUri: MOCK_ASSETS.images.art2,
-    frameColor: '#2c2c2c',
-    dimensions: { width: 1.0, height: 1.2 },
-    price: 650,
-    description: 'Dynamic urban landscape with vibrant colors and bold strokes.',
-  },
-  {
-    id: 'art-003',
-    name: 'Nature\'s Whisper',
-    type: 'art',
-    vibe: 'ambient',
-    imageUri: MOCK_ASSETS.images.art3,
-    frameColor: '#8B4513',
-    dimensions: { width: 1.4, height: 1.0 },
-    price: 550,
-    description: 'A serene nature scene capturing the essence of tranquility.',
-  },
-];
-
-const MOCK_TABLE_PRODUCTS: TableProduct[] = [
-  {
-    id: 'table-001',
-    name: 'Modern Oak Dining Table',
-    type: 'table',
-    vibe: 'calm',
-    modelUri: MOCK_ASSETS.models.table,
-    scale: 1.5,
-    price: 1200,
-    description: 'Elegant oak dining table with clean modern lines.',
-  },
-  {
-    id: 'table-002',
-    name: 'Minimalist Side Chair',
-    type: 'table',
-    vibe: 'upbeat',
-    modelUri: MOCK_ASSETS.models.chair,
-    scale: 1.0,
-    price: 350,
-    description: 'Sleek minimalist chair perfect for any modern space.',
-  },
-];
-
-// Combine all products
-const ALL_PRODUCTS: Product[] = [...MOCK_ART_PRODUCTS, ...MOCK_TABLE_PRODUCTS];
+export type { CartItem };
 
 // ============================================
 // Gallery Store
 // ============================================
 
+// Incremented per load so a slow response can't overwrite a newer one
+let catalogRequestId = 0;
+
+/**
+ * Recompute the filtered view, keeping the current product selected if it
+ * survives the new filter; otherwise fall back to the first match
+ */
+function refreshVisibleProducts(state: GalleryState) {
+  const previousId = state.currentProduct?.id;
+  const visible = applyCatalogView(state.products, state.filter, state.sortOrder);
+  const keptIndex = visible.findIndex((product) => product.id === previousId);
+  const index = keptIndex >= 0 ? keptIndex : 0;
+
+  state.visibleProducts = visible;
+  state.currentIndex = index;
+  state.currentProduct = visible[index] ?? null;
+}
+
 export const useGalleryStore = create<GalleryState>()(
   immer((set, get) => ({
-    products: ALL_PRODUCTS,
+    products: [],
+    visibleProducts: [],
     currentIndex: 0,
-    currentProduct: ALL_PRODUCTS[0] ?? null,
+    currentProduct: null,
     isTransitioning: false,
     audioTracks: DEFAULT_AUDIO_TRACKS,
+    catalogStatus: 'idle',
+    catalogError: null,
+    filter: DEFAULT_CATALOG_FILTER,
+    sortOrder: 'featured',
+    selectedVariants: {},
+
+    loadCatalog: async () => {
+      const requestId = ++catalogRequestId;
+      set((state) => {
+        state.catalogStatus = 'loading';
+        state.catalogError = null;
+      });
+
+      try {
+        const products = await getCatalogProvider().listProducts();
+        if (requestId !== catalogRequestId) return;
+
+        set((state) => {
+          // Keep the visitor on the same product across reloads when possible
+          state.products = products;
+          refreshVisibleProducts(state);
+          state.catalogStatus = 'ready';
+        });
+
+        // Saved carts and wishlists are references until the catalog resolves them
+        useCartStore.getState().reconcileWithCatalog(products);
+        useWishlistStore.getState().reconcileWithCatalog(products);
+      } catch (error) {
+        if (requestId !== catalogRequestId) return;
+        set((state) => {
+          state.catalogStatus = 'error';
+          state.catalogError = error instanceof Error ? error.message : 'Failed to load catalog';
+        });
+      }
+    },
 
     nextProduct: () => {
       set((state) => {
-        if (state.isTransitioning) return;
-        const nextIndex = (state.currentIndex + 1) % state.products.length;
+        if (state.isTransitioning || state.visibleProducts.length === 0) return;
+        const nextIndex = (state.currentIndex + 1) % state.visibleProducts.length;
         state.currentIndex = nextIndex;
-        state.currentProduct = state.products[nextIndex] ?? null;
+        state.currentProduct = state.visibleProducts[nextIndex] ?? null;
         state.isTransitioning = true;
       });
     },
 
     previousProduct: () => {
       set((state) => {
-        if (state.isTransitioning) return;
+        if (state.isTransitioning || state.visibleProducts.length === 0) return;
         const prevIndex = state.currentIndex === 0 
-          ? state.products.length - 1 
+          ? state.visibleProducts.length - 1 
           : state.currentIndex - 1;
         state.currentIndex = prevIndex;
-        state.currentProduct = state.products[prevIndex] ?? null;
+        state.currentProduct = state.visibleProducts[prevIndex] ?? null;
         state.isTransitioning = true;
       });
     },
@@ -107,18 +143,88 @@ export const useGalleryStore = create<GalleryState>()(
     goToProduct: (index: number) => {
       set((state) => {
         if (state.isTransitioning) return;
-        if (index < 0 || index >= state.products.length) return;
+        if (index < 0 || index >= state.visibleProducts.length) return;
         state.currentIndex = index;
-        state.currentProduct = state.products[index] ?? null;
+        state.currentProduct = state.visibleProducts[index] ?? null;
         state.isTransitioning = true;
       });
     },
 
+    goToProductById: (productId: string) => {
+      const { visibleProducts, products } = get();
+      if (!visibleProducts.some((product) => product.id === productId)) {
+        if (!products.some((product) => product.id === productId)) return;
+        // The product is hidden by the current filter: clear it so the jump lands
+        set((state) => {
+          state.filter = DEFAULT_CATALOG_FILTER;
+          refreshVisibleProducts(state);
+        });
+      }
+
+      const index = get().visibleProducts.findIndex((product) => product.id === productId);
+      if (index === get().currentIndex) return;
+      get().goToProduct(index);
+      // Another transition is still running; its own timer releases the lock
+      if (get().currentIndex !== index) return;
+
+      // Release the transition lock after the animation, as useGalleryNavigation does
+      setTimeout(() => {
+        get().setTransitioning(false);
+      }, GALLERY_CONFIG.navigation.transitionDuration * 1000);
+    },
+
     setTransitioning: (value: boolean) => {
       set((state) => {
         state.isTransitioning = value;
       });
     },
+
+    setFilter: (filter: Partial<CatalogFilter>) => {
+      set((state) => {
+        Object.assign(state.filter, filter);
+        refreshVisibleProducts(state);
+      });
+    },
+
+    toggleTypeFilter: (type: ProductType) => {
+      set((state) => {
+        const { types } = state.filter;
+        state.filter.types = types.includes(type)
+          ? types.filter((t) => t !== type)
+          : [...types, type];
+        refreshVisibleProducts(state);
+      });
+    },
+
+    toggleVibeFilter: (vibe: VibeCategory) => {
+      set((state) => {
+        const { vibes } = state.filter;
+        state.filter.vibes = vibes.includes(vibe)
+          ? vibes.filter((v) => v !== vibe)
+          : [...vibes, vibe];
+        refreshVisibleProducts(state);
+      });
+    },
+
+    resetFilter: () => {
+      set((state) => {
+        state.filter = DEFAULT_CATALOG_FILTER;
+        refreshVisibleProducts(state);
+      });
+    },
+
+    setSortOrder: (sortOrder: CatalogSortOrder) => {
+      set((state) => {
+        state.sortOrder = sortOrder;
+        refreshVisibleProducts(state);
+      });
+    },
+
+    selectVariant: (productId: string, variantId: string) => {
+      set((state) => {
+        state.selectedVariants[productId] = variantId;
+      });
+    },
   }))
 );
 
@@ -126,51 +232,149 @@ export const useGalleryStore = create<GalleryState>()(
 // Cart Store (with localStorage persistence)
 // ============================================
 
-interface CartItem {
-  product: Product;
-  quantity: number;
-}
-
 interface CartState {
+  /** Id the cart is synced under (see useCartSync) */
+  cartId: string;
+  /** Server revision this cart last matched; 0 before the first sync */
+  revision: number;
   items: CartItem[];
-  addItem: (product: Product) => void;
-  removeItem: (productId: string) => void;
-  updateQuantity: (productId: string, quantity: number) => void;
+  /** Saved lines waiting for the catalog to load before they become items */
+  pendingLines: PersistedCartLine[];
+  /** What changed about saved lines since the last visit */
+  notices: SavedItemNotice[];
+  /** ISO country code the cart is priced for (shipping and tax) */
+  shippingCountry: string;
+  /** Applied promo code; re-validated against the subtotal on every price calculation */
+  promoCode: string | null;
+  /** Currency the cart was built in; an empty cart adopts the display currency on first add */
+  currency: CurrencyCode;
+  /** Base → cart currency rate locked when the cart currency was set */
+  exchangeRate: number;
+  /** Add one unit; returns false when stock doesn't allow another */
+  addItem: (product: Product, variantId?: string | null) => boolean;
+  /** Whether stock allows one more unit of the product/variant in the cart */
+  canAddItem: (product: Product, variantId?: string | null) => boolean;
+  removeItem: (lineId: string) => void;
+  /** Set a line's quantity, clamped to available stock */
+  updateQuantity: (lineId: string, quantity: number) => void;
   clearCart: () => void;
+  setShippingCountry: (country: string) => void;
+  /** Re-price the cart in another currency at today's rate */
+  setCartCurrency: (currency: CurrencyCode) => void;
+  applyPromoCode: (code: string, format?: BasePriceFormatter) => PromoCodeValidation;
+  removePromoCode: () => void;
+  /** Merchandise subtotal in the base currency */
+  getSubtotal: () => number;
+  getPriceBreakdown: () => PriceBreakdown;
+  /** Grand total in the cart currency, including discounts, shipping and tax */
   getTotalPrice: () => number;
   getTotalItems: () => number;
+  /** Most units the line can hold given current stock */
+  getMaxQuantity: (lineId: string) => number;
+  /**
+   * Re-check every line against the catalog's current stock, shrinking or
+   * removing lines that can no longer be fulfilled
+   */
+  revalidateStock: () => Promise<StockIssue[]>;
+  /** Turn pending saved lines into items, noting price, availability and stock changes */
+  reconcileWithCatalog: (products: Product[]) => void;
+  dismissNotices: () => void;
+  /** Contents and settings as saved locally and synced to the server */
+  getSnapshot: () => CartSnapshot;
+  /** Replace the cart with a newer copy saved from another device */
+  applyServerCart: (cart: ServerCart, products: Product[]) => void;
+  setRevision: (revision: number) => void;
+  /**
+   * Take over a cart handed off from another device: its lines are merged
+   * with this one's, and both devices sync the same cart id from then on
+   */
+  adoptHandoffCart: (cartId: string, revision: number, cart: CartSnapshot, products: Product[]) => void;
+}
+
+/**
+ * What the cart writes to localStorage (v5+): line references with a price
+ * snapshot instead of full products
+ */
+type PersistedCartState = CartSnapshot & Pick<CartState, 'cartId' | 'revision'>;
+
+function toCartSnapshot(state: CartState): CartSnapshot {
+  return {
+    // Unresolved lines are written back as-is so a failed catalog load loses nothing
+    lines: [...state.items.map(toPersistedCartLine), ...state.pendingLines],
+    shippingCountry: state.shippingCountry,
+    promoCode: state.promoCode,
+    currency: state.currency,
+    exchangeRate: state.exchangeRate,
+  };
 }
 
 export const useCartStore = create<CartState>()(
   persist(
     immer((set, get) => ({
+      cartId: createIdempotencyKey(),
+      revision: 0,
       items: [],
+      pendingLines: [],
+      notices: [],
+      shippingCountry: PRICING_CONFIG.defaultCountry,
+      promoCode: null,
+      currency: BASE_CURRENCY,
+      exchangeRate: 1,
+
+      addItem: (product: Product, variantId?: string | null) => {
+        if (!get().canAddItem(product, variantId)) {
+          return false;
+        }
+
+        const variant = getVariant(product, variantId);
+        const lineId = getCartLineId(product.id, variant?.id);
+        const configured = applyVariant(product, variant?.id);
 
-      addItem: (product: Product) => {
         set((state) => {
-          const existingItem = state.items.find(item => item.product.id === product.id);
+          if (state.items.length === 0 && state.pendingLines.length === 0) {
+            const { currency } = useLocaleStore.getState();
+            state.currency = currency;
+            state.exchangeRate = getExchangeRate(currency);
+          }
+
+          const existingItem = state.items.find(item => item.id === lineId);
           if (existingItem) {
             existingItem.quantity += 1;
           } else {
-            state.items.push({ product, quantity: 1 });
+            state.items.push({
+              id: lineId,
+              product: configured,
+              variant: variant ? { id: variant.id, label: variant.label } : null,
+              quantity: 1,
+            });
           }
         });
+        return true;
       },
 
-      removeItem: (productId: string) => {
+      canAddItem: (product: Product, variantId?: string | null) => {
+        const variant = getVariant(product, variantId);
+        const lineId = getCartLineId(product.id, variant?.id);
+        const { items } = get();
+        const inCart = items.find(item => item.id === lineId)?.quantity ?? 0;
+        return inCart < getMaxLineQuantity(items, lineId, applyVariant(product, variant?.id));
+      },
+
+      removeItem: (lineId: string) => {
         set((state) => {
-          state.items = state.items.filter(item => item.product.id !== productId);
+          state.items = state.items.filter(item => item.id !== lineId);
+          state.pendingLines = state.pendingLines.filter(line => line.id !== lineId);
         });
       },
 
-      updateQuantity: (productId: string, quantity: number) => {
+      updateQuantity: (lineId: string, quantity: number) => {
         set((state) => {
-          const item = state.items.find(item => item.product.id === productId);
+          const item = state.items.find(item => item.id === lineId);
           if (item) {
             if (quantity <= 0) {
-              state.items = state.items.filter(i => i.product.id !== productId);
+              state.items = state.items.filter(i => i.id !== lineId);
             } else {
-              item.quantity = quantity;
+              item.quantity = Math.min(quantity, getMaxLineQuantity(state.items, lineId, item.product));
             }
           }
         });
@@ -179,20 +383,216 @@ export const useCartStore = create<CartState>()(
       clearCart: () => {
         set((state) => {
           state.items = [];
+          state.pendingLines = [];
+          state.notices = [];
+          state.promoCode = null;
+        });
+      },
+
+      setShippingCountry: (country: string) => {
+        set((state) => {
+          state.shippingCountry = getShippingCountry(country).code;
         });
       },
 
+      setCartCurrency: (currency: CurrencyCode) => {
+        set((state) => {
+          state.currency = currency;
+          state.exchangeRate = getExchangeRate(currency);
+        });
+      },
+
+      applyPromoCode: (code: string, format?: BasePriceFormatter) => {
+        const validation = validatePromoCode(code, get().getSubtotal(), format);
+        if (validation.valid) {
+          set((state) => {
+            state.promoCode = validation.promo.code;
+          });
+        }
+        return validation;
+      },
+
+      removePromoCode: () => {
+        set((state) => {
+          state.promoCode = null;
+        });
+      },
+
+      getSubtotal: () => {
+        return getSubtotal(get().items);
+      },
+
+      getPriceBreakdown: () => {
+        const { items, shippingCountry, promoCode, currency, exchangeRate } = get();
+        return calculatePricing({ items, country: shippingCountry, promoCode, currency, exchangeRate });
+      },
+
       getTotalPrice: () => {
-        return get().items.reduce((total, item) => total + item.product.price * item.quantity, 0);
+        return get().getPriceBreakdown().total;
       },
 
       getTotalItems: () => {
-        return get().items.reduce((total, item) => total + item.quantity, 0);
+        const { items, pendingLines } = get();
+        return [...items, ...pendingLines].reduce((total, line) => total + line.quantity, 0);
+      },
+
+      getMaxQuantity: (lineId: string) => {
+        const { items } = get();
+        const item = items.find(line => line.id === lineId);
+        return item ? getMaxLineQuantity(items, lineId, item.product) : 0;
+      },
+
+      revalidateStock: async () => {
+        const provider = getCatalogProvider();
+        const { products } = useGalleryStore.getState();
+
+        // Fetch the freshest stock per product; fall back to the loaded catalog if the lookup fails
+        const productIds = Array.from(new Set(get().items.map(item => item.product.id)));
+        const latest = new Map<string, Product | null>();
+        await Promise.all(productIds.map(async (id) => {
+          try {
+            latest.set(id, await provider.getProduct(id));
+          } catch {
+            latest.set(id, products.find(product => product.id === id) ?? null);
+          }
+        }));
+
+        const issues: StockIssue[] = [];
+        set((state) => {
+          // Refresh stock on every line first so unique-original caps see current data
+          for (const item of state.items) {
+            const product = latest.get(item.product.id);
+            const variantExists = !item.variant || getVariant(product ?? item.product, item.variant.id)?.id === item.variant.id;
+            item.product.stock = product && variantExists
+              ? applyVariant(product, item.variant?.id).stock
+              : 0;
+          }
+
+          for (const item of state.items) {
+            const max = getMaxLineQuantity(state.items, item.id, item.product);
+            if (item.quantity > max) {
+              issues.push({
+                lineId: item.id,
+                productName: item.product.name,
+                variantLabel: item.variant?.label ?? null,
+                requested: item.quantity,
+                available: max,
+              });
+              item.quantity = max;
+            }
+          }
+          state.items = state.items.filter(item => item.quantity > 0);
+        });
+        return issues;
+      },
+
+      reconcileWithCatalog: (products: Product[]) => {
+        const { pendingLines, items } = get();
+        if (pendingLines.length === 0) return;
+
+        const reconciled = reconcileCartLines(pendingLines, products, items);
+        set((state) => {
+          state.items = reconciled.items;
+          state.pendingLines = [];
+          state.notices.push(...reconciled.notices);
+        });
+      },
+
+      dismissNotices: () => {
+        set((state) => {
+          state.notices = [];
+        });
+      },
+
+      getSnapshot: () => {
+        return toCartSnapshot(get());
+      },
+
+      applyServerCart: (cart: ServerCart, products: Product[]) => {
+        set((state) => {
+          state.items = [];
+          state.pendingLines = cart.lines;
+          state.shippingCountry = cart.shippingCountry;
+          state.promoCode = cart.promoCode;
+          state.currency = cart.currency;
+          state.exchangeRate = cart.exchangeRate;
+          state.revision = cart.revision;
+        });
+        get().reconcileWithCatalog(products);
+      },
+
+      setRevision: (revision: number) => {
+        set((state) => {
+          state.revision = revision;
+        });
+      },
+
+      adoptHandoffCart: (cartId: string, revision: number, cart: CartSnapshot, products: Product[]) => {
+        // Receiving our own cart again (a second handoff) must not double its quantities
+        const localLines = get().cartId === cartId ? [] : get().getSnapshot().lines;
+        set((state) => {
+          state.cartId = cartId;
+          state.revision = revision;
+          state.items = [];
+          state.pendingLines = [...cart.lines, ...localLines];
+          state.shippingCountry = cart.shippingCountry;
+          state.promoCode = cart.promoCode;
+          state.currency = cart.currency;
+          state.exchangeRate = cart.exchangeRate;
+        });
+        get().reconcileWithCatalog(products);
       },
     })),
     {
       name: 'virtual-studio-cart',
-      version: 1,
+      version: 6,
+      partialize: (state): PersistedCartState => ({
+        ...toCartSnapshot(state),
+        cartId: state.cartId,
+        revision: state.revision,
+      }),
+      merge: (persistedState, currentState) => {
+        const { lines = [], ...settings } = (persistedState ?? {}) as Partial<PersistedCartState>;
+        return { ...currentState, ...settings, pendingLines: lines };
+      },
+      migrate: createMigrate<PersistedCartState>({
+        2: (persistedState) => {
+          // v1 lines were keyed by product id and had no variant
+          const state = persistedState as { items: CartItem[] };
+          state.items = state.items.map((item) => ({
+            ...item,
+            id: item.product.id,
+            variant: null,
+          }));
+          return state;
+        },
+        3: (persistedState) => {
+          // v2 carts were priced without shipping or tax
+          const state = persistedState as Pick<CartState, 'shippingCountry' | 'promoCode'>;
+          state.shippingCountry = PRICING_CONFIG.defaultCountry;
+          state.promoCode = null;
+          return state;
+        },
+        4: (persistedState) => {
+          // Earlier carts were always priced in the base currency
+          const state = persistedState as Pick<CartState, 'currency' | 'exchangeRate'>;
+          state.currency = BASE_CURRENCY;
+          state.exchangeRate = 1;
+          return state;
+        },
+        5: (persistedState) => {
+          // v4 stored whole products; keep only references and a price snapshot
+          const { items = [], ...state } = persistedState as Omit<PersistedCartState, 'lines'> & {
+            items?: CartItem[];
+          };
+          return { ...state, lines: items.map(toPersistedCartLine) };
+        },
+        6: (persistedState) => {
+          // Carts before server sync had no id; they are uploaded on the next sync
+          const state = persistedState as Omit<PersistedCartState, 'cartId' | 'revision'>;
+          return { ...state, cartId: createIdempotencyKey(), revision: 0 };
+        },
+      }),
     }
   )
 );
@@ -249,47 +649,327 @@ export const useAudioStore = create<AudioState>()(
 // Wishlist Store (with localStorage persistence)
 // ============================================
 
+function createCollection(name: string): WishlistCollection {
+  return {
+    id: createIdempotencyKey(),
+    name: name.trim().slice(0, WISHLIST_CONFIG.maxCollectionNameLength) || WISHLIST_CONFIG.defaultCollectionName,
+    createdAt: Date.now(),
+    items: [],
+  };
+}
+
+/**
+ * Drop resolved products (and their snapshots) that no collection references anymore
+ */
+function pruneUnreferenced(state: WishlistState) {
+  const referenced = new Set(state.collections.flatMap((collection) => collection.items.map((item) => item.productId)));
+  state.items = state.items.filter((item) => referenced.has(item.id));
+  state.pendingEntries = state.pendingEntries.filter((entry) => referenced.has(entry.productId));
+}
+
 interface WishlistState {
+  /** Every saved product across all collections, resolved against the catalog */
   items: Product[];
-  addToWishlist: (product: Product) => void;
-  removeFromWishlist: (productId: string) => void;
-  isInWishlist: (productId: string) => boolean;
+  /** Saved entries waiting for the catalog to load before they become items */
+  pendingEntries: PersistedWishlistItem[];
+  /** What changed about saved entries since the last visit */
+  notices: SavedItemNotice[];
+  /** Always holds at least one collection */
+  collections: WishlistCollection[];
+  /** Collection the wishlist heart adds to and removes from */
+  activeCollectionId: string;
+  /** Collection opened from a share code; read-only and not persisted */
+  sharedCollection: SharedWishlistCollection | null;
+  /** Add to a collection (the active one by default) */
+  addToWishlist: (product: Product, collectionId?: string) => void;
+  /** Remove from a collection (the active one by default) */
+  removeFromWishlist: (productId: string, collectionId?: string) => void;
+  /** Whether a collection (the active one by default) holds the product */
+  isInWishlist: (productId: string, collectionId?: string) => boolean;
+  /** Empty every collection */
   clearWishlist: () => void;
+  /** Saved products across all collections, including ones not yet resolved against the catalog */
+  getCount: () => number;
+  /** Returns the new collection's id and makes it active */
+  createCollection: (name: string) => string;
+  renameCollection: (collectionId: string, name: string) => void;
+  /** Delete a collection; the last remaining one can't be deleted */
+  deleteCollection: (collectionId: string) => void;
+  setActiveCollection: (collectionId: string) => void;
+  /** Move an item to a new position within its collection */
+  moveItem: (collectionId: string, fromIndex: number, toIndex: number) => void;
+  setItemNote: (collectionId: string, productId: string, note: string) => void;
+  /** Compact code that opens the collection read-only in another browser */
+  getShareCode: (collectionId: string) => string | null;
+  /** Open a share code read-only; returns false when the code is invalid */
+  openSharedCollection: (code: string) => boolean;
+  closeSharedCollection: () => void;
+  /** Copy the open shared collection into the shopper's own collections */
+  saveSharedCollection: () => string | null;
+  /**
+   * Merge collections from another device, matching them by name; returns
+   * how many items were added
+   */
+  importCollections: (collections: SharedWishlistCollection[]) => number;
+  /** Turn pending saved entries into items, noting price changes and removals */
+  reconcileWithCatalog: (products: Product[]) => void;
+  dismissNotices: () => void;
+}
+
+/**
+ * What the wishlist writes to localStorage (v2+; collections since v3)
+ */
+interface PersistedWishlistState {
+  entries: PersistedWishlistItem[];
+  collections: WishlistCollection[];
+  activeCollectionId: string;
 }
 
+const initialCollection = createCollection(WISHLIST_CONFIG.defaultCollectionName);
+
 export const useWishlistStore = create<WishlistState>()(
   persist(
     immer((set, get) => ({
       items: [],
+      pendingEntries: [],
+      notices: [],
+      collections: [initialCollection],
+      activeCollectionId: initialCollection.id,
+      sharedCollection: null,
 
-      addToWishlist: (product: Product) => {
+      addToWishlist: (product: Product, collectionId?: string) => {
         set((state) => {
-          const exists = state.items.some(item => item.id === product.id);
-          if (!exists) {
+          const collection = state.collections.find(c => c.id === (collectionId ?? state.activeCollectionId));
+          if (!collection) return;
+
+          if (!collection.items.some(item => item.productId === product.id)) {
+            collection.items.push({ productId: product.id, note: '' });
+          }
+          const saved = state.items.some(item => item.id === product.id)
+            || state.pendingEntries.some(entry => entry.productId === product.id);
+          if (!saved) {
             state.items.push(product);
           }
         });
       },
 
-      removeFromWishlist: (productId: string) => {
+      removeFromWishlist: (productId: string, collectionId?: string) => {
         set((state) => {
-          state.items = state.items.filter(item => item.id !== productId);
+          const collection = state.collections.find(c => c.id === (collectionId ?? state.activeCollectionId));
+          if (!collection) return;
+          collection.items = collection.items.filter(item => item.productId !== productId);
+          pruneUnreferenced(state);
         });
       },
 
-      isInWishlist: (productId: string) => {
-        return get().items.some(item => item.id === productId);
+      isInWishlist: (productId: string, collectionId?: string) => {
+        const { collections, activeCollectionId } = get();
+        const collection = collections.find(c => c.id === (collectionId ?? activeCollectionId));
+        return collection?.items.some(item => item.productId === productId) ?? false;
       },
 
       clearWishlist: () => {
         set((state) => {
+          state.collections.forEach((collection) => {
+            collection.items = [];
+          });
           state.items = [];
+          state.pendingEntries = [];
+          state.notices = [];
+        });
+      },
+
+      getCount: () => {
+        const { items, pendingEntries } = get();
+        return items.length + pendingEntries.length;
+      },
+
+      createCollection: (name: string) => {
+        const collection = createCollection(name);
+        set((state) => {
+          state.collections.push(collection);
+          state.activeCollectionId = collection.id;
+        });
+        return collection.id;
+      },
+
+      renameCollection: (collectionId: string, name: string) => {
+        const trimmed = name.trim().slice(0, WISHLIST_CONFIG.maxCollectionNameLength);
+        if (!trimmed) return;
+        set((state) => {
+          const collection = state.collections.find(c => c.id === collectionId);
+          if (collection) {
+            collection.name = trimmed;
+          }
+        });
+      },
+
+      deleteCollection: (collectionId: string) => {
+        set((state) => {
+          if (state.collections.length <= 1) return;
+          state.collections = state.collections.filter(c => c.id !== collectionId);
+          if (state.activeCollectionId === collectionId) {
+            state.activeCollectionId = state.collections[0].id;
+          }
+          pruneUnreferenced(state);
+        });
+      },
+
+      setActiveCollection: (collectionId: string) => {
+        set((state) => {
+          if (state.collections.some(c => c.id === collectionId)) {
+            state.activeCollectionId = collectionId;
+          }
+        });
+      },
+
+      moveItem: (collectionId: string, fromIndex: number, toIndex: number) => {
+        set((state) => {
+          const collection = state.collections.find(c => c.id === collectionId);
+          if (!collection) return;
+          const { items } = collection;
+          if (fromIndex < 0 || fromIndex >= items.length || toIndex < 0 || toIndex >= items.length) return;
+          const [moved] = items.splice(fromIndex, 1);
+          items.splice(toIndex, 0, moved);
+        });
+      },
+
+      setItemNote: (collectionId: string, productId: string, note: string) => {
+        set((state) => {
+          const item = state.collections
+            .find(c => c.id === collectionId)
+            ?.items.find(entry => entry.productId === productId);
+          if (item) {
+            item.note = note.slice(0, WISHLIST_CONFIG.maxNoteLength);
+          }
+        });
+      },
+
+      getShareCode: (collectionId: string) => {
+        const collection = get().collections.find(c => c.id === collectionId);
+        return collection ? encodeShareCode(collection) : null;
+      },
+
+      openSharedCollection: (code: string) => {
+        const shared = decodeShareCode(code);
+        if (!shared) return false;
+        set((state) => {
+          state.sharedCollection = shared;
+        });
+        return true;
+      },
+
+      closeSharedCollection: () => {
+        set((state) => {
+          state.sharedCollection = null;
+        });
+      },
+
+      saveSharedCollection: () => {
+        const { sharedCollection } = get();
+        if (!sharedCollection) return null;
+
+        // Only products the catalog still carries can be saved
+        const { products } = useGalleryStore.getState();
+        const available = sharedCollection.items
+          .map((item) => ({ item, product: products.find(product => product.id === item.productId) }))
+          .filter((entry): entry is { item: WishlistCollectionItem; product: Product } => Boolean(entry.product));
+
+        const collectionId = get().createCollection(sharedCollection.name);
+        for (const { item, product } of available) {
+          get().addToWishlist(product, collectionId);
+          if (item.note) {
+            get().setItemNote(collectionId, product.id, item.note);
+          }
+        }
+        set((state) => {
+          state.sharedCollection = null;
+        });
+        return collectionId;
+      },
+
+      importCollections: (collections: SharedWishlistCollection[]) => {
+        const { products } = useGalleryStore.getState();
+        const { activeCollectionId } = get();
+        let added = 0;
+
+        for (const shared of collections) {
+          const name = shared.name.trim().toLowerCase();
+          const collectionId =
+            get().collections.find((collection) => collection.name.trim().toLowerCase() === name)?.id ??
+            get().createCollection(shared.name);
+
+          for (const item of shared.items) {
+            const product = products.find((candidate) => candidate.id === item.productId);
+            if (!product || get().isInWishlist(product.id, collectionId)) continue;
+
+            get().addToWishlist(product, collectionId);
+            if (item.note) {
+              get().setItemNote(collectionId, product.id, item.note);
+            }
+            added++;
+          }
+        }
+
+        // createCollection switches the active collection; keep the shopper's choice
+        get().setActiveCollection(activeCollectionId);
+        return added;
+      },
+
+      reconcileWithCatalog: (products: Product[]) => {
+        const { pendingEntries, items } = get();
+        if (pendingEntries.length === 0) return;
+
+        const reconciled = reconcileWishlistItems(pendingEntries, products, items);
+        set((state) => {
+          state.items = reconciled.items;
+          state.pendingEntries = [];
+          state.notices.push(...reconciled.notices);
+          // Products that left the catalog leave every collection too
+          const remaining = new Set(reconciled.items.map((item) => item.id));
+          state.collections.forEach((collection) => {
+            collection.items = collection.items.filter((item) => remaining.has(item.productId));
+          });
+        });
+      },
+
+      dismissNotices: () => {
+        set((state) => {
+          state.notices = [];
         });
       },
     })),
     {
       name: 'virtual-studio-wishlist',
-      version: 1,
+      version: 3,
+      partialize: (state): PersistedWishlistState => ({
+        entries: [...state.items.map(toPersistedWishlistItem), ...state.pendingEntries],
+        collections: state.collections,
+        activeCollectionId: state.activeCollectionId,
+      }),
+      merge: (persistedState, currentState) => {
+        const { entries = [], collections, activeCollectionId } =
+          (persistedState ?? {}) as Partial<PersistedWishlistState>;
+        if (!collections || collections.length === 0) {
+          return { ...currentState, pendingEntries: entries };
+        }
+        const active = collections.find(c => c.id === activeCollectionId) ?? collections[0];
+        return { ...currentState, pendingEntries: entries, collections, activeCollectionId: active.id };
+      },
+      migrate: createMigrate<PersistedWishlistState>({
+        2: (persistedState) => {
+          // v1 stored whole products
+          const { items = [] } = persistedState as { items?: Product[] };
+          return { entries: items.map(toPersistedWishlistItem) };
+        },
+        3: (persistedState) => {
+          // v2 was a single flat list; it becomes the default collection
+          const { entries = [] } = persistedState as { entries?: PersistedWishlistItem[] };
+          const collection = createCollection(WISHLIST_CONFIG.defaultCollectionName);
+          collection.items = entries.map((entry) => ({ productId: entry.productId, note: '' }));
+          return { entries, collections: [collection], activeCollectionId: collection.id };
+        },
+      }),
     }
   )
 );
@@ -300,14 +980,10 @@ export const useWishlistStore = create<WishlistState>()(
 
 export type CheckoutStep = 'cart' | 'shipping' | 'payment' | 'confirmation';
 
-interface ShippingInfo {
-  firstName: string;
-  lastName: string;
-  email: string;
-  address: string;
-  city: string;
-  postalCode: string;
-  country: string;
+export interface CheckoutPaymentError {
+  step: PaymentStep;
+  code: PaymentErrorCode;
+  message: string;
 }
 
 interface CheckoutState {
@@ -315,19 +991,42 @@ interface CheckoutState {
   shippingInfo: ShippingInfo | null;
   isProcessing: boolean;
   orderId: string | null;
+  /** One key per checkout attempt; reused across retries so orders are created once */
+  idempotencyKey: string;
+  paymentIntent: PaymentIntent | null;
+  paymentError: CheckoutPaymentError | null;
   setStep: (step: CheckoutStep) => void;
   setShippingInfo: (info: ShippingInfo) => void;
   setProcessing: (value: boolean) => void;
   setOrderId: (id: string | null) => void;
+  /** Create (or reuse) the payment intent and confirm it with the card */
+  submitPayment: (card: PaymentCard, amount: number, currency: CurrencyCode) => Promise<PaymentIntent | null>;
+  /** Answer the issuer's verification challenge when the intent requires action */
+  submitAuthentication: (challengeResponse: string) => Promise<PaymentIntent | null>;
+  clearPaymentError: () => void;
   resetCheckout: () => void;
 }
 
+function toCheckoutPaymentError(error: unknown, fallbackStep: PaymentStep): CheckoutPaymentError {
+  if (isPaymentError(error)) {
+    return { step: error.step, code: error.code, message: error.message };
+  }
+  return {
+    step: fallbackStep,
+    code: 'processing_error',
+    message: error instanceof Error ? error.message : 'Payment failed',
+  };
+}
+
 export const useCheckoutStore = create<CheckoutState>()(
-  immer((set) => ({
+  immer((set, get) => ({
     currentStep: 'cart',
     shippingInfo: null,
     isProcessing: false,
     orderId: null,
+    idempotencyKey: createIdempotencyKey(),
+    paymentIntent: null,
+    paymentError: null,
 
     setStep: (step: CheckoutStep) => {
       set((state) => {
@@ -353,12 +1052,103 @@ export const useCheckoutStore = create<CheckoutState>()(
       });
     },
 
+    submitPayment: async (card: PaymentCard, amount: number, currency: CurrencyCode) => {
+      // Ignore double-submits while a payment is in flight
+      if (get().isProcessing) return null;
+
+      set((state) => {
+        state.isProcessing = true;
+        state.paymentError = null;
+      });
+
+      const gateway = getPaymentGateway();
+      const { idempotencyKey, shippingInfo } = get();
+      let step: PaymentStep = 'create-intent';
+
+      try {
+        let intent = get().paymentIntent;
+        // A changed total (e.g. cart edited after a decline) needs a fresh intent
+        if (!intent || intent.amount !== amount || intent.currency !== currency) {
+          const key = intent ? createIdempotencyKey() : idempotencyKey;
+          const created = await gateway.createIntent({
+            amount,
+            currency,
+            idempotencyKey: key,
+            metadata: shippingInfo ? { email: shippingInfo.email } : {},
+          });
+          set((state) => {
+            state.idempotencyKey = key;
+            state.paymentIntent = created;
+          });
+          intent = created;
+        }
+
+        step = 'confirm';
+        const confirmed = await gateway.confirmIntent(intent.id, card);
+
+        set((state) => {
+          state.paymentIntent = confirmed;
+          state.isProcessing = false;
+          if (confirmed.status === 'succeeded') {
+            state.orderId = getOrderIdForKey(confirmed.idempotencyKey);
+            state.currentStep = 'confirmation';
+          }
+        });
+        return confirmed;
+      } catch (error) {
+        // The intent stays in state, so a retry re-confirms it instead of creating another
+        set((state) => {
+          state.isProcessing = false;
+          state.paymentError = toCheckoutPaymentError(error, step);
+        });
+        return null;
+      }
+    },
+
+    submitAuthentication: async (challengeResponse: string) => {
+      const intent = get().paymentIntent;
+      if (get().isProcessing || !intent) return null;
+
+      set((state) => {
+        state.isProcessing = true;
+        state.paymentError = null;
+      });
+
+      try {
+        const authenticated = await getPaymentGateway().authenticate(intent.id, challengeResponse);
+        set((state) => {
+          state.paymentIntent = authenticated;
+          state.isProcessing = false;
+          if (authenticated.status === 'succeeded') {
+            state.orderId = getOrderIdForKey(authenticated.idempotencyKey);
+            state.currentStep = 'confirmation';
+          }
+        });
+        return authenticated;
+      } catch (error) {
+        set((state) => {
+          state.isProcessing = false;
+          state.paymentError = toCheckoutPaymentError(error, 'authenticate');
+        });
+        return null;
+      }
+    },
+
+    clearPaymentError: () => {
+      set((state) => {
+        state.paymentError = null;
+      });
+    },
+
     resetCheckout: () => {
       set((state) => {
         state.currentStep = 'cart';
         state.shippingInfo = null;
         state.isProcessing = false;
         state.orderId = null;
+        state.idempotencyKey = createIdempotencyKey();
+        state.paymentIntent = null;
+        state.paymentError = null;
       });
     },
   }))
@@ -372,6 +1162,10 @@ interface ModalState {
   isProductModalOpen: boolean;
   isCartOpen: boolean;
   isCheckoutOpen: boolean;
+  isFilterMenuOpen: boolean;
+  isSearchOpen: boolean;
+  isOrdersOpen: boolean;
+  isWishlistOpen: boolean;
   selectedProduct: Product | null;
   openProductModal: (product: Product) => void;
   closeProductModal: () => void;
@@ -379,6 +1173,15 @@ interface ModalState {
   closeCart: () => void;
   openCheckout: () => void;
   closeCheckout: () => void;
+  openFilterMenu: () => void;
+  closeFilterMenu: () => void;
+  toggleFilterMenu: () => void;
+  openSearch: () => void;
+  closeSearch: () => void;
+  openOrders: () => void;
+  closeOrders: () => void;
+  openWishlist: () => void;
+  closeWishlist: () => void;
 }
 
 export const useModalStore = create<ModalState>()(
@@ -386,6 +1189,10 @@ export const useModalStore = create<ModalState>()(
     isProductModalOpen: false,
     isCartOpen: false,
     isCheckoutOpen: false,
+    isFilterMenuOpen: false,
+    isSearchOpen: false,
+    isOrdersOpen: false,
+    isWishlistOpen: false,
     selectedProduct: null,
 
     openProductModal: (product: Product) => {
@@ -426,5 +1233,66 @@ export const useModalStore = create<ModalState>()(
         state.isCheckoutOpen = false;
       });
     },
+
+    openFilterMenu: () => {
+      set((state) => {
+        state.isFilterMenuOpen = true;
+        state.isSearchOpen = false;
+      });
+    },
+
+    closeFilterMenu: () => {
+      set((state) => {
+        state.isFilterMenuOpen = false;
+      });
+    },
+
+    toggleFilterMenu: () => {
+      set((state) => {
+        state.isFilterMenuOpen = !state.isFilterMenuOpen;
+        state.isSearchOpen = false;
+      });
+    },
+
+    openSearch: () => {
+      set((state) => {
+        state.isSearchOpen = true;
+        state.isFilterMenuOpen = false;
+      });
+    },
+
+    closeSearch: () => {
+      set((state) => {
+        state.isSearchOpen = false;
+      });
+    },
+
+    openOrders: () => {
+      set((state) => {
+        state.isOrdersOpen = true;
+        state.isCartOpen = false;
+        state.isCheckoutOpen = false;
+      });
+    },
+
+    closeOrders: () => {
+      set((state) => {
+        state.isOrdersOpen = false;
+      });
+    },
+
+    openWishlist: () => {
+      set((state) => {
+        state.isWishlistOpen = true;
+        state.isCartOpen = false;
+        state.isOrdersOpen = false;
+      });
+    },
+
+    closeWishlist: () => {
+      set((state) => {
+        state.isWishlistOpen = false;
+      });
+    },
   }))
 );
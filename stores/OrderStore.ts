@@ -0,0 +1,229 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { immer } from 'zustand/middleware/immer';
+import type { CartItem, Order, OrderStatus, PaymentIntent, PriceBreakdown, ShippingInfo } from '../lib/types';
+import { getShippingCountry } from '../lib/pricing';
+import { convertPrice } from '../lib/currency';
+import { createMigrate } from '../lib/persistence';
+import { API_CONFIG } from '../lib/constants';
+import { fetchOrder, isApiError, postOrder } from '../lib/api';
+import { getCartLineId, getVariant } from '../lib/variants';
+import { useCartStore, useGalleryStore } from './MockStore';
+
+// ============================================
+// Order Store Interface
+// ============================================
+
+interface OrderStoreState {
+  /** Newest first */
+  orders: Order[];
+  /** Orders recorded locally that the backend hasn't confirmed yet */
+  unsyncedOrderIds: string[];
+
+  // Actions
+  /** Record a completed checkout. Recording the same order id twice updates it in place. */
+  recordOrder: (order: Order) => void;
+  updateOrderStatus: (orderId: string, status: OrderStatus) => void;
+  /** Refill the cart with an order's line items */
+  reorder: (orderId: string) => void;
+  clearOrders: () => void;
+  /** Send unconfirmed orders to the backend; network failures are retried on the next call */
+  syncOrders: () => Promise<void>;
+  /** Fetch an order placed on another device and add it to the history */
+  lookupOrder: (orderId: string, email: string) => Promise<Order | null>;
+
+  // Getters
+  getOrder: (orderId: string) => Order | undefined;
+}
+
+/**
+ * Snapshot the cart and payment into an order record
+ */
+export function createOrder(params: {
+  orderId: string;
+  items: CartItem[];
+  pricing: PriceBreakdown;
+  shippingInfo: ShippingInfo;
+  paymentIntent: PaymentIntent;
+  gatewayId: string;
+}): Order {
+  const { orderId, items, pricing, shippingInfo, paymentIntent, gatewayId } = params;
+
+  return {
+    id: orderId,
+    createdAt: Date.now(),
+    status: 'paid',
+    items: items.map((item) => ({
+      id: item.id,
+      productId: item.product.id,
+      variantId: item.variant?.id ?? null,
+      variantLabel: item.variant?.label ?? null,
+      name: item.product.name,
+      // Stored in the order currency, like the totals
+      unitPrice: convertPrice(item.product.price, pricing.currency, pricing.exchangeRate),
+      quantity: item.quantity,
+      product: item.product,
+    })),
+    total: paymentIntent.amount,
+    currency: paymentIntent.currency,
+    pricing,
+    shippingInfo,
+    payment: {
+      gateway: gatewayId,
+      intentId: paymentIntent.id,
+      cardLast4: paymentIntent.cardLast4,
+    },
+  };
+}
+
+// ============================================
+// Order Store Implementation
+// ============================================
+
+export const useOrderStore = create<OrderStoreState>()(
+  persist(
+    immer((set, get) => ({
+      orders: [],
+      unsyncedOrderIds: [],
+
+      recordOrder: (order: Order) => {
+        set((state) => {
+          const index = state.orders.findIndex((existing) => existing.id === order.id);
+          if (index >= 0) {
+            state.orders[index] = order;
+          } else {
+            state.orders.unshift(order);
+          }
+          if (!state.unsyncedOrderIds.includes(order.id)) {
+            state.unsyncedOrderIds.push(order.id);
+          }
+        });
+        void get().syncOrders();
+      },
+
+      updateOrderStatus: (orderId: string, status: OrderStatus) => {
+        set((state) => {
+          const order = state.orders.find((existing) => existing.id === orderId);
+          if (order) {
+            order.status = status;
+          }
+        });
+      },
+
+      reorder: (orderId: string) => {
+        const order = get().orders.find((existing) => existing.id === orderId);
+        if (!order) return;
+
+        const { products } = useGalleryStore.getState();
+        const cart = useCartStore.getState();
+
+        for (const item of order.items) {
+          // Prefer the live catalog entry so re-orders pick up current prices
+          const product = products.find((candidate) => candidate.id === item.productId) ?? item.product;
+          // Falls back to the default variant if the ordered one was discontinued
+          const variantId = getVariant(product, item.variantId)?.id ?? null;
+          const lineId = getCartLineId(product.id, variantId);
+          const existing = useCartStore.getState().items.find((line) => line.id === lineId);
+
+          if (existing) {
+            cart.updateQuantity(lineId, existing.quantity + item.quantity);
+          } else {
+            cart.addItem(product, variantId);
+            if (item.quantity > 1) {
+              cart.updateQuantity(lineId, item.quantity);
+            }
+          }
+        }
+      },
+
+      clearOrders: () => {
+        set((state) => {
+          state.orders = [];
+          state.unsyncedOrderIds = [];
+        });
+      },
+
+      syncOrders: async () => {
+        if (!API_CONFIG.syncEnabled) return;
+
+        for (const orderId of get().unsyncedOrderIds) {
+          const order = get().orders.find((existing) => existing.id === orderId);
+          try {
+            if (order) {
+              await postOrder(order);
+            }
+          } catch (error) {
+            // Keep the order queued while the API is unreachable
+            if (!isApiError(error) || error.code === 'server_error') continue;
+            // Rejected (e.g. prices changed since an old order): it stays local-only
+            console.warn(`Order ${orderId} was not accepted by the server: ${error.message}`);
+          }
+          set((state) => {
+            state.unsyncedOrderIds = state.unsyncedOrderIds.filter((id) => id !== orderId);
+          });
+        }
+      },
+
+      lookupOrder: async (orderId: string, email: string) => {
+        const order = await fetchOrder(orderId.trim(), email.trim());
+        if (order) {
+          set((state) => {
+            const index = state.orders.findIndex((existing) => existing.id === order.id);
+            if (index >= 0) {
+              state.orders[index] = order;
+            } else {
+              state.orders.unshift(order);
+              state.orders.sort((a, b) => b.createdAt - a.createdAt);
+            }
+          });
+        }
+        return order;
+      },
+
+      getOrder: (orderId: string) => {
+        return get().orders.find((order) => order.id === orderId);
+      },
+    })),
+    {
+      name: 'virtual-studio-orders',
+      version: 4,
+      migrate: createMigrate<OrderStoreState>({
+        2: (persistedState) => {
+          // v1 orders predate shipping and tax, so the charged total was all merchandise
+          const state = persistedState as { orders: Order[] };
+          state.orders = state.orders.map((order) => ({
+            ...order,
+            pricing: {
+              currency: order.currency,
+              exchangeRate: 1,
+              subtotal: order.total,
+              discount: 0,
+              shipping: 0,
+              tax: 0,
+              total: order.total,
+              itemCount: order.items.reduce((total, item) => total + item.quantity, 0),
+              country: getShippingCountry(order.shippingInfo.country),
+              promo: null,
+            },
+          }));
+          return state;
+        },
+        3: (persistedState) => {
+          // v2 breakdowns predate multi-currency and were always in the base currency
+          const state = persistedState as { orders: Order[] };
+          state.orders = state.orders.map((order) => ({
+            ...order,
+            pricing: { ...order.pricing, currency: order.currency, exchangeRate: 1 },
+          }));
+          return state;
+        },
+        4: (persistedState) => {
+          // Orders placed before the backend existed stay local-only
+          const state = persistedState as { orders: Order[]; unsyncedOrderIds: string[] };
+          state.unsyncedOrderIds = [];
+          return state;
+        },
+      }),
+    }
+  )
+);
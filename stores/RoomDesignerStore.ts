@@ -0,0 +1,389 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { immer } from 'zustand/middleware/immer';
+import type { Product, VRRoomTemplate } from '../lib/types';
+import { ROOM_DESIGNER_CONFIG } from '../lib/constants';
+import {
+  canPlaceItem,
+  clampToRoom,
+  createPlacedItemId,
+  findFreePose,
+  fitItemsToRoom,
+  getDesignRoom,
+  resolveDesignItems,
+} from '../lib/roomDesigner';
+import type { DesignItem, DesignRoom, ItemPose, PlacedItem, RoomDesign } from '../lib/roomDesigner';
+import { useGalleryStore } from './MockStore';
+import { useCustomRoomStore } from './CustomRoomStore';
+
+// ============================================
+// Room Designer Store Interface
+// ============================================
+
+interface DesignSnapshot {
+  templateId: VRRoomTemplate;
+  items: PlacedItem[];
+}
+
+interface RoomDesignerStoreState extends DesignSnapshot {
+  isOpen: boolean;
+  /** Saved design being edited, or null until the design is first saved */
+  designId: string | null;
+  designName: string;
+  /** Changes since the design was last saved or loaded */
+  isDirty: boolean;
+  /** Newest first */
+  savedDesigns: RoomDesign[];
+  selectedItemId: string | null;
+  /** A drag or slider is in progress; it's recorded as one undo step */
+  isTransforming: boolean;
+  past: DesignSnapshot[];
+  future: DesignSnapshot[];
+
+  // Actions
+  openDesigner: () => void;
+  closeDesigner: () => void;
+  setTemplate: (templateId: VRRoomTemplate) => void;
+  /** Re-fit the design after its room changed shape, e.g. a custom room was edited */
+  fitToRoom: () => void;
+  /** Place a product in the nearest free spot; returns the new item's id, or null when there's no room */
+  placeProduct: (product: Product, variantId?: string | null) => string | null;
+  removeItem: (itemId: string) => void;
+  selectItem: (itemId: string | null) => void;
+  /** Move an item; returns false (and leaves it) where it would overlap another item or leave the room */
+  moveItem: (itemId: string, pose: ItemPose) => boolean;
+  rotateItem: (itemId: string, angle: number) => boolean;
+  setItemScale: (itemId: string, scale: number) => boolean;
+  beginTransform: () => void;
+  endTransform: () => void;
+  undo: () => void;
+  redo: () => void;
+  /** Start an empty design in the current room */
+  newDesign: () => void;
+  /** Save over the current design, or as a new one when `asNew` or not yet saved; returns its id */
+  saveDesign: (name: string, asNew?: boolean) => string;
+  loadDesign: (designId: string) => void;
+  deleteDesign: (designId: string) => void;
+
+  // Getters
+  /** Placed items with their catalog products; items no longer in the catalog are left out */
+  getDesignItems: () => DesignItem[];
+  getSelectedItem: () => DesignItem | undefined;
+}
+
+const DEFAULT_DESIGN_NAME = 'Untitled room';
+
+function getCatalog(): Product[] {
+  return useGalleryStore.getState().products;
+}
+
+// Custom rooms follow the room picked in the custom room editor
+function getRoom(templateId: VRRoomTemplate): DesignRoom {
+  return getDesignRoom(useCustomRoomStore.getState().getRoomLayout(templateId));
+}
+
+/**
+ * The design's items fitted to its room as it is now, or null when they
+ * already fit
+ */
+function getRefittedItems(items: PlacedItem[], templateId: VRRoomTemplate): PlacedItem[] | null {
+  const fitted = fitItemsToRoom(items, getCatalog(), getRoom(templateId));
+  return JSON.stringify(fitted) === JSON.stringify(items) ? null : fitted;
+}
+
+/**
+ * Record the current design for undo, unless it's mid-drag (the drag was
+ * recorded when it began)
+ */
+function recordHistory(state: RoomDesignerStoreState) {
+  if (state.isTransforming) return;
+  state.past.push({ templateId: state.templateId, items: state.items });
+  if (state.past.length > ROOM_DESIGNER_CONFIG.historySteps) {
+    state.past.shift();
+  }
+  state.future = [];
+}
+
+function resetDesign(state: RoomDesignerStoreState, design: DesignSnapshot & { id: string | null; name: string }) {
+  state.designId = design.id;
+  state.designName = design.name;
+  state.templateId = design.templateId;
+  state.items = design.items;
+  state.isDirty = false;
+  state.selectedItemId = null;
+  state.isTransforming = false;
+  state.past = [];
+  state.future = [];
+}
+
+// ============================================
+// Room Designer Store Implementation
+// ============================================
+
+export const useRoomDesignerStore = create<RoomDesignerStoreState>()(
+  persist(
+    immer((set, get) => {
+      /**
+       * Swap one item for a changed copy if it still fits the room and
+       * clears the other items
+       */
+      const updateItem = (itemId: string, change: (designItem: DesignItem) => PlacedItem) => {
+        const designItems = get().getDesignItems();
+        const designItem = designItems.find(({ item }) => item.id === itemId);
+        if (!designItem) return false;
+
+        const updated = change(designItem);
+        if (!canPlaceItem({ item: updated, product: designItem.product }, designItems, getRoom(get().templateId))) {
+          return false;
+        }
+        set((state) => {
+          const index = state.items.findIndex((item) => item.id === itemId);
+          if (index < 0) return;
+          recordHistory(state);
+          state.items[index] = updated;
+          state.isDirty = true;
+        });
+        return true;
+      };
+
+      return {
+        // Initial state
+        isOpen: false,
+        templateId: ROOM_DESIGNER_CONFIG.defaultRoomTemplate,
+        items: [],
+        designId: null,
+        designName: DEFAULT_DESIGN_NAME,
+        isDirty: false,
+        savedDesigns: [],
+        selectedItemId: null,
+        isTransforming: false,
+        past: [],
+        future: [],
+
+        // A custom room may have been edited since the last visit
+        openDesigner: () => {
+          const refitted = getRefittedItems(get().items, get().templateId);
+          set((state) => {
+            state.isOpen = true;
+            if (refitted) {
+              state.items = refitted;
+              state.isDirty = true;
+            }
+          });
+        },
+
+        closeDesigner: () => {
+          set((state) => {
+            state.isOpen = false;
+            state.selectedItemId = null;
+            state.isTransforming = false;
+          });
+        },
+
+        // Switch rooms, moving items that no longer fit
+        setTemplate: (templateId: VRRoomTemplate) => {
+          if (templateId === get().templateId) return;
+          const items = fitItemsToRoom(get().items, getCatalog(), getRoom(templateId));
+          set((state) => {
+            recordHistory(state);
+            state.templateId = templateId;
+            state.items = items;
+            state.isDirty = true;
+          });
+        },
+
+        fitToRoom: () => {
+          const refitted = getRefittedItems(get().items, get().templateId);
+          if (!refitted) return;
+          set((state) => {
+            recordHistory(state);
+            state.items = refitted;
+            state.isDirty = true;
+          });
+        },
+
+        // Wall products hang on a wall, floor products stand on the floor
+        placeProduct: (product: Product, variantId?: string | null) => {
+          const { items, templateId } = get();
+          if (items.length >= ROOM_DESIGNER_CONFIG.maxItems) return null;
+
+          const pose = findFreePose(product, 1, getRoom(templateId), get().getDesignItems());
+          if (!pose) return null;
+
+          const id = createPlacedItemId();
+          set((state) => {
+            recordHistory(state);
+            state.items.push({
+              id,
+              productId: product.id,
+              variantId: variantId ?? useGalleryStore.getState().selectedVariants[product.id] ?? null,
+              scale: 1,
+              ...pose,
+            });
+            state.selectedItemId = id;
+            state.isDirty = true;
+          });
+          return id;
+        },
+
+        removeItem: (itemId: string) => {
+          set((state) => {
+            if (!state.items.some((item) => item.id === itemId)) return;
+            recordHistory(state);
+            state.items = state.items.filter((item) => item.id !== itemId);
+            if (state.selectedItemId === itemId) {
+              state.selectedItemId = null;
+            }
+            state.isDirty = true;
+          });
+        },
+
+        selectItem: (itemId: string | null) => {
+          set((state) => {
+            state.selectedItemId = itemId;
+          });
+        },
+
+        moveItem: (itemId: string, pose: ItemPose) => {
+          return updateItem(itemId, ({ item }) => ({ ...item, ...pose }));
+        },
+
+        // Floor items turn in place, slid back inside the walls if needed
+        rotateItem: (itemId: string, angle: number) => {
+          if (get().items.find((item) => item.id === itemId)?.wall) return false;
+          return updateItem(itemId, ({ item, product }) => {
+            const rotationY = (item.rotationY + angle) % (Math.PI * 2);
+            return clampToRoom({ item: { ...item, rotationY }, product }, getRoom(get().templateId));
+          });
+        },
+
+        setItemScale: (itemId: string, scale: number) => {
+          const { minScale, maxScale } = ROOM_DESIGNER_CONFIG;
+          const clamped = Math.min(Math.max(scale, minScale), maxScale);
+          return updateItem(itemId, ({ item, product }) =>
+            clampToRoom({ item: { ...item, scale: clamped }, product }, getRoom(get().templateId))
+          );
+        },
+
+        // Record the design before a drag or slider so undo reverts it in one step
+        beginTransform: () => {
+          set((state) => {
+            recordHistory(state);
+            state.isTransforming = true;
+          });
+        },
+
+        endTransform: () => {
+          set((state) => {
+            state.isTransforming = false;
+          });
+        },
+
+        undo: () => {
+          set((state) => {
+            const previous = state.past.pop();
+            if (!previous) return;
+            state.future.push({ templateId: state.templateId, items: state.items });
+            state.templateId = previous.templateId;
+            state.items = previous.items;
+            if (!state.items.some((item) => item.id === state.selectedItemId)) {
+              state.selectedItemId = null;
+            }
+            state.isDirty = true;
+          });
+        },
+
+        redo: () => {
+          set((state) => {
+            const next = state.future.pop();
+            if (!next) return;
+            state.past.push({ templateId: state.templateId, items: state.items });
+            state.templateId = next.templateId;
+            state.items = next.items;
+            if (!state.items.some((item) => item.id === state.selectedItemId)) {
+              state.selectedItemId = null;
+            }
+            state.isDirty = true;
+          });
+        },
+
+        newDesign: () => {
+          set((state) => {
+            resetDesign(state, { id: null, name: DEFAULT_DESIGN_NAME, templateId: state.templateId, items: [] });
+          });
+        },
+
+        saveDesign: (name: string, asNew = false) => {
+          const { designId, savedDesigns } = get();
+          const existing = asNew ? undefined : savedDesigns.find((design) => design.id === designId);
+          const id = existing?.id ?? createPlacedItemId();
+          const now = Date.now();
+
+          set((state) => {
+            const design: RoomDesign = {
+              id,
+              name: name.trim() || DEFAULT_DESIGN_NAME,
+              templateId: state.templateId,
+              items: state.items,
+              createdAt: existing?.createdAt ?? now,
+              updatedAt: now,
+            };
+            const others = state.savedDesigns.filter((saved) => saved.id !== id);
+            state.savedDesigns = [design, ...others].slice(0, ROOM_DESIGNER_CONFIG.maxSavedDesigns);
+            state.designId = id;
+            state.designName = design.name;
+            state.isDirty = false;
+          });
+          return id;
+        },
+
+        // Its room may have been edited or switched since it was saved
+        loadDesign: (designId: string) => {
+          const design = get().savedDesigns.find((saved) => saved.id === designId);
+          if (!design) return;
+          const refitted = getRefittedItems(design.items, design.templateId);
+          set((state) => {
+            resetDesign(state, design);
+            if (refitted) {
+              state.items = refitted;
+              state.isDirty = true;
+            }
+          });
+        },
+
+        // The open design keeps its items and can be saved again as new
+        deleteDesign: (designId: string) => {
+          set((state) => {
+            state.savedDesigns = state.savedDesigns.filter((design) => design.id !== designId);
+            if (state.designId === designId) {
+              state.designId = null;
+              state.isDirty = true;
+            }
+          });
+        },
+
+        getDesignItems: () => resolveDesignItems(get().items, getCatalog()),
+
+        getSelectedItem: () => {
+          const { selectedItemId } = get();
+          return get()
+            .getDesignItems()
+            .find(({ item }) => item.id === selectedItemId);
+        },
+      };
+    }),
+    {
+      name: 'virtual-studio-room-designs',
+      version: 1,
+      // The design in progress and saved designs; selection and history are per visit
+      partialize: (state) => ({
+        templateId: state.templateId,
+        items: state.items,
+        designId: state.designId,
+        designName: state.designName,
+        isDirty: state.isDirty,
+        savedDesigns: state.savedDesigns,
+      }),
+    }
+  )
+);
@@ -1,23 +1,91 @@
 import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
-import type { Product, XRPreviewMode, VRRoomTemplate, XRPreviewState } from '../lib/types';
+import type { MeasurementSystem, Product, XRPreviewMode, VRRoomTemplate, XRPreviewState } from '../lib/types';
 import { XR_PREVIEW_CONFIG, VR_ROOM_TEMPLATES } from '../lib/constants';
+import type { ARPlacement } from '../lib/arPlacement';
+import type { RoomModel } from '../lib/roomModel';
+import { applyProductAdjustmentChange, DEFAULT_PRODUCT_ADJUSTMENT } from '../lib/xrManipulation';
+import type { ProductAdjustmentChange } from '../lib/xrManipulation';
+import { createStagedProduct } from '../lib/xrStaging';
+import type { StagedProduct } from '../lib/xrStaging';
+import { getPlacementRule } from '../lib/productTypes';
+import type { PlacementSurface } from '../lib/productTypes';
+import { useCartStore, useGalleryStore } from './MockStore';
 
 // ============================================
 // XR Preview Store Interface
 // ============================================
 
 interface XRPreviewStoreState extends XRPreviewState {
+  /** Products in the preview, in the order they were staged; never empty while active */
+  stagedProducts: StagedProduct[];
+  /** Surface under the AR reticle, or null while nothing is detected */
+  arTargetSurface: PlacementSurface | null;
+  /** Floor, walls and furniture detected in the AR session, or null without plane detection */
+  arRoom: RoomModel | null;
+  /** Draw the detected room surfaces over the camera feed */
+  showRoomScan: boolean;
+  /** A gesture or grab is in progress, so selects shouldn't re-place the product */
+  isManipulating: boolean;
+
   // Actions
   startARPreview: (product: Product) => void;
   startVRPreview: (product: Product) => void;
   exitPreview: () => void;
+  showProduct: (product: Product) => void;
+  /** Add a product to the preview and make it active; returns false when staging is full */
+  stageProduct: (product: Product, variantId?: string | null) => boolean;
+  /** Take a product out of the preview; the last one stays */
+  unstageProduct: (productId: string) => void;
+  /** Choose the staged product that placement, gestures and grabs act on */
+  setActiveProduct: (productId: string) => void;
+  /** Add one of each staged product to the cart; returns how many were added */
+  addStagedToCart: () => number;
   setVRRoomTemplate: (template: VRRoomTemplate) => void;
   toggleHeadTracking: () => void;
-  
+  toggleTrueScale: () => void;
+  toggleDimensions: () => void;
+  setMeasurementSystem: (system: MeasurementSystem) => void;
+  setARPlacement: (productId: string, placement: ARPlacement | null) => void;
+  restoreARPlacement: (productId: string, placement: ARPlacement, scale: number) => void;
+  setARTargetSurface: (surface: PlacementSurface | null) => void;
+  adjustProduct: (
+    productId: string,
+    change: ProductAdjustmentChange,
+    surface: PlacementSurface,
+    placementRotationY: number
+  ) => void;
+  resetProductAdjustment: (productId: string) => void;
+  setManipulating: (isManipulating: boolean) => void;
+  setARRoom: (room: RoomModel | null) => void;
+  toggleRoomScan: () => void;
+
   // Getters
   getActiveMode: () => XRPreviewMode | null;
   isPreviewActive: () => boolean;
+  /** The staged entry for `selectedProduct` */
+  getActiveStagedProduct: () => StagedProduct | undefined;
+  isStaged: (productId: string) => boolean;
+}
+
+/**
+ * Variant the gallery has selected for a product, staged along with it
+ */
+function getSelectedVariantId(productId: string): string | null {
+  return useGalleryStore.getState().selectedVariants[productId] ?? null;
+}
+
+/**
+ * Start a preview session showing one product
+ */
+function beginPreview(state: XRPreviewStoreState, mode: XRPreviewMode, product: Product) {
+  state.isActive = true;
+  state.mode = mode;
+  state.selectedProduct = product;
+  state.stagedProducts = [createStagedProduct(product, getSelectedVariantId(product.id))];
+  state.arTargetSurface = null;
+  state.isManipulating = false;
+  state.arRoom = null;
 }
 
 // ============================================
@@ -32,22 +100,26 @@ export const useXRPreviewStore = create<XRPreviewStoreState>()(
     selectedProduct: null,
     vrRoomTemplate: XR_PREVIEW_CONFIG.vr.defaultRoomTemplate,
     isHeadTrackingEnabled: XR_PREVIEW_CONFIG.vr.headTrackingEnabled,
+    isTrueScale: XR_PREVIEW_CONFIG.trueScale,
+    showDimensions: false,
+    measurementSystem: null,
+    stagedProducts: [],
+    arTargetSurface: null,
+    arRoom: null,
+    showRoomScan: true,
+    isManipulating: false,
 
     // Start AR Preview - transparent background mode
     startARPreview: (product: Product) => {
       set((state) => {
-        state.isActive = true;
-        state.mode = 'ar';
-        state.selectedProduct = product;
+        beginPreview(state, 'ar', product);
       });
     },
 
     // Start VR Preview - virtual room environment mode
     startVRPreview: (product: Product) => {
       set((state) => {
-        state.isActive = true;
-        state.mode = 'vr';
-        state.selectedProduct = product;
+        beginPreview(state, 'vr', product);
       });
     },
 
@@ -57,13 +129,94 @@ export const useXRPreviewStore = create<XRPreviewStoreState>()(
         state.isActive = false;
         state.mode = null;
         state.selectedProduct = null;
+        state.stagedProducts = [];
+        state.arTargetSurface = null;
+        state.isManipulating = false;
+        state.arRoom = null;
+      });
+    },
+
+    // Swap the active product for another without leaving the session. An
+    // AR spot is kept when the new product goes on the same kind of surface.
+    // A product that's already staged just becomes the active one.
+    showProduct: (product: Product) => {
+      if (get().isStaged(product.id) && product.id !== get().selectedProduct?.id) {
+        get().setActiveProduct(product.id);
+        return;
+      }
+      set((state) => {
+        const index = state.stagedProducts.findIndex((item) => item.product.id === state.selectedProduct?.id);
+        if (index < 0) return;
+        const staged = state.stagedProducts[index];
+        const placement =
+          staged.placement && staged.placement.surface === getPlacementRule(product).surface ? staged.placement : null;
+
+        state.selectedProduct = product;
+        state.stagedProducts[index] = {
+          ...createStagedProduct(product, getSelectedVariantId(product.id)),
+          placement,
+        };
+      });
+    },
+
+    // Stage another product next to the others; it's placed on its own
+    stageProduct: (product: Product, variantId?: string | null) => {
+      if (get().isStaged(product.id)) {
+        get().setActiveProduct(product.id);
+        return true;
+      }
+      if (get().stagedProducts.length >= XR_PREVIEW_CONFIG.staging.maxProducts) {
+        return false;
+      }
+      set((state) => {
+        state.stagedProducts.push(createStagedProduct(product, variantId ?? getSelectedVariantId(product.id)));
+        state.selectedProduct = product;
       });
+      return true;
     },
 
-    // Set VR room template
+    // Remove a staged product; the most recently staged one left becomes active
+    unstageProduct: (productId: string) => {
+      set((state) => {
+        if (state.stagedProducts.length <= 1) return;
+        state.stagedProducts = state.stagedProducts.filter((item) => item.product.id !== productId);
+        if (state.selectedProduct?.id === productId) {
+          state.selectedProduct = state.stagedProducts[state.stagedProducts.length - 1].product;
+          state.arTargetSurface = null;
+        }
+      });
+    },
+
+    setActiveProduct: (productId: string) => {
+      set((state) => {
+        const staged = state.stagedProducts.find((item) => item.product.id === productId);
+        if (!staged || staged.product.id === state.selectedProduct?.id) return;
+        state.selectedProduct = staged.product;
+        state.arTargetSurface = null;
+      });
+    },
+
+    // Cart lines use catalog products; the staged ones have their variant applied
+    addStagedToCart: () => {
+      const { products } = useGalleryStore.getState();
+      const { addItem } = useCartStore.getState();
+      let added = 0;
+      for (const { product, variantId } of get().stagedProducts) {
+        const catalogProduct = products.find((item) => item.id === product.id);
+        if (catalogProduct && addItem(catalogProduct, variantId)) {
+          added += 1;
+        }
+      }
+      return added;
+    },
+
+    // Set VR room template; moves made in the old room may not fit the new one
     setVRRoomTemplate: (template: VRRoomTemplate) => {
       set((state) => {
         state.vrRoomTemplate = template;
+        for (const item of state.stagedProducts) {
+          item.adjustment = DEFAULT_PRODUCT_ADJUSTMENT;
+        }
       });
     },
 
@@ -74,10 +227,115 @@ export const useXRPreviewStore = create<XRPreviewStoreState>()(
       });
     },
 
+    // Switch 3D models between catalog dimensions and normalized size
+    toggleTrueScale: () => {
+      set((state) => {
+        state.isTrueScale = !state.isTrueScale;
+      });
+    },
+
+    // Show or hide the measurement lines around the product
+    toggleDimensions: () => {
+      set((state) => {
+        state.showDimensions = !state.showDimensions;
+      });
+    },
+
+    // Override the locale's units for measurements
+    setMeasurementSystem: (system: MeasurementSystem) => {
+      set((state) => {
+        state.measurementSystem = system;
+      });
+    },
+
+    // Record where a staged product was placed in AR (null to pick a new spot).
+    // A new spot replaces any drag; the shopper's turn and scale carry over.
+    setARPlacement: (productId: string, placement: ARPlacement | null) => {
+      set((state) => {
+        const staged = state.stagedProducts.find((item) => item.product.id === productId);
+        if (!staged) return;
+        staged.placement = placement;
+        staged.adjustment.offset = [0, 0, 0];
+      });
+    },
+
+    // Put a product back where a saved anchor says it was, at its saved scale
+    restoreARPlacement: (productId: string, placement: ARPlacement, scale: number) => {
+      set((state) => {
+        const staged = state.stagedProducts.find((item) => item.product.id === productId);
+        if (!staged) return;
+        staged.placement = placement;
+        staged.adjustment = { ...DEFAULT_PRODUCT_ADJUSTMENT, scale };
+      });
+    },
+
+    // Track which surface the AR reticle is on
+    setARTargetSurface: (surface: PlacementSurface | null) => {
+      set((state) => {
+        state.arTargetSurface = surface;
+      });
+    },
+
+    // Apply one step of a touch gesture or controller grab
+    adjustProduct: (
+      productId: string,
+      change: ProductAdjustmentChange,
+      surface: PlacementSurface,
+      placementRotationY: number
+    ) => {
+      const current = get().stagedProducts.find((item) => item.product.id === productId);
+      if (!current) return;
+      const adjustment = applyProductAdjustmentChange(current.adjustment, change, surface, placementRotationY);
+      set((state) => {
+        const staged = state.stagedProducts.find((item) => item.product.id === productId);
+        if (staged) {
+          staged.adjustment = adjustment;
+        }
+      });
+    },
+
+    // Put a product back the way it was placed
+    resetProductAdjustment: (productId: string) => {
+      set((state) => {
+        const staged = state.stagedProducts.find((item) => item.product.id === productId);
+        if (staged) {
+          staged.adjustment = DEFAULT_PRODUCT_ADJUSTMENT;
+        }
+      });
+    },
+
+    // Flag gestures so the select that ends one doesn't re-place the product
+    setManipulating: (isManipulating: boolean) => {
+      set((state) => {
+        state.isManipulating = isManipulating;
+      });
+    },
+
+    // Replace the room model when detected planes change
+    setARRoom: (room: RoomModel | null) => {
+      set((state) => {
+        state.arRoom = room;
+      });
+    },
+
+    // Show or hide the detected room surfaces
+    toggleRoomScan: () => {
+      set((state) => {
+        state.showRoomScan = !state.showRoomScan;
+      });
+    },
+
     // Get currently active mode
     getActiveMode: () => get().mode,
 
     // Check if any preview is active
     isPreviewActive: () => get().isActive,
+
+    getActiveStagedProduct: () => {
+      const { stagedProducts, selectedProduct } = get();
+      return stagedProducts.find((item) => item.product.id === selectedProduct?.id);
+    },
+
+    isStaged: (productId: string) => get().stagedProducts.some((item) => item.product.id === productId),
   }))
 );
@@ -1,3 +1,8 @@
 export { useGalleryStore, useCartStore, useAudioStore, useWishlistStore, useCheckoutStore, useModalStore } from './MockStore';
+export { useOrderStore, createOrder } from './OrderStore';
+export { useLocaleStore } from './LocaleStore';
 export { useXRPreviewStore } from './XRPreviewStore';
+export { useARAnchorStore } from './ARAnchorStore';
+export { useRoomDesignerStore } from './RoomDesignerStore';
+export { useCustomRoomStore } from './CustomRoomStore';
 export { useDeviceCapabilitiesStore } from './DeviceCapabilitiesStore';